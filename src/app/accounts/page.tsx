@@ -0,0 +1,957 @@
+"use client";
+
+/*
+  Corporate Accounts Page
+  -----------------------
+  This page manages fleet and corporate clients that wash on account. It allows managers to:
+    - Add accounts with contact details, credit limit, payment terms and authorized plates
+    - Watch each account's balance against its credit limit
+    - Review the aging of unpaid balances across all accounts
+    - Generate a monthly statement of account (print or save as PDF)
+    - Record payments received against an account
+  Charges come from POS orders paid with "Charge to Account"; payments settle the
+  oldest charges first.
+  Only accessible to managers.
+*/
+
+import { useEffect, useState } from "react";
+import { format, startOfMonth, endOfMonth } from "date-fns";
+import {
+  LuBuilding2,
+  LuPlus,
+  LuPencil,
+  LuPrinter,
+  LuWallet,
+  LuX,
+} from "react-icons/lu";
+import { toast } from "react-toastify";
+import ProtectedRoute from "@/components/ProtectedRoute"; // Restricts access to authenticated users
+import ManagerOnlyRoute from "@/components/ManagerOnlyRoute"; // Restricts access to managers
+import Spinner from "@/components/Spinner"; // Loading spinner for async data
+import Card from "@/components/ui/Card"; // UI card wrapper
+import { api } from "@/lib/api"; // Typed backend client
+import type {
+  AccountCharge,
+  AccountPayment,
+  CorporateAccount,
+  CorporateAccountPayload,
+} from "@/lib/apiTypes"; // Shared response types
+import {
+  AGING_BUCKETS,
+  AgingBucket,
+  agingSummary,
+  availableCredit,
+  buildStatement,
+  normalizeAccount,
+  openCharges,
+  parsePlates,
+  statementLines,
+} from "@/lib/corporateAccounts"; // Credit, statements and aging
+import { printElementById } from "@/utils/print"; // Utility for printing DOM elements
+
+// Ways a corporate client settles its statement
+const PAYMENT_METHODS = ["Bank Transfer", "Check", "Cash", "GCash"];
+
+function formatPeso(amount: number): string {
+  return `₱${amount.toLocaleString("en-PH", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+}
+
+function formatDate(date: string | Date): string {
+  return format(new Date(date), "MMM dd, yyyy");
+}
+
+// --------------------
+// Account Modal
+// --------------------
+interface AccountModalProps {
+  account: CorporateAccount | null;
+  onClose: () => void;
+  onSave: () => void;
+}
+
+function AccountModal({ account, onClose, onSave }: AccountModalProps) {
+  const [name, setName] = useState(account?.name ?? "");
+  const [contactName, setContactName] = useState(account?.contact_name ?? "");
+  const [contactPhone, setContactPhone] = useState(
+    account?.contact_phone ?? ""
+  );
+  const [email, setEmail] = useState(account?.email ?? "");
+  const [billingAddress, setBillingAddress] = useState(
+    account?.billing_address ?? ""
+  );
+  const [creditLimit, setCreditLimit] = useState(
+    account ? String(Number(account.credit_limit)) : ""
+  );
+  const [termsDays, setTermsDays] = useState(
+    String(account?.payment_terms_days ?? 30)
+  );
+  const [plates, setPlates] = useState(account?.plates.join("\n") ?? "");
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const limit = parseFloat(creditLimit);
+    const terms = parseInt(termsDays, 10);
+    if (!name.trim()) {
+      toast.error("Account name is required");
+      return;
+    }
+    if (isNaN(limit) || limit < 0) {
+      toast.error("Invalid credit limit");
+      return;
+    }
+    if (isNaN(terms) || terms < 0) {
+      toast.error("Invalid payment terms");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const payload: CorporateAccountPayload = {
+        name: name.trim(),
+        contact_name: contactName.trim() || null,
+        contact_phone: contactPhone.trim() || null,
+        email: email.trim() || null,
+        billing_address: billingAddress.trim() || null,
+        credit_limit: limit,
+        payment_terms_days: terms,
+        plates: parsePlates(plates),
+      };
+      if (account) await api.corporateAccounts.update(account.id, payload);
+      else await api.corporateAccounts.create({ ...payload, is_active: true });
+
+      toast.success(`Account ${account ? "updated" : "created"} successfully`);
+      onSave();
+      onClose();
+    } catch (err) {
+      console.error(err);
+      toast.error(err instanceof Error ? err.message : "Could not save account");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 backdrop-blur-sm bg-black/30 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg shadow-lg w-full max-w-md max-h-[95vh] overflow-y-auto">
+        <h3 className="text-xl font-bold mb-4">
+          {account ? "Edit Corporate Account" : "Add Corporate Account"}
+        </h3>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Company Name *
+            </label>
+            <input
+              className="w-full border border-gray-300 rounded-lg p-2"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+              placeholder="e.g. Speedy Deliveries Inc."
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Contact Person
+              </label>
+              <input
+                className="w-full border border-gray-300 rounded-lg p-2"
+                value={contactName}
+                onChange={(e) => setContactName(e.target.value)}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Contact Phone
+              </label>
+              <input
+                className="w-full border border-gray-300 rounded-lg p-2"
+                value={contactPhone}
+                onChange={(e) => setContactPhone(e.target.value)}
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Billing Email
+            </label>
+            <input
+              type="email"
+              className="w-full border border-gray-300 rounded-lg p-2"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Billing Address
+            </label>
+            <textarea
+              className="w-full border border-gray-300 rounded-lg p-2"
+              rows={2}
+              value={billingAddress}
+              onChange={(e) => setBillingAddress(e.target.value)}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Credit Limit (₱) *
+              </label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                className="w-full border border-gray-300 rounded-lg p-2"
+                value={creditLimit}
+                onChange={(e) => setCreditLimit(e.target.value)}
+                required
+                placeholder="0.00"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Payment Terms (days) *
+              </label>
+              <input
+                type="number"
+                min="0"
+                className="w-full border border-gray-300 rounded-lg p-2"
+                value={termsDays}
+                onChange={(e) => setTermsDays(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Authorized Plates
+            </label>
+            <textarea
+              className="w-full border border-gray-300 rounded-lg p-2 font-mono uppercase"
+              rows={4}
+              value={plates}
+              onChange={(e) => setPlates(e.target.value)}
+              placeholder={"ABC 1234\nXYZ 5678"}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              One per line or comma separated. Only these vehicles can charge
+              carwash orders to the account.
+            </p>
+          </div>
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg border border-gray-200 hover:bg-gray-50"
+              disabled={saving}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 rounded-lg bg-amber-800 text-white hover:bg-amber-700 flex items-center"
+              disabled={saving}
+            >
+              {saving ? (
+                <Spinner size="sm" thickness={2} />
+              ) : account ? (
+                "Save"
+              ) : (
+                "Add Account"
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+// --------------------
+// Record Payment Modal
+// --------------------
+interface RecordPaymentModalProps {
+  account: CorporateAccount;
+  onClose: () => void;
+  onSave: () => void;
+}
+
+function RecordPaymentModal({
+  account,
+  onClose,
+  onSave,
+}: RecordPaymentModalProps) {
+  const [amount, setAmount] = useState("");
+  const [method, setMethod] = useState(PAYMENT_METHODS[0]);
+  const [reference, setReference] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amountNum = parseFloat(amount);
+    if (isNaN(amountNum) || amountNum <= 0) {
+      toast.error("Please enter an amount");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await api.corporateAccounts.recordPayment(account.id, {
+        amount: amountNum,
+        method,
+        reference: reference.trim() || null,
+      });
+      toast.success(`Payment of ${formatPeso(amountNum)} recorded`);
+      onSave();
+      onClose();
+    } catch (err) {
+      console.error(err);
+      toast.error(
+        err instanceof Error ? err.message : "Could not record payment"
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 backdrop-blur-sm bg-black/30 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg shadow-lg w-full max-w-md">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-bold">Record Payment</h3>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-800"
+          >
+            <LuX size={24} />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          {account.name} · balance {formatPeso(Number(account.balance))}
+        </p>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Amount (₱) *
+            </label>
+            <input
+              type="number"
+              step="0.01"
+              min="0.01"
+              className="w-full border border-gray-300 rounded-lg p-2"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              required
+              placeholder="0.00"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Method
+            </label>
+            <select
+              className="w-full border border-gray-300 rounded-lg p-2 bg-white"
+              value={method}
+              onChange={(e) => setMethod(e.target.value)}
+            >
+              {PAYMENT_METHODS.map((m) => (
+                <option key={m} value={m}>
+                  {m}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Reference
+            </label>
+            <input
+              className="w-full border border-gray-300 rounded-lg p-2"
+              value={reference}
+              onChange={(e) => setReference(e.target.value)}
+              placeholder="Check no. or transfer reference"
+            />
+          </div>
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg border border-gray-200 hover:bg-gray-50"
+              disabled={saving}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 rounded-lg bg-amber-800 text-white hover:bg-amber-700 flex items-center"
+              disabled={saving}
+            >
+              {saving ? <Spinner size="sm" thickness={2} /> : "Record Payment"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+// --------------------
+// Statement of Account
+// --------------------
+interface StatementPanelProps {
+  account: CorporateAccount;
+  onClose: () => void;
+  onPaymentRecorded: () => void;
+}
+
+function StatementPanel({
+  account,
+  onClose,
+  onPaymentRecorded,
+}: StatementPanelProps) {
+  const [month, setMonth] = useState(() => format(new Date(), "yyyy-MM"));
+  // Bumped after a payment so the statement reloads
+  const [reloads, setReloads] = useState(0);
+  // Ledger of the last loaded month; loading until it matches the month
+  const [ledger, setLedger] = useState<{
+    key: string;
+    charges: AccountCharge[];
+    payments: AccountPayment[];
+  } | null>(null);
+  const [isPaymentModalOpen, setIsPaymentModalOpen] = useState(false);
+
+  const from = month ? startOfMonth(new Date(`${month}-01T00:00:00`)) : null;
+  const to = from ? endOfMonth(from) : null;
+  const ledgerKey = to ? `${account.id}|${to.toISOString()}|${reloads}` : null;
+
+  useEffect(() => {
+    if (!ledgerKey) return;
+    const [id, end] = ledgerKey.split("|");
+    Promise.all([
+      api.corporateAccounts.charges(Number(id), { to: end }),
+      api.corporateAccounts.payments(Number(id), { to: end }),
+    ])
+      .then(([charges, payments]) =>
+        setLedger({ key: ledgerKey, charges, payments })
+      )
+      .catch((err) => {
+        console.error("Failed to load account ledger:", err);
+        toast.error("Could not load the statement");
+        setLedger({ key: ledgerKey, charges: [], payments: [] });
+      });
+  }, [ledgerKey]);
+
+  const loading = ledgerKey !== null && ledger?.key !== ledgerKey;
+  const statement =
+    from && to && ledger && !loading
+      ? buildStatement(account, ledger.charges, ledger.payments, from, to)
+      : null;
+  const lines = statement ? statementLines(statement) : [];
+
+  const handlePrint = () => {
+    printElementById("account-statement", {
+      title: `Statement of Account - ${account.name} - ${month}`,
+      pageWidthMm: 210,
+    });
+  };
+
+  return (
+    <Card
+      title={`Statement · ${account.name}`}
+      subtitle="Monthly statement of charges, payments and aging"
+      headerRight={
+        <div className="flex items-center gap-2">
+          <input
+            type="month"
+            className="border border-gray-300 rounded-lg p-2 text-sm"
+            value={month}
+            onChange={(e) => setMonth(e.target.value)}
+          />
+          <button
+            onClick={() => setIsPaymentModalOpen(true)}
+            className="flex items-center gap-2 bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors text-sm"
+          >
+            <LuWallet size={16} />
+            Record Payment
+          </button>
+          <button
+            onClick={handlePrint}
+            disabled={!statement}
+            className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors text-sm disabled:bg-gray-400"
+          >
+            <LuPrinter size={16} />
+            Print / PDF
+          </button>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-800"
+            title="Close statement"
+          >
+            <LuX size={20} />
+          </button>
+        </div>
+      }
+    >
+      {!statement ? (
+        <div className="flex justify-center py-8">
+          {loading ? (
+            <Spinner size="md" />
+          ) : (
+            <p className="text-gray-500">Select a month.</p>
+          )}
+        </div>
+      ) : (
+        <div id="account-statement" className="bg-white p-6 text-sm">
+          <div className="flex justify-between items-start mb-6">
+            <div>
+              <h2 className="text-2xl font-bold">ONEFAITH</h2>
+              <p className="text-gray-600">Statement of Account</p>
+            </div>
+            <div className="text-right text-gray-600">
+              <p>
+                Period: {formatDate(statement.from)} –{" "}
+                {formatDate(statement.to)}
+              </p>
+              <p>Statement date: {formatDate(new Date())}</p>
+              <p className="font-semibold text-gray-900">
+                Due: {formatDate(statement.dueDate)}
+              </p>
+            </div>
+          </div>
+
+          <div className="mb-6">
+            <p className="text-xs uppercase text-gray-500">Bill to</p>
+            <p className="font-semibold text-gray-900">{account.name}</p>
+            {account.contact_name && <p>Attn: {account.contact_name}</p>}
+            {account.billing_address && (
+              <p className="whitespace-pre-line">{account.billing_address}</p>
+            )}
+            {(account.contact_phone || account.email) && (
+              <p className="text-gray-600">
+                {[account.contact_phone, account.email]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </p>
+            )}
+          </div>
+
+          <table className="w-full mb-6">
+            <thead className="bg-gray-100">
+              <tr>
+                <th className="px-3 py-2 text-left">Date</th>
+                <th className="px-3 py-2 text-left">Description</th>
+                <th className="px-3 py-2 text-right">Charges</th>
+                <th className="px-3 py-2 text-right">Payments</th>
+                <th className="px-3 py-2 text-right">Balance</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="border-b">
+                <td className="px-3 py-2">{formatDate(statement.from)}</td>
+                <td className="px-3 py-2 font-medium">Opening balance</td>
+                <td />
+                <td />
+                <td className="px-3 py-2 text-right">
+                  {formatPeso(statement.openingBalance)}
+                </td>
+              </tr>
+              {lines.map((line, index) => (
+                <tr key={index} className="border-b">
+                  <td className="px-3 py-2">{formatDate(line.date)}</td>
+                  <td className="px-3 py-2">{line.description}</td>
+                  <td className="px-3 py-2 text-right">
+                    {line.charge > 0 && formatPeso(line.charge)}
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    {line.payment > 0 && formatPeso(line.payment)}
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    {formatPeso(line.balance)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="font-bold">
+                <td className="px-3 py-2" colSpan={2}>
+                  Closing balance
+                </td>
+                <td className="px-3 py-2 text-right">
+                  {formatPeso(statement.totalCharges)}
+                </td>
+                <td className="px-3 py-2 text-right">
+                  {formatPeso(statement.totalPayments)}
+                </td>
+                <td className="px-3 py-2 text-right">
+                  {formatPeso(statement.closingBalance)}
+                </td>
+              </tr>
+            </tfoot>
+          </table>
+
+          <p className="text-xs uppercase text-gray-500 mb-2">
+            Aging of unpaid charges
+          </p>
+          <table className="w-full mb-6">
+            <thead className="bg-gray-100">
+              <tr>
+                {statement.aging.map((bucket) => (
+                  <th key={bucket.label} className="px-3 py-2 text-right">
+                    {bucket.label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                {statement.aging.map((bucket) => (
+                  <td key={bucket.label} className="px-3 py-2 text-right">
+                    {formatPeso(bucket.amount)}
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+
+          <p className="text-gray-600">
+            Please settle the closing balance of{" "}
+            <span className="font-semibold text-gray-900">
+              {formatPeso(statement.closingBalance)}
+            </span>{" "}
+            on or before {formatDate(statement.dueDate)}.
+          </p>
+        </div>
+      )}
+
+      {isPaymentModalOpen && (
+        <RecordPaymentModal
+          account={account}
+          onClose={() => setIsPaymentModalOpen(false)}
+          onSave={() => {
+            setReloads((n) => n + 1);
+            onPaymentRecorded();
+          }}
+        />
+      )}
+    </Card>
+  );
+}
+
+// --------------------
+// Main Accounts Page Component
+// --------------------
+function CorporateAccounts() {
+  const [accounts, setAccounts] = useState<CorporateAccount[] | null>(null);
+  // Account being edited; null adds a new one, undefined keeps the modal closed
+  const [editingAccount, setEditingAccount] =
+    useState<CorporateAccount | null>();
+  const [statementId, setStatementId] = useState<number | null>(null);
+  // Unpaid balance of each account with a balance, aged as of today
+  const [aging, setAging] = useState<Record<number, AgingBucket[]>>({});
+
+  const fetchAccounts = () =>
+    api.corporateAccounts
+      .list()
+      .then((list) => setAccounts(list.map(normalizeAccount)))
+      .catch((err) => {
+        console.error("Failed to load corporate accounts:", err);
+        toast.error("Could not load corporate accounts");
+        setAccounts([]);
+      });
+
+  useEffect(() => {
+    fetchAccounts();
+  }, []);
+
+  useEffect(() => {
+    const owing = (accounts ?? []).filter((a) => Number(a.balance) > 0);
+    Promise.all(
+      owing.map((account) =>
+        Promise.all([
+          api.corporateAccounts.charges(account.id),
+          api.corporateAccounts.payments(account.id),
+        ]).then(
+          ([charges, payments]) =>
+            [account.id, agingSummary(openCharges(charges, payments))] as const
+        )
+      )
+    )
+      .then((rows) => setAging(Object.fromEntries(rows)))
+      .catch((err) => {
+        console.error("Failed to load receivables aging:", err);
+        toast.error("Could not load receivables aging");
+      });
+  }, [accounts]);
+
+  const handleToggle = async (account: CorporateAccount) => {
+    try {
+      await api.corporateAccounts.update(account.id, {
+        is_active: !account.is_active,
+      });
+      toast.success(
+        `Account ${!account.is_active ? "activated" : "deactivated"}`
+      );
+      fetchAccounts();
+    } catch (err) {
+      console.error(err);
+      toast.error("Could not update account");
+    }
+  };
+
+  const statementAccount = accounts?.find((a) => a.id === statementId);
+  const totalBalance = (accounts ?? []).reduce(
+    (sum, a) => sum + Number(a.balance),
+    0
+  );
+  const agingRows = (accounts ?? []).filter((a) => aging[a.id]);
+  const agingTotals = AGING_BUCKETS.map((_, index) =>
+    agingRows.reduce((sum, a) => sum + aging[a.id][index].amount, 0)
+  );
+
+  return (
+    <div className="p-4 sm:p-6 md:p-8 min-h-screen bg-linear-to-br from-gray-50 to-gray-100">
+      <div className="max-w-7xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <h1 className="text-2xl md:text-3xl font-bold flex items-center">
+            <LuBuilding2 size={28} className="mr-2 md:mr-3 text-blue-600" />
+            Corporate Accounts
+          </h1>
+          <button
+            onClick={() => setEditingAccount(null)}
+            className="bg-amber-700 text-white px-4 py-2 rounded-lg flex items-center hover:bg-amber-600 transition-colors shadow-sm"
+          >
+            <LuPlus size={18} className="mr-2" />
+            Add Account
+          </button>
+        </div>
+
+        {/* Summary Cards */}
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4">
+          <div className="bg-white p-4 sm:p-6 rounded-xl border border-gray-200 shadow-sm">
+            <p className="text-xs sm:text-sm text-gray-500">Active Accounts</p>
+            <p className="text-2xl sm:text-3xl font-bold mt-1">
+              {(accounts ?? []).filter((a) => a.is_active).length}
+            </p>
+          </div>
+          <div className="bg-white p-4 sm:p-6 rounded-xl border border-green-200 shadow-sm">
+            <p className="text-xs sm:text-sm text-gray-500">Receivables</p>
+            <p className="text-2xl sm:text-3xl font-bold mt-1 text-green-600">
+              {formatPeso(totalBalance)}
+            </p>
+          </div>
+          <div className="bg-white p-4 sm:p-6 rounded-xl border border-amber-200 shadow-sm">
+            <p className="text-xs sm:text-sm text-gray-500">Over 30 Days</p>
+            <p className="text-2xl sm:text-3xl font-bold mt-1 text-amber-600">
+              {formatPeso(agingTotals.slice(1).reduce((a, b) => a + b, 0))}
+            </p>
+          </div>
+          <div className="bg-white p-4 sm:p-6 rounded-xl border border-red-200 shadow-sm">
+            <p className="text-xs sm:text-sm text-gray-500">At Credit Limit</p>
+            <p className="text-2xl sm:text-3xl font-bold mt-1 text-red-600">
+              {
+                (accounts ?? []).filter(
+                  (a) => a.is_active && availableCredit(a) <= 0
+                ).length
+              }
+            </p>
+          </div>
+        </div>
+
+        {/* Accounts */}
+        <Card title="Accounts" subtitle="Click an account for its statement">
+          {!accounts ? (
+            <div className="flex justify-center py-8">
+              <Spinner size="md" />
+            </div>
+          ) : accounts.length === 0 ? (
+            <p className="text-center py-8 text-gray-500">
+              No corporate accounts yet.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-100">
+                  <tr>
+                    <th className="px-4 py-2 text-left">Account</th>
+                    <th className="px-4 py-2 text-left">Plates</th>
+                    <th className="px-4 py-2 text-right">Credit Limit</th>
+                    <th className="px-4 py-2 text-right">Balance</th>
+                    <th className="px-4 py-2 text-right">Available</th>
+                    <th className="px-4 py-2 text-right">Terms</th>
+                    <th className="px-4 py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {accounts.map((account) => (
+                    <tr
+                      key={account.id}
+                      onClick={() => setStatementId(account.id)}
+                      className={`border-b hover:bg-gray-50 cursor-pointer ${
+                        !account.is_active ? "opacity-60" : ""
+                      } ${statementId === account.id ? "bg-amber-50" : ""}`}
+                    >
+                      <td className="px-4 py-2">
+                        <p className="font-medium">{account.name}</p>
+                        <p className="text-xs text-gray-500">
+                          {[account.contact_name, account.contact_phone]
+                            .filter(Boolean)
+                            .join(" · ")}
+                        </p>
+                      </td>
+                      <td className="px-4 py-2 text-xs text-gray-600">
+                        {account.plates.length > 0
+                          ? account.plates.join(", ")
+                          : "—"}
+                      </td>
+                      <td className="px-4 py-2 text-right">
+                        {formatPeso(Number(account.credit_limit))}
+                      </td>
+                      <td className="px-4 py-2 text-right font-semibold">
+                        {formatPeso(Number(account.balance))}
+                      </td>
+                      <td
+                        className={`px-4 py-2 text-right ${
+                          availableCredit(account) <= 0 ? "text-red-600" : ""
+                        }`}
+                      >
+                        {formatPeso(availableCredit(account))}
+                      </td>
+                      <td className="px-4 py-2 text-right">
+                        {account.payment_terms_days} days
+                      </td>
+                      <td className="px-4 py-2">
+                        <div className="flex justify-end gap-2">
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleToggle(account);
+                            }}
+                            className="p-2 rounded hover:bg-gray-100"
+                            title={
+                              account.is_active ? "Deactivate" : "Activate"
+                            }
+                          >
+                            {account.is_active ? "🟢" : "⚪"}
+                          </button>
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setEditingAccount(account);
+                            }}
+                            className="p-2 rounded hover:bg-gray-100 text-blue-600"
+                            title="Edit account"
+                          >
+                            <LuPencil size={18} />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </Card>
+
+        {statementAccount && (
+          <StatementPanel
+            key={statementAccount.id}
+            account={statementAccount}
+            onClose={() => setStatementId(null)}
+            onPaymentRecorded={fetchAccounts}
+          />
+        )}
+
+        {/* Receivables Aging */}
+        <Card
+          title="Receivables Aging"
+          subtitle="Unpaid charges by age; payments settle the oldest first"
+        >
+          {agingRows.length === 0 ? (
+            <p className="text-center py-8 text-gray-500">
+              No unpaid balances.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-100">
+                  <tr>
+                    <th className="px-4 py-2 text-left">Account</th>
+                    {AGING_BUCKETS.map((bucket) => (
+                      <th key={bucket.label} className="px-4 py-2 text-right">
+                        {bucket.label}
+                      </th>
+                    ))}
+                    <th className="px-4 py-2 text-right">Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {agingRows.map((account) => (
+                    <tr key={account.id} className="border-b">
+                      <td className="px-4 py-2 font-medium">{account.name}</td>
+                      {aging[account.id].map((bucket, index) => (
+                        <td
+                          key={bucket.label}
+                          className={`px-4 py-2 text-right ${
+                            index > 0 && bucket.amount > 0
+                              ? "text-red-600 font-semibold"
+                              : ""
+                          }`}
+                        >
+                          {formatPeso(bucket.amount)}
+                        </td>
+                      ))}
+                      <td className="px-4 py-2 text-right font-semibold">
+                        {formatPeso(
+                          aging[account.id].reduce((s, b) => s + b.amount, 0)
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot>
+                  <tr className="font-bold">
+                    <td className="px-4 py-2">Total</td>
+                    {agingTotals.map((amount, index) => (
+                      <td key={index} className="px-4 py-2 text-right">
+                        {formatPeso(amount)}
+                      </td>
+                    ))}
+                    <td className="px-4 py-2 text-right">
+                      {formatPeso(agingTotals.reduce((a, b) => a + b, 0))}
+                    </td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          )}
+        </Card>
+      </div>
+
+      {editingAccount !== undefined && (
+        <AccountModal
+          account={editingAccount}
+          onClose={() => setEditingAccount(undefined)}
+          onSave={fetchAccounts}
+        />
+      )}
+    </div>
+  );
+}
+
+export default function AccountsPage() {
+  return (
+    <ProtectedRoute>
+      <ManagerOnlyRoute>
+        <CorporateAccounts />
+      </ManagerOnlyRoute>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,575 @@
+"use client";
+
+/*
+  Appointments Page
+  -----------------
+  Booking calendar for carwash appointments. It allows staff to:
+    - Browse a week and see how many vehicles are booked each day
+    - See the day's slots with their remaining capacity
+    - Book a customer into a slot for a service and vehicle type
+    - Check in an arrived customer (opens the Carwash POS with the booking,
+      which creates the queue ticket once paid)
+    - Mark late customers as no-shows or cancel a booking
+  ProtectedRoute ensures only authenticated users can access this page.
+*/
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { addDays, format, isSameDay, startOfWeek } from "date-fns";
+import {
+  LuCalendarClock,
+  LuChevronLeft,
+  LuChevronRight,
+  LuLogIn,
+  LuPlus,
+  LuUserX,
+  LuX,
+} from "react-icons/lu";
+import { toast } from "react-toastify";
+import ProtectedRoute from "@/components/ProtectedRoute"; // Restricts access to authenticated users
+import Spinner from "@/components/Spinner"; // Button spinner
+import { api } from "@/lib/api"; // Typed backend client
+import type {
+  Appointment,
+  AppointmentDay,
+  AppointmentStatus,
+  CatalogService,
+} from "@/lib/apiTypes"; // Shared response types
+import {
+  DEFAULT_SCHEDULE,
+  NO_SHOW_REASON,
+  daySlots,
+  holdsSlot,
+  isOverdue,
+} from "@/lib/appointments"; // Slot and no-show rules
+import { normalizePhone, normalizePlate } from "@/lib/customers"; // Customer registry helpers
+
+function getStatusColor(status: AppointmentStatus): string {
+  switch (status) {
+    case "booked":
+      return "bg-yellow-100 text-yellow-800 border-yellow-300";
+    case "arrived":
+      return "bg-green-100 text-green-800 border-green-300";
+    case "no_show":
+      return "bg-red-100 text-red-800 border-red-300";
+    default:
+      return "bg-gray-100 text-gray-800 border-gray-300";
+  }
+}
+
+// --------------------
+// Booking Modal
+// --------------------
+interface AppointmentModalProps {
+  slotStart: Date;
+  services: CatalogService[];
+  onClose: () => void;
+  onBooked: (appointment: Appointment) => void;
+}
+
+function AppointmentModal({
+  slotStart,
+  services,
+  onClose,
+  onBooked,
+}: AppointmentModalProps) {
+  const [name, setName] = useState("");
+  const [phone, setPhone] = useState("");
+  const [plate, setPlate] = useState("");
+  const [serviceId, setServiceId] = useState("");
+  const [vehicleType, setVehicleType] = useState("");
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const service = services.find((s) => s.id.toString() === serviceId);
+  const vehicleTypes = service
+    ? service.prices.map((p) => p.vehicle_type)
+    : Array.from(
+        new Set(services.flatMap((s) => s.prices.map((p) => p.vehicle_type)))
+      );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const cleanPhone = phone.replace(/[\s\-()]/g, "");
+    if (!name.trim()) {
+      toast.error("Customer name is required");
+      return;
+    }
+    if (!/^(\+639|09)\d{9}$/.test(cleanPhone)) {
+      toast.error("Phone must be in format: +639XXXXXXXXX or 09XXXXXXXXX");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const appointment = await api.appointments.create({
+        scheduled_at: slotStart.toISOString(),
+        customer_name: name.trim(),
+        customer_phone: normalizePhone(cleanPhone),
+        plate_number: plate.trim() ? normalizePlate(plate) : null,
+        vehicle_type: vehicleType || null,
+        service_id: service?.id ?? null,
+        service_name: service?.name ?? null,
+        notes: notes.trim() || null,
+      });
+      toast.success("Appointment booked");
+      if (appointment.no_show_count > 0) {
+        toast.warn(
+          `${appointment.customer_name} has ${appointment.no_show_count} earlier no-show(s)`
+        );
+      }
+      onBooked(appointment);
+    } catch (err) {
+      console.error(err);
+      toast.error(
+        err instanceof Error ? err.message : "Could not book appointment"
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 backdrop-blur-sm bg-black/30 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg shadow-lg w-full max-w-md max-h-[90vh] overflow-y-auto">
+        <h3 className="text-xl font-bold mb-1">Book Appointment</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          {format(slotStart, "EEEE, MMM d · h:mm a")}
+        </p>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Customer Name *
+            </label>
+            <input
+              type="text"
+              className="w-full border border-gray-300 rounded-lg p-2"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Phone *
+              </label>
+              <input
+                type="tel"
+                className="w-full border border-gray-300 rounded-lg p-2"
+                value={phone}
+                onChange={(e) => setPhone(e.target.value)}
+                placeholder="09XXXXXXXXX"
+                maxLength={13}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Plate Number
+              </label>
+              <input
+                type="text"
+                className="w-full border border-gray-300 rounded-lg p-2 uppercase"
+                value={plate}
+                onChange={(e) => setPlate(e.target.value)}
+                placeholder="ABC 1234"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Service
+              </label>
+              <select
+                className="w-full border border-gray-300 rounded-lg p-2 bg-white"
+                value={serviceId}
+                onChange={(e) => setServiceId(e.target.value)}
+              >
+                <option value="">Decide on arrival</option>
+                {services.map((s) => (
+                  <option key={s.id} value={s.id}>
+                    {s.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Vehicle Type
+              </label>
+              <select
+                className="w-full border border-gray-300 rounded-lg p-2 bg-white"
+                value={vehicleType}
+                onChange={(e) => setVehicleType(e.target.value)}
+              >
+                <option value="">Any</option>
+                {vehicleTypes.map((type) => (
+                  <option key={type} value={type}>
+                    {type}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Notes
+            </label>
+            <textarea
+              className="w-full border border-gray-300 rounded-lg p-2 h-20"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg border border-gray-200 hover:bg-gray-50"
+              disabled={saving}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 rounded-lg bg-amber-800 text-white hover:bg-amber-700 flex items-center"
+              disabled={saving}
+            >
+              {saving ? <Spinner size="sm" thickness={2} /> : "Book"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+// --------------------
+// Calendar
+// --------------------
+function AppointmentCalendar() {
+  const router = useRouter();
+  const [selectedDate, setSelectedDate] = useState(() => new Date());
+  const [schedule, setSchedule] = useState<AppointmentDay[]>(DEFAULT_SCHEDULE);
+  const [activeBays, setActiveBays] = useState(1);
+  const [services, setServices] = useState<CatalogService[]>([]);
+  // Appointments of the last loaded week; loading until it matches
+  const [loaded, setLoaded] = useState<{
+    week: string;
+    appointments: Appointment[];
+  } | null>(null);
+  const [bookingSlot, setBookingSlot] = useState<Date | null>(null);
+
+  const weekStart = startOfWeek(selectedDate);
+  const weekKey = format(weekStart, "yyyy-MM-dd");
+
+  // Booking hours, bays and services don't change while the page is open
+  useEffect(() => {
+    Promise.allSettled([
+      api.appointments.schedule(),
+      api.carwashBays.list(),
+      api.carwashCatalog.services(),
+    ]).then(([days, bays, catalog]) => {
+      if (days.status === "fulfilled") setSchedule(days.value);
+      if (bays.status === "fulfilled") {
+        setActiveBays(bays.value.filter((b) => b.is_active).length);
+      }
+      if (catalog.status === "fulfilled") setServices(catalog.value);
+    });
+  }, []);
+
+  useEffect(() => {
+    const from = new Date(`${weekKey}T00:00:00`);
+    api.appointments
+      .list({
+        from: from.toISOString(),
+        to: addDays(from, 7).toISOString(),
+      })
+      .then((appointments) => setLoaded({ week: weekKey, appointments }))
+      .catch((err) => {
+        console.error("Failed to load appointments:", err);
+        toast.error("Could not load appointments");
+        setLoaded({ week: weekKey, appointments: [] });
+      });
+  }, [weekKey]);
+
+  const loading = loaded?.week !== weekKey;
+  const appointments = loading ? [] : loaded.appointments;
+
+  const replaceAppointment = (appointment: Appointment) => {
+    setLoaded((prev) =>
+      prev
+        ? {
+            ...prev,
+            appointments: [
+              ...prev.appointments.filter((a) => a.id !== appointment.id),
+              appointment,
+            ],
+          }
+        : prev
+    );
+  };
+
+  const handleNoShow = async (appointment: Appointment) => {
+    if (!confirm(`Mark ${appointment.customer_name} as a no-show?`)) return;
+    try {
+      replaceAppointment(
+        await api.appointments.noShow(appointment.id, NO_SHOW_REASON)
+      );
+      toast.success("Marked as no-show");
+    } catch (err) {
+      console.error(err);
+      toast.error("Could not update appointment");
+    }
+  };
+
+  const handleCancel = async (appointment: Appointment) => {
+    if (!confirm(`Cancel ${appointment.customer_name}'s appointment?`)) return;
+    try {
+      replaceAppointment(
+        await api.appointments.cancel(appointment.id, "Cancelled by customer")
+      );
+      toast.success("Appointment cancelled");
+    } catch (err) {
+      console.error(err);
+      toast.error("Could not cancel appointment");
+    }
+  };
+
+  const weekDays = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+  const dayAppointments = appointments.filter((a) =>
+    isSameDay(new Date(a.scheduled_at), selectedDate)
+  );
+  const slots = daySlots(
+    schedule,
+    selectedDate,
+    activeBays,
+    dayAppointments
+  );
+  const now = new Date();
+
+  return (
+    <div className="p-4 sm:p-6 md:p-8 min-h-screen bg-linear-to-br from-gray-50 to-gray-100">
+      <div className="max-w-5xl mx-auto">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+          <h1 className="text-2xl md:text-3xl font-bold flex items-center">
+            <LuCalendarClock
+              size={28}
+              className="mr-2 md:mr-3 text-amber-700"
+            />
+            Appointments
+          </h1>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setSelectedDate(addDays(selectedDate, -7))}
+              className="p-2 rounded-lg border border-gray-300 bg-white hover:bg-gray-50"
+              title="Previous week"
+            >
+              <LuChevronLeft size={18} />
+            </button>
+            <input
+              type="date"
+              value={format(selectedDate, "yyyy-MM-dd")}
+              onChange={(e) =>
+                e.target.value &&
+                setSelectedDate(new Date(`${e.target.value}T00:00:00`))
+              }
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <button
+              onClick={() => setSelectedDate(addDays(selectedDate, 7))}
+              className="p-2 rounded-lg border border-gray-300 bg-white hover:bg-gray-50"
+              title="Next week"
+            >
+              <LuChevronRight size={18} />
+            </button>
+            <button
+              onClick={() => setSelectedDate(new Date())}
+              className="px-4 py-2 rounded-lg border border-gray-300 bg-white text-sm font-medium hover:bg-gray-50"
+            >
+              Today
+            </button>
+          </div>
+        </div>
+
+        {/* Week strip */}
+        <div className="grid grid-cols-7 gap-2 mb-6">
+          {weekDays.map((day) => {
+            const booked = appointments.filter(
+              (a) => holdsSlot(a) && isSameDay(new Date(a.scheduled_at), day)
+            ).length;
+            const selected = isSameDay(day, selectedDate);
+            return (
+              <button
+                key={day.toISOString()}
+                onClick={() => setSelectedDate(day)}
+                className={`rounded-xl border p-2 text-center transition-colors ${
+                  selected
+                    ? "bg-amber-700 border-amber-700 text-white"
+                    : "bg-white border-gray-200 hover:bg-gray-50"
+                }`}
+              >
+                <p className="text-xs uppercase">{format(day, "EEE")}</p>
+                <p className="text-lg font-bold">{format(day, "d")}</p>
+                <p
+                  className={`text-xs ${selected ? "text-amber-100" : "text-gray-500"}`}
+                >
+                  {loading ? "…" : `${booked} booked`}
+                </p>
+              </button>
+            );
+          })}
+        </div>
+
+        {/* Slots */}
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm">
+          <div className="px-4 py-3 border-b font-semibold">
+            {format(selectedDate, "EEEE, MMMM d")}
+          </div>
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <Spinner size="md" />
+            </div>
+          ) : slots.length === 0 ? (
+            <p className="text-center py-12 text-gray-500">
+              Closed for appointments. Managers can set booking hours in
+              Settings.
+            </p>
+          ) : (
+            <div className="divide-y">
+              {slots.map((slot) => (
+                <div
+                  key={slot.start.toISOString()}
+                  className="flex flex-col sm:flex-row gap-3 px-4 py-3"
+                >
+                  <div className="sm:w-32 shrink-0">
+                    <p className="font-semibold">
+                      {format(slot.start, "h:mm a")}
+                    </p>
+                    <p
+                      className={`text-xs ${
+                        slot.available === 0 ? "text-red-600" : "text-gray-500"
+                      }`}
+                    >
+                      {slot.capacity - slot.available}/{slot.capacity} booked
+                    </p>
+                  </div>
+                  <div className="flex-1 space-y-2">
+                    {slot.appointments.map((appointment) => (
+                      <div
+                        key={appointment.id}
+                        className="flex flex-col md:flex-row md:items-center justify-between gap-2 border rounded-lg p-2 text-sm"
+                      >
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium">
+                              {appointment.customer_name}
+                            </span>
+                            <span
+                              className={`text-xs px-2 py-0.5 rounded-full border ${getStatusColor(
+                                appointment.status
+                              )}`}
+                            >
+                              {appointment.status.replace("_", "-")}
+                            </span>
+                            {appointment.no_show_count > 0 && (
+                              <span
+                                className="text-xs text-red-600"
+                                title="Earlier no-shows"
+                              >
+                                {appointment.no_show_count} no-show
+                                {appointment.no_show_count > 1 ? "s" : ""}
+                              </span>
+                            )}
+                          </div>
+                          <p className="text-gray-600 text-xs">
+                            {[
+                              appointment.plate_number,
+                              appointment.service_name,
+                              appointment.vehicle_type,
+                              appointment.customer_phone,
+                            ]
+                              .filter(Boolean)
+                              .join(" · ")}
+                          </p>
+                          {appointment.notes && (
+                            <p className="text-gray-500 text-xs italic">
+                              {appointment.notes}
+                            </p>
+                          )}
+                        </div>
+                        {appointment.status === "booked" && (
+                          <div className="flex gap-2 shrink-0">
+                            <button
+                              onClick={() =>
+                                router.push(
+                                  `/carwash-pos?appointment=${appointment.id}`
+                                )
+                              }
+                              className="bg-blue-600 text-white px-3 py-1.5 rounded-lg text-xs font-medium hover:bg-blue-700 transition-colors flex items-center"
+                            >
+                              <LuLogIn size={14} className="mr-1" />
+                              Check In
+                            </button>
+                            {isOverdue(appointment, now) && (
+                              <button
+                                onClick={() => handleNoShow(appointment)}
+                                className="bg-red-600 text-white px-3 py-1.5 rounded-lg text-xs font-medium hover:bg-red-700 transition-colors flex items-center"
+                              >
+                                <LuUserX size={14} className="mr-1" />
+                                No-show
+                              </button>
+                            )}
+                            <button
+                              onClick={() => handleCancel(appointment)}
+                              className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-100"
+                              title="Cancel appointment"
+                            >
+                              <LuX size={16} />
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                    {slot.available > 0 && slot.end > now && (
+                      <button
+                        onClick={() => setBookingSlot(slot.start)}
+                        className="text-sm text-amber-700 hover:text-amber-800 flex items-center"
+                      >
+                        <LuPlus size={16} className="mr-1" />
+                        Book ({slot.available} open)
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {bookingSlot && (
+        <AppointmentModal
+          slotStart={bookingSlot}
+          services={services}
+          onClose={() => setBookingSlot(null)}
+          onBooked={(appointment) => {
+            replaceAppointment(appointment);
+            setBookingSlot(null);
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+export default function AppointmentsPage() {
+  return (
+    <ProtectedRoute>
+      <AppointmentCalendar />
+    </ProtectedRoute>
+  );
+}
@@ -5,9 +5,20 @@
   ----------------
   This page implements the Point-of-Sale (POS) system for carwash services. It allows staff to:
     - Select carwash services and vehicle types
-    - Add/remove services to a cart
+    - Add/remove services to a cart, with a plate per line for multi-vehicle orders
+      (one queue ticket per vehicle from a single payment)
+    - Sell service packages and prepaid/unlimited wash plans tied to a plate
+    - Redeem a plate's wash plan (covers one service) and print its balance
+    - Earn and redeem loyalty points by member phone number
+    - Apply manager-defined discounts (Senior/PWD require an ID number)
+    - Compute VAT, removing it from VAT-exempt Senior/PWD lines
+    - Look up returning customers by phone or plate and record each visit
+    - Check in booked appointments (the booking is loaded into the cart)
+    - Queue pay-later tickets unpaid and settle them at pickup
+    - Charge authorized plates to a corporate account within its credit limit
     - Process payments (Cash/Gcash)
-    - Print receipts (with Bluetooth/ESC/POS support)
+    - Keep selling offline (orders and queue tickets sync when the backend is reachable)
+    - Print receipts (with Bluetooth/ESC/POS support) with a sequential OR number
     - View and manage current orders
   ProtectedRoute ensures only authenticated users can access this page.
   The page uses various utility and UI components for printing, receipt preview, and async data handling.
@@ -23,60 +34,149 @@ import {
   LuPrinter,
   LuEye,
   LuTriangleAlert,
+  LuCalendarClock,
+  LuTicket,
 } from "react-icons/lu";
 import { toast } from "react-toastify";
 import { v4 as uuidv4 } from "uuid";
 import ProtectedRoute from "@/components/ProtectedRoute"; // Restricts access to authenticated users
-import { getAuthHeaders } from "@/lib/auth"; // Helper for API auth headers
+import { api, ApiError } from "@/lib/api"; // Typed backend client
+import type {
+  Appointment,
+  CarwashTicket,
+  CatalogPrice,
+  CatalogService,
+  CarwashTicketPayload,
+  CorporateAccount,
+  CreateOrderRequest,
+  Customer,
+  DiscountRule,
+  LoyaltyAccount,
+  LoyaltyReward,
+  LoyaltySettings,
+  Membership,
+  OrderAccountCharge,
+  OrderLoyalty,
+  OrderMembership,
+  WashPlan,
+} from "@/lib/apiTypes"; // Shared request/response types
+import {
+  normalizePhone,
+  normalizePlate,
+  preferredVehicle,
+  vehicleLabel,
+} from "@/lib/customers"; // Customer registry helpers
+import { AppliedDiscount, fetchDiscountRules } from "@/lib/discounts"; // Discount rule engine
+import { VatSummary, computeTax, vatSummary } from "@/lib/tax"; // VAT computation
+import {
+  DEFAULT_LOYALTY_SETTINGS,
+  fetchLoyaltyProgram,
+  orderLoyalty,
+  pointsEarned,
+  receiptLoyalty,
+} from "@/lib/loyalty"; // Loyalty points and rewards
+import {
+  PLAN_CATEGORY,
+  PLAN_TYPE_LABELS,
+  coveredLine,
+  formatExpiry,
+  isPackage,
+  normalizePlan,
+  orderMembership,
+  planExpiry,
+  receiptMembership,
+} from "@/lib/washPlans"; // Packages and wash plans
+import {
+  chargeBlocker,
+  orderAccountCharge,
+  receiptAccount,
+  unauthorizedPlates,
+} from "@/lib/corporateAccounts"; // Corporate accounts billed monthly
+import { expectedMinutes } from "@/lib/sla"; // Service length targets
+import { enqueueOrder, isNetworkError } from "@/lib/orderOutbox"; // Offline order queue
+import { CACHE_KEYS, withOfflineCache } from "@/lib/offlineCache"; // Last known data for offline startup
+import {
+  getTerminalId,
+  receiptBlocker,
+  reserveReceiptNumber,
+  syncReceiptSeries,
+} from "@/lib/receiptNumbers"; // Official receipt numbering
 import PageLoader from "@/components/PageLoader"; // Loading spinner for async data
 import { printElementById } from "@/utils/print"; // Utility for printing DOM elements
 import { generateCarwashReceipt } from "@/utils/escpos"; // ESC/POS receipt generator
 import { printWithRawBT, canUseRawBT } from "@/utils/rawbt"; // Bluetooth printing utilities
 import ESCPOSPreview from "@/components/ESCPOSPreview"; // Receipt preview component
+import TerminalSetupModal from "@/components/TerminalSetupModal"; // First-run terminal ID claim
+import DiscountPicker from "@/components/DiscountPicker"; // Discount chips with ID capture
+import LoyaltyPanel from "@/components/LoyaltyPanel"; // Member lookup and rewards
+import MembershipPanel from "@/components/MembershipPanel"; // Wash plan lookup by plate
+import AccountPicker from "@/components/AccountPicker"; // Corporate account for charges
 
 // API base URL
-const API_BASE = process.env.NEXT_PUBLIC_API_BASE || "http://localhost:5000";
-
 // --------------------
 // Type Definitions
 // --------------------
 
 // Price for a carwash service by vehicle type
-interface ServicePrice {
-  vehicle_type: string;
-  price: number;
-}
+type ServicePrice = CatalogPrice;
 
 // Carwash service definition
-interface CarwashService {
-  id: number;
-  name: string;
-  category: string;
-  description: string;
-  prices: ServicePrice[];
-}
+type CarwashService = CatalogService;
 
 // Cart item for carwash order
 interface CarwashCartItem {
   cartId: string;
   serviceId: string;
   serviceName: string;
+  // Catalog category, used for discount restrictions
+  category: string;
   vehicle: string;
   price: number;
   quantity: number;
+  // Vehicle this line is for; blank lines belong to the order's plate
+  plateNumber?: string;
+  // Services bundled when the line is a package
+  packageItems?: string[];
+  // Catalog service length target (SLA) for the vehicle type
+  expectedMinutes?: number | null;
+  // Wash plan sold on this line; the backend opens it for the order's plate
+  planId?: number;
+  planExpiresAt?: string;
+}
+
+// Ordered service with the VAT removed and discount granted on its line
+interface CarwashOrderItem extends CarwashCartItem {
+  vatExempt: boolean;
+  lessVat: number;
+  discount: number;
+  // Plan that paid for this line (charged at zero)
+  coveredBy: string | null;
 }
 
 // Order details for carwash transaction
 interface CarwashOrderDetails {
   orderId: string;
-  items: CarwashCartItem[];
+  // Official receipt number from this terminal's series
+  or_number: string;
+  items: CarwashOrderItem[];
   subtotal: number;
   discount: number;
   total: number;
-  payment: "Cash" | "Gcash";
+  payment: "Cash" | "Gcash" | "Account";
   cashTendered: number | null;
   changeDue: number | null;
   discount_type: string | null;
+  discount_rule_id: number | null;
+  // Senior/PWD ID presented by the customer
+  discount_id_number: string | null;
+  discount_holder_name: string | null;
+  vat: VatSummary;
+  // Points earned/redeemed by a loyalty member
+  loyalty: OrderLoyalty | null;
+  // Wash redeemed from a prepaid card or membership
+  membership: OrderMembership | null;
+  // Total charged to a corporate account
+  account: OrderAccountCharge | null;
   order_type: null;
   // Customer info (for receipt display)
   customerName?: string | null;
@@ -84,6 +184,29 @@ interface CarwashOrderDetails {
   plateNumber?: string | null;
 }
 
+// Service lines of one vehicle; each vehicle gets its own queue ticket
+interface VehicleGroup {
+  plate: string;
+  vehicle: string;
+  lines: CarwashCartItem[];
+}
+
+// Group service lines by plate. Lines without their own plate belong to the
+// order's plate (entered at checkout).
+function vehicleGroups(
+  lines: CarwashCartItem[],
+  orderPlate: string
+): VehicleGroup[] {
+  const groups: VehicleGroup[] = [];
+  for (const line of lines) {
+    const plate = normalizePlate(line.plateNumber || orderPlate);
+    const group = groups.find((g) => g.plate === plate);
+    if (group) group.lines.push(line);
+    else groups.push({ plate, vehicle: line.vehicle, lines: [line] });
+  }
+  return groups;
+}
+
 // Modals
 
 // -- Vehicle Selection Modal --
@@ -147,6 +270,7 @@ interface CustomerDetailsModalProps {
   initialPlate: string;
   isSubmitting?: boolean;
   vehicleType?: string | null; // used to toggle plate requirement for bikes
+  requirePlate?: boolean; // wash plans are tied to a plate, even for bikes
 }
 
 function CustomerDetailsModal({
@@ -157,15 +281,55 @@ function CustomerDetailsModal({
   initialPlate,
   isSubmitting = false,
   vehicleType,
+  requirePlate = false,
 }: CustomerDetailsModalProps) {
   const [name, setName] = useState(initialName);
   const [phone, setPhone] = useState(initialPhone);
   const [plate, setPlate] = useState(initialPlate);
   const [errors, setErrors] = useState({ name: "", phone: "", plate: "" });
-  const plateRequired = !(
-    typeof vehicleType === "string" &&
-    vehicleType.trim().toLowerCase() === "bike"
+  // Registry lookup: last typed phone/plate and the matches found for it
+  const [lookup, setLookup] = useState("");
+  const [matches, setMatches] = useState<{
+    query: string;
+    customers: Customer[];
+  } | null>(null);
+  const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(
+    null
   );
+  const plateRequired =
+    requirePlate ||
+    !(
+      typeof vehicleType === "string" &&
+      vehicleType.trim().toLowerCase() === "bike"
+    );
+
+  // Search the registry once the cashier pauses typing
+  useEffect(() => {
+    if (lookup.length < 3) return;
+    const timer = setTimeout(() => {
+      api.customers
+        .list(lookup)
+        .then((customers) => setMatches({ query: lookup, customers }))
+        // Offline or registry unavailable: just skip suggestions
+        .catch(() => setMatches({ query: lookup, customers: [] }));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [lookup]);
+
+  const suggestions =
+    matches && matches.query === lookup && lookup.length >= 3
+      ? matches.customers.filter((c) => c.id !== selectedCustomer?.id)
+      : [];
+
+  const handleSelectCustomer = (customer: Customer) => {
+    setSelectedCustomer(customer);
+    setName(customer.name);
+    setPhone(customer.phone);
+    const vehicle = preferredVehicle(customer, plate, vehicleType);
+    if (vehicle) setPlate(vehicle.plate_number);
+    setLookup("");
+    setErrors({ name: "", phone: "", plate: "" });
+  };
 
   const handleNameChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
@@ -183,6 +347,7 @@ function CustomerDetailsModal({
     // Allow only numbers, +, and limit to 13 characters (+639XXXXXXXXX)
     if (/^[\d+]*$/.test(value) && value.length <= 13) {
       setPhone(value);
+      setLookup(value);
       setErrors((prev) => ({ ...prev, phone: "" }));
     } else {
       setErrors((prev) => ({
@@ -197,6 +362,7 @@ function CustomerDetailsModal({
     // Allow alphanumeric and hyphens, max 20 characters
     if (/^[A-Z0-9\-]*$/.test(value) && value.length <= 20) {
       setPlate(value);
+      setLookup(value);
       setErrors((prev) => ({ ...prev, plate: "" }));
     } else {
       setErrors((prev) => ({
@@ -257,6 +423,55 @@ function CustomerDetailsModal({
             </button>
           </div>
           <div className="space-y-4 mb-6">
+            {suggestions.length > 0 && (
+              <div className="border border-amber-200 bg-amber-50 rounded-lg divide-y divide-amber-100 max-h-48 overflow-y-auto">
+                {suggestions.map((customer) => (
+                  <button
+                    key={customer.id}
+                    type="button"
+                    onClick={() => handleSelectCustomer(customer)}
+                    className="w-full text-left px-4 py-2 hover:bg-amber-100 transition-colors"
+                  >
+                    <span className="block font-semibold">
+                      {customer.name}{" "}
+                      <span className="font-normal text-gray-600">
+                        {customer.phone}
+                      </span>
+                    </span>
+                    <span className="block text-xs text-gray-600">
+                      {customer.vehicles.map((v) => v.plate_number).join(", ") ||
+                        "No vehicles"}
+                      {" · "}
+                      {customer.visit_count} visit(s)
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+            {selectedCustomer && selectedCustomer.vehicles.length > 1 && (
+              <div>
+                <p className="text-sm font-semibold text-gray-700 mb-2">
+                  {selectedCustomer.name}&apos;s vehicles
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {selectedCustomer.vehicles.map((vehicle) => (
+                    <button
+                      key={vehicle.id}
+                      type="button"
+                      onClick={() => setPlate(vehicle.plate_number)}
+                      className={`px-3 py-1.5 rounded-lg text-sm border transition-colors ${
+                        plate === vehicle.plate_number
+                          ? "bg-amber-700 text-white border-amber-700"
+                          : "bg-white border-gray-300 hover:bg-gray-100"
+                      }`}
+                      title={vehicleLabel(vehicle)}
+                    >
+                      {vehicle.plate_number}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
             <div>
               <label className="block text-sm font-semibold text-gray-700 mb-2">
                 Customer Name <span className="text-red-500">*</span>
@@ -433,6 +648,21 @@ interface ReceiptModalProps {
   onClose: () => void;
 }
 
+// Lines printed under a receipt item: its plate, package contents, plan
+// validity and the plan that paid for it
+function itemNotes(item: CarwashOrderItem): string[] {
+  const notes: string[] = [];
+  if (item.plateNumber) notes.push(`Plate: ${item.plateNumber}`);
+  if (item.packageItems?.length) {
+    notes.push(`Incl: ${item.packageItems.join(", ")}`);
+  }
+  if (item.planExpiresAt) {
+    notes.push(`Valid until ${formatExpiry(item.planExpiresAt)}`);
+  }
+  if (item.coveredBy) notes.push(`Covered by ${item.coveredBy}`);
+  return notes;
+}
+
 function ReceiptModal({ order, onClose }: ReceiptModalProps) {
   const [showPreview, setShowPreview] = useState(false);
   const [previewBytes, setPreviewBytes] = useState<Uint8Array | null>(null);
@@ -449,13 +679,30 @@ function ReceiptModal({ order, onClose }: ReceiptModalProps) {
     // Build ESC/POS receipt data
     const escposData = generateCarwashReceipt({
       orderId: order.orderId,
+      orNumber: order.or_number,
       items: order.items.map((item) => ({
         serviceName: item.serviceName,
         vehicle: item.vehicle,
         quantity: item.quantity,
         price: item.price,
+        lessVat: item.lessVat,
+        discount: item.discount,
+        notes: itemNotes(item),
       })),
       subtotal: order.subtotal,
+      discountType: order.discount_type,
+      discountAmount: order.discount,
+      discountIdNumber: order.discount_id_number,
+      discountHolderName: order.discount_holder_name,
+      vat: {
+        vatableSales: order.vat.vatable_sales,
+        vatAmount: order.vat.vat_amount,
+        vatExemptSales: order.vat.vat_exempt_sales,
+        lessVat: order.vat.less_vat,
+      },
+      loyalty: receiptLoyalty(order.loyalty),
+      membership: receiptMembership(order.membership),
+      account: receiptAccount(order.account),
       total: order.total,
       paymentMethod: order.payment,
       cashReceived: order.cashTendered ?? undefined,
@@ -494,13 +741,30 @@ function ReceiptModal({ order, onClose }: ReceiptModalProps) {
     // Build ESC/POS receipt data
     const escposData = generateCarwashReceipt({
       orderId: order.orderId,
+      orNumber: order.or_number,
       items: order.items.map((item) => ({
         serviceName: item.serviceName,
         vehicle: item.vehicle,
         quantity: item.quantity,
         price: item.price,
+        lessVat: item.lessVat,
+        discount: item.discount,
+        notes: itemNotes(item),
       })),
       subtotal: order.subtotal,
+      discountType: order.discount_type,
+      discountAmount: order.discount,
+      discountIdNumber: order.discount_id_number,
+      discountHolderName: order.discount_holder_name,
+      vat: {
+        vatableSales: order.vat.vatable_sales,
+        vatAmount: order.vat.vat_amount,
+        vatExemptSales: order.vat.vat_exempt_sales,
+        lessVat: order.vat.less_vat,
+      },
+      loyalty: receiptLoyalty(order.loyalty),
+      membership: receiptMembership(order.membership),
+      account: receiptAccount(order.account),
       total: order.total,
       paymentMethod: order.payment,
       cashReceived: order.cashTendered ?? undefined,
@@ -540,7 +804,8 @@ function ReceiptModal({ order, onClose }: ReceiptModalProps) {
           <p className="text-gray-600 text-xs mt-1">Service Receipt</p>
           <div className="text-xs text-gray-500 mt-2">
             <div>{currentDate}</div>
-            <div className="font-semibold mt-1">Order: {order.orderId}</div>
+            <div className="font-semibold mt-1">OR No: {order.or_number}</div>
+            <div>Order: {order.orderId}</div>
           </div>
         </div>
         {(order.customerName || order.customerPhone || order.plateNumber) && (
@@ -578,6 +843,23 @@ function ReceiptModal({ order, onClose }: ReceiptModalProps) {
                   ({item.vehicle}) {item.quantity} x P{item.price.toFixed(2)}
                 </span>
               </div>
+              {itemNotes(item).map((note) => (
+                <div key={note} className="text-gray-600 text-xs pl-2">
+                  {note}
+                </div>
+              ))}
+              {item.lessVat > 0 && (
+                <div className="flex justify-between text-gray-600 text-xs pl-2">
+                  <span>Less: VAT</span>
+                  <span>-P{item.lessVat.toFixed(2)}</span>
+                </div>
+              )}
+              {item.discount > 0 && (
+                <div className="flex justify-between text-red-600 text-xs pl-2">
+                  <span>Less: {order.discount_type}</span>
+                  <span>-P{item.discount.toFixed(2)}</span>
+                </div>
+              )}
             </div>
           ))}
         </div>
@@ -586,14 +868,50 @@ function ReceiptModal({ order, onClose }: ReceiptModalProps) {
             <span>Subtotal:</span>
             <span>P{order.subtotal.toFixed(2)}</span>
           </div>
+          {order.vat.less_vat > 0 && (
+            <div className="flex justify-between">
+              <span>Less VAT (12%):</span>
+              <span>-P{order.vat.less_vat.toFixed(2)}</span>
+            </div>
+          )}
           <div className="flex justify-between">
-            <span>Discount:</span>
+            <span>
+              Discount{order.discount_type ? ` (${order.discount_type})` : ""}:
+            </span>
             <span className="text-red-600">-P{order.discount.toFixed(2)}</span>
           </div>
+          {order.discount_id_number && (
+            <div className="text-xs text-gray-500 pl-2">
+              ID No: {order.discount_id_number}
+              {order.discount_holder_name && ` (${order.discount_holder_name})`}
+            </div>
+          )}
+          {order.loyalty && order.loyalty.reward_amount > 0 && (
+            <div className="flex justify-between">
+              <span>Reward ({order.loyalty.reward_name}):</span>
+              <span className="text-red-600">
+                -P{order.loyalty.reward_amount.toFixed(2)}
+              </span>
+            </div>
+          )}
           <div className="flex justify-between text-lg font-bold border-t-2 border-dashed border-gray-400 pt-2 mt-2">
             <span>TOTAL:</span>
             <span>P{order.total.toFixed(2)}</span>
           </div>
+          <div className="border-t border-dashed border-gray-300 pt-2 mt-2 space-y-1 text-xs text-gray-600">
+            <div className="flex justify-between">
+              <span>VATable Sales:</span>
+              <span>P{order.vat.vatable_sales.toFixed(2)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>VAT-Exempt Sales:</span>
+              <span>P{order.vat.vat_exempt_sales.toFixed(2)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>VAT (12%):</span>
+              <span>P{order.vat.vat_amount.toFixed(2)}</span>
+            </div>
+          </div>
 
           {order.payment === "Cash" && (
             <div className="border-t border-dashed border-gray-300 pt-2 mt-2 space-y-1">
@@ -608,6 +926,55 @@ function ReceiptModal({ order, onClose }: ReceiptModalProps) {
             </div>
           )}
         </div>
+        {order.loyalty && (
+          <div className="text-xs text-gray-600 space-y-1 border-t border-gray-300 pt-3 mb-3">
+            {order.loyalty.points_redeemed > 0 && (
+              <div className="flex justify-between">
+                <span>Points redeemed:</span>
+                <span>-{order.loyalty.points_redeemed}</span>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <span>Points earned:</span>
+              <span>+{order.loyalty.points_earned}</span>
+            </div>
+            <div className="flex justify-between font-semibold">
+              <span>Points balance:</span>
+              <span>{order.loyalty.balance}</span>
+            </div>
+          </div>
+        )}
+        {order.membership && (
+          <div className="text-xs text-gray-600 space-y-1 border-t border-gray-300 pt-3 mb-3">
+            <div className="flex justify-between">
+              <span>Plan:</span>
+              <span>
+                {order.membership.plan_name} ({order.membership.plate_number})
+              </span>
+            </div>
+            <div className="flex justify-between font-semibold">
+              <span>Washes left:</span>
+              <span>{order.membership.washes_remaining ?? "Unlimited"}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Valid until:</span>
+              <span>{formatExpiry(order.membership.expires_at)}</span>
+            </div>
+          </div>
+        )}
+        {order.account && (
+          <div className="text-xs text-gray-600 space-y-1 border-t border-gray-300 pt-3 mb-3">
+            <div className="flex justify-between">
+              <span>Charged to:</span>
+              <span>{order.account.account_name}</span>
+            </div>
+            <div className="flex justify-between font-semibold">
+              <span>Amount:</span>
+              <span>P{order.account.amount.toFixed(2)}</span>
+            </div>
+            <p className="pt-4">Signature: ____________________</p>
+          </div>
+        )}
         <div className="text-xs text-gray-600 space-y-1 border-t border-gray-300 pt-3">
           <div className="flex justify-between">
             <span>Payment:</span>
@@ -690,14 +1057,45 @@ function CarwashPOS() {
   const [plateNumber, setPlateNumber] = useState<string>("");
   const [customerName, setCustomerName] = useState<string>("");
   const [customerPhone, setCustomerPhone] = useState<string>("");
+  // Booking being checked in, if the order came from the calendar
+  const [appointment, setAppointment] = useState<Appointment | null>(null);
+  // Pay-later ticket being paid for at pickup
+  const [settlingTicket, setSettlingTicket] = useState<CarwashTicket | null>(
+    null
+  );
+  // Discount
+  const [discountRules, setDiscountRules] = useState<DiscountRule[]>([]);
+  const [appliedDiscount, setAppliedDiscount] =
+    useState<AppliedDiscount | null>(null);
+  // Loyalty
+  const [loyaltySettings, setLoyaltySettings] = useState<LoyaltySettings>(
+    DEFAULT_LOYALTY_SETTINGS
+  );
+  const [loyaltyRewards, setLoyaltyRewards] = useState<LoyaltyReward[]>([]);
+  const [loyaltyMember, setLoyaltyMember] = useState<LoyaltyAccount | null>(
+    null
+  );
+  const [redeemedReward, setRedeemedReward] = useState<LoyaltyReward | null>(
+    null
+  );
+  // Wash plans (including retired ones, whose memberships still redeem) and
+  // the plan of the vehicle being served
+  const [washPlans, setWashPlans] = useState<WashPlan[]>([]);
+  const [appliedMembership, setAppliedMembership] =
+    useState<Membership | null>(null);
 
   // Payment States
-  const [paymentMethod, setPaymentMethod] = useState<"Cash" | "Gcash" | null>(
+  const [paymentMethod, setPaymentMethod] = useState<
+    "Cash" | "Gcash" | "Account" | "Pay Later" | null
+  >(null);
+  // Corporate account the order is charged to
+  const [chargeAccount, setChargeAccount] = useState<CorporateAccount | null>(
     null
   );
   const [isCustomerDetailsModalOpen, setIsCustomerDetailsModalOpen] =
     useState<boolean>(false);
   const [isPaymentModalOpen, setIsPaymentModalOpen] = useState<boolean>(false);
+  const [isTerminalSetupOpen, setIsTerminalSetupOpen] = useState(false);
   const [cashTendered, setCashTendered] = useState<string>("");
   const [isReceiptModalOpen, setIsReceiptModalOpen] = useState<boolean>(false);
   const [completedOrder, setCompletedOrder] =
@@ -709,16 +1107,11 @@ function CarwashPOS() {
   useEffect(() => {
     const checkShift = async () => {
       try {
-        const response = await fetch(`${API_BASE}/api/shifts/current`, {
-          headers: getAuthHeaders(),
-        });
-
-        if (response.ok) {
-          const data = await response.json();
-          setHasActiveShift(data && data.status === "active");
-        } else {
-          setHasActiveShift(false);
-        }
+        // Offline after a reload: the last known shift keeps the counter open
+        const shift = await withOfflineCache(CACHE_KEYS.shift, () =>
+          api.shifts.current()
+        );
+        setHasActiveShift(shift?.status === "active");
       } catch (error) {
         console.error("Failed to check shift:", error);
         setHasActiveShift(false);
@@ -735,9 +1128,9 @@ function CarwashPOS() {
     const fetchServices = async () => {
       try {
         setLoadingServices(true);
-        const res = await fetch(`${API_BASE}/api/carwash-catalog/services`);
-        if (!res.ok) throw new Error("Failed to fetch services");
-        const data: CarwashService[] = await res.json();
+        const data = await withOfflineCache(CACHE_KEYS.carwashServices, () =>
+          api.carwashCatalog.services()
+        );
         setAllServices(data);
       } catch (error) {
         console.error("Error fetching services:", error);
@@ -750,6 +1143,127 @@ function CarwashPOS() {
     fetchServices();
   }, []);
 
+  // Check-in from the appointment calendar (?appointment=ID): load the
+  // booking into the cart once the catalog is available
+  useEffect(() => {
+    const id = Number(
+      new URLSearchParams(window.location.search).get("appointment")
+    );
+    if (!id || allServices.length === 0) return;
+    router.replace("/carwash-pos");
+    api.appointments
+      .get(id)
+      .then((booking) => {
+        if (booking.status !== "booked") {
+          toast.info("This appointment was already checked in or closed.");
+          return;
+        }
+        setAppointment(booking);
+        setCustomerName(booking.customer_name);
+        setCustomerPhone(booking.customer_phone);
+        setPlateNumber(booking.plate_number ?? "");
+        const service = allServices.find((s) => s.id === booking.service_id);
+        const priceInfo = service?.prices.find(
+          (p) => p.vehicle_type === booking.vehicle_type
+        );
+        if (service && priceInfo) {
+          setCurrentOrderId(`ORD-${uuidv4().slice(0, 8)}`);
+          setCart([
+            {
+              cartId: uuidv4(),
+              serviceId: service.id.toString(),
+              serviceName: service.name,
+              category: service.category,
+              vehicle: priceInfo.vehicle_type,
+              price: priceInfo.price,
+              quantity: 1,
+              packageItems: service.package_items?.map((i) => i.service_name),
+              expectedMinutes: priceInfo.expected_minutes ?? null,
+            },
+          ]);
+        } else {
+          toast.info("Select the services for this appointment.");
+        }
+      })
+      .catch((error) => {
+        console.error("Failed to load appointment:", error);
+        toast.error("Could not load the appointment.");
+      });
+  }, [allServices, router]);
+
+  // Settlement from the services queue (?settle=ORDER_ID): load the unpaid
+  // ticket into the cart under its own order id
+  useEffect(() => {
+    const orderId = new URLSearchParams(window.location.search).get("settle");
+    if (!orderId || allServices.length === 0) return;
+    router.replace("/carwash-pos");
+    api.carwash
+      .get(orderId)
+      .then((ticket) => {
+        if (ticket.payment_status !== "unpaid") {
+          toast.info(`Ticket ${ticket.order_id} is already paid.`);
+          return;
+        }
+        setSettlingTicket(ticket);
+        setCurrentOrderId(ticket.order_id);
+        setCustomerName(ticket.customer_name ?? "");
+        setCustomerPhone(ticket.customer_phone ?? "");
+        setPlateNumber(ticket.plate_number ?? "");
+        setPaymentMethod(null);
+        setCart(
+          ticket.items.map((item) => {
+            const service = allServices.find((s) =>
+              item.serviceId
+                ? s.id.toString() === item.serviceId
+                : s.name === item.service_name
+            );
+            return {
+              cartId: uuidv4(),
+              serviceId: item.serviceId ?? service?.id.toString() ?? "",
+              serviceName: item.service_name,
+              category: service?.category ?? "",
+              vehicle: item.vehicle,
+              price: Number(item.price),
+              quantity: item.quantity,
+              packageItems: item.package_items,
+            };
+          })
+        );
+      })
+      .catch((error) => {
+        console.error("Failed to load ticket:", error);
+        toast.error("Could not load the ticket to settle.");
+      });
+  }, [allServices, router]);
+
+  // Fetch discount rules
+  useEffect(() => {
+    fetchDiscountRules("Carwash").then(setDiscountRules);
+  }, []);
+
+  // Fetch loyalty settings and rewards
+  useEffect(() => {
+    fetchLoyaltyProgram("Carwash").then(({ settings, rewards }) => {
+      setLoyaltySettings(settings);
+      setLoyaltyRewards(rewards);
+    });
+  }, []);
+
+  // Fetch wash plans
+  useEffect(() => {
+    api.washPlans
+      .list()
+      .then((plans) => setWashPlans(plans.map(normalizePlan)))
+      .catch((error) => console.error("Failed to load wash plans:", error));
+  }, []);
+
+  // Refresh this terminal's OR series; offline sales use the cached one
+  useEffect(() => {
+    syncReceiptSeries().catch((error) =>
+      console.error("Failed to sync receipt series:", error)
+    );
+  }, []);
+
   // --- Cart Handlers ---
   const addItemToCart = (
     service: CarwashService,
@@ -759,10 +1273,12 @@ function CarwashPOS() {
     if (!currentOrderId) {
       setCurrentOrderId(`ORD-${uuidv4().slice(0, 8)}`);
     }
+    // Lines with their own plate are other vehicles and may repeat a service
     const existingItem = cart.find(
       (item) =>
         item.serviceId === service.id.toString() &&
-        item.vehicle === (overrideVehicle || priceInfo.vehicle_type)
+        item.vehicle === (overrideVehicle || priceInfo.vehicle_type) &&
+        !item.plateNumber
     );
 
     if (existingItem) {
@@ -770,22 +1286,54 @@ function CarwashPOS() {
       toast.info(
         `${service.name} for ${
           overrideVehicle || priceInfo.vehicle_type
-        } is already in cart`
+        } is already in cart. Enter its plate to add another vehicle.`
       );
     } else {
       const newItem: CarwashCartItem = {
         cartId: uuidv4(),
         serviceId: service.id.toString(),
         serviceName: service.name,
+        category: service.category,
         vehicle: overrideVehicle || priceInfo.vehicle_type,
         price: priceInfo.price,
         quantity: 1,
+        packageItems: service.package_items?.map((i) => i.service_name),
+        expectedMinutes: priceInfo.expected_minutes ?? null,
       };
       setCart((prevCart) => [...prevCart, newItem]);
     }
     setSelectedService(null);
   };
 
+  // Sell a wash plan; it is opened for the plate entered at checkout
+  const addPlanToCart = (plan: WashPlan) => {
+    if (!currentOrderId) {
+      setCurrentOrderId(`ORD-${uuidv4().slice(0, 8)}`);
+    }
+    if (cart.some((item) => item.planId === plan.id)) {
+      toast.info(`${plan.name} is already in cart`);
+      return;
+    }
+    const newItem: CarwashCartItem = {
+      cartId: uuidv4(),
+      serviceId: "",
+      serviceName: plan.name,
+      category: PLAN_CATEGORY,
+      vehicle: plan.vehicle_type ?? "Any vehicle",
+      price: Number(plan.price),
+      quantity: 1,
+      planId: plan.id,
+      planExpiresAt: planExpiry(plan).toISOString(),
+    };
+    setCart((prevCart) => [...prevCart, newItem]);
+  };
+
+  // The plan's plate becomes the order's plate
+  const handleApplyMembership = (membership: Membership | null) => {
+    setAppliedMembership(membership);
+    if (membership) setPlateNumber(membership.plate_number);
+  };
+
   const handleSelectServiceWithVehicle = (
     service: CarwashService,
     priceInfo: ServicePrice
@@ -793,6 +1341,16 @@ function CarwashPOS() {
     addItemToCart(service, priceInfo);
   };
 
+  const handleLinePlateChange = (cartId: string, value: string) => {
+    const plate = value.toUpperCase();
+    if (!/^[A-Z0-9-]*$/.test(plate) || plate.length > 20) return;
+    setCart((prevCart) =>
+      prevCart.map((item) =>
+        item.cartId === cartId ? { ...item, plateNumber: plate } : item
+      )
+    );
+  };
+
   const handleRemoveItem = (cartId: string) => {
     setCart((prevCart) => prevCart.filter((item) => item.cartId !== cartId));
   };
@@ -800,112 +1358,212 @@ function CarwashPOS() {
   const clearCart = () => {
     setCart([]);
     setPaymentMethod(null);
+    setChargeAccount(null);
+    setAppliedDiscount(null);
+    setLoyaltyMember(null);
+    setRedeemedReward(null);
+    setAppliedMembership(null);
+    setAppointment(null);
+    setSettlingTicket(null);
     setPlateNumber("");
     setCustomerName("");
     setCustomerPhone("");
   };
 
   // --- Calculation ---
-  const subtotal = cart.reduce(
-    (sum, item) => sum + item.price * item.quantity,
-    0
+  // Lines that are services (not plan sales); a plan-only order has no ticket
+  const serviceLines = cart.filter((item) => item.planId === undefined);
+  const sellsPlan = serviceLines.length < cart.length;
+  const vehicleType = serviceLines[0]?.vehicle ?? null;
+  // The applied wash plan pays for one service of its own vehicle, charged
+  // at zero
+  const planLine = appliedMembership
+    ? coveredLine(
+        appliedMembership,
+        cart.filter(
+          (item) =>
+            !item.plateNumber ||
+            normalizePlate(item.plateNumber) ===
+              normalizePlate(appliedMembership.plate_number)
+        )
+      )
+    : null;
+  const membership = orderMembership(appliedMembership, planLine);
+  const pricedCart = cart.map((item) =>
+    item.cartId === planLine?.cartId ? { ...item, price: 0 } : item
   );
-  const total = subtotal;
+  const activePlans = washPlans.filter((plan) => plan.is_active);
+  const vehicleCount = vehicleGroups(serviceLines, plateNumber).length;
+
+  const tax = computeTax(
+    appliedDiscount?.rule ?? null,
+    pricedCart.map((item) => ({
+      lineId: item.cartId,
+      category: item.category,
+      unitPrice: item.price,
+      quantity: item.quantity,
+    })),
+    redeemedReward ? Number(redeemedReward.value) : 0
+  );
+  const subtotal = tax.subtotal;
+  const lessVat = tax.lessVat;
+  const discount = tax.discount;
+  const reward = tax.reward;
+  const total = tax.total;
+  const loyalty = orderLoyalty(
+    loyaltySettings,
+    "Carwash",
+    loyaltyMember,
+    redeemedReward,
+    reward,
+    total
+  );
+  const discountType = appliedDiscount?.rule.name ?? null;
+  const orderItems: CarwashOrderItem[] = pricedCart.map((item) => ({
+    ...item,
+    vatExempt: tax.lines[item.cartId]?.vatExempt ?? false,
+    lessVat: tax.lines[item.cartId]?.lessVat ?? 0,
+    discount: tax.lines[item.cartId]?.discount ?? 0,
+    coveredBy:
+      item.cartId === planLine?.cartId ? (membership?.plan_name ?? null) : null,
+  }));
 
   // Upsert service ticket
   type TicketOverrides = {
     plateNumber?: string | null;
     customerName?: string | null;
     customerPhone?: string | null;
-    paymentMethod?: "Cash" | "Gcash" | null;
+    paymentMethod?: "Cash" | "Gcash" | "Account" | null;
     vehicleType?: string | null;
   };
 
-  const upsertCarwashServiceTicket = useCallback(
-    async (
-      status: "queue" | "in_progress" | "completed" = "queue",
+  // Build one service ticket body per vehicle, shared by the live upsert and
+  // the offline outbox. A single vehicle keeps the order id; several get
+  // "<order id>-1", "-2", ... grouped under the order id.
+  const buildTicketPayloads = useCallback(
+    (
+      orderId: string,
+      status: "queue" | "in_progress" | "completed",
       overrides?: TicketOverrides
-    ) => {
-      if (!currentOrderId || cart.length === 0) return;
-
-      const serviceItems = cart.map((it) => ({
-        serviceId: it.serviceId, // Include catalog service ID for linking
-        service_name: it.serviceName,
-        vehicle: it.vehicle,
-        price: it.price,
-        quantity: it.quantity,
-      }));
-
-      const inferredVehicleType =
-        overrides?.vehicleType ?? cart[0]?.vehicle ?? null;
-
+    ): CarwashTicketPayload[] => {
       const finalPlate = overrides?.plateNumber ?? plateNumber ?? null;
       const finalName = overrides?.customerName ?? customerName ?? null;
       const finalPhone = overrides?.customerPhone ?? customerPhone ?? null;
       const finalPayment = overrides?.paymentMethod ?? paymentMethod ?? null;
 
-      try {
-        await fetch(`${API_BASE}/api/carwash/services`, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            ...getAuthHeaders(),
-          },
-          body: JSON.stringify({
-            order_id: currentOrderId,
-            status,
-            vehicle_type: inferredVehicleType,
-            plate_number: finalPlate || null,
-            customer_name: finalName || null,
-            customer_phone: finalPhone || null,
-            payment_method: finalPayment || null,
-            total,
-            items: serviceItems,
-          }),
-        });
-      } catch (e) {
-        // Silent fail for now to not block POS flow
-        console.error("Failed to upsert carwash service ticket:", e);
+      // Lines keep their list price, even one a wash plan pays for, so the
+      // washer's commission is earned on the service actually performed
+      const vehicles = vehicleGroups(
+        cart.filter((it) => it.planId === undefined),
+        finalPlate || ""
+      );
+
+      return vehicles.map((vehicle, index) => ({
+        order_id: vehicles.length > 1 ? `${orderId}-${index + 1}` : orderId,
+        group_id: vehicles.length > 1 ? orderId : null,
+        status,
+        vehicle_type: vehicle.vehicle,
+        plate_number: vehicle.plate || null,
+        customer_name: finalName || null,
+        customer_phone: finalPhone || null,
+        payment_method: finalPayment || null,
+        // What was paid for this vehicle, after its share of discounts
+        total:
+          Math.round(
+            vehicle.lines.reduce(
+              (sum, it) =>
+                sum + (tax.lines[it.cartId]?.net ?? it.price * it.quantity),
+              0
+            ) * 100
+          ) / 100,
+        items: vehicle.lines.map((it) => ({
+          serviceId: it.serviceId, // Include catalog service ID for linking
+          service_name: it.serviceName,
+          vehicle: it.vehicle,
+          price: it.price,
+          quantity: it.quantity,
+          package_items: it.packageItems,
+        })),
+        expected_minutes: expectedMinutes(vehicle.lines),
+      }));
+    },
+    [cart, tax, plateNumber, customerName, customerPhone, paymentMethod]
+  );
+
+  // Create the order's queue tickets; returns the ids of those created
+  const upsertCarwashServiceTickets = useCallback(
+    async (
+      orderId: string,
+      status: "queue" | "in_progress" | "completed" = "queue",
+      overrides?: TicketOverrides
+    ) => {
+      const ticketIds: string[] = [];
+      for (const ticket of buildTicketPayloads(orderId, status, overrides)) {
+        try {
+          await api.carwash.upsert(ticket);
+          ticketIds.push(ticket.order_id ?? orderId);
+        } catch (e) {
+          // Silent fail for now to not block POS flow
+          console.error("Failed to upsert carwash service ticket:", e);
+        }
       }
+      return ticketIds;
     },
-    [
-      currentOrderId,
-      cart,
-      total,
-      plateNumber,
-      customerName,
-      customerPhone,
-      paymentMethod,
-    ]
+    [buildTicketPayloads]
   );
 
   // Removed auto-update of queue ticket - only create after payment
 
   // --- API Submission ---
-  const submitOrderToAPI = async (orderDetails: CarwashOrderDetails) => {
-    const payload = {
+  const submitOrderToAPI = async (
+    orderDetails: CarwashOrderDetails,
+    ticketOverrides?: TicketOverrides
+  ) => {
+    const payload: CreateOrderRequest = {
       orderDetails: orderDetails,
       businessUnit: "Carwash",
     };
     try {
-      const response = await fetch(`${API_BASE}/api/orders`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          ...getAuthHeaders(),
-        },
-        body: JSON.stringify(payload),
-      });
-      const result = await response.json();
-      if (!response.ok) {
-        toast.error(result.message || "Failed to save order to database.");
+      // Keyed by orderId so the outbox replay of a sale whose response was
+      // lost matches this attempt instead of posting it again
+      const result = await api.orders.create(payload, orderDetails.orderId);
+      toast.success(`Order ${result.orderId} Saved!`);
+      return { ...result, queued: false };
+    } catch (error) {
+      if (!isNetworkError(error)) {
+        toast.error(
+          error instanceof ApiError
+            ? error.message
+            : "Failed to save order to database."
+        );
+        return null;
+      }
+      // Backend unreachable: queue the order together with its service tickets
+      try {
+        await enqueueOrder({
+          orderId: orderDetails.orderId,
+          businessUnit: "Carwash",
+          payload,
+          tickets: settlingTicket
+            ? null
+            : buildTicketPayloads(
+                orderDetails.orderId,
+                "queue",
+                ticketOverrides
+              ),
+          settlement: settlingTicket
+            ? { payment_method: orderDetails.payment }
+            : null,
+        });
+        toast.warning(
+          `Offline: order ${orderDetails.orderId} saved and will sync automatically.`
+        );
+        return { orderId: orderDetails.orderId, queued: true };
+      } catch (queueError) {
+        console.error("[Outbox] Failed to queue order:", queueError);
+        toast.error("Network error: Could not save order.");
         return null;
       }
-      toast.success(`Order ${result.orderId} Saved!`);
-      return result;
-    } catch {
-      toast.error("Network error: Could not save order.");
-      return null;
     }
   };
 
@@ -913,19 +1571,7 @@ function CarwashPOS() {
   const linkTicketToOrder = useCallback(
     async (ticketId: string, dbOrderId: string) => {
       try {
-        await fetch(
-          `${API_BASE}/api/carwash/services/${encodeURIComponent(
-            ticketId
-          )}/link-order`,
-          {
-            method: "PATCH",
-            headers: {
-              "Content-Type": "application/json",
-              ...getAuthHeaders(),
-            },
-            body: JSON.stringify({ order_id: dbOrderId }),
-          }
-        );
+        await api.carwash.linkOrder(ticketId, dbOrderId);
       } catch (e) {
         console.error("Failed to link carwash ticket to order:", e);
       }
@@ -933,6 +1579,56 @@ function CarwashPOS() {
     []
   );
 
+  // Add the visit of each vehicle to the customer registry (best-effort)
+  const recordCustomerVisit = useCallback(
+    async (orderId: string, overrides: TicketOverrides) => {
+      if (!overrides.customerPhone || !overrides.customerName) return;
+      const vehicles = vehicleGroups(
+        cart.filter((it) => it.planId === undefined),
+        overrides.plateNumber || ""
+      );
+      for (const vehicle of vehicles) {
+        try {
+          await api.customers.recordVisit({
+            name: overrides.customerName.trim(),
+            phone: normalizePhone(overrides.customerPhone),
+            plate_number: vehicle.plate || null,
+            vehicle_type: vehicle.vehicle,
+            order_id: orderId,
+          });
+        } catch (e) {
+          console.error("Failed to record customer visit:", e);
+        }
+      }
+    },
+    [cart]
+  );
+
+  // Mark the booking arrived and link it to the new ticket (best-effort)
+  const checkInAppointment = useCallback(
+    async (orderId: string) => {
+      if (!appointment) return;
+      try {
+        await api.appointments.checkIn(appointment.id, orderId);
+      } catch (e) {
+        console.error("Failed to check in appointment:", e);
+      }
+    },
+    [appointment]
+  );
+
+  // Mark the pay-later ticket being settled as paid (best-effort)
+  const settlePayLaterTicket = useCallback(
+    async (orderId: string, method: string) => {
+      try {
+        await api.carwash.settle(orderId, { payment_method: method });
+      } catch (e) {
+        console.error("Failed to settle carwash ticket:", e);
+      }
+    },
+    []
+  );
+
   // Payment flow
   const handleProceedToPayment = () => {
     if (cart.length === 0) {
@@ -943,6 +1639,21 @@ function CarwashPOS() {
       toast.error("Please select a Payment Method.");
       return;
     }
+    if (paymentMethod === "Pay Later" && (sellsPlan || appliedMembership)) {
+      toast.error("Wash plans can't be sold or redeemed on Pay Later.");
+      return;
+    }
+    if (paymentMethod === "Account") {
+      if (!chargeAccount) {
+        toast.error("Please select a corporate account.");
+        return;
+      }
+      const blocker = chargeBlocker(chargeAccount, total);
+      if (blocker) {
+        toast.error(blocker);
+        return;
+      }
+    }
     if (!currentOrderId) {
       setCurrentOrderId(`ORD-${uuidv4().slice(0, 8)}`);
     }
@@ -950,6 +1661,20 @@ function CarwashPOS() {
     setIsCustomerDetailsModalOpen(true);
   };
 
+  // OR numbers need a confirmed terminal; the first sale walks through it
+  const receiptsReady = () => {
+    if (!getTerminalId()) {
+      setIsTerminalSetupOpen(true);
+      return false;
+    }
+    const receiptProblem = receiptBlocker();
+    if (receiptProblem) {
+      toast.error(receiptProblem);
+      return false;
+    }
+    return true;
+  };
+
   const handleCustomerDetailsSubmit = async (details: {
     customerName: string;
     customerPhone: string;
@@ -957,21 +1682,111 @@ function CarwashPOS() {
   }) => {
     if (isSubmittingPayment) return; // Prevent double submission
 
+    // A redeemed plan is only good for its own vehicle
+    const coveredPlate = normalizePlate(
+      planLine?.plateNumber || details.plateNumber
+    );
+    if (
+      membership &&
+      coveredPlate !== normalizePlate(membership.plate_number)
+    ) {
+      toast.error(
+        `${membership.plan_name} belongs to ${membership.plate_number}.`
+      );
+      return;
+    }
+
+    // Only the account's authorized vehicles may wash on its credit
+    const chargedPlates = vehicleGroups(
+      serviceLines.length > 0 ? serviceLines : cart,
+      details.plateNumber
+    ).map((vehicle) => vehicle.plate);
+    if (paymentMethod === "Account" && chargeAccount) {
+      const unauthorized = unauthorizedPlates(chargeAccount, chargedPlates);
+      if (unauthorized.length > 0) {
+        toast.error(
+          `${unauthorized.join(", ") || "This vehicle"} is not authorized on ${
+            chargeAccount.name
+          }.`
+        );
+        return;
+      }
+    }
+
     // Update customer details
     setCustomerName(details.customerName);
     setCustomerPhone(details.customerPhone);
     setPlateNumber(details.plateNumber);
     setIsCustomerDetailsModalOpen(false);
 
+    // Pay later: queue the ticket unpaid; it is settled here at pickup
+    if (paymentMethod === "Pay Later") {
+      setIsSubmittingPayment(true);
+      const orderId = currentOrderId || `ORD-${uuidv4().slice(0, 8)}`;
+      const ticketOverrides: TicketOverrides = {
+        plateNumber: details.plateNumber || null,
+        customerName: details.customerName || null,
+        customerPhone: details.customerPhone || null,
+        vehicleType,
+      };
+      try {
+        const tickets = buildTicketPayloads(orderId, "queue", ticketOverrides);
+        for (const ticket of tickets) {
+          await api.carwash.upsert({
+            ...ticket,
+            payment_method: null,
+            payment_status: "unpaid",
+            // Discounts and rewards are applied when the ticket is settled
+            total: ticket.items.reduce(
+              (sum, it) => sum + Number(it.price) * it.quantity,
+              0
+            ),
+          });
+        }
+        await recordCustomerVisit(orderId, ticketOverrides);
+        await checkInAppointment(tickets[0]?.order_id ?? orderId);
+        toast.success(
+          tickets.length > 1
+            ? `${tickets.length} tickets queued for ${orderId}. Payment due on pickup.`
+            : `Ticket ${orderId} queued. Payment due on pickup.`
+        );
+        clearCart();
+        setCurrentOrderId(null);
+      } catch (error) {
+        console.error("Failed to create pay-later ticket:", error);
+        toast.error(
+          isNetworkError(error)
+            ? "Offline: pay-later tickets need a connection."
+            : "Could not create the ticket."
+        );
+      } finally {
+        setIsSubmittingPayment(false);
+      }
+      return;
+    }
+
     // Proceed with payment
+    if (!receiptsReady()) return;
+    const receipt = reserveReceiptNumber("Carwash");
     const baseOrder: CarwashOrderDetails = {
       orderId: currentOrderId || `ORD-${uuidv4().slice(0, 8)}`,
-      items: cart,
+      or_number: receipt.orNumber,
+      items: orderItems,
       subtotal: subtotal,
-      discount: 0,
+      discount: discount,
       total: total,
       payment: paymentMethod!,
-      discount_type: null,
+      discount_type: discountType,
+      discount_rule_id: appliedDiscount?.rule.id ?? null,
+      discount_id_number: appliedDiscount?.idNumber ?? null,
+      discount_holder_name: appliedDiscount?.holderName ?? null,
+      vat: vatSummary(tax),
+      loyalty,
+      membership,
+      account:
+        paymentMethod === "Account"
+          ? orderAccountCharge(chargeAccount, total, chargedPlates)
+          : null,
       cashTendered: null,
       changeDue: null,
       order_type: null,
@@ -980,26 +1795,46 @@ function CarwashPOS() {
       plateNumber: details.plateNumber,
     };
 
-    if (paymentMethod === "Gcash") {
+    // GCash and account charges need no tender; they post right away
+    if (paymentMethod === "Gcash" || paymentMethod === "Account") {
       setIsSubmittingPayment(true);
       try {
-        const submissionResult = await submitOrderToAPI(baseOrder);
+        const ticketOverrides: TicketOverrides = {
+          plateNumber: details.plateNumber || null,
+          customerName: details.customerName || null,
+          customerPhone: details.customerPhone || null,
+          paymentMethod,
+          vehicleType,
+        };
+        const submissionResult = await submitOrderToAPI(
+          baseOrder,
+          ticketOverrides
+        );
         if (submissionResult) {
-          // Create carwash service ticket after successful payment
-          await upsertCarwashServiceTicket("queue", {
-            plateNumber: details.plateNumber || null,
-            customerName: details.customerName || null,
-            customerPhone: details.customerPhone || null,
-            paymentMethod,
-            vehicleType: cart[0]?.vehicle || null,
-          });
-          // Link the ticket to the DB order id (optional linkage)
-          try {
-            await linkTicketToOrder(
-              baseOrder.orderId,
-              submissionResult.orderId
-            );
-          } catch {}
+          receipt.commit();
+          // Queued orders create their ticket when the outbox syncs
+          if (!submissionResult.queued) {
+            let ticketIds = [baseOrder.orderId];
+            if (settlingTicket) {
+              await settlePayLaterTicket(baseOrder.orderId, paymentMethod);
+            } else {
+              // Create one service ticket per vehicle after successful payment
+              ticketIds = await upsertCarwashServiceTickets(
+                baseOrder.orderId,
+                "queue",
+                ticketOverrides
+              );
+            }
+            // Link the tickets to the DB order id (optional linkage)
+            for (const ticketId of ticketIds) {
+              await linkTicketToOrder(ticketId, submissionResult.orderId);
+            }
+            // A settled ticket's visit was recorded when it was queued
+            if (!settlingTicket) {
+              await recordCustomerVisit(baseOrder.orderId, ticketOverrides);
+              await checkInAppointment(ticketIds[0] ?? baseOrder.orderId);
+            }
+          }
           setCompletedOrder(baseOrder);
           setIsCustomerDetailsModalOpen(false);
           setIsReceiptModalOpen(true);
@@ -1014,20 +1849,30 @@ function CarwashPOS() {
 
   const handleCashPaymentSubmit = async (cashAmount: number) => {
     if (isSubmittingPayment) return; // Prevent double submission
+    if (!receiptsReady()) return;
 
     setIsSubmittingPayment(true);
     try {
       if (!currentOrderId) {
         setCurrentOrderId(`ORD-${uuidv4().slice(0, 8)}`);
       }
+      const receipt = reserveReceiptNumber("Carwash");
       const orderDetails: CarwashOrderDetails = {
         orderId: currentOrderId || `ORD-${uuidv4().slice(0, 8)}`,
-        items: cart,
+        or_number: receipt.orNumber,
+        items: orderItems,
         subtotal: subtotal,
-        discount: 0,
+        discount: discount,
         total: total,
         payment: "Cash",
-        discount_type: null,
+        discount_type: discountType,
+        discount_rule_id: appliedDiscount?.rule.id ?? null,
+        discount_id_number: appliedDiscount?.idNumber ?? null,
+        discount_holder_name: appliedDiscount?.holderName ?? null,
+        vat: vatSummary(tax),
+        loyalty,
+        membership,
+        account: null,
         cashTendered: cashAmount,
         changeDue: cashAmount - total,
         order_type: null,
@@ -1035,23 +1880,42 @@ function CarwashPOS() {
         customerPhone,
         plateNumber,
       };
-      const submissionResult = await submitOrderToAPI(orderDetails);
+      const ticketOverrides: TicketOverrides = {
+        plateNumber: plateNumber || null,
+        customerName: customerName || null,
+        customerPhone: customerPhone || null,
+        paymentMethod: "Cash",
+        vehicleType,
+      };
+      const submissionResult = await submitOrderToAPI(
+        orderDetails,
+        ticketOverrides
+      );
       if (submissionResult) {
-        // Create carwash service ticket after successful cash payment
-        await upsertCarwashServiceTicket("queue", {
-          plateNumber: plateNumber || null,
-          customerName: customerName || null,
-          customerPhone: customerPhone || null,
-          paymentMethod: "Cash",
-          vehicleType: cart[0]?.vehicle || null,
-        });
-        // Link the ticket to the DB order id
-        try {
-          await linkTicketToOrder(
-            orderDetails.orderId,
-            submissionResult.orderId
-          );
-        } catch {}
+        receipt.commit();
+        // Queued orders create their ticket when the outbox syncs
+        if (!submissionResult.queued) {
+          let ticketIds = [orderDetails.orderId];
+          if (settlingTicket) {
+            await settlePayLaterTicket(orderDetails.orderId, "Cash");
+          } else {
+            // Create one service ticket per vehicle after successful payment
+            ticketIds = await upsertCarwashServiceTickets(
+              orderDetails.orderId,
+              "queue",
+              ticketOverrides
+            );
+          }
+          // Link the tickets to the DB order id
+          for (const ticketId of ticketIds) {
+            await linkTicketToOrder(ticketId, submissionResult.orderId);
+          }
+          // A settled ticket's visit was recorded when it was queued
+          if (!settlingTicket) {
+            await recordCustomerVisit(orderDetails.orderId, ticketOverrides);
+            await checkInAppointment(ticketIds[0] ?? orderDetails.orderId);
+          }
+        }
         setCompletedOrder(orderDetails);
         setIsPaymentModalOpen(false);
         setIsReceiptModalOpen(true);
@@ -1123,10 +1987,13 @@ function CarwashPOS() {
           }}
           onSubmit={handleCustomerDetailsSubmit}
           initialName={customerName}
-          initialPhone={customerPhone}
-          initialPlate={plateNumber}
+          initialPhone={customerPhone || loyaltyMember?.phone || ""}
+          initialPlate={plateNumber || serviceLines[0]?.plateNumber || ""}
           isSubmitting={isSubmittingPayment}
-          vehicleType={cart[0]?.vehicle || null}
+          vehicleType={vehicleType}
+          requirePlate={
+            sellsPlan || !!membership || paymentMethod === "Account"
+          }
         />
       )}
       {/* No variant modal; ensure catalog has separate Bike and Big Bike prices */}
@@ -1140,6 +2007,13 @@ function CarwashPOS() {
           isSubmitting={isSubmittingPayment}
         />
       )}
+      {/* Above the payment modal it is opened from */}
+      {isTerminalSetupOpen && (
+        <TerminalSetupModal
+          onClose={() => setIsTerminalSetupOpen(false)}
+          onReady={() => setIsTerminalSetupOpen(false)}
+        />
+      )}
       {isReceiptModalOpen && completedOrder && (
         <ReceiptModal order={completedOrder} onClose={handleCloseReceipt} />
       )}
@@ -1179,6 +2053,14 @@ function CarwashPOS() {
                   <p className="text-gray-600 text-sm mb-4 line-clamp-2">
                     {service.description}
                   </p>
+                  {isPackage(service) && (
+                    <p className="text-xs text-gray-500 mb-2">
+                      Includes:{" "}
+                      {service.package_items
+                        ?.map((i) => i.service_name)
+                        .join(", ")}
+                    </p>
+                  )}
                 </div>
                 <p className="text-lg font-bold text-gray-900 mt-2">
                   ₱
@@ -1194,6 +2076,42 @@ function CarwashPOS() {
             ))}
           </div>
         )}
+
+        {/* Wash plans for sale */}
+        {activePlans.length > 0 && (
+          <>
+            <h2 className="text-xl font-bold mt-8 mb-4 text-gray-900">
+              Wash Plans
+            </h2>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+              {activePlans.map((plan) => (
+                <div
+                  key={plan.id}
+                  onClick={() => addPlanToCart(plan)}
+                  className="group bg-white rounded-xl shadow-sm overflow-hidden cursor-pointer hover:shadow-xl transition-all duration-300 border border-gray-100 p-6 h-full"
+                >
+                  <span className="text-xs text-emerald-600 font-semibold uppercase flex items-center gap-1">
+                    <LuTicket size={14} />
+                    {PLAN_TYPE_LABELS[plan.type]}
+                  </span>
+                  <h3 className="text-lg font-bold mt-1 mb-2 group-hover:text-blue-600 transition-colors">
+                    {plan.name}
+                  </h3>
+                  <p className="text-gray-600 text-sm mb-4">
+                    {plan.type === "prepaid"
+                      ? `${plan.washes} washes`
+                      : "Unlimited washes"}{" "}
+                    · {plan.validity_days} days
+                    {plan.vehicle_type && ` · ${plan.vehicle_type}`}
+                  </p>
+                  <p className="text-lg font-bold text-gray-900 mt-2">
+                    ₱{Number(plan.price).toLocaleString()}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
       </div>
 
       {/* Order */}
@@ -1208,6 +2126,61 @@ function CarwashPOS() {
           </button>
         </div>
 
+        {/* Pay-later ticket being settled */}
+        {settlingTicket && (
+          <div className="flex items-center justify-between bg-orange-50 border border-orange-200 rounded-lg px-3 py-2 mb-4 text-sm">
+            <div>
+              <p className="font-semibold text-gray-900">
+                Settling {settlingTicket.order_id}
+              </p>
+              <p className="text-xs text-gray-600">
+                {[settlingTicket.plate_number, settlingTicket.customer_name]
+                  .filter(Boolean)
+                  .join(" · ") || "Pay-later ticket"}
+              </p>
+            </div>
+            <button
+              onClick={() => {
+                clearCart();
+                setCurrentOrderId(null);
+              }}
+              className="text-gray-500 hover:text-gray-800"
+              title="Stop settling this ticket"
+            >
+              <LuX size={18} />
+            </button>
+          </div>
+        )}
+
+        {/* Appointment being checked in */}
+        {appointment && (
+          <div className="flex items-center justify-between bg-blue-50 border border-blue-200 rounded-lg px-3 py-2 mb-4 text-sm">
+            <div className="flex items-center gap-2">
+              <LuCalendarClock size={18} className="text-blue-700" />
+              <div>
+                <p className="font-semibold text-gray-900">
+                  Appointment · {appointment.customer_name}
+                </p>
+                <p className="text-xs text-gray-600">
+                  {new Date(appointment.scheduled_at).toLocaleTimeString(
+                    "en-US",
+                    { hour: "numeric", minute: "2-digit" }
+                  )}
+                  {appointment.plate_number &&
+                    ` · ${appointment.plate_number}`}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={() => setAppointment(null)}
+              className="text-gray-500 hover:text-gray-800"
+              title="Not this appointment"
+            >
+              <LuX size={18} />
+            </button>
+          </div>
+        )}
+
         {/* Cart */}
         <div className="flex-1 overflow-y-auto">
           {cart.length === 0 ? (
@@ -1227,9 +2200,52 @@ function CarwashPOS() {
                       {item.serviceName}
                     </h4>
                     <p className="text-sm text-gray-500">{item.vehicle}</p>
-                    <p className="text-base font-semibold mt-1">
-                      ₱{item.price.toLocaleString()}
-                    </p>
+                    {item.planId === undefined && !settlingTicket && (
+                      <input
+                        value={item.plateNumber ?? ""}
+                        onChange={(e) =>
+                          handleLinePlateChange(item.cartId, e.target.value)
+                        }
+                        placeholder={plateNumber || "Plate (if another car)"}
+                        maxLength={20}
+                        className="mt-1 w-40 px-2 py-1 border border-gray-300 rounded text-xs font-mono focus:outline-none focus:ring-2 focus:ring-amber-500"
+                        title="Plate of the vehicle for this service"
+                      />
+                    )}
+                    {item.packageItems && item.packageItems.length > 0 && (
+                      <p className="text-xs text-gray-500">
+                        Incl: {item.packageItems.join(", ")}
+                      </p>
+                    )}
+                    {item.planExpiresAt && (
+                      <p className="text-xs text-gray-500">
+                        Valid until {formatExpiry(item.planExpiresAt)}
+                      </p>
+                    )}
+                    {item.cartId === planLine?.cartId ? (
+                      <p className="text-base font-semibold mt-1">
+                        <span className="line-through text-gray-400 mr-2">
+                          ₱{item.price.toLocaleString()}
+                        </span>
+                        <span className="text-emerald-700">
+                          Covered by plan
+                        </span>
+                      </p>
+                    ) : (
+                      <p className="text-base font-semibold mt-1">
+                        ₱{item.price.toLocaleString()}
+                      </p>
+                    )}
+                    {(tax.lines[item.cartId]?.discount ?? 0) > 0 && (
+                      <p className="text-xs text-red-600">
+                        - ₱
+                        {tax.lines[item.cartId].discount.toLocaleString(
+                          "en-PH",
+                          { minimumFractionDigits: 2 }
+                        )}{" "}
+                        {discountType}
+                      </p>
+                    )}
                   </div>
                   <button
                     onClick={() => handleRemoveItem(item.cartId)}
@@ -1252,6 +2268,12 @@ function CarwashPOS() {
               {cart.reduce((sum, item) => sum + item.quantity, 0)}
             </span>
           </div>
+          {vehicleCount > 1 && (
+            <div className="flex justify-between text-sm text-gray-600 mb-2">
+              <span>Vehicles (one ticket each)</span>
+              <span className="font-medium">{vehicleCount}</span>
+            </div>
+          )}
           <div className="flex justify-between text-sm text-gray-600 mb-2">
             <span>Subtotal</span>
             <span className="font-medium">
@@ -1262,6 +2284,44 @@ function CarwashPOS() {
               })}
             </span>
           </div>
+          {lessVat > 0 && (
+            <div className="flex justify-between text-sm text-gray-600 mb-2">
+              <span>Less VAT (12%)</span>
+              <span className="font-medium">
+                - ₱
+                {lessVat.toLocaleString("en-PH", {
+                  minimumFractionDigits: 2,
+                  maximumFractionDigits: 2,
+                })}
+              </span>
+            </div>
+          )}
+          {discount > 0 && (
+            <div className="flex justify-between text-sm mb-2">
+              <span className="text-red-600">Discount ({discountType})</span>
+              <span className="font-medium text-red-600">
+                - ₱
+                {discount.toLocaleString("en-PH", {
+                  minimumFractionDigits: 2,
+                  maximumFractionDigits: 2,
+                })}
+              </span>
+            </div>
+          )}
+          {redeemedReward && (
+            <div className="flex justify-between text-sm mb-2">
+              <span className="text-amber-700">
+                Reward ({redeemedReward.name})
+              </span>
+              <span className="font-medium text-amber-700">
+                - ₱
+                {reward.toLocaleString("en-PH", {
+                  minimumFractionDigits: 2,
+                  maximumFractionDigits: 2,
+                })}
+              </span>
+            </div>
+          )}
 
           <div className="bg-white rounded-lg p-4 mb-4 border-2 border-gray-900">
             <div className="flex justify-between items-center">
@@ -1278,6 +2338,35 @@ function CarwashPOS() {
             </div>
           </div>
 
+          {/* Discount Selection */}
+          <DiscountPicker
+            rules={discountRules}
+            applied={appliedDiscount}
+            onChange={setAppliedDiscount}
+          />
+
+          {/* Loyalty member and rewards */}
+          {loyaltySettings.is_enabled && (
+            <LoyaltyPanel
+              rewards={loyaltyRewards}
+              member={loyaltyMember}
+              onMemberChange={setLoyaltyMember}
+              redeemed={redeemedReward}
+              onRedeem={setRedeemedReward}
+              pointsToEarn={pointsEarned(loyaltySettings, "Carwash", total)}
+            />
+          )}
+
+          {/* Prepaid card or membership of the vehicle */}
+          {washPlans.length > 0 && (
+            <MembershipPanel
+              initialPlate={plateNumber}
+              applied={appliedMembership}
+              onApply={handleApplyMembership}
+              coveredService={planLine?.serviceName ?? null}
+            />
+          )}
+
           {/* Payment Method Buttons */}
           <div className="mb-4">
             <label className="block text-xs font-semibold text-gray-700 mb-2 uppercase tracking-wide">
@@ -1304,9 +2393,45 @@ function CarwashPOS() {
               >
                 GCash
               </button>
+              <button
+                onClick={() => setPaymentMethod("Account")}
+                className={`col-span-2 px-4 py-3 rounded-lg font-medium transition-all ${
+                  paymentMethod === "Account"
+                    ? "bg-amber-700 text-white shadow-md"
+                    : "bg-gray-100 border border-gray-300 text-gray-700 hover:bg-gray-200"
+                }`}
+              >
+                Charge to Account
+              </button>
+              {!settlingTicket && !sellsPlan && !appliedMembership && (
+                <button
+                  onClick={() => setPaymentMethod("Pay Later")}
+                  className={`col-span-2 px-4 py-3 rounded-lg font-medium transition-all ${
+                    paymentMethod === "Pay Later"
+                      ? "bg-amber-700 text-white shadow-md"
+                      : "bg-gray-100 border border-gray-300 text-gray-700 hover:bg-gray-200"
+                  }`}
+                >
+                  Pay Later (on pickup)
+                </button>
+              )}
             </div>
+            {paymentMethod === "Pay Later" && (
+              <p className="text-xs text-gray-500 mt-2">
+                The ticket is queued unpaid. Discounts and rewards are applied
+                when it is settled.
+              </p>
+            )}
           </div>
 
+          {paymentMethod === "Account" && (
+            <AccountPicker
+              selected={chargeAccount}
+              onSelect={setChargeAccount}
+              amount={total}
+            />
+          )}
+
           <button
             onClick={handleProceedToPayment}
             className="w-full bg-amber-700 hover:bg-amber-800 text-white py-4 rounded-xl font-bold text-lg shadow-lg hover:shadow-xl transition-all disabled:bg-gray-400 disabled:cursor-not-allowed disabled:shadow-none"
@@ -1314,7 +2439,9 @@ function CarwashPOS() {
           >
             {cart.length === 0
               ? "Add Services to Continue"
-              : "Proceed to Payment"}
+              : paymentMethod === "Pay Later"
+                ? "Queue Unpaid Ticket"
+                : "Proceed to Payment"}
           </button>
         </div>
       </div>
@@ -14,40 +14,415 @@ import {
   LuSearch,
   LuEye,
   LuPrinter,
+  LuList,
+  LuLayoutGrid,
+  LuMonitor,
+  LuSend,
+  LuBanknote,
+  LuClipboardCheck,
 } from "react-icons/lu";
+import Image from "next/image";
 import { toast } from "react-toastify";
 import ProtectedRoute from "@/components/ProtectedRoute";
 import PageLoader from "@/components/PageLoader";
-import { getAuthHeaders } from "@/lib/auth";
-
-const API_BASE = process.env.NEXT_PUBLIC_API_BASE || "http://localhost:5000";
+import AssignBayModal from "@/components/AssignBayModal";
+import VehicleConditionModal from "@/components/VehicleConditionModal";
+import DamageDiagram from "@/components/DamageDiagram";
+import { api } from "@/lib/api";
+import type {
+  CarwashBay,
+  CarwashTicket,
+  NotificationDelivery,
+  Washer,
+} from "@/lib/apiTypes";
+import {
+  QueueMode,
+  groupTickets,
+  isUnpaid,
+  refreshCarwashQueue,
+  subscribeCarwashQueue,
+} from "@/lib/carwashQueue";
+import { notifyTicketReady } from "@/lib/notifications";
+import { NO_SHOW_REASON } from "@/lib/appointments";
+import {
+  SLA_STATUS_STYLES,
+  formatSlaTimer,
+  overdueTickets,
+  slaCompliance,
+  slaStatus,
+} from "@/lib/sla";
+import {
+  conditionSummary,
+  describeMarks,
+  diagramFor,
+} from "@/lib/vehicleCondition";
 
 // --- INTERFACES ---
-interface ServiceItem {
-  service_name: string;
-  vehicle: string;
-  price: number;
-  quantity: number;
+type CarwashServiceOrder = CarwashTicket;
+
+type StatusTab =
+  | "all"
+  | "queue"
+  | "in_progress"
+  | "completed"
+  | "cancelled"
+  | "unpaid";
+
+type ViewMode = "list" | "board";
+
+function washerNames(order: CarwashServiceOrder): string {
+  return (order.washers ?? []).map((w) => w.name).join(", ");
+}
+
+// Pay-later badge shown next to the ticket status
+function UnpaidBadge() {
+  return (
+    <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold border bg-orange-100 text-orange-800 border-orange-300">
+      UNPAID
+    </span>
+  );
+}
+
+// Running service time against the ticket's target, amber when nearly due
+// and red once overdue
+function SlaTimer({ order, now }: { order: CarwashServiceOrder; now: Date }) {
+  const status = slaStatus(order, now);
+  return (
+    <span
+      className={`font-medium whitespace-nowrap ${
+        status ? SLA_STATUS_STYLES[status] : "text-blue-600"
+      }`}
+    >
+      {formatSlaTimer(order, now)}
+      {status === "overdue" && " · OVERDUE"}
+    </span>
+  );
+}
+
+// --- BAY BOARD ---
+interface BayBoardProps {
+  orders: CarwashServiceOrder[];
+  bays: CarwashBay[];
+  // Ticks so the service timers stay live
+  now: Date;
+  onStart: (order: CarwashServiceOrder) => void;
+  onComplete: (orderId: string) => void;
+  onView: (order: CarwashServiceOrder) => void;
+}
+
+// Queue plus one column per bay with the vehicles being washed there
+function BayBoard({
+  orders,
+  bays,
+  now,
+  onStart,
+  onComplete,
+  onView,
+}: BayBoardProps) {
+  const queued = orders.filter((o) => o.status === "queue");
+  const inProgress = orders.filter((o) => o.status === "in_progress");
+  const activeBays = bays.filter((b) => b.is_active);
+  const unassigned = inProgress.filter(
+    (o) => !activeBays.some((b) => b.id === o.bay_id)
+  );
+
+  const columns = [
+    ...activeBays.map((bay) => ({
+      key: `bay-${bay.id}`,
+      title: bay.name,
+      orders: inProgress.filter((o) => o.bay_id === bay.id),
+    })),
+    ...(unassigned.length > 0
+      ? [{ key: "no-bay", title: "No Bay", orders: unassigned }]
+      : []),
+  ];
+
+  const renderCard = (order: CarwashServiceOrder) => (
+    <div
+      key={order.order_id}
+      className="bg-white p-3 rounded-lg border border-gray-200 shadow-sm text-sm"
+    >
+      <div className="flex items-start justify-between gap-2">
+        <button
+          onClick={() => onView(order)}
+          className="font-mono font-bold truncate hover:underline text-left"
+        >
+          {order.plate_number || order.order_id}
+        </button>
+        {order.status === "in_progress" && order.started_at && (
+          <span className="text-xs">
+            <SlaTimer order={order} now={now} />
+          </span>
+        )}
+      </div>
+      {order.group_id && (
+        <p className="text-xs text-blue-700 mt-1">Order {order.group_id}</p>
+      )}
+      {isUnpaid(order) && (
+        <div className="mt-1">
+          <UnpaidBadge />
+        </div>
+      )}
+      <p className="text-gray-600 text-xs mt-1">
+        {order.items.map((i) => i.service_name).join(", ")}
+        {order.vehicle_type && ` · ${order.vehicle_type}`}
+      </p>
+      {order.washers && order.washers.length > 0 && (
+        <p className="text-gray-500 text-xs mt-1">{washerNames(order)}</p>
+      )}
+      {order.status === "queue" ? (
+        <button
+          onClick={() => onStart(order)}
+          className="mt-2 w-full bg-blue-600 text-white px-3 py-1.5 rounded-lg text-xs font-medium hover:bg-blue-700 transition-colors flex items-center justify-center"
+        >
+          <LuPlay size={14} className="mr-1" />
+          Start
+        </button>
+      ) : (
+        <button
+          onClick={() => onComplete(order.order_id)}
+          className="mt-2 w-full bg-green-600 text-white px-3 py-1.5 rounded-lg text-xs font-medium hover:bg-green-700 transition-colors flex items-center justify-center"
+        >
+          <LuCheck size={14} className="mr-1" />
+          Complete
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-2">
+      <div className="w-64 shrink-0 bg-yellow-50 border border-yellow-200 rounded-xl p-3">
+        <h3 className="font-semibold text-yellow-800 mb-3 flex items-center">
+          <LuClock size={16} className="mr-1.5" />
+          Queue ({queued.length})
+        </h3>
+        <div className="space-y-2">{queued.map(renderCard)}</div>
+      </div>
+      {columns.map((column) => (
+        <div
+          key={column.key}
+          className="w-64 shrink-0 bg-blue-50 border border-blue-200 rounded-xl p-3"
+        >
+          <h3 className="font-semibold text-blue-800 mb-3 flex items-center justify-between">
+            <span>{column.title}</span>
+            <span
+              className={`text-xs px-2 py-0.5 rounded-full ${
+                column.orders.length > 0
+                  ? "bg-blue-600 text-white"
+                  : "bg-white text-gray-500 border border-gray-200"
+              }`}
+            >
+              {column.orders.length > 0 ? "Busy" : "Free"}
+            </span>
+          </h3>
+          <div className="space-y-2">{column.orders.map(renderCard)}</div>
+        </div>
+      ))}
+      {columns.length === 0 && (
+        <div className="flex-1 bg-white p-8 rounded-xl border border-gray-200 text-center text-gray-500">
+          No bays configured. Managers can add bays in Settings.
+        </div>
+      )}
+    </div>
+  );
+}
+
+// --- VEHICLE CONDITION ---
+interface VehicleConditionDetailsProps {
+  ticket: CarwashServiceOrder;
+  onEdit?: () => void;
+}
+
+// Condition recorded at check-in, for settling damage disputes
+function VehicleConditionDetails({
+  ticket,
+  onEdit,
+}: VehicleConditionDetailsProps) {
+  const condition = ticket.condition;
+  const layout = diagramFor(ticket.vehicle_type);
+
+  return (
+    <div className="border-t pt-4">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-sm text-gray-500">Vehicle Condition</p>
+        {onEdit && (
+          <button
+            onClick={onEdit}
+            className="text-xs font-semibold text-amber-700 hover:text-amber-900 flex items-center gap-1"
+          >
+            <LuClipboardCheck size={14} />
+            {condition ? "Edit" : "Record"}
+          </button>
+        )}
+      </div>
+      {!condition ? (
+        <p className="text-sm text-gray-400 italic">Not recorded</p>
+      ) : (
+        <div className="space-y-3 text-sm">
+          <DamageDiagram layout={layout} marks={condition.marks} />
+          {condition.marks.length > 0 && (
+            <ul className="text-xs text-gray-700 list-disc pl-4">
+              {describeMarks(condition.marks, layout).map((line) => (
+                <li key={line}>{line}</li>
+              ))}
+            </ul>
+          )}
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <p className="text-xs text-gray-500">Fuel</p>
+              <p className="font-medium">{condition.fuel_level ?? "-"}</p>
+            </div>
+            <div>
+              <p className="text-xs text-gray-500">Valuables</p>
+              <p className="font-medium">
+                {condition.valuables.length
+                  ? condition.valuables.join(", ")
+                  : "None"}
+              </p>
+            </div>
+          </div>
+          {condition.notes && (
+            <div>
+              <p className="text-xs text-gray-500">Notes</p>
+              <p className="whitespace-pre-line">{condition.notes}</p>
+            </div>
+          )}
+          {condition.photos.length > 0 && (
+            <div className="grid grid-cols-4 gap-2">
+              {condition.photos.map((url) => (
+                <a key={url} href={url} target="_blank" rel="noreferrer">
+                  <Image
+                    src={url}
+                    alt="Vehicle condition"
+                    width={120}
+                    height={120}
+                    className="w-full aspect-square rounded-lg object-cover border"
+                  />
+                </a>
+              ))}
+            </div>
+          )}
+          <p className="text-xs text-gray-500">
+            Checked {new Date(condition.checked_at).toLocaleString("en-US")}
+            {condition.checked_by_name && ` by ${condition.checked_by_name}`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
 }
 
-interface CarwashServiceOrder {
-  order_id: string;
-  created_at: string;
-  items: ServiceItem[];
-  total: number;
-  payment_method: string;
-  status: "queue" | "in_progress" | "completed" | "cancelled";
-  started_at?: string;
-  completed_at?: string;
-  cancelled_at?: string;
-  vehicle_type?: string;
-  plate_number?: string;
-  customer_name?: string;
-  customer_phone?: string;
-  cancel_reason?: string;
+// --- NOTIFICATION LOG ---
+interface NotificationLogProps {
+  ticket: CarwashServiceOrder;
 }
 
-type StatusTab = "all" | "queue" | "in_progress" | "completed" | "cancelled";
+// Ready messages sent for a ticket, with a resend for completed tickets
+function NotificationLog({ ticket }: NotificationLogProps) {
+  // Deliveries of the last loaded ticket; loading until it matches
+  const [loaded, setLoaded] = useState<{
+    orderId: string;
+    deliveries: NotificationDelivery[];
+  } | null>(null);
+  const [resending, setResending] = useState(false);
+
+  useEffect(() => {
+    api.notifications
+      .deliveries(ticket.order_id)
+      .then((deliveries) =>
+        setLoaded({ orderId: ticket.order_id, deliveries })
+      )
+      .catch((err) => {
+        console.error("Failed to load deliveries:", err);
+        setLoaded({ orderId: ticket.order_id, deliveries: [] });
+      });
+  }, [ticket.order_id]);
+
+  const loading = loaded?.orderId !== ticket.order_id;
+  const deliveries = loading ? [] : loaded.deliveries;
+
+  const handleResend = async () => {
+    setResending(true);
+    try {
+      const notice = await notifyTicketReady(ticket);
+      if (!notice) {
+        toast.info("Ready message is turned off in Settings");
+        return;
+      }
+      const { delivery, logged } = notice;
+      if (logged) {
+        setLoaded((prev) => ({
+          orderId: ticket.order_id,
+          deliveries: [logged, ...(prev?.deliveries ?? [])],
+        }));
+      }
+      if (delivery.status === "failed") {
+        toast.error("Message could not be sent");
+      } else if (!logged) {
+        toast.warning("Customer notified, but the delivery was not logged");
+      } else {
+        toast.success("Customer notified");
+      }
+    } catch (err) {
+      console.error("Failed to notify customer:", err);
+      toast.error("Message could not be sent");
+    } finally {
+      setResending(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500">Notifications</p>
+        {ticket.status === "completed" && ticket.customer_phone && (
+          <button
+            onClick={handleResend}
+            disabled={resending}
+            className="text-xs text-blue-600 hover:underline disabled:opacity-50 flex items-center"
+          >
+            <LuSend size={12} className="mr-1" />
+            {resending ? "Sending..." : "Resend"}
+          </button>
+        )}
+      </div>
+      {loading ? (
+        <p className="text-sm text-gray-400">Loading...</p>
+      ) : deliveries.length === 0 ? (
+        <p className="text-sm text-gray-400">
+          {ticket.customer_phone ? "None sent" : "No phone number"}
+        </p>
+      ) : (
+        <ul className="space-y-2 mt-1">
+          {deliveries.map((d) => (
+            <li key={d.id} className="text-xs border rounded-lg p-2">
+              <div className="flex justify-between">
+                <span className="font-medium">{d.phone}</span>
+                <span
+                  className={
+                    d.status === "failed"
+                      ? "text-red-600"
+                      : d.status === "sent"
+                        ? "text-green-600"
+                        : "text-gray-500"
+                  }
+                >
+                  {d.status} · {d.gateway}
+                </span>
+              </div>
+              <p className="text-gray-600 mt-1">{d.message}</p>
+              {d.error && <p className="text-red-600 mt-1">{d.error}</p>}
+              <p className="text-gray-400 mt-1">
+                {new Date(d.created_at).toLocaleString("en-US")}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
 
 // --- MAIN COMPONENT ---
 function CarwashServices() {
@@ -58,15 +433,8 @@ function CarwashServices() {
   useEffect(() => {
     const checkShift = async () => {
       try {
-        const response = await fetch(`${API_BASE}/api/shifts/current`, {
-          headers: getAuthHeaders(),
-        });
-        if (response.ok) {
-          const data = await response.json();
-          setHasActiveShift(data && data.status === "active");
-        } else {
-          setHasActiveShift(false);
-        }
+        const shift = await api.shifts.current();
+        setHasActiveShift(shift?.status === "active");
       } catch (error) {
         setHasActiveShift(false);
       } finally {
@@ -77,7 +445,16 @@ function CarwashServices() {
   }, []);
   const [orders, setOrders] = useState<CarwashServiceOrder[]>([]);
   const [loading, setLoading] = useState(true);
+  const [queueMode, setQueueMode] = useState<QueueMode>("connecting");
   const [activeTab, setActiveTab] = useState<StatusTab>("all");
+  const [viewMode, setViewMode] = useState<ViewMode>("list");
+  const [bays, setBays] = useState<CarwashBay[]>([]);
+  const [washers, setWashers] = useState<Washer[]>([]);
+  const [startingOrder, setStartingOrder] =
+    useState<CarwashServiceOrder | null>(null);
+  // Ticket whose check-in condition form is open
+  const [conditionOrder, setConditionOrder] =
+    useState<CarwashServiceOrder | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedOrder, setSelectedOrder] =
     useState<CarwashServiceOrder | null>(null);
@@ -85,7 +462,7 @@ function CarwashServices() {
   const [showCancelModal, setShowCancelModal] = useState(false);
   const [cancelOrderId, setCancelOrderId] = useState<string | null>(null);
   const reasonOptions = [
-    "Customer no-show",
+    NO_SHOW_REASON,
     "Changed mind",
     "Vehicle issue",
     "Scheduling conflict",
@@ -94,91 +471,98 @@ function CarwashServices() {
   type ReasonOption = (typeof reasonOptions)[number];
   const [cancelReason, setCancelReason] = useState<ReasonOption | "">("");
   const [cancelNotes, setCancelNotes] = useState<string>("");
+  // Clock for the live service timers
+  const [now, setNow] = useState(() => new Date());
 
-  // Fetch orders from backend
-  const fetchOrders = async () => {
-    try {
-      setLoading(true);
-      const response = await fetch(`${API_BASE}/api/carwash/services`, {
-        headers: getAuthHeaders(),
-      });
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 30 * 1000);
+    return () => clearInterval(timer);
+  }, []);
 
-      if (!response.ok) {
-        throw new Error("Failed to fetch carwash orders");
-      }
+  // Live queue shared with the dashboard and sidebar; falls back to polling
+  useEffect(
+    () =>
+      subscribeCarwashQueue((queue) => {
+        setOrders(queue.tickets);
+        setLoading(!queue.loaded);
+        setQueueMode(queue.mode);
+      }),
+    []
+  );
 
-      const data: CarwashServiceOrder[] = await response.json();
-      setOrders(data);
-    } catch (error) {
-      console.error("Error fetching orders:", error);
-      toast.error("Could not load carwash services");
-      setOrders([]);
-    } finally {
-      setLoading(false);
-    }
-  };
+  const fetchOrders = () => refreshCarwashQueue();
 
+  // Bays and washers offered when starting a service
   useEffect(() => {
-    fetchOrders();
-    // Auto-refresh every 30 seconds
-    const interval = setInterval(fetchOrders, 30000);
-    return () => clearInterval(interval);
+    Promise.allSettled([api.carwashBays.list(), api.washers.list()]).then(
+      ([bayList, washerList]) => {
+        if (bayList.status === "fulfilled") setBays(bayList.value);
+        if (washerList.status === "fulfilled") setWashers(washerList.value);
+      }
+    );
   }, []);
 
-  // Filter orders by status and search
-  const filteredOrders = orders.filter((order) => {
-    const matchesTab = activeTab === "all" || order.status === activeTab;
-    const matchesSearch =
+  // Filter orders by search, then by status for the list view
+  const searchedOrders = orders.filter((order) => {
+    return (
       order.order_id.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      order.group_id?.toLowerCase().includes(searchQuery.toLowerCase()) ||
       order.plate_number?.toLowerCase().includes(searchQuery.toLowerCase()) ||
       order.customer_name?.toLowerCase().includes(searchQuery.toLowerCase()) ||
       order.customer_phone?.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      order.bay_name?.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      washerNames(order).toLowerCase().includes(searchQuery.toLowerCase()) ||
       order.items.some((item) =>
         item.service_name.toLowerCase().includes(searchQuery.toLowerCase())
-      );
-
-    return matchesTab && matchesSearch;
+      )
+    );
   });
+  const filteredOrders = searchedOrders.filter((order) =>
+    activeTab === "unpaid"
+      ? isUnpaid(order)
+      : activeTab === "all" || order.status === activeTab
+  );
 
   // Status change handlers
-  const handleStartService = async (orderId: string) => {
-    try {
-      const response = await fetch(
-        `${API_BASE}/api/carwash/services/${orderId}/start`,
-        {
-          method: "PUT",
-          headers: getAuthHeaders(),
-        }
-      );
+  // Bays with a vehicle currently being washed
+  const busyBayIds = orders
+    .filter((o) => o.status === "in_progress" && o.bay_id != null)
+    .map((o) => o.bay_id as number);
 
-      if (!response.ok) throw new Error("Failed to start service");
-
-      toast.success("Service started!");
-      fetchOrders();
-    } catch (error) {
-      console.error("Error starting service:", error);
-      toast.error("Could not start service");
-    }
+  const handleStartService = (order: CarwashServiceOrder) => {
+    setStartingOrder(order);
   };
 
   const handleCompleteService = async (orderId: string) => {
     try {
-      const response = await fetch(
-        `${API_BASE}/api/carwash/services/${orderId}/complete`,
-        {
-          method: "PUT",
-          headers: getAuthHeaders(),
-        }
-      );
-
-      if (!response.ok) throw new Error("Failed to complete service");
+      await api.carwash.complete(orderId);
 
       toast.success("Service marked as completed!");
       fetchOrders();
     } catch (error) {
       console.error("Error completing service:", error);
       toast.error("Could not complete service");
+      return;
     }
+
+    // Let the customer know; a failed message never blocks the queue
+    const ticket = orders.find((o) => o.order_id === orderId);
+    if (!ticket) return;
+    notifyTicketReady({ ...ticket, status: "completed" })
+      .then((notice) => {
+        if (notice?.delivery.status === "failed") {
+          toast.warn(`Ready SMS to ${notice.delivery.phone} failed`);
+        }
+      })
+      .catch((error) => {
+        console.error("Error notifying customer:", error);
+        toast.warn("Could not send the ready SMS");
+      });
+  };
+
+  // Payment is taken in the Carwash POS, which links the order to the ticket
+  const handleSettle = (order: CarwashServiceOrder) => {
+    router.push(`/carwash-pos?settle=${encodeURIComponent(order.order_id)}`);
   };
 
   const handleViewDetails = (order: CarwashServiceOrder) => {
@@ -186,6 +570,12 @@ function CarwashServices() {
     setShowDetailModal(true);
   };
 
+  const handleConditionSaved = (ticket: CarwashServiceOrder) => {
+    setConditionOrder(null);
+    if (selectedOrder?.order_id === ticket.order_id) setSelectedOrder(ticket);
+    fetchOrders();
+  };
+
   // Calculate metrics
   const todayOrders = orders.filter((o) => {
     const orderDate = new Date(o.created_at).toDateString();
@@ -203,6 +593,12 @@ function CarwashServices() {
   const cancelledCount = todayOrders.filter(
     (o) => o.status === "cancelled"
   ).length;
+  // Pay-later tickets of any day still waiting for payment
+  const unpaidOrders = orders.filter(isUnpaid);
+  const outstandingBalance = unpaidOrders.reduce(
+    (sum, o) => sum + Number(o.total),
+    0
+  );
 
   const avgServiceTime =
     todayOrders
@@ -212,6 +608,8 @@ function CarwashServices() {
         const end = new Date(o.completed_at!).getTime();
         return acc + (end - start) / 1000 / 60; // minutes
       }, 0) / (completedCount || 1);
+  const todaySla = slaCompliance(todayOrders);
+  const overdueCount = overdueTickets(orders, now).length;
 
   // CSV Export
   const exportToCSV = () => {
@@ -230,6 +628,8 @@ function CarwashServices() {
       "Phone",
       "Services",
       "Status",
+      "Bay",
+      "Washers",
       "Cancelled At",
       "Cancel Reason",
       "Total",
@@ -250,6 +650,8 @@ function CarwashServices() {
           .map((i) => `${i.service_name} (${i.vehicle})`)
           .join("; ")}"`,
         order.status.replace("_", " ").toUpperCase(),
+        order.bay_name || "",
+        `"${washerNames(order)}"`,
         order.cancelled_at
           ? new Date(order.cancelled_at).toLocaleString("en-US")
           : "",
@@ -325,18 +727,7 @@ function CarwashServices() {
       return;
     }
     try {
-      const response = await fetch(
-        `${API_BASE}/api/carwash/services/${cancelOrderId}/cancel`,
-        {
-          method: "PUT",
-          headers: {
-            "Content-Type": "application/json",
-            ...getAuthHeaders(),
-          },
-          body: JSON.stringify({ reason: finalReason }),
-        }
-      );
-      if (!response.ok) throw new Error("Failed to cancel service");
+      await api.carwash.cancel(cancelOrderId, finalReason);
       setShowCancelModal(false);
       setCancelOrderId(null);
       toast.success("Service cancelled!");
@@ -349,14 +740,7 @@ function CarwashServices() {
 
   const handleReopenService = async (orderId: string) => {
     try {
-      const response = await fetch(
-        `${API_BASE}/api/carwash/services/${orderId}/reopen`,
-        {
-          method: "PUT",
-          headers: getAuthHeaders(),
-        }
-      );
-      if (!response.ok) throw new Error("Failed to reopen service");
+      await api.carwash.reopen(orderId);
       toast.success("Service reopened to queue!");
       fetchOrders();
     } catch (error) {
@@ -415,6 +799,63 @@ function CarwashServices() {
             Carwash Services
           </h1>
           <div className="flex items-center gap-3">
+            <span
+              className={`flex items-center text-xs font-medium ${
+                queueMode === "live" ? "text-green-600" : "text-gray-500"
+              }`}
+              title={
+                queueMode === "live"
+                  ? "Updates arrive as soon as tickets change"
+                  : "Live updates unavailable; refreshing every 30 seconds"
+              }
+            >
+              <span
+                className={`w-2 h-2 rounded-full mr-1.5 ${
+                  queueMode === "live"
+                    ? "bg-green-500 animate-pulse"
+                    : "bg-gray-400"
+                }`}
+              />
+              {queueMode === "live"
+                ? "Live"
+                : queueMode === "polling"
+                  ? "Polling"
+                  : "Connecting"}
+            </span>
+            <div className="inline-flex rounded-lg bg-gray-100 p-1">
+              <button
+                onClick={() => setViewMode("list")}
+                className={`px-3 py-1.5 text-sm font-medium rounded-md flex items-center ${
+                  viewMode === "list"
+                    ? "bg-white text-blue-900 shadow-sm"
+                    : "text-gray-600 hover:text-gray-800"
+                }`}
+              >
+                <LuList size={16} className="mr-1.5" />
+                List
+              </button>
+              <button
+                onClick={() => setViewMode("board")}
+                className={`px-3 py-1.5 text-sm font-medium rounded-md flex items-center ${
+                  viewMode === "board"
+                    ? "bg-white text-blue-900 shadow-sm"
+                    : "text-gray-600 hover:text-gray-800"
+                }`}
+              >
+                <LuLayoutGrid size={16} className="mr-1.5" />
+                Bay Board
+              </button>
+            </div>
+            <a
+              href="/queue-display"
+              target="_blank"
+              rel="noopener noreferrer"
+              className="bg-stone-700 text-white px-4 py-2 rounded-lg flex items-center hover:bg-stone-800 transition-colors shadow-sm"
+              title="Open the customer queue display in a new tab"
+            >
+              <LuMonitor size={18} className="mr-2" />
+              Display
+            </a>
             <button
               onClick={fetchOrders}
               className="bg-gray-600 text-white px-4 py-2 rounded-lg flex items-center hover:bg-gray-700 transition-colors shadow-sm"
@@ -433,7 +874,7 @@ function CarwashServices() {
         </div>
 
         {/* Metrics Cards */}
-        <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4 mb-6">
+        <div className="grid grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-3 sm:gap-4 mb-6">
           <div className="bg-white p-4 sm:p-6 rounded-xl border border-gray-200 shadow-sm">
             <p className="text-xs sm:text-sm text-gray-500">
               Today&apos;s Orders
@@ -453,6 +894,11 @@ function CarwashServices() {
             <p className="text-2xl sm:text-3xl font-bold mt-1 text-blue-600">
               {inProgressCount}
             </p>
+            {overdueCount > 0 && (
+              <p className="text-xs text-red-600 font-semibold mt-1">
+                {overdueCount} overdue
+              </p>
+            )}
           </div>
           <div className="bg-white p-4 sm:p-6 rounded-xl border border-green-200 shadow-sm">
             <p className="text-xs sm:text-sm text-gray-500">Completed</p>
@@ -461,6 +907,8 @@ function CarwashServices() {
             </p>
             <p className="text-xs text-gray-400 mt-1">
               Avg: {avgServiceTime.toFixed(0)} min
+              {todaySla.tracked > 0 &&
+                ` · ${todaySla.compliance.toFixed(0)}% on time`}
             </p>
           </div>
           <div className="bg-white p-4 sm:p-6 rounded-xl border border-red-200 shadow-sm">
@@ -469,6 +917,25 @@ function CarwashServices() {
               {cancelledCount}
             </p>
           </div>
+          <button
+            onClick={() => {
+              setViewMode("list");
+              setActiveTab("unpaid");
+            }}
+            className="bg-white p-4 sm:p-6 rounded-xl border border-orange-200 shadow-sm text-left hover:bg-orange-50 transition-colors"
+          >
+            <p className="text-xs sm:text-sm text-gray-500">Unpaid</p>
+            <p className="text-2xl sm:text-3xl font-bold mt-1 text-orange-600">
+              {unpaidOrders.length}
+            </p>
+            <p className="text-xs text-gray-400 mt-1">
+              Due:{" "}
+              {outstandingBalance.toLocaleString("en-PH", {
+                style: "currency",
+                currency: "PHP",
+              })}
+            </p>
+          </button>
         </div>
 
         {/* Search Bar */}
@@ -488,223 +955,331 @@ function CarwashServices() {
           </div>
         </div>
 
-        {/* Status Tabs */}
-        <div className="mb-6">
-          <div className="inline-flex rounded-lg bg-gray-100 p-1 flex-wrap gap-1">
-            <button
-              onClick={() => setActiveTab("all")}
-              className={`px-4 py-2 text-sm font-medium rounded-md ${
-                activeTab === "all"
-                  ? "bg-white text-blue-900 shadow-sm"
-                  : "text-gray-600 hover:text-gray-800"
-              }`}
-            >
-              All Services
-            </button>
-            <button
-              onClick={() => setActiveTab("queue")}
-              className={`px-4 py-2 text-sm font-medium rounded-md flex items-center ${
-                activeTab === "queue"
-                  ? "bg-white text-blue-900 shadow-sm"
-                  : "text-gray-600 hover:text-gray-800"
-              }`}
-            >
-              <LuClock size={14} className="mr-1.5" />
-              Queue ({queueCount})
-            </button>
-            <button
-              onClick={() => setActiveTab("in_progress")}
-              className={`px-4 py-2 text-sm font-medium rounded-md flex items-center ${
-                activeTab === "in_progress"
-                  ? "bg-white text-blue-900 shadow-sm"
-                  : "text-gray-600 hover:text-gray-800"
-              }`}
-            >
-              <LuPlay size={14} className="mr-1.5" />
-              In Progress ({inProgressCount})
-            </button>
-            <button
-              onClick={() => setActiveTab("completed")}
-              className={`px-4 py-2 text-sm font-medium rounded-md flex items-center ${
-                activeTab === "completed"
-                  ? "bg-white text-blue-900 shadow-sm"
-                  : "text-gray-600 hover:text-gray-800"
-              }`}
-            >
-              <LuCheck size={14} className="mr-1.5" />
-              Completed ({completedCount})
-            </button>
-            <button
-              onClick={() => setActiveTab("cancelled")}
-              className={`px-4 py-2 text-sm font-medium rounded-md flex items-center ${
-                activeTab === "cancelled"
-                  ? "bg-white text-blue-900 shadow-sm"
-                  : "text-gray-600 hover:text-gray-800"
-              }`}
-            >
-              <LuX size={14} className="mr-1.5" />
-              Cancelled ({cancelledCount})
-            </button>
+        {viewMode === "board" ? (
+          <BayBoard
+            orders={searchedOrders}
+            bays={bays}
+            now={now}
+            onStart={handleStartService}
+            onComplete={handleCompleteService}
+            onView={handleViewDetails}
+          />
+        ) : (
+          <>
+          {/* Status Tabs */}
+          <div className="mb-6">
+            <div className="inline-flex rounded-lg bg-gray-100 p-1 flex-wrap gap-1">
+              <button
+                onClick={() => setActiveTab("all")}
+                className={`px-4 py-2 text-sm font-medium rounded-md ${
+                  activeTab === "all"
+                    ? "bg-white text-blue-900 shadow-sm"
+                    : "text-gray-600 hover:text-gray-800"
+                }`}
+              >
+                All Services
+              </button>
+              <button
+                onClick={() => setActiveTab("queue")}
+                className={`px-4 py-2 text-sm font-medium rounded-md flex items-center ${
+                  activeTab === "queue"
+                    ? "bg-white text-blue-900 shadow-sm"
+                    : "text-gray-600 hover:text-gray-800"
+                }`}
+              >
+                <LuClock size={14} className="mr-1.5" />
+                Queue ({queueCount})
+              </button>
+              <button
+                onClick={() => setActiveTab("in_progress")}
+                className={`px-4 py-2 text-sm font-medium rounded-md flex items-center ${
+                  activeTab === "in_progress"
+                    ? "bg-white text-blue-900 shadow-sm"
+                    : "text-gray-600 hover:text-gray-800"
+                }`}
+              >
+                <LuPlay size={14} className="mr-1.5" />
+                In Progress ({inProgressCount})
+              </button>
+              <button
+                onClick={() => setActiveTab("completed")}
+                className={`px-4 py-2 text-sm font-medium rounded-md flex items-center ${
+                  activeTab === "completed"
+                    ? "bg-white text-blue-900 shadow-sm"
+                    : "text-gray-600 hover:text-gray-800"
+                }`}
+              >
+                <LuCheck size={14} className="mr-1.5" />
+                Completed ({completedCount})
+              </button>
+              <button
+                onClick={() => setActiveTab("cancelled")}
+                className={`px-4 py-2 text-sm font-medium rounded-md flex items-center ${
+                  activeTab === "cancelled"
+                    ? "bg-white text-blue-900 shadow-sm"
+                    : "text-gray-600 hover:text-gray-800"
+                }`}
+              >
+                <LuX size={14} className="mr-1.5" />
+                Cancelled ({cancelledCount})
+              </button>
+              <button
+                onClick={() => setActiveTab("unpaid")}
+                className={`px-4 py-2 text-sm font-medium rounded-md flex items-center ${
+                  activeTab === "unpaid"
+                    ? "bg-white text-blue-900 shadow-sm"
+                    : "text-gray-600 hover:text-gray-800"
+                }`}
+              >
+                <LuBanknote size={14} className="mr-1.5" />
+                Unpaid ({unpaidOrders.length})
+              </button>
+            </div>
           </div>
-        </div>
 
-        {/* Orders List */}
-        <div className="space-y-4">
-          {filteredOrders.length === 0 ? (
-            <div className="bg-white p-12 rounded-xl border border-gray-200 text-center">
-              <LuCar size={48} className="mx-auto text-gray-300 mb-4" />
-              <p className="text-gray-500">
-                {searchQuery
-                  ? "No services match your search"
-                  : "No services in this category"}
-              </p>
-            </div>
-          ) : (
-            filteredOrders.map((order) => (
-              <div
-                key={order.order_id}
-                className="bg-white p-4 sm:p-6 rounded-xl border border-gray-200 shadow-sm hover:shadow-md transition-shadow"
-              >
-                <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
-                  {/* Order Info */}
-                  <div className="flex-1">
-                    <div className="flex items-start justify-between mb-2">
-                      <div>
-                        <h3 className="font-bold text-lg font-mono truncate max-w-[220px]">
-                          {order.order_id}
-                        </h3>
-                        <span
-                          className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-semibold border ${getStatusColor(
-                            order.status
-                          )}`}
-                        >
-                          {getStatusIcon(order.status)}
-                          {order.status.replace("_", " ").toUpperCase()}
-                        </span>
-                      </div>
-                      <div className="text-right">
-                        <p className="text-sm text-gray-500">
-                          Ordered:{" "}
-                          {new Date(order.created_at).toLocaleTimeString(
-                            "en-US",
-                            { hour: "2-digit", minute: "2-digit" }
-                          )}
-                        </p>
-                        {order.status === "in_progress" && order.started_at && (
-                          <p className="text-sm text-blue-600 font-medium">
-                            Duration: {formatDuration(order.started_at)}
-                          </p>
-                        )}
-                        {order.status === "completed" &&
-                          order.started_at &&
-                          order.completed_at && (
-                            <p className="text-sm text-green-600 font-medium">
-                              Completed in:{" "}
-                              {formatDuration(
-                                order.started_at,
-                                order.completed_at
+          {/* Orders List */}
+          <div className="space-y-4">
+            {filteredOrders.length === 0 ? (
+              <div className="bg-white p-12 rounded-xl border border-gray-200 text-center">
+                <LuCar size={48} className="mx-auto text-gray-300 mb-4" />
+                <p className="text-gray-500">
+                  {searchQuery
+                    ? "No services match your search"
+                    : "No services in this category"}
+                </p>
+              </div>
+            ) : (
+              groupTickets(filteredOrders).map((group) => (
+                <div
+                  key={group[0].group_id ?? group[0].order_id}
+                  className={
+                    group.length > 1
+                      ? "space-y-3 border-l-4 border-blue-300 pl-3"
+                      : ""
+                  }
+                >
+                  {group.length > 1 && (
+                    <p className="text-sm font-semibold text-blue-900">
+                      Order{" "}
+                      <span className="font-mono">{group[0].group_id}</span> ·{" "}
+                      {group.length} vehicles
+                      {group[0].customer_name &&
+                        ` · ${group[0].customer_name}`}
+                    </p>
+                  )}
+                  {group.map((order) => (
+                    <div
+                      key={order.order_id}
+                      className="bg-white p-4 sm:p-6 rounded-xl border border-gray-200 shadow-sm hover:shadow-md transition-shadow"
+                    >
+                      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+                        {/* Order Info */}
+                        <div className="flex-1">
+                          <div className="flex items-start justify-between mb-2">
+                            <div>
+                              <h3 className="font-bold text-lg font-mono truncate max-w-[220px]">
+                                {order.order_id}
+                              </h3>
+                              <span
+                                className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-semibold border ${getStatusColor(
+                                  order.status
+                                )}`}
+                              >
+                                {getStatusIcon(order.status)}
+                                {order.status.replace("_", " ").toUpperCase()}
+                              </span>
+                              {isUnpaid(order) && (
+                                <span className="ml-2">
+                                  <UnpaidBadge />
+                                </span>
                               )}
-                            </p>
-                          )}
-                      </div>
-                    </div>
+                            </div>
+                            <div className="text-right">
+                              <p className="text-sm text-gray-500">
+                                Ordered:{" "}
+                                {new Date(order.created_at).toLocaleTimeString(
+                                  "en-US",
+                                  { hour: "2-digit", minute: "2-digit" }
+                                )}
+                              </p>
+                              {order.status === "in_progress" &&
+                                order.started_at && (
+                                  <p className="text-sm">
+                                    Duration:{" "}
+                                    <SlaTimer order={order} now={now} />
+                                  </p>
+                                )}
+                              {order.status === "completed" &&
+                                order.started_at &&
+                                order.completed_at && (
+                                  <p
+                                    className={`text-sm font-medium ${
+                                      slaStatus(order) === "overdue"
+                                        ? "text-red-600"
+                                        : "text-green-600"
+                                    }`}
+                                  >
+                                    Completed in:{" "}
+                                    {formatDuration(
+                                      order.started_at,
+                                      order.completed_at
+                                    )}
+                                    {order.expected_minutes
+                                      ? ` (target ${order.expected_minutes} min)`
+                                      : ""}
+                                  </p>
+                                )}
+                            </div>
+                          </div>
+
+                          <div className="space-y-1 mb-3">
+                            {order.items.map((item, idx) => (
+                              <div key={idx} className="text-sm text-gray-700">
+                                <span className="font-medium">
+                                  {item.service_name}
+                                </span>
+                                <span className="text-gray-500">
+                                  {" "}
+                                  ({item.vehicle}) x{item.quantity}
+                                </span>
+                                {item.package_items &&
+                                  item.package_items.length > 0 && (
+                                    <p className="text-xs text-gray-500 pl-2">
+                                      {item.package_items.join(" · ")}
+                                    </p>
+                                  )}
+                              </div>
+                            ))}
+                          </div>
 
-                    <div className="space-y-1 mb-3">
-                      {order.items.map((item, idx) => (
-                        <div key={idx} className="text-sm text-gray-700">
-                          <span className="font-medium">
-                            {item.service_name}
-                          </span>
-                          <span className="text-gray-500">
-                            {" "}
-                            ({item.vehicle}) x{item.quantity}
-                          </span>
+                          <div className="flex flex-wrap items-center gap-4 text-sm">
+                            {order.vehicle_type && (
+                              <span className="text-gray-600">
+                                <strong>Vehicle:</strong> {order.vehicle_type}
+                              </span>
+                            )}
+                            {order.plate_number && (
+                              <span className="text-gray-600">
+                                <strong>Plate:</strong> {order.plate_number}
+                              </span>
+                            )}
+                            {order.customer_name && (
+                              <span className="text-gray-600">
+                                <strong>Name:</strong> {order.customer_name}
+                              </span>
+                            )}
+                            {order.customer_phone && (
+                              <span className="text-gray-600">
+                                <strong>Phone:</strong> {order.customer_phone}
+                              </span>
+                            )}
+                            {order.bay_name && (
+                              <span className="text-gray-600">
+                                <strong>Bay:</strong> {order.bay_name}
+                              </span>
+                            )}
+                            {order.washers && order.washers.length > 0 && (
+                              <span className="text-gray-600">
+                                <strong>Washers:</strong> {washerNames(order)}
+                              </span>
+                            )}
+                            <span className="text-gray-600">
+                              <strong>Total:</strong>{" "}
+                              {Number(order.total).toLocaleString("en-PH", {
+                                style: "currency",
+                                currency: "PHP",
+                              })}
+                            </span>
+                            {order.condition && (
+                              <span className="text-gray-600">
+                                <strong>Condition:</strong>{" "}
+                                {conditionSummary(order.condition)}
+                              </span>
+                            )}
+                          </div>
                         </div>
-                      ))}
-                    </div>
 
-                    <div className="flex flex-wrap items-center gap-4 text-sm">
-                      {order.vehicle_type && (
-                        <span className="text-gray-600">
-                          <strong>Vehicle:</strong> {order.vehicle_type}
-                        </span>
-                      )}
-                      {order.plate_number && (
-                        <span className="text-gray-600">
-                          <strong>Plate:</strong> {order.plate_number}
-                        </span>
-                      )}
-                      {order.customer_name && (
-                        <span className="text-gray-600">
-                          <strong>Name:</strong> {order.customer_name}
-                        </span>
-                      )}
-                      {order.customer_phone && (
-                        <span className="text-gray-600">
-                          <strong>Phone:</strong> {order.customer_phone}
-                        </span>
-                      )}
-                      <span className="text-gray-600">
-                        <strong>Total:</strong>{" "}
-                        {Number(order.total).toLocaleString("en-PH", {
-                          style: "currency",
-                          currency: "PHP",
-                        })}
-                      </span>
+                        {/* Action Buttons */}
+                        <div className="flex flex-wrap items-center gap-2 lg:flex-col lg:items-stretch">
+                          {order.status === "queue" && (
+                            <button
+                              onClick={() => handleStartService(order)}
+                              className="flex-1 lg:flex-none bg-blue-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors flex items-center justify-center"
+                            >
+                              <LuPlay size={16} className="mr-1.5" />
+                              Start Service
+                            </button>
+                          )}
+                          {order.status === "in_progress" && (
+                            <button
+                              onClick={() =>
+                                handleCompleteService(order.order_id)
+                              }
+                              className="flex-1 lg:flex-none bg-green-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-green-700 transition-colors flex items-center justify-center"
+                            >
+                              <LuCheck size={16} className="mr-1.5" />
+                              Mark Completed
+                            </button>
+                          )}
+                          {order.status === "queue" && (
+                            <button
+                              onClick={() => setConditionOrder(order)}
+                              className={`flex-1 lg:flex-none px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center justify-center ${
+                                order.condition
+                                  ? "bg-amber-50 text-amber-800 border border-amber-200 hover:bg-amber-100"
+                                  : "bg-amber-700 text-white hover:bg-amber-800"
+                              }`}
+                            >
+                              <LuClipboardCheck size={16} className="mr-1.5" />
+                              {order.condition ? "Condition ✓" : "Check-in"}
+                            </button>
+                          )}
+                          {(order.status === "queue" ||
+                            order.status === "in_progress") && (
+                            <button
+                              onClick={() => openCancelModal(order.order_id)}
+                              className="flex-1 lg:flex-none bg-red-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-red-700 transition-colors flex items-center justify-center"
+                            >
+                              <LuX size={16} className="mr-1.5" />
+                              Cancel
+                            </button>
+                          )}
+                          {order.status === "completed" && isUnpaid(order) && (
+                            <button
+                              onClick={() => handleSettle(order)}
+                              className="flex-1 lg:flex-none bg-orange-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-orange-700 transition-colors flex items-center justify-center"
+                            >
+                              <LuBanknote size={16} className="mr-1.5" />
+                              Settle Payment
+                            </button>
+                          )}
+                          {order.status === "cancelled" && (
+                            <button
+                              onClick={() =>
+                                handleReopenService(order.order_id)
+                              }
+                              className="flex-1 lg:flex-none bg-yellow-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-yellow-700 transition-colors flex items-center justify-center"
+                            >
+                              Reopen
+                            </button>
+                          )}
+                          <button
+                            onClick={() => handleViewDetails(order)}
+                            className="flex-1 lg:flex-none bg-gray-100 text-gray-700 px-4 py-2 rounded-lg text-sm font-medium hover:bg-gray-200 transition-colors flex items-center justify-center"
+                          >
+                            <LuEye size={16} className="mr-1.5" />
+                            View Details
+                          </button>
+                        </div>
+                      </div>
                     </div>
-                  </div>
-
-                  {/* Action Buttons */}
-                  <div className="flex flex-wrap items-center gap-2 lg:flex-col lg:items-stretch">
-                    {order.status === "queue" && (
-                      <button
-                        onClick={() => handleStartService(order.order_id)}
-                        className="flex-1 lg:flex-none bg-blue-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors flex items-center justify-center"
-                      >
-                        <LuPlay size={16} className="mr-1.5" />
-                        Start Service
-                      </button>
-                    )}
-                    {order.status === "in_progress" && (
-                      <button
-                        onClick={() => handleCompleteService(order.order_id)}
-                        className="flex-1 lg:flex-none bg-green-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-green-700 transition-colors flex items-center justify-center"
-                      >
-                        <LuCheck size={16} className="mr-1.5" />
-                        Mark Completed
-                      </button>
-                    )}
-                    {(order.status === "queue" ||
-                      order.status === "in_progress") && (
-                      <button
-                        onClick={() => openCancelModal(order.order_id)}
-                        className="flex-1 lg:flex-none bg-red-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-red-700 transition-colors flex items-center justify-center"
-                      >
-                        <LuX size={16} className="mr-1.5" />
-                        Cancel
-                      </button>
-                    )}
-                    {order.status === "cancelled" && (
-                      <button
-                        onClick={() => handleReopenService(order.order_id)}
-                        className="flex-1 lg:flex-none bg-yellow-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-yellow-700 transition-colors flex items-center justify-center"
-                      >
-                        Reopen
-                      </button>
-                    )}
-                    <button
-                      onClick={() => handleViewDetails(order)}
-                      className="flex-1 lg:flex-none bg-gray-100 text-gray-700 px-4 py-2 rounded-lg text-sm font-medium hover:bg-gray-200 transition-colors flex items-center justify-center"
-                    >
-                      <LuEye size={16} className="mr-1.5" />
-                      View Details
-                    </button>
-                  </div>
+                  ))}
                 </div>
-              </div>
-            ))
-          )}
-        </div>
+              ))
+            )}
+          </div>
+          </>
+        )}
       </div>
 
       {/* Detail Modal */}
@@ -727,6 +1302,29 @@ function CarwashServices() {
                 <p className="font-mono font-bold">{selectedOrder.order_id}</p>
               </div>
 
+              {selectedOrder.group_id && (
+                <div>
+                  <p className="text-sm text-gray-500">
+                    Paid together ({selectedOrder.group_id})
+                  </p>
+                  {orders
+                    .filter((o) => o.group_id === selectedOrder.group_id)
+                    .map((o) => (
+                      <p
+                        key={o.order_id}
+                        className={`text-sm ${
+                          o.order_id === selectedOrder.order_id
+                            ? "font-semibold"
+                            : "text-gray-700"
+                        }`}
+                      >
+                        {o.plate_number || o.order_id} · {o.vehicle_type} ·{" "}
+                        {o.status.replace("_", " ")}
+                      </p>
+                    ))}
+                </div>
+              )}
+
               <div>
                 <p className="text-sm text-gray-500">Status</p>
                 <span
@@ -747,7 +1345,7 @@ function CarwashServices() {
                       {item.service_name} ({item.vehicle}) x{item.quantity}
                     </span>
                     <span className="font-semibold">
-                      {Number(item.price * item.quantity).toLocaleString(
+                      {(Number(item.price) * item.quantity).toLocaleString(
                         "en-PH",
                         { style: "currency", currency: "PHP" }
                       )}
@@ -784,9 +1382,28 @@ function CarwashServices() {
                 </div>
               )}
 
+              {selectedOrder.bay_name && (
+                <div>
+                  <p className="text-sm text-gray-500">Bay</p>
+                  <p className="font-medium">{selectedOrder.bay_name}</p>
+                </div>
+              )}
+
+              {selectedOrder.washers && selectedOrder.washers.length > 0 && (
+                <div>
+                  <p className="text-sm text-gray-500">Washers</p>
+                  <p className="font-medium">{washerNames(selectedOrder)}</p>
+                </div>
+              )}
+
               <div>
                 <p className="text-sm text-gray-500">Payment Method</p>
-                <p className="font-medium">{selectedOrder.payment_method}</p>
+                <p className="font-medium">
+                  {selectedOrder.payment_method ??
+                    (isUnpaid(selectedOrder)
+                      ? "Unpaid (pay on pickup)"
+                      : "—")}
+                </p>
               </div>
 
               <div className="pt-4 border-t">
@@ -806,6 +1423,9 @@ function CarwashServices() {
                   Ordered:{" "}
                   {new Date(selectedOrder.created_at).toLocaleString("en-US")}
                 </p>
+                {selectedOrder.expected_minutes ? (
+                  <p>Expected duration: {selectedOrder.expected_minutes} min</p>
+                ) : null}
                 {selectedOrder.started_at && (
                   <p>
                     Started:{" "}
@@ -836,6 +1456,18 @@ function CarwashServices() {
                   <p className="font-medium">{selectedOrder.cancel_reason}</p>
                 </div>
               )}
+
+              <VehicleConditionDetails
+                ticket={selectedOrder}
+                // Pre-wash evidence: locked once the wash has started
+                onEdit={
+                  selectedOrder.status === "queue"
+                    ? () => setConditionOrder(selectedOrder)
+                    : undefined
+                }
+              />
+
+              <NotificationLog ticket={selectedOrder} />
             </div>
 
             <div className="mt-6 flex gap-3">
@@ -845,6 +1477,16 @@ function CarwashServices() {
               >
                 Close
               </button>
+              {selectedOrder.status === "completed" &&
+                isUnpaid(selectedOrder) && (
+                  <button
+                    onClick={() => handleSettle(selectedOrder)}
+                    className="flex-1 bg-orange-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-orange-700 transition-colors flex items-center justify-center"
+                  >
+                    <LuBanknote size={16} className="mr-2" />
+                    Settle
+                  </button>
+                )}
               <button
                 onClick={() => {
                   toast.info("Print functionality coming soon");
@@ -859,6 +1501,30 @@ function CarwashServices() {
         </div>
       )}
 
+      {/* Start Service Modal */}
+      {startingOrder && (
+        <AssignBayModal
+          ticket={startingOrder}
+          bays={bays}
+          washers={washers}
+          busyBayIds={busyBayIds}
+          onClose={() => setStartingOrder(null)}
+          onStarted={() => {
+            setStartingOrder(null);
+            fetchOrders();
+          }}
+        />
+      )}
+
+      {/* Vehicle Condition Modal */}
+      {conditionOrder && (
+        <VehicleConditionModal
+          ticket={conditionOrder}
+          onClose={() => setConditionOrder(null)}
+          onSaved={handleConditionSaved}
+        />
+      )}
+
       {/* Cancel Modal */}
       {showCancelModal && (
         <div className="fixed inset-0 backdrop-blur-sm bg-black/30 flex items-center justify-center z-50 p-4">
@@ -6,9 +6,15 @@
   This page implements the Point-of-Sale (POS) system for coffee shop operations. It allows staff to:
     - Browse and search coffee products
     - Add/remove products to a cart
-    - Select options (e.g., temperature)
-    - Process payments (Cash/Gcash)
-    - Print receipts (with Bluetooth/ESC/POS support)
+    - Select options (temperature, size, add-ons, sugar level) with price deltas
+    - Earn and redeem loyalty points by member phone number
+    - Apply manager-defined discounts (Senior/PWD require an ID number)
+    - Compute VAT, removing it from VAT-exempt Senior/PWD lines
+    - Process payments (Cash, GCash, Maya, Card) including split tender
+    - Charge all or part of an order to a corporate account within its credit limit
+    - Deduct recipe ingredients from inventory for every sale
+    - Keep selling offline (orders are queued and synced when the backend is reachable)
+    - Print receipts (with Bluetooth/ESC/POS support) with a sequential OR number
     - View and manage current orders
   ProtectedRoute ensures only authenticated users can access this page.
   The page uses various utility and UI components for printing, receipt preview, and async data handling.
@@ -33,14 +39,70 @@ import { toast } from "react-toastify";
 import { v4 as uuidv4 } from "uuid";
 import ProtectedRoute from "@/components/ProtectedRoute"; // Restricts access to authenticated users
 import Spinner from "@/components/Spinner"; // Loading spinner for async data
-import { getAuthHeaders } from "@/lib/auth"; // Helper for API auth headers
+import { api, ApiError } from "@/lib/api"; // Typed backend client
+import type {
+  CorporateAccount,
+  CreateOrderRequest,
+  DiscountRule,
+  LoyaltyAccount,
+  LoyaltyReward,
+  LoyaltySettings,
+  ModifierGroup,
+  ModifierOption,
+  OrderAccountCharge,
+  OrderLoyalty,
+  RecipeLine,
+} from "@/lib/apiTypes"; // Shared request types
+import {
+  PAYMENT_METHODS,
+  PaymentMethod,
+  TenderLine,
+  balanceDue,
+  changeDue,
+  cashTendered,
+  paymentMethodLabel,
+  summarizePaymentMethod,
+  sumTenders,
+  validateTender,
+} from "@/lib/payments"; // Split tender helpers
+import {
+  chargeBlocker,
+  orderAccountCharge,
+  receiptAccount,
+} from "@/lib/corporateAccounts"; // Corporate accounts billed monthly
+import { AppliedDiscount, fetchDiscountRules } from "@/lib/discounts"; // Discount rule engine
+import { VatSummary, computeTax, vatSummary } from "@/lib/tax"; // VAT computation
+import {
+  DEFAULT_LOYALTY_SETTINGS,
+  fetchLoyaltyProgram,
+  orderLoyalty,
+  pointsEarned,
+  receiptLoyalty,
+} from "@/lib/loyalty"; // Loyalty points and rewards
+import {
+  SelectedModifier,
+  modifierGroupsFor,
+  modifiersKey,
+  modifiersTotal,
+  validateModifiers,
+} from "@/lib/modifiers"; // Product modifier helpers
+import { ingredientUsage, recordIngredientUsage } from "@/lib/recipes"; // Recipe-based stock deduction
+import { enqueueOrder, isNetworkError } from "@/lib/orderOutbox"; // Offline order queue
+import { CACHE_KEYS, withOfflineCache } from "@/lib/offlineCache"; // Last known data for offline startup
+import {
+  getTerminalId,
+  receiptBlocker,
+  reserveReceiptNumber,
+  syncReceiptSeries,
+} from "@/lib/receiptNumbers"; // Official receipt numbering
 import { printElementById } from "@/utils/print"; // Utility for printing DOM elements
 import { generateCoffeeReceipt } from "@/utils/escpos"; // ESC/POS receipt generator
 import { printWithRawBT, canUseRawBT } from "@/utils/rawbt"; // Bluetooth printing utilities
 import ESCPOSPreview from "@/components/ESCPOSPreview"; // Receipt preview component
-
-// API base URL
-const API_BASE = process.env.NEXT_PUBLIC_API_BASE || "http://localhost:5000";
+import TerminalSetupModal from "@/components/TerminalSetupModal"; // First-run terminal ID claim
+import DiscountPicker from "@/components/DiscountPicker"; // Discount chips with ID capture
+import LoyaltyPanel from "@/components/LoyaltyPanel"; // Member lookup and rewards
+import AccountPicker from "@/components/AccountPicker"; // Corporate account for charges
 
 // --------------------
 // Type Definitions
@@ -54,6 +116,8 @@ interface Product {
   price: number;
   needs_temp: boolean;
   image_url: string | null;
+  modifier_groups?: ModifierGroup[];
+  recipe?: RecipeLine[];
 }
 
 // Cart item for coffee order
@@ -61,28 +125,57 @@ interface CartItem {
   cartId: string;
   id: number;
   name: string;
+  category: string;
+  // Unit price including modifier deltas
   price: number;
+  basePrice: number;
+  // Hot/Cold, kept separate for reports
   option: string | null;
+  // Size, add-ons, sugar level, ...
+  modifiers: SelectedModifier[];
   quantity: number;
 }
 
+// Ordered item with the VAT removed and discount granted on its line
+interface OrderItem extends CartItem {
+  vatExempt: boolean;
+  lessVat: number;
+  discount: number;
+}
+
 // Order details for coffee transaction
 interface OrderDetails {
   orderId: string;
-  items: CartItem[];
+  // Official receipt number from this terminal's series
+  or_number: string;
+  items: OrderItem[];
   subtotal: number;
   discount: number;
   total: number;
   type: "Dine in" | "Take out";
-  payment: "Cash" | "Gcash";
+  // Single method name, or "Split" when several methods were used
+  payment: string;
+  tenders: TenderLine[];
   cashTendered: number | null;
   changeDue: number | null;
   discount_type: string | null;
+  discount_rule_id: number | null;
+  // Senior/PWD ID presented by the customer
+  discount_id_number: string | null;
+  discount_holder_name: string | null;
+  vat: VatSummary;
+  // Points earned/redeemed by a loyalty member
+  loyalty: OrderLoyalty | null;
+  // Account tenders, charged to a corporate account
+  account: OrderAccountCharge | null;
+  // Recipe ingredients deducted from inventory for this order
+  ingredient_usage: RecipeLine[];
 }
 
-interface TempSelectionModalProps {
+interface ModifierModalProps {
   product: Product;
-  onSelect: (option: "Hot" | "Cold") => void;
+  groups: ModifierGroup[];
+  onConfirm: (modifiers: SelectedModifier[]) => void;
   onCancel: () => void;
 }
 
@@ -91,17 +184,54 @@ const placeholderImage =
 
 // Modals
 
-function TempSelectionModal({
+function ModifierModal({
   product,
-  onSelect,
+  groups,
+  onConfirm,
   onCancel,
-}: TempSelectionModalProps) {
+}: ModifierModalProps) {
+  const [selected, setSelected] = useState<SelectedModifier[]>([]);
+
+  const isSelected = (group: ModifierGroup, option: ModifierOption) =>
+    selected.some((m) => m.group === group.name && m.name === option.name);
+
+  const handleToggle = (group: ModifierGroup, option: ModifierOption) => {
+    const modifier: SelectedModifier = {
+      group: group.name,
+      name: option.name,
+      price_delta: option.price_delta,
+    };
+    setSelected((prev) => {
+      if (isSelected(group, option)) {
+        return prev.filter(
+          (m) => !(m.group === group.name && m.name === option.name)
+        );
+      }
+      // Single-choice groups replace the previous pick
+      const others = group.multiple
+        ? prev
+        : prev.filter((m) => m.group !== group.name);
+      return [...others, modifier];
+    });
+  };
+
+  const handleConfirm = () => {
+    const error = validateModifiers(groups, selected);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    onConfirm(selected);
+  };
+
+  const unitPrice = product.price + modifiersTotal(selected);
+
   return (
     <div className="fixed inset-0 backdrop-blur-sm bg-black/30 flex items-center justify-center z-50">
-      <div className="bg-white p-6 rounded-lg shadow-lg">
+      <div className="bg-white p-6 rounded-lg shadow-lg w-full max-w-lg max-h-[90vh] overflow-y-auto">
         <div className="flex justify-between items-center mb-4">
           <h3 className="text-xl font-semibold">
-            Select Option for {product.name}
+            Select Options for {product.name}
           </h3>
           <button
             onClick={onCancel}
@@ -110,21 +240,49 @@ function TempSelectionModal({
             <LuX size={24} />
           </button>
         </div>
-        <p className="mb-6">This item requires a temperature selection:</p>
-        <div className="flex gap-4">
-          <button
-            onClick={() => onSelect("Hot")}
-            className="flex-1 bg-red-500 text-white p-4 rounded-lg font-bold hover:bg-red-600"
-          >
-            Hot
-          </button>
-          <button
-            onClick={() => onSelect("Cold")}
-            className="flex-1 bg-blue-500 text-white p-4 rounded-lg font-bold hover:bg-blue-600"
-          >
-            Cold
-          </button>
+        <div className="space-y-5 mb-6">
+          {groups.map((group) => (
+            <div key={group.name}>
+              <label className="block text-xs font-semibold text-gray-700 mb-2 uppercase tracking-wide">
+                {group.name}
+                {group.required ? " *" : ""}
+                {group.multiple && (
+                  <span className="normal-case font-normal text-gray-500">
+                    {" "}
+                    (choose any)
+                  </span>
+                )}
+              </label>
+              <div className="grid grid-cols-3 gap-2">
+                {group.options.map((option) => (
+                  <button
+                    key={option.name}
+                    onClick={() => handleToggle(group, option)}
+                    className={`px-3 py-3 rounded-lg font-medium transition-all text-sm ${
+                      isSelected(group, option)
+                        ? "bg-amber-700 text-white shadow-md"
+                        : "bg-gray-100 border border-gray-300 text-gray-700 hover:bg-gray-200"
+                    }`}
+                  >
+                    <div>{option.name}</div>
+                    {option.price_delta !== 0 && (
+                      <div className="text-xs opacity-80">
+                        {option.price_delta > 0 ? "+" : "-"}₱
+                        {Math.abs(option.price_delta).toLocaleString()}
+                      </div>
+                    )}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
         </div>
+        <button
+          onClick={handleConfirm}
+          className="w-full bg-amber-700 hover:bg-amber-800 text-white py-3 rounded-xl font-bold"
+        >
+          Add to Order · ₱{unitPrice.toLocaleString()}
+        </button>
       </div>
     </div>
   );
@@ -151,17 +309,39 @@ function ReceiptModal({ order, onClose }: ReceiptModalProps) {
     // Build ESC/POS receipt data
     const escposData = generateCoffeeReceipt({
       orderId: order.orderId,
+      orNumber: order.or_number,
       items: order.items.map((item) => ({
         name: item.name,
         option: item.option,
+        modifiers: item.modifiers.map((m) => ({
+          name: m.name,
+          priceDelta: m.price_delta,
+        })),
         quantity: item.quantity,
         price: item.price,
+        lessVat: item.lessVat,
+        discount: item.discount,
       })),
       subtotal: order.subtotal,
       discountType: order.discount_type,
       discountAmount: order.discount,
+      discountIdNumber: order.discount_id_number,
+      discountHolderName: order.discount_holder_name,
+      vat: {
+        vatableSales: order.vat.vatable_sales,
+        vatAmount: order.vat.vat_amount,
+        vatExemptSales: order.vat.vat_exempt_sales,
+        lessVat: order.vat.less_vat,
+      },
+      loyalty: receiptLoyalty(order.loyalty),
+      account: receiptAccount(order.account),
       total: order.total,
-      paymentMethod: order.payment,
+      paymentMethod: paymentMethodLabel(order.payment),
+      tenders: order.tenders.map((t) => ({
+        method: paymentMethodLabel(t.method),
+        amount: t.amount,
+        reference: t.reference,
+      })),
       cashReceived: order.cashTendered ?? undefined,
       change: order.changeDue ?? undefined,
       timestamp: new Date().toLocaleString("en-US", {
@@ -198,17 +378,39 @@ function ReceiptModal({ order, onClose }: ReceiptModalProps) {
     // Build ESC/POS receipt data
     const escposData = generateCoffeeReceipt({
       orderId: order.orderId,
+      orNumber: order.or_number,
       items: order.items.map((item) => ({
         name: item.name,
         option: item.option,
+        modifiers: item.modifiers.map((m) => ({
+          name: m.name,
+          priceDelta: m.price_delta,
+        })),
         quantity: item.quantity,
         price: item.price,
+        lessVat: item.lessVat,
+        discount: item.discount,
       })),
       subtotal: order.subtotal,
       discountType: order.discount_type,
       discountAmount: order.discount,
+      discountIdNumber: order.discount_id_number,
+      discountHolderName: order.discount_holder_name,
+      vat: {
+        vatableSales: order.vat.vatable_sales,
+        vatAmount: order.vat.vat_amount,
+        vatExemptSales: order.vat.vat_exempt_sales,
+        lessVat: order.vat.less_vat,
+      },
+      loyalty: receiptLoyalty(order.loyalty),
+      account: receiptAccount(order.account),
       total: order.total,
-      paymentMethod: order.payment,
+      paymentMethod: paymentMethodLabel(order.payment),
+      tenders: order.tenders.map((t) => ({
+        method: paymentMethodLabel(t.method),
+        amount: t.amount,
+        reference: t.reference,
+      })),
       cashReceived: order.cashTendered ?? undefined,
       change: order.changeDue ?? undefined,
       timestamp: new Date().toLocaleString("en-US", {
@@ -246,7 +448,8 @@ function ReceiptModal({ order, onClose }: ReceiptModalProps) {
           <p className="text-gray-600 text-xs mt-1">Coffee Shop Receipt</p>
           <div className="text-xs text-gray-500 mt-2">
             <div>{currentDate}</div>
-            <div className="font-semibold mt-1">Order: {order.orderId}</div>
+            <div className="font-semibold mt-1">OR No: {order.or_number}</div>
+            <div>Order: {order.orderId}</div>
           </div>
         </div>
         {/* Item List */}
@@ -263,6 +466,29 @@ function ReceiptModal({ order, onClose }: ReceiptModalProps) {
                   {item.quantity} x P{item.price.toFixed(2)}
                 </span>
               </div>
+              {item.modifiers.map((m) => (
+                <div
+                  key={`${m.group}:${m.name}`}
+                  className="flex justify-between text-gray-600 text-xs pl-2"
+                >
+                  <span>+ {m.name}</span>
+                  {m.price_delta !== 0 && (
+                    <span>P{m.price_delta.toFixed(2)}</span>
+                  )}
+                </div>
+              ))}
+              {item.lessVat > 0 && (
+                <div className="flex justify-between text-gray-600 text-xs pl-2">
+                  <span>Less: VAT</span>
+                  <span>-P{item.lessVat.toFixed(2)}</span>
+                </div>
+              )}
+              {item.discount > 0 && (
+                <div className="flex justify-between text-red-600 text-xs pl-2">
+                  <span>Less: {order.discount_type}</span>
+                  <span>-P{item.discount.toFixed(2)}</span>
+                </div>
+              )}
             </div>
           ))}
         </div>
@@ -272,27 +498,103 @@ function ReceiptModal({ order, onClose }: ReceiptModalProps) {
             <span>Subtotal:</span>
             <span>P{order.subtotal.toFixed(2)}</span>
           </div>
+          {order.vat.less_vat > 0 && (
+            <div className="flex justify-between">
+              <span>Less VAT (12%):</span>
+              <span>-P{order.vat.less_vat.toFixed(2)}</span>
+            </div>
+          )}
           <div className="flex justify-between">
-            <span>Discount:</span>
+            <span>
+              Discount{order.discount_type ? ` (${order.discount_type})` : ""}:
+            </span>
             <span className="text-red-600">-P{order.discount.toFixed(2)}</span>
           </div>
+          {order.discount_id_number && (
+            <div className="text-xs text-gray-500 pl-2">
+              ID No: {order.discount_id_number}
+              {order.discount_holder_name && ` (${order.discount_holder_name})`}
+            </div>
+          )}
+          {order.loyalty && order.loyalty.reward_amount > 0 && (
+            <div className="flex justify-between">
+              <span>Reward ({order.loyalty.reward_name}):</span>
+              <span className="text-red-600">
+                -P{order.loyalty.reward_amount.toFixed(2)}
+              </span>
+            </div>
+          )}
           <div className="flex justify-between text-lg font-bold border-t-2 border-dashed border-gray-400 pt-2 mt-2">
             <span>TOTAL:</span>
             <span>P{order.total.toFixed(2)}</span>
           </div>
-          {order.payment === "Cash" && (
-            <div className="border-t border-dashed border-gray-300 pt-2 mt-2 space-y-1">
-              <div className="flex justify-between">
-                <span>Cash:</span>
-                <span>P{order.cashTendered?.toFixed(2)}</span>
+          <div className="border-t border-dashed border-gray-300 pt-2 mt-2 space-y-1 text-xs text-gray-600">
+            <div className="flex justify-between">
+              <span>VATable Sales:</span>
+              <span>P{order.vat.vatable_sales.toFixed(2)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>VAT-Exempt Sales:</span>
+              <span>P{order.vat.vat_exempt_sales.toFixed(2)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>VAT (12%):</span>
+              <span>P{order.vat.vat_amount.toFixed(2)}</span>
+            </div>
+          </div>
+          <div className="border-t border-dashed border-gray-300 pt-2 mt-2 space-y-1">
+            {order.tenders.map((tender, index) => (
+              <div key={index}>
+                <div className="flex justify-between">
+                  <span>{paymentMethodLabel(tender.method)}:</span>
+                  <span>P{tender.amount.toFixed(2)}</span>
+                </div>
+                {tender.reference && (
+                  <div className="text-xs text-gray-500 pl-2">
+                    Ref: {tender.reference}
+                  </div>
+                )}
               </div>
+            ))}
+            {(order.changeDue ?? 0) > 0 && (
               <div className="flex justify-between font-bold">
                 <span>Change:</span>
                 <span>P{order.changeDue?.toFixed(2)}</span>
               </div>
-            </div>
-          )}
+            )}
+          </div>
         </div>
+        {order.loyalty && (
+          <div className="text-xs text-gray-600 space-y-1 border-t border-gray-300 pt-3 mb-3">
+            {order.loyalty.points_redeemed > 0 && (
+              <div className="flex justify-between">
+                <span>Points redeemed:</span>
+                <span>-{order.loyalty.points_redeemed}</span>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <span>Points earned:</span>
+              <span>+{order.loyalty.points_earned}</span>
+            </div>
+            <div className="flex justify-between font-semibold">
+              <span>Points balance:</span>
+              <span>{order.loyalty.balance}</span>
+            </div>
+          </div>
+        )}
+        {order.account && (
+          <div className="text-xs text-gray-600 space-y-1 border-t border-gray-300 pt-3 mb-3">
+            <div className="flex justify-between">
+              <span>Charged to:</span>
+              <span>{order.account.account_name}</span>
+            </div>
+            <div className="flex justify-between font-semibold">
+              <span>Amount:</span>
+              <span>P{order.account.amount.toFixed(2)}</span>
+            </div>
+            <p className="pt-4">Signature: ____________________</p>
+          </div>
+        )}
         <div className="text-xs text-gray-600 space-y-1 border-t border-gray-300 pt-3">
           <div className="flex justify-between">
             <span>Type:</span>
@@ -300,7 +602,9 @@ function ReceiptModal({ order, onClose }: ReceiptModalProps) {
           </div>
           <div className="flex justify-between">
             <span>Payment:</span>
-            <span className="font-medium">{order.payment}</span>
+            <span className="font-medium">
+              {paymentMethodLabel(order.payment)}
+            </span>
           </div>
         </div>
         <div className="text-center text-xs text-gray-500 mt-4 border-t border-gray-300 pt-3">
@@ -365,20 +669,30 @@ function ReceiptModal({ order, onClose }: ReceiptModalProps) {
 interface PaymentModalProps {
   totalDue: number;
   onClose: () => void;
-  onSubmit: (cashTendered: number) => void;
-  cashTendered: string;
-  setCashTendered: (value: string) => void;
+  onSubmit: (tenders: TenderLine[], account: CorporateAccount | null) => void;
   isSubmitting: boolean;
 }
 
+// Collects one or more tender lines until the balance due reaches zero
 function PaymentModal({
   totalDue,
   onClose,
   onSubmit,
-  cashTendered,
-  setCashTendered,
   isSubmitting,
 }: PaymentModalProps) {
+  const [tenders, setTenders] = useState<TenderLine[]>([]);
+  const [method, setMethod] = useState<PaymentMethod>("Cash");
+  const [amount, setAmount] = useState<string>("");
+  const [reference, setReference] = useState<string>("");
+  // Corporate account the Account tenders are charged to
+  const [account, setAccount] = useState<CorporateAccount | null>(null);
+
+  const remaining = balanceDue(totalDue, tenders);
+  const change = changeDue(totalDue, tenders);
+  const needsReference =
+    PAYMENT_METHODS.find((m) => m.value === method)?.requiresReference ??
+    false;
+
   const numpadKeys = [
     "1",
     "2",
@@ -394,32 +708,72 @@ function PaymentModal({
     "C",
   ];
   const handleNumpadClick = (value: string) => {
-    if (value === "C") setCashTendered("");
-    else if (cashTendered.length < 10) {
-      if ((value === "0" || value === "00") && cashTendered === "") return;
-      setCashTendered(cashTendered + value);
+    if (value === "C") setAmount("");
+    else if (amount.length < 10) {
+      if ((value === "0" || value === "00") && amount === "") return;
+      setAmount(amount + value);
+    }
+  };
+
+  const handleAddTender = () => {
+    // Blank amount means "pay the rest" with the selected method
+    const tender: TenderLine = {
+      method,
+      amount: amount === "" ? remaining : parseFloat(amount),
+      reference: needsReference ? reference.trim() : null,
+    };
+    const error = validateTender(tender, remaining);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    if (method === "Account") {
+      if (!account) {
+        toast.error("Please select a corporate account.");
+        return;
+      }
+      const charged = tenders.filter((t) => t.method === "Account");
+      const blocker = chargeBlocker(
+        account,
+        sumTenders([...charged, tender])
+      );
+      if (blocker) {
+        toast.error(blocker);
+        return;
+      }
+      tender.reference = account.name;
     }
+    setTenders((prev) => [...prev, tender]);
+    setAmount("");
+    setReference("");
   };
+
+  const handleRemoveTender = (index: number) => {
+    setTenders((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  // One account per order; switching it drops tenders charged to the old one
+  const handleSelectAccount = (selected: CorporateAccount | null) => {
+    setAccount(selected);
+    setTenders((prev) => prev.filter((t) => t.method !== "Account"));
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (isSubmitting) return;
-    const cashAmount = parseFloat(cashTendered);
-    if (isNaN(cashAmount) || cashTendered === "") {
-      toast.error("Please enter a cash amount.");
-      return;
-    }
-    if (cashAmount < totalDue) {
-      toast.error("Cash amount is less than the total due.");
+    if (remaining > 0) {
+      toast.error("Balance due must be fully paid.");
       return;
     }
-    onSubmit(cashAmount);
+    onSubmit(tenders, account);
   };
+
   return (
     <div className="fixed inset-0 backdrop-blur-sm bg-black/30 flex items-center justify-center z-50">
-      <div className="bg-white p-6 rounded-lg shadow-lg w-full max-w-sm">
+      <div className="bg-white p-6 rounded-lg shadow-lg w-full max-w-md max-h-[95vh] overflow-y-auto">
         <form onSubmit={handleSubmit}>
           <div className="flex justify-between items-center mb-4">
-            <h3 className="text-xl font-semibold">Cash Payment</h3>
+            <h3 className="text-xl font-semibold">Payment</h3>
             <button
               type="button"
               onClick={onClose}
@@ -428,34 +782,141 @@ function PaymentModal({
               <LuX size={24} />
             </button>
           </div>
-          <div className="mb-4">
+
+          <div className="mb-4 space-y-1">
             <div className="flex justify-between text-lg">
               <span>Total Due:</span>
               <span className="font-bold">P{totalDue.toFixed(2)}</span>
             </div>
-            <div className="mt-2 p-3 bg-gray-100 rounded text-right text-3xl font-mono">
-              {cashTendered ? (
-                `P${cashTendered}`
-              ) : (
-                <span className="text-gray-400">P0.00</span>
-              )}
+            <div
+              className={`flex justify-between text-lg ${
+                remaining > 0 ? "text-red-600" : "text-green-600"
+              }`}
+            >
+              <span>Balance:</span>
+              <span className="font-bold">P{remaining.toFixed(2)}</span>
             </div>
+            {change > 0 && (
+              <div className="flex justify-between text-lg text-blue-700">
+                <span>Change:</span>
+                <span className="font-bold">P{change.toFixed(2)}</span>
+              </div>
+            )}
           </div>
-          <div className="grid grid-cols-3 gap-2 mb-4">
-            {numpadKeys.map((key) => (
+
+          {/* Tender lines */}
+          {tenders.length > 0 && (
+            <div className="mb-4 space-y-2">
+              {tenders.map((tender, index) => (
+                <div
+                  key={index}
+                  className="flex items-center justify-between bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 text-sm"
+                >
+                  <div>
+                    <span className="font-semibold">
+                      {paymentMethodLabel(tender.method)}
+                    </span>
+                    {tender.reference && (
+                      <span className="text-gray-500 ml-2">
+                        Ref: {tender.reference}
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span className="font-semibold">
+                      P{tender.amount.toFixed(2)}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => handleRemoveTender(index)}
+                      className="text-gray-400 hover:text-red-500"
+                      title="Remove tender"
+                    >
+                      <LuTrash2 size={16} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {remaining > 0 && (
+            <>
+              {/* Method selection */}
+              <div className="grid grid-cols-5 gap-2 mb-3">
+                {PAYMENT_METHODS.map((m) => (
+                  <button
+                    type="button"
+                    key={m.value}
+                    onClick={() => setMethod(m.value)}
+                    className={`px-2 py-2 rounded-lg font-medium text-sm transition-all ${
+                      method === m.value
+                        ? "bg-amber-700 text-white shadow-md"
+                        : "bg-gray-100 border border-gray-300 text-gray-700 hover:bg-gray-200"
+                    }`}
+                  >
+                    {m.label}
+                  </button>
+                ))}
+              </div>
+
+              <div className="mb-3 p-3 bg-gray-100 rounded text-right text-3xl font-mono">
+                {amount ? (
+                  `P${amount}`
+                ) : (
+                  <span className="text-gray-400">
+                    P{remaining.toFixed(2)}
+                  </span>
+                )}
+              </div>
+
+              {method === "Account" && (
+                <AccountPicker
+                  selected={account}
+                  onSelect={handleSelectAccount}
+                  amount={
+                    sumTenders(tenders.filter((t) => t.method === "Account")) +
+                    (amount === "" ? remaining : parseFloat(amount) || 0)
+                  }
+                />
+              )}
+
+              {needsReference && (
+                <input
+                  type="text"
+                  value={reference}
+                  onChange={(e) => setReference(e.target.value)}
+                  placeholder={`${paymentMethodLabel(method)} reference no.`}
+                  className="w-full mb-3 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500"
+                />
+              )}
+
+              <div className="grid grid-cols-3 gap-2 mb-3">
+                {numpadKeys.map((key) => (
+                  <button
+                    type="button"
+                    key={key}
+                    onClick={() => handleNumpadClick(key)}
+                    className="p-4 rounded-lg text-xl font-bold bg-gray-200 hover:bg-gray-300 cursor-pointer"
+                  >
+                    {key}
+                  </button>
+                ))}
+              </div>
+
               <button
                 type="button"
-                key={key}
-                onClick={() => handleNumpadClick(key)}
-                className="p-4 rounded-lg text-xl font-bold bg-gray-200 hover:bg-gray-300 cursor-pointer"
+                onClick={handleAddTender}
+                className="w-full mb-3 bg-amber-700 hover:bg-amber-800 text-white p-3 rounded-lg font-bold cursor-pointer"
               >
-                {key}
+                Add {paymentMethodLabel(method)} Payment
               </button>
-            ))}
-          </div>
+            </>
+          )}
+
           <button
             type="submit"
-            disabled={isSubmitting}
+            disabled={isSubmitting || remaining > 0}
             className="w-full bg-green-500 text-white p-3 rounded-lg font-bold text-lg cursor-pointer disabled:bg-gray-400 disabled:cursor-not-allowed"
           >
             {isSubmitting ? "Processing..." : "Confirm Payment"}
@@ -488,14 +949,22 @@ function CoffeePOS() {
   const [orderType, setOrderType] = useState<"Dine in" | "Take out" | null>(
     null
   );
-  const [paymentMethod, setPaymentMethod] = useState<"Cash" | "Gcash" | null>(
+  const [discountRules, setDiscountRules] = useState<DiscountRule[]>([]);
+  const [appliedDiscount, setAppliedDiscount] =
+    useState<AppliedDiscount | null>(null);
+  // Loyalty
+  const [loyaltySettings, setLoyaltySettings] = useState<LoyaltySettings>(
+    DEFAULT_LOYALTY_SETTINGS
+  );
+  const [loyaltyRewards, setLoyaltyRewards] = useState<LoyaltyReward[]>([]);
+  const [loyaltyMember, setLoyaltyMember] = useState<LoyaltyAccount | null>(
+    null
+  );
+  const [redeemedReward, setRedeemedReward] = useState<LoyaltyReward | null>(
     null
   );
-  const [discountType, setDiscountType] = useState<
-    "Senior" | "PWD" | "Employee" | null
-  >(null);
   const [isPaymentModalOpen, setIsPaymentModalOpen] = useState<boolean>(false);
-  const [cashTendered, setCashTendered] = useState<string>("");
+  const [isTerminalSetupOpen, setIsTerminalSetupOpen] = useState(false);
   const [isReceiptModalOpen, setIsReceiptModalOpen] = useState<boolean>(false);
   const [completedOrder, setCompletedOrder] = useState<OrderDetails | null>(
     null
@@ -508,14 +977,9 @@ function CoffeePOS() {
     const fetchProducts = async () => {
       try {
         setLoading(true);
-        const response = await fetch(`${API_BASE}/api/products`, {
-          headers: getAuthHeaders(),
-        });
-        if (!response.ok) {
-          throw new Error("Failed to fetch products");
-        }
-
-        const data: Product[] = await response.json();
+        const data = await withOfflineCache(CACHE_KEYS.coffeeProducts, () =>
+          api.products.list()
+        );
 
         const products: Product[] = data.map((p) => ({
           ...p,
@@ -539,20 +1003,35 @@ function CoffeePOS() {
     fetchProducts();
   }, []);
 
+  // Fetch discount rules
+  useEffect(() => {
+    fetchDiscountRules("Coffee").then(setDiscountRules);
+  }, []);
+
+  // Fetch loyalty settings and rewards
+  useEffect(() => {
+    fetchLoyaltyProgram("Coffee").then(({ settings, rewards }) => {
+      setLoyaltySettings(settings);
+      setLoyaltyRewards(rewards);
+    });
+  }, []);
+
+  // Refresh this terminal's OR series; offline sales use the cached one
+  useEffect(() => {
+    syncReceiptSeries().catch((error) =>
+      console.error("Failed to sync receipt series:", error)
+    );
+  }, []);
+
   // Check for active shift
   useEffect(() => {
     const checkShift = async () => {
       try {
-        const response = await fetch(`${API_BASE}/api/shifts/current`, {
-          headers: getAuthHeaders(),
-        });
-
-        if (response.ok) {
-          const data = await response.json();
-          setHasActiveShift(data && data.status === "active");
-        } else {
-          setHasActiveShift(false);
-        }
+        // Offline after a reload: the last known shift keeps the counter open
+        const shift = await withOfflineCache(CACHE_KEYS.shift, () =>
+          api.shifts.current()
+        );
+        setHasActiveShift(shift?.status === "active");
       } catch (error) {
         console.error("Failed to check shift:", error);
         setHasActiveShift(false);
@@ -579,15 +1058,24 @@ function CoffeePOS() {
 
   const handleAddToCart = (
     product: Product,
-    selectedOption: string | null = null
+    selectedModifiers: SelectedModifier[] | null = null
   ) => {
-    if (product.needs_temp && !selectedOption) {
+    if (!selectedModifiers && modifierGroupsFor(product).length > 0) {
       setProductForModal(product);
       setIsModalOpen(true);
       return;
     }
+    // Hot/Cold stays in `option`; everything else is a priced modifier
+    const selectedOption =
+      selectedModifiers?.find((m) => m.group === "Temperature")?.name ?? null;
+    const modifiers = (selectedModifiers ?? []).filter(
+      (m) => m.group !== "Temperature"
+    );
     const existingItem = cart.find(
-      (item) => item.id === product.id && item.option === selectedOption
+      (item) =>
+        item.id === product.id &&
+        item.option === selectedOption &&
+        modifiersKey(item.modifiers) === modifiersKey(modifiers)
     );
     if (existingItem) {
       handleIncrementQuantity(existingItem.cartId);
@@ -596,8 +1084,11 @@ function CoffeePOS() {
         cartId: uuidv4(),
         id: product.id,
         name: product.name,
-        price: product.price,
+        category: product.category,
+        price: product.price + modifiersTotal(modifiers),
+        basePrice: product.price,
         option: selectedOption,
+        modifiers,
         quantity: 1,
       };
       setCart((prevCart) => [...prevCart, newItem]);
@@ -606,9 +1097,9 @@ function CoffeePOS() {
     setProductForModal(null);
   };
 
-  const handleModalSelection = (selectedOption: "Hot" | "Cold") => {
+  const handleModalSelection = (selectedModifiers: SelectedModifier[]) => {
     if (productForModal) {
-      handleAddToCart(productForModal, selectedOption);
+      handleAddToCart(productForModal, selectedModifiers);
     }
   };
 
@@ -638,22 +1129,32 @@ function CoffeePOS() {
 
   const clearCart = () => {
     setCart([]);
-    setDiscountType(null);
+    setAppliedDiscount(null);
+    setLoyaltyMember(null);
+    setRedeemedReward(null);
     setOrderType(null);
-    setPaymentMethod(null);
   };
 
-  const subtotal = cart.reduce(
-    (sum, item) => sum + item.price * item.quantity,
-    0
+  const tax = computeTax(
+    appliedDiscount?.rule ?? null,
+    cart.map((item) => ({
+      lineId: item.cartId,
+      category: item.category,
+      unitPrice: item.price,
+      quantity: item.quantity,
+    })),
+    redeemedReward ? Number(redeemedReward.value) : 0
   );
-  const DISCOUNT_RATE = 0.2;
-  const discount = discountType ? subtotal * DISCOUNT_RATE : 0;
-  const total = subtotal - discount;
+  const subtotal = tax.subtotal;
+  const lessVat = tax.lessVat;
+  const discount = tax.discount;
+  const reward = tax.reward;
+  const total = tax.total;
+  const discountType = appliedDiscount?.rule.name ?? null;
 
   // Submit order
   const submitOrderToAPI = async (orderDetails: OrderDetails) => {
-    const payload = {
+    const payload: CreateOrderRequest = {
       orderDetails: {
         ...orderDetails,
         order_type: orderDetails.type,
@@ -661,29 +1162,66 @@ function CoffeePOS() {
       businessUnit: "Coffee",
     };
     try {
-      const response = await fetch(`${API_BASE}/api/orders`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          ...getAuthHeaders(),
-        },
-        body: JSON.stringify(payload),
-      });
-      const result = await response.json();
-      if (!response.ok) {
+      // Keyed by orderId so the outbox replay of a sale whose response was
+      // lost matches this attempt instead of posting it again
+      const result = await api.orders.create(payload, orderDetails.orderId);
+      toast.success(`Order ${result.orderId} Saved!`);
+      try {
+        await recordIngredientUsage(
+          orderDetails.orderId,
+          orderDetails.ingredient_usage,
+          "sale"
+        );
+      } catch (error) {
+        // The sale stands; the outbox retries the deduction without
+        // posting the order again
+        console.error("Failed to deduct ingredients:", error);
+        try {
+          await enqueueOrder({
+            orderId: orderDetails.orderId,
+            businessUnit: "Coffee",
+            payload,
+            ingredientUsage: orderDetails.ingredient_usage,
+            dbOrderId: result.orderId,
+          });
+          toast.warning("Order saved; inventory will update once it syncs.");
+        } catch (queueError) {
+          console.error("[Outbox] Failed to queue deduction:", queueError);
+          toast.warning("Order saved, but inventory could not be updated.");
+        }
+      }
+      return { ...result, queued: false };
+    } catch (error) {
+      if (!isNetworkError(error)) {
         // Show backend error message if available
-        toast.error(result.message || "Failed to save order to database.");
+        toast.error(
+          error instanceof ApiError
+            ? error.message
+            : "Failed to save order to database."
+        );
+        return null;
+      }
+      // Backend unreachable: keep the sale and sync it later
+      try {
+        await enqueueOrder({
+          orderId: orderDetails.orderId,
+          businessUnit: "Coffee",
+          payload,
+          ingredientUsage: orderDetails.ingredient_usage,
+        });
+        toast.warning(
+          `Offline: order ${orderDetails.orderId} saved and will sync automatically.`
+        );
+        return { orderId: orderDetails.orderId, queued: true };
+      } catch (queueError) {
+        console.error("[Outbox] Failed to queue order:", queueError);
+        toast.error("Network error: Could not save order.");
         return null;
       }
-      toast.success(`Order ${result.orderId} Saved!`);
-      return result;
-    } catch {
-      toast.error("Network error: Could not save order.");
-      return null;
     }
   };
 
-  const handleProceedToPayment = async () => {
+  const handleProceedToPayment = () => {
     if (isSubmittingPayment) return;
     if (cart.length === 0) {
       toast.error("Cart is empty. Please add items before checkout.");
@@ -693,63 +1231,83 @@ function CoffeePOS() {
       toast.error("Please select an Order Type.");
       return;
     }
-    if (!paymentMethod) {
-      toast.error("Please select a Payment Method.");
-      return;
-    }
+    setIsPaymentModalOpen(true);
+  };
 
-    // For Cash payment, open the payment modal
-    if (paymentMethod === "Cash") {
-      setIsPaymentModalOpen(true);
-      return;
+  // OR numbers need a confirmed terminal; the first sale walks through it
+  const receiptsReady = () => {
+    if (!getTerminalId()) {
+      setIsTerminalSetupOpen(true);
+      return false;
     }
-
-    // For GCash payment, process immediately
-    setIsSubmittingPayment(true);
-    const baseOrder: OrderDetails = {
-      orderId: uuidv4(),
-      items: cart,
-      subtotal,
-      discount,
-      total,
-      type: orderType,
-      payment: paymentMethod,
-      cashTendered: null,
-      changeDue: null,
-      discount_type: discountType,
-    };
-    const result = await submitOrderToAPI(baseOrder);
-    setIsSubmittingPayment(false);
-    if (result) {
-      setCompletedOrder(baseOrder);
-      setIsReceiptModalOpen(true);
-      clearCart();
+    const receiptProblem = receiptBlocker();
+    if (receiptProblem) {
+      toast.error(receiptProblem);
+      return false;
     }
+    return true;
   };
 
-  const handleCashPaymentSubmit = async (cashAmount: number) => {
+  const handlePaymentSubmit = async (
+    tenders: TenderLine[],
+    account: CorporateAccount | null
+  ) => {
     if (isSubmittingPayment) return;
+    if (!receiptsReady()) return;
     setIsSubmittingPayment(true);
+    const cash = cashTendered(tenders);
+    const receipt = reserveReceiptNumber("Coffee");
     const orderDetails: OrderDetails = {
       orderId: `ORD-${uuidv4().slice(0, 8)}`,
-      items: cart,
+      or_number: receipt.orNumber,
+      items: cart.map((item) => ({
+        ...item,
+        vatExempt: tax.lines[item.cartId]?.vatExempt ?? false,
+        lessVat: tax.lines[item.cartId]?.lessVat ?? 0,
+        discount: tax.lines[item.cartId]?.discount ?? 0,
+      })),
       subtotal: subtotal,
       discount: discount,
       total: total,
       type: orderType!,
-      payment: "Cash",
+      payment: summarizePaymentMethod(tenders),
+      tenders,
       discount_type: discountType,
-      cashTendered: cashAmount,
-      changeDue: cashAmount - total,
+      discount_rule_id: appliedDiscount?.rule.id ?? null,
+      discount_id_number: appliedDiscount?.idNumber ?? null,
+      discount_holder_name: appliedDiscount?.holderName ?? null,
+      vat: vatSummary(tax),
+      loyalty: orderLoyalty(
+        loyaltySettings,
+        "Coffee",
+        loyaltyMember,
+        redeemedReward,
+        reward,
+        total
+      ),
+      account: orderAccountCharge(
+        account,
+        sumTenders(tenders.filter((t) => t.method === "Account"))
+      ),
+      ingredient_usage: ingredientUsage(
+        cart.map((item) => ({
+          productId: item.id,
+          quantity: item.quantity,
+          modifiers: item.modifiers,
+        })),
+        allProducts
+      ),
+      cashTendered: cash > 0 ? cash : null,
+      changeDue: changeDue(total, tenders),
     };
 
     try {
       const submissionResult = await submitOrderToAPI(orderDetails);
       if (submissionResult) {
+        receipt.commit();
         setCompletedOrder(orderDetails);
         setIsPaymentModalOpen(false);
         setIsReceiptModalOpen(true);
-        setCashTendered("");
       }
     } finally {
       setIsSubmittingPayment(false);
@@ -799,9 +1357,10 @@ function CoffeePOS() {
 
       {/* Modals */}
       {isModalOpen && productForModal && (
-        <TempSelectionModal
+        <ModifierModal
           product={productForModal}
-          onSelect={handleModalSelection}
+          groups={modifierGroupsFor(productForModal)}
+          onConfirm={handleModalSelection}
           onCancel={() => setIsModalOpen(false)}
         />
       )}
@@ -809,12 +1368,17 @@ function CoffeePOS() {
         <PaymentModal
           totalDue={total}
           onClose={() => setIsPaymentModalOpen(false)}
-          onSubmit={handleCashPaymentSubmit}
-          cashTendered={cashTendered}
-          setCashTendered={setCashTendered}
+          onSubmit={handlePaymentSubmit}
           isSubmitting={isSubmittingPayment}
         />
       )}
+      {/* Above the payment modal it is opened from */}
+      {isTerminalSetupOpen && (
+        <TerminalSetupModal
+          onClose={() => setIsTerminalSetupOpen(false)}
+          onReady={() => setIsTerminalSetupOpen(false)}
+        />
+      )}
       {isReceiptModalOpen && completedOrder && (
         <ReceiptModal order={completedOrder} onClose={handleCloseReceipt} />
       )}
@@ -927,9 +1491,24 @@ function CoffeePOS() {
                     {item.option && (
                       <p className="text-sm text-gray-500">{item.option}</p>
                     )}
+                    {item.modifiers.length > 0 && (
+                      <p className="text-xs text-gray-500">
+                        {item.modifiers.map((m) => m.name).join(", ")}
+                      </p>
+                    )}
                     <p className="text-base font-semibold mt-1 text-gray-900">
                       ₱{(item.price * item.quantity).toLocaleString()}
                     </p>
+                    {(tax.lines[item.cartId]?.discount ?? 0) > 0 && (
+                      <p className="text-xs text-red-600">
+                        - ₱
+                        {tax.lines[item.cartId].discount.toLocaleString(
+                          "en-PH",
+                          { minimumFractionDigits: 2 }
+                        )}{" "}
+                        {discountType}
+                      </p>
+                    )}
                   </div>
                   <div className="flex items-center gap-2">
                     <button
@@ -979,6 +1558,18 @@ function CoffeePOS() {
               })}
             </span>
           </div>
+          {lessVat > 0 && (
+            <div className="flex justify-between text-sm text-gray-600 mb-2">
+              <span>Less VAT (12%)</span>
+              <span className="font-medium">
+                - ₱
+                {lessVat.toLocaleString("en-PH", {
+                  minimumFractionDigits: 2,
+                  maximumFractionDigits: 2,
+                })}
+              </span>
+            </div>
+          )}
           <div className="flex justify-between text-sm mb-4">
             <span className="text-red-600">
               Discount{discountType ? ` (${discountType})` : ""}
@@ -991,6 +1582,20 @@ function CoffeePOS() {
               })}
             </span>
           </div>
+          {redeemedReward && (
+            <div className="flex justify-between text-sm -mt-2 mb-4">
+              <span className="text-amber-700">
+                Reward ({redeemedReward.name})
+              </span>
+              <span className="font-medium text-amber-700">
+                - ₱
+                {reward.toLocaleString("en-PH", {
+                  minimumFractionDigits: 2,
+                  maximumFractionDigits: 2,
+                })}
+              </span>
+            </div>
+          )}
 
           <div className="bg-white rounded-lg p-4 mb-4 border-2 border-gray-900">
             <div className="flex justify-between items-center">
@@ -1008,53 +1613,23 @@ function CoffeePOS() {
           </div>
 
           {/* Discount Selection */}
-          <div className="mb-4">
-            <label className="block text-xs font-semibold text-gray-700 mb-2 uppercase tracking-wide">
-              Discount (20% off)
-            </label>
-            <div className="grid grid-cols-4 gap-2">
-              <button
-                onClick={() => setDiscountType(null)}
-                className={`px-2 py-2 rounded-lg font-medium transition-all text-xs btn-chip ${
-                  discountType === null
-                    ? "bg-gray-800 text-white shadow-md"
-                    : "bg-gray-100 border border-gray-300 text-gray-700 hover:bg-gray-200"
-                }`}
-              >
-                None
-              </button>
-              <button
-                onClick={() => setDiscountType("Senior")}
-                className={`px-2 py-2 rounded-lg font-medium transition-all text-xs btn-chip ${
-                  discountType === "Senior"
-                    ? "bg-blue-700 text-white shadow-md"
-                    : "bg-gray-100 border border-gray-300 text-gray-700 hover:bg-gray-200"
-                }`}
-              >
-                Senior
-              </button>
-              <button
-                onClick={() => setDiscountType("PWD")}
-                className={`px-2 py-2 rounded-lg font-medium transition-all text-xs btn-chip ${
-                  discountType === "PWD"
-                    ? "bg-purple-700 text-white shadow-md"
-                    : "bg-gray-100 border border-gray-300 text-gray-700 hover:bg-gray-200"
-                }`}
-              >
-                PWD
-              </button>
-              <button
-                onClick={() => setDiscountType("Employee")}
-                className={`px-2 py-2 rounded-lg font-medium transition-all text-xs btn-chip ${
-                  discountType === "Employee"
-                    ? "bg-green-700 text-white shadow-md"
-                    : "bg-gray-100 border border-gray-300 text-gray-700 hover:bg-gray-200"
-                }`}
-              >
-                Employee
-              </button>
-            </div>
-          </div>
+          <DiscountPicker
+            rules={discountRules}
+            applied={appliedDiscount}
+            onChange={setAppliedDiscount}
+          />
+
+          {/* Loyalty member and rewards */}
+          {loyaltySettings.is_enabled && (
+            <LoyaltyPanel
+              rewards={loyaltyRewards}
+              member={loyaltyMember}
+              onMemberChange={setLoyaltyMember}
+              redeemed={redeemedReward}
+              onRedeem={setRedeemedReward}
+              pointsToEarn={pointsEarned(loyaltySettings, "Coffee", total)}
+            />
+          )}
 
           {/* Order type */}
           <div className="mb-4">
@@ -1085,35 +1660,6 @@ function CoffeePOS() {
             </div>
           </div>
 
-          {/* Payment */}
-          <div className="mb-4">
-            <label className="block text-xs font-semibold text-gray-700 mb-2 uppercase tracking-wide">
-              Payment Method
-            </label>
-            <div className="grid grid-cols-2 gap-2">
-              <button
-                onClick={() => setPaymentMethod("Cash")}
-                className={`px-4 py-3 rounded-lg font-medium transition-all ${
-                  paymentMethod === "Cash"
-                    ? "bg-amber-700 text-white shadow-md"
-                    : "bg-gray-100 border border-gray-300 text-gray-700 hover:bg-gray-200"
-                }`}
-              >
-                Cash
-              </button>
-              <button
-                onClick={() => setPaymentMethod("Gcash")}
-                className={`px-4 py-3 rounded-lg font-medium transition-all ${
-                  paymentMethod === "Gcash"
-                    ? "bg-amber-700 text-white shadow-md"
-                    : "bg-gray-100 border border-gray-300 text-gray-700 hover:bg-gray-200"
-                }`}
-              >
-                GCash
-              </button>
-            </div>
-          </div>
-
           <button
             onClick={handleProceedToPayment}
             className="w-full bg-amber-700 hover:bg-amber-800 text-white py-4 rounded-xl font-bold text-lg shadow-lg hover:shadow-xl transition-all disabled:bg-gray-400 disabled:cursor-not-allowed disabled:shadow-none"
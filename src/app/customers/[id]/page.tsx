@@ -0,0 +1,595 @@
+"use client";
+
+/*
+  Customer Detail Page
+  --------------------
+  Profile of one carwash customer. It allows staff to:
+    - See lifetime spend, visit count, average ticket and last visit
+    - Edit the customer's name, phone and notes
+    - Add, edit or remove vehicles (plate, type, make, color)
+    - Review every visit with its services, total and status
+  ProtectedRoute ensures only authenticated users can access this page.
+*/
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import {
+  LuArrowLeft,
+  LuContact,
+  LuPencil,
+  LuPlus,
+  LuTrash2,
+} from "react-icons/lu";
+import { toast } from "react-toastify";
+import ProtectedRoute from "@/components/ProtectedRoute"; // Restricts access to authenticated users
+import PageLoader from "@/components/PageLoader"; // Loading spinner for async data
+import Spinner from "@/components/Spinner"; // Button spinner
+import Card from "@/components/ui/Card"; // UI card wrapper
+import { api } from "@/lib/api"; // Typed backend client
+import type {
+  CarwashTicket,
+  Customer,
+  CustomerVehicle,
+} from "@/lib/apiTypes"; // Shared response types
+import {
+  normalizePhone,
+  normalizePlate,
+  vehicleLabel,
+} from "@/lib/customers"; // Customer registry helpers
+
+function formatPeso(amount: number): string {
+  return `₱${amount.toLocaleString("en-PH", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+}
+
+function getStatusColor(status: string): string {
+  switch (status) {
+    case "queue":
+      return "bg-yellow-100 text-yellow-800 border-yellow-300";
+    case "in_progress":
+      return "bg-blue-100 text-blue-800 border-blue-300";
+    case "completed":
+      return "bg-green-100 text-green-800 border-green-300";
+    case "cancelled":
+      return "bg-red-100 text-red-800 border-red-300";
+    default:
+      return "bg-gray-100 text-gray-800 border-gray-300";
+  }
+}
+
+// --------------------
+// Edit Customer Modal
+// --------------------
+interface CustomerModalProps {
+  customer: Customer;
+  onClose: () => void;
+  onSaved: (customer: Customer) => void;
+}
+
+function CustomerModal({ customer, onClose, onSaved }: CustomerModalProps) {
+  const [name, setName] = useState(customer.name);
+  const [phone, setPhone] = useState(customer.phone);
+  const [notes, setNotes] = useState(customer.notes ?? "");
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const cleanPhone = normalizePhone(phone);
+    if (!/^\+639\d{9}$/.test(cleanPhone)) {
+      toast.error("Phone must be in format: +639XXXXXXXXX or 09XXXXXXXXX");
+      return;
+    }
+    setSaving(true);
+    try {
+      const updated = await api.customers.update(customer.id, {
+        name: name.trim(),
+        phone: cleanPhone,
+        notes: notes.trim() || null,
+      });
+      toast.success("Customer updated successfully");
+      onSaved(updated);
+    } catch (err) {
+      console.error(err);
+      toast.error(
+        err instanceof Error ? err.message : "Could not update customer"
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 backdrop-blur-sm bg-black/30 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg shadow-lg w-full max-w-md">
+        <h3 className="text-xl font-bold mb-4">Edit Customer</h3>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Name *
+            </label>
+            <input
+              className="w-full border border-gray-300 rounded-lg p-2"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+              maxLength={100}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Phone *
+            </label>
+            <input
+              className="w-full border border-gray-300 rounded-lg p-2"
+              value={phone}
+              onChange={(e) => setPhone(e.target.value)}
+              required
+              placeholder="09XXXXXXXXX"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Notes
+            </label>
+            <textarea
+              className="w-full border border-gray-300 rounded-lg p-2"
+              rows={2}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="e.g. Prefers no tire shine"
+            />
+          </div>
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg border border-gray-200 hover:bg-gray-50"
+              disabled={saving}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 rounded-lg bg-amber-800 text-white hover:bg-amber-700 flex items-center"
+              disabled={saving}
+            >
+              {saving ? <Spinner size="sm" thickness={2} /> : "Save"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+// --------------------
+// Vehicle Modal
+// --------------------
+interface VehicleModalProps {
+  customerId: number;
+  vehicle: CustomerVehicle | null;
+  vehicleTypes: string[];
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+function VehicleModal({
+  customerId,
+  vehicle,
+  vehicleTypes,
+  onClose,
+  onSaved,
+}: VehicleModalProps) {
+  const [plate, setPlate] = useState(vehicle?.plate_number ?? "");
+  const [vehicleType, setVehicleType] = useState(vehicle?.vehicle_type ?? "");
+  const [make, setMake] = useState(vehicle?.make ?? "");
+  const [color, setColor] = useState(vehicle?.color ?? "");
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const plateNumber = normalizePlate(plate);
+    if (!plateNumber) {
+      toast.error("Plate number is required");
+      return;
+    }
+    setSaving(true);
+    try {
+      const payload = {
+        plate_number: plateNumber,
+        vehicle_type: vehicleType || null,
+        make: make.trim() || null,
+        color: color.trim() || null,
+      };
+      if (vehicle) {
+        await api.customers.updateVehicle(customerId, vehicle.id, payload);
+      } else {
+        await api.customers.addVehicle(customerId, payload);
+      }
+      toast.success(`Vehicle ${vehicle ? "updated" : "added"} successfully`);
+      onSaved();
+    } catch (err) {
+      console.error(err);
+      toast.error(err instanceof Error ? err.message : "Could not save vehicle");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 backdrop-blur-sm bg-black/30 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg shadow-lg w-full max-w-md">
+        <h3 className="text-xl font-bold mb-4">
+          {vehicle ? "Edit Vehicle" : "Add Vehicle"}
+        </h3>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Plate Number *
+            </label>
+            <input
+              className="w-full border border-gray-300 rounded-lg p-2 uppercase"
+              value={plate}
+              onChange={(e) => setPlate(e.target.value.toUpperCase())}
+              required
+              maxLength={20}
+              placeholder="ABC1234"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Vehicle Type
+            </label>
+            <select
+              className="w-full border border-gray-300 rounded-lg p-2 bg-white"
+              value={vehicleType}
+              onChange={(e) => setVehicleType(e.target.value)}
+            >
+              <option value="">Not set</option>
+              {vehicleTypes.map((type) => (
+                <option key={type} value={type}>
+                  {type}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Make / Model
+              </label>
+              <input
+                className="w-full border border-gray-300 rounded-lg p-2"
+                value={make}
+                onChange={(e) => setMake(e.target.value)}
+                placeholder="Toyota Vios"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Color
+              </label>
+              <input
+                className="w-full border border-gray-300 rounded-lg p-2"
+                value={color}
+                onChange={(e) => setColor(e.target.value)}
+                placeholder="Red"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg border border-gray-200 hover:bg-gray-50"
+              disabled={saving}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 rounded-lg bg-amber-800 text-white hover:bg-amber-700 flex items-center"
+              disabled={saving}
+            >
+              {saving ? (
+                <Spinner size="sm" thickness={2} />
+              ) : vehicle ? (
+                "Save"
+              ) : (
+                "Add"
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+// --------------------
+// Main Customer Detail Component
+// --------------------
+function CustomerDetail({ customerId }: { customerId: number }) {
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [visits, setVisits] = useState<CarwashTicket[]>([]);
+  const [vehicleTypes, setVehicleTypes] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingCustomer, setEditingCustomer] = useState(false);
+  // Vehicle being edited; null adds a new one, undefined keeps the modal closed
+  const [editingVehicle, setEditingVehicle] =
+    useState<CustomerVehicle | null>();
+
+  const fetchCustomer = () =>
+    Promise.all([
+      api.customers.get(customerId),
+      api.customers.visits(customerId),
+    ])
+      .then(([profile, history]) => {
+        setCustomer(profile);
+        setVisits(history);
+      })
+      .catch((err) => {
+        console.error("Failed to load customer:", err);
+        toast.error("Could not load customer");
+      })
+      .finally(() => setLoading(false));
+
+  useEffect(() => {
+    fetchCustomer();
+    api.carwashCatalog
+      .services()
+      .then((services) =>
+        setVehicleTypes(
+          Array.from(
+            new Set(services.flatMap((s) => s.prices.map((p) => p.vehicle_type)))
+          )
+        )
+      )
+      .catch(() => setVehicleTypes([]));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [customerId]);
+
+  const handleDeleteVehicle = async (vehicle: CustomerVehicle) => {
+    if (!confirm(`Remove ${vehicle.plate_number} from this customer?`)) return;
+    try {
+      await api.customers.removeVehicle(customerId, vehicle.id);
+      toast.success("Vehicle removed");
+      fetchCustomer();
+    } catch (err) {
+      console.error(err);
+      toast.error("Could not remove vehicle");
+    }
+  };
+
+  if (loading) return <PageLoader message="Loading customer..." />;
+
+  if (!customer) {
+    return (
+      <div className="p-8 text-center text-gray-500">
+        Customer not found.{" "}
+        <Link href="/customers" className="text-amber-700 underline">
+          Back to customers
+        </Link>
+      </div>
+    );
+  }
+
+  const lifetimeSpend = Number(customer.lifetime_spend);
+  const averageTicket =
+    customer.visit_count > 0 ? lifetimeSpend / customer.visit_count : 0;
+
+  return (
+    <div className="p-4 sm:p-6 md:p-8 min-h-screen bg-linear-to-br from-gray-50 to-gray-100">
+      <div className="max-w-7xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <Link
+              href="/customers"
+              className="text-sm text-gray-500 hover:text-gray-800 flex items-center mb-2"
+            >
+              <LuArrowLeft size={16} className="mr-1" />
+              Customers
+            </Link>
+            <h1 className="text-2xl md:text-3xl font-bold flex items-center">
+              <LuContact size={28} className="mr-2 md:mr-3 text-amber-700" />
+              {customer.name}
+            </h1>
+            <p className="text-gray-600 mt-1">
+              {customer.phone} · Customer since{" "}
+              {new Date(customer.created_at).toLocaleDateString()}
+            </p>
+            {customer.notes && (
+              <p className="text-sm text-gray-500 italic mt-1">
+                {customer.notes}
+              </p>
+            )}
+          </div>
+          <button
+            onClick={() => setEditingCustomer(true)}
+            className="bg-gray-600 text-white px-4 py-2 rounded-lg flex items-center hover:bg-gray-700 transition-colors shadow-sm self-start md:self-auto"
+          >
+            <LuPencil size={18} className="mr-2" />
+            Edit
+          </button>
+        </div>
+
+        {/* Summary Cards */}
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4">
+          <div className="bg-white p-4 sm:p-6 rounded-xl border border-green-200 shadow-sm">
+            <p className="text-xs sm:text-sm text-gray-500">Lifetime Spend</p>
+            <p className="text-2xl sm:text-3xl font-bold mt-1 text-green-600">
+              {formatPeso(lifetimeSpend)}
+            </p>
+          </div>
+          <div className="bg-white p-4 sm:p-6 rounded-xl border border-gray-200 shadow-sm">
+            <p className="text-xs sm:text-sm text-gray-500">Visits</p>
+            <p className="text-2xl sm:text-3xl font-bold mt-1">
+              {customer.visit_count}
+            </p>
+          </div>
+          <div className="bg-white p-4 sm:p-6 rounded-xl border border-gray-200 shadow-sm">
+            <p className="text-xs sm:text-sm text-gray-500">Average Ticket</p>
+            <p className="text-2xl sm:text-3xl font-bold mt-1">
+              {formatPeso(averageTicket)}
+            </p>
+          </div>
+          <div className="bg-white p-4 sm:p-6 rounded-xl border border-gray-200 shadow-sm">
+            <p className="text-xs sm:text-sm text-gray-500">Last Visit</p>
+            <p className="text-2xl sm:text-3xl font-bold mt-1">
+              {customer.last_visit_at
+                ? new Date(customer.last_visit_at).toLocaleDateString()
+                : "—"}
+            </p>
+          </div>
+        </div>
+
+        {/* Vehicles */}
+        <Card
+          title="Vehicles"
+          headerRight={
+            <button
+              onClick={() => setEditingVehicle(null)}
+              className="flex items-center gap-2 bg-amber-700 text-white px-4 py-2 rounded-lg hover:bg-amber-600 transition-colors text-sm"
+            >
+              <LuPlus size={16} />
+              Add Vehicle
+            </button>
+          }
+        >
+          {customer.vehicles.length === 0 ? (
+            <p className="text-sm text-gray-400 italic">
+              No vehicles registered.
+            </p>
+          ) : (
+            <div className="divide-y">
+              {customer.vehicles.map((vehicle) => (
+                <div
+                  key={vehicle.id}
+                  className="flex items-center justify-between py-2"
+                >
+                  <div>
+                    <p className="font-mono font-semibold">
+                      {vehicle.plate_number}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {vehicleLabel(vehicle) || "No details"}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => setEditingVehicle(vehicle)}
+                      className="p-2 rounded hover:bg-gray-100 text-blue-600"
+                      title="Edit vehicle"
+                    >
+                      <LuPencil size={18} />
+                    </button>
+                    <button
+                      onClick={() => handleDeleteVehicle(vehicle)}
+                      className="p-2 rounded hover:bg-gray-100 text-red-600"
+                      title="Remove vehicle"
+                    >
+                      <LuTrash2 size={18} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+
+        {/* Visit History */}
+        <Card title="Visit History" subtitle="Most recent first">
+          {visits.length === 0 ? (
+            <p className="text-sm text-gray-400 italic">No visits yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-100">
+                  <tr>
+                    <th className="px-4 py-2 text-left">Date</th>
+                    <th className="px-4 py-2 text-left">Order</th>
+                    <th className="px-4 py-2 text-left">Plate</th>
+                    <th className="px-4 py-2 text-left">Services</th>
+                    <th className="px-4 py-2 text-right">Total</th>
+                    <th className="px-4 py-2 text-left">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visits.map((visit) => (
+                    <tr key={visit.order_id} className="border-b">
+                      <td className="px-4 py-2">
+                        {new Date(visit.created_at).toLocaleString()}
+                      </td>
+                      <td className="px-4 py-2 font-mono">{visit.order_id}</td>
+                      <td className="px-4 py-2 font-mono">
+                        {visit.plate_number || "—"}
+                      </td>
+                      <td className="px-4 py-2">
+                        {visit.items
+                          .map(
+                            (item) =>
+                              `${item.service_name}${
+                                item.quantity > 1 ? ` ×${item.quantity}` : ""
+                              }`
+                          )
+                          .join(", ")}
+                      </td>
+                      <td className="px-4 py-2 text-right">
+                        {formatPeso(Number(visit.total))}
+                      </td>
+                      <td className="px-4 py-2">
+                        <span
+                          className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-semibold border ${getStatusColor(
+                            visit.status
+                          )}`}
+                        >
+                          {visit.status.replace("_", " ").toUpperCase()}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </Card>
+      </div>
+
+      {editingCustomer && (
+        <CustomerModal
+          customer={customer}
+          onClose={() => setEditingCustomer(false)}
+          onSaved={(updated) => {
+            setCustomer(updated);
+            setEditingCustomer(false);
+          }}
+        />
+      )}
+      {editingVehicle !== undefined && (
+        <VehicleModal
+          customerId={customerId}
+          vehicle={editingVehicle}
+          vehicleTypes={vehicleTypes}
+          onClose={() => setEditingVehicle(undefined)}
+          onSaved={() => {
+            setEditingVehicle(undefined);
+            fetchCustomer();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+export default function CustomerDetailPage() {
+  const params = useParams<{ id: string }>();
+  return (
+    <ProtectedRoute>
+      <CustomerDetail key={params.id} customerId={Number(params.id)} />
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,148 @@
+"use client";
+
+/*
+  Customers Page
+  --------------
+  Registry of carwash customers built from POS visits. It allows staff to:
+    - Search customers by name, phone or plate number
+    - See each customer's vehicles, visit count, lifetime spend and last visit
+    - Open a customer's profile for vehicle details and visit history
+  ProtectedRoute ensures only authenticated users can access this page.
+*/
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { LuContact, LuSearch } from "react-icons/lu";
+import { toast } from "react-toastify";
+import ProtectedRoute from "@/components/ProtectedRoute"; // Restricts access to authenticated users
+import Spinner from "@/components/Spinner"; // Loading spinner for async data
+import { api } from "@/lib/api"; // Typed backend client
+import type { Customer } from "@/lib/apiTypes"; // Shared response types
+
+function formatPeso(amount: number): string {
+  return `₱${amount.toLocaleString("en-PH", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+}
+
+function CustomerList() {
+  const router = useRouter();
+  const [searchQuery, setSearchQuery] = useState("");
+  // Results of the last completed search; loading until it matches the query
+  const [results, setResults] = useState<{
+    query: string;
+    customers: Customer[];
+  } | null>(null);
+
+  useEffect(() => {
+    const query = searchQuery.trim();
+    const timer = setTimeout(() => {
+      api.customers
+        .list(query)
+        .then((customers) => setResults({ query, customers }))
+        .catch((err) => {
+          console.error("Failed to load customers:", err);
+          toast.error("Could not load customers");
+          setResults({ query, customers: [] });
+        });
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  const loading = results?.query !== searchQuery.trim();
+  const customers = results?.customers ?? [];
+
+  return (
+    <div className="p-4 sm:p-6 md:p-8 min-h-screen bg-linear-to-br from-gray-50 to-gray-100">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+          <h1 className="text-2xl md:text-3xl font-bold flex items-center">
+            <LuContact size={28} className="mr-2 md:mr-3 text-amber-700" />
+            Customers
+          </h1>
+          <div className="relative md:w-80">
+            <LuSearch
+              className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400"
+              size={18}
+            />
+            <input
+              type="text"
+              placeholder="Search name, phone or plate..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500"
+            />
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
+          {loading && !results ? (
+            <div className="flex justify-center py-12">
+              <Spinner size="md" />
+            </div>
+          ) : customers.length === 0 ? (
+            <p className="text-center py-12 text-gray-500">
+              {searchQuery.trim()
+                ? "No customers match your search."
+                : "No customers yet. They are added when a carwash order is paid."}
+            </p>
+          ) : (
+            <div className={`overflow-x-auto ${loading ? "opacity-60" : ""}`}>
+              <table className="w-full text-sm">
+                <thead className="bg-gray-100">
+                  <tr>
+                    <th className="px-4 py-3 text-left">Customer</th>
+                    <th className="px-4 py-3 text-left">Vehicles</th>
+                    <th className="px-4 py-3 text-right">Visits</th>
+                    <th className="px-4 py-3 text-right">Lifetime Spend</th>
+                    <th className="px-4 py-3 text-left">Last Visit</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {customers.map((customer) => (
+                    <tr
+                      key={customer.id}
+                      onClick={() => router.push(`/customers/${customer.id}`)}
+                      className="border-b hover:bg-gray-50 cursor-pointer"
+                    >
+                      <td className="px-4 py-3">
+                        <p className="font-medium">{customer.name}</p>
+                        <p className="text-gray-500">{customer.phone}</p>
+                      </td>
+                      <td className="px-4 py-3 font-mono">
+                        {customer.vehicles
+                          .map((v) => v.plate_number)
+                          .join(", ") || "—"}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {customer.visit_count}
+                      </td>
+                      <td className="px-4 py-3 text-right font-semibold">
+                        {formatPeso(Number(customer.lifetime_spend))}
+                      </td>
+                      <td className="px-4 py-3">
+                        {customer.last_visit_at
+                          ? new Date(customer.last_visit_at).toLocaleDateString()
+                          : "—"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function CustomersPage() {
+  return (
+    <ProtectedRoute>
+      <CustomerList />
+    </ProtectedRoute>
+  );
+}
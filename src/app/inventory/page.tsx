@@ -8,6 +8,7 @@
     - Track current stock and required stock
     - Normalize units for display
     - Export inventory data
+    - Edit product recipes used to deduct ingredients on every coffee sale
   ProtectedRoute ensures only authenticated users can access this page.
   The page uses various utility and UI components for async data handling and user feedback.
 */
@@ -29,7 +30,15 @@ import { toast } from "react-toastify";
 import ProtectedRoute from "@/components/ProtectedRoute"; // Restricts access to authenticated users
 import Spinner from "@/components/Spinner"; // Loading spinner for async data
 import PageLoader from "@/components/PageLoader"; // Page-level loading spinner
-import { getAuthHeaders } from "@/lib/auth"; // Helper for API auth headers
+import { api } from "@/lib/api"; // Typed backend client
+import type {
+  Ingredient as ApiIngredient,
+  Product as ApiProduct,
+  InventoryHistoryEntry,
+  ModifierGroup,
+  RecipeLine,
+} from "@/lib/apiTypes"; // Shared response types
+import { normalizeRecipe } from "@/lib/recipes"; // Recipe helpers
 import { useAuth } from "@/contexts/AuthContext"; // Auth context for user info
 
 // --------------------
@@ -50,25 +59,10 @@ function normalizeUnitSingular(unit?: string | null): string {
 // --------------------
 
 // Ingredient inventory structure
-interface Ingredient {
-  id: number;
-  name: string;
-  category: string;
-  unit_of_measure: string;
-  current_stock: number;
-  required_stock: number;
-  archived?: boolean;
-}
+type Ingredient = ApiIngredient;
 
 // Product inventory structure
-interface Product {
-  id: number;
-  name: string;
-  category: string;
-  price: number;
-  needs_temp: boolean;
-  image_url: string | null;
-}
+type Product = ApiProduct;
 
 // Form data for ingredient/product modals
 interface FormData {
@@ -253,28 +247,8 @@ function ItemFormModal({
 
     // Upload file first (if any)
     if (selectedFile) {
-      const fileFormData = new FormData();
-      fileFormData.append("image", selectedFile);
-
       try {
-        const uploadResponse = await fetch(
-          `${
-            process.env.NEXT_PUBLIC_API_BASE || "http://localhost:5000"
-          }/api/upload`,
-          {
-            method: "POST",
-            headers: {
-              // Important: don't set Content-Type for FormData; the browser will set the boundary.
-              ...getAuthHeaders(),
-            },
-            body: fileFormData,
-          }
-        );
-
-        if (!uploadResponse.ok) {
-          throw new Error("Image upload failed.");
-        }
-        const uploadResult = await uploadResponse.json();
+        const uploadResult = await api.uploads.image(selectedFile);
         finalImageUrl = uploadResult.image_url;
       } catch (error: unknown) {
         const message =
@@ -629,6 +603,364 @@ function StockMovementModal({
   );
 }
 
+// --------------------
+// Recipes
+// --------------------
+
+interface RecipeLinesEditorProps {
+  lines: RecipeLine[];
+  ingredients: Ingredient[];
+  onChange: (lines: RecipeLine[]) => void;
+}
+
+// Ingredient + quantity rows for one recipe
+function RecipeLinesEditor({
+  lines,
+  ingredients,
+  onChange,
+}: RecipeLinesEditorProps) {
+  const updateLine = (index: number, changes: Partial<RecipeLine>) => {
+    onChange(lines.map((l, i) => (i === index ? { ...l, ...changes } : l)));
+  };
+
+  return (
+    <div className="space-y-2">
+      {lines.map((line, index) => {
+        const ingredient = ingredients.find((i) => i.id === line.ingredient_id);
+        return (
+          <div key={index} className="flex gap-2 items-center">
+            <select
+              className="flex-1 border border-gray-300 rounded-lg p-2 bg-white text-sm"
+              value={line.ingredient_id || ""}
+              onChange={(e) =>
+                updateLine(index, { ingredient_id: Number(e.target.value) })
+              }
+            >
+              <option value="">Select ingredient</option>
+              {ingredients.map((i) => (
+                <option key={i.id} value={i.id}>
+                  {i.name}
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              step="0.0001"
+              min="0"
+              className="w-28 border border-gray-300 rounded-lg p-2 text-sm"
+              value={line.quantity || ""}
+              onChange={(e) =>
+                updateLine(index, { quantity: parseFloat(e.target.value) || 0 })
+              }
+              placeholder="Qty"
+            />
+            <span className="w-16 text-xs text-gray-500">
+              {normalizeUnitSingular(ingredient?.unit_of_measure)}
+            </span>
+            <button
+              type="button"
+              onClick={() => onChange(lines.filter((_, i) => i !== index))}
+              className="p-1 rounded hover:bg-gray-100 text-red-600"
+              title="Remove ingredient"
+            >
+              <LuTrash2 size={14} />
+            </button>
+          </div>
+        );
+      })}
+      <button
+        type="button"
+        onClick={() => onChange([...lines, { ingredient_id: 0, quantity: 0 }])}
+        className="text-sm text-amber-700 hover:underline flex items-center gap-1"
+      >
+        <LuPlus size={14} />
+        Add Ingredient
+      </button>
+    </div>
+  );
+}
+
+interface RecipeModalProps {
+  product: Product;
+  ingredients: Ingredient[];
+  onClose: () => void;
+  onSave: () => void;
+}
+
+// Edit the base recipe of a product and the extra ingredients of each modifier
+function RecipeModal({ product, ingredients, onClose, onSave }: RecipeModalProps) {
+  const [recipe, setRecipe] = useState<RecipeLine[]>(
+    normalizeRecipe(product.recipe)
+  );
+  const [groups, setGroups] = useState<ModifierGroup[]>(
+    (product.modifier_groups ?? []).map((g) => ({
+      ...g,
+      options: g.options.map((o) => ({
+        ...o,
+        recipe: normalizeRecipe(o.recipe),
+      })),
+    }))
+  );
+  const [saving, setSaving] = useState(false);
+
+  const setOptionRecipe = (
+    groupIndex: number,
+    optionIndex: number,
+    lines: RecipeLine[]
+  ) => {
+    setGroups((prev) =>
+      prev.map((g, gi) =>
+        gi !== groupIndex
+          ? g
+          : {
+              ...g,
+              options: g.options.map((o, oi) =>
+                oi === optionIndex ? { ...o, recipe: lines } : o
+              ),
+            }
+      )
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const allLines = [
+      ...recipe,
+      ...groups.flatMap((g) => g.options.flatMap((o) => o.recipe ?? [])),
+    ];
+    if (allLines.some((l) => !l.ingredient_id || l.quantity <= 0)) {
+      toast.error("Each recipe line needs an ingredient and a quantity.");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await api.products.update(product.id, {
+        name: product.name,
+        category: product.category,
+        price: Number(product.price),
+        needs_temp: product.needs_temp,
+        image_url: product.image_url,
+        modifier_groups: groups,
+        recipe,
+      });
+      toast.success(`Recipe for ${product.name} saved.`);
+      onSave();
+      onClose();
+    } catch (error: unknown) {
+      const message =
+        error instanceof Error ? error.message : "An error occurred";
+      toast.error(`Save Error: ${message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 backdrop-blur-sm bg-black/30 flex items-center justify-center z-50">
+      <div className="bg-white p-8 rounded-lg shadow-lg w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-2xl font-bold">Recipe: {product.name}</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-800">
+            <LuX size={24} />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-6">
+          Quantities are per item sold and are deducted automatically when an
+          order is saved.
+        </p>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div>
+            <h3 className="font-semibold text-amber-800 mb-2">Base Recipe</h3>
+            <RecipeLinesEditor
+              lines={recipe}
+              ingredients={ingredients}
+              onChange={setRecipe}
+            />
+          </div>
+          {groups.map((group, groupIndex) => (
+            <div key={group.name}>
+              <h3 className="font-semibold text-amber-800 mb-2">
+                {group.name}
+              </h3>
+              <div className="space-y-4 pl-3 border-l-2 border-amber-100">
+                {group.options.map((option, optionIndex) => (
+                  <div key={option.name}>
+                    <p className="text-sm font-medium text-gray-700 mb-1">
+                      {option.name}
+                    </p>
+                    <RecipeLinesEditor
+                      lines={option.recipe ?? []}
+                      ingredients={ingredients}
+                      onChange={(lines) =>
+                        setOptionRecipe(groupIndex, optionIndex, lines)
+                      }
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300"
+              disabled={saving}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-amber-800 text-white rounded-lg hover:bg-amber-700 flex items-center"
+              disabled={saving}
+            >
+              {saving ? <Spinner size="sm" thickness={2} /> : "Save Recipe"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+interface RecipesPanelProps {
+  canEdit: boolean;
+}
+
+// Products with their recipes; managers can edit them
+function RecipesPanel({ canEdit }: RecipesPanelProps) {
+  const [products, setProducts] = useState<Product[]>([]);
+  const [ingredients, setIngredients] = useState<Ingredient[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+
+  const fetchRecipes = async () => {
+    setLoading(true);
+    try {
+      const [productData, ingredientData] = await Promise.all([
+        api.products.list(),
+        api.ingredients.list(),
+      ]);
+      setProducts(productData);
+      setIngredients(ingredientData);
+    } catch {
+      toast.error("Could not load recipes");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRecipes();
+  }, []);
+
+  const describeRecipe = (recipe: RecipeLine[] | undefined) => {
+    const lines = normalizeRecipe(recipe);
+    if (lines.length === 0) return "No recipe";
+    return lines
+      .map((line) => {
+        const ingredient = ingredients.find((i) => i.id === line.ingredient_id);
+        const unit = normalizeUnitSingular(ingredient?.unit_of_measure);
+        return `${ingredient?.name ?? "Unknown"} ${line.quantity}${
+          unit ? ` ${unit}` : ""
+        }`;
+      })
+      .join(", ");
+  };
+
+  if (loading) return <PageLoader message="Loading Recipes…" color="amber" />;
+
+  const visibleProducts = products.filter((p) =>
+    p.name.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+
+  return (
+    <>
+      {editingProduct && (
+        <RecipeModal
+          product={editingProduct}
+          ingredients={ingredients}
+          onClose={() => setEditingProduct(null)}
+          onSave={fetchRecipes}
+        />
+      )}
+      <div className="flex mb-4">
+        <input
+          type="text"
+          className="border border-gray-300 rounded-lg px-3 py-2 w-full max-w-xs focus:ring-amber-500 focus:border-amber-500 transition"
+          placeholder="Search products..."
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+        />
+      </div>
+      <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Product
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Category
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Recipe (per item)
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Modifier Recipes
+              </th>
+              {canEdit && (
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              )}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {visibleProducts.map((product) => {
+              const modifierRecipes = (product.modifier_groups ?? [])
+                .flatMap((g) => g.options)
+                .filter((o) => normalizeRecipe(o.recipe).length > 0).length;
+              return (
+                <tr key={product.id} className="hover:bg-gray-50/80">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {product.name}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {product.category}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-600">
+                    {describeRecipe(product.recipe)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {modifierRecipes > 0 ? `${modifierRecipes} option(s)` : "-"}
+                  </td>
+                  {canEdit && (
+                    <td className="px-6 py-4 whitespace-nowrap text-right">
+                      <button
+                        onClick={() => setEditingProduct(product)}
+                        className="px-3 py-1.5 rounded-lg text-xs font-semibold transition-colors shadow-sm bg-amber-700 text-white hover:bg-amber-800 inline-flex items-center gap-1"
+                      >
+                        <LuPencilLine size={14} /> Edit Recipe
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {visibleProducts.length === 0 && (
+          <p className="text-center py-10 text-gray-500">No products found.</p>
+        )}
+      </div>
+    </>
+  );
+}
+
 // --- MAIN PAGE COMPONENT ---
 function Inventory() {
   const router = useRouter();
@@ -638,15 +970,8 @@ function Inventory() {
   useEffect(() => {
     const checkShift = async () => {
       try {
-        const response = await fetch(`${API_BASE}/api/shifts/current`, {
-          headers: getAuthHeaders(),
-        });
-        if (response.ok) {
-          const data = await response.json();
-          setHasActiveShift(data && data.status === "active");
-        } else {
-          setHasActiveShift(false);
-        }
+        const shift = await api.shifts.current();
+        setHasActiveShift(shift?.status === "active");
       } catch (error) {
         setHasActiveShift(false);
       } finally {
@@ -692,25 +1017,15 @@ function Inventory() {
   const { isManager } = useAuth();
   const [ingredients, setIngredients] = useState<Ingredient[]>([]);
   const [loading, setLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<"ingredients" | "history">(
-    "ingredients"
-  );
+  const [activeTab, setActiveTab] = useState<
+    "ingredients" | "recipes" | "history"
+  >("ingredients");
   // New: ingredient view filter (active/archived)
   const [ingredientView, setIngredientView] = useState<"active" | "archived">(
     "active"
   );
-  interface InventoryHistory {
-    id: number;
-    created_at: string;
-    product_name?: string;
-    ingredient_name?: string;
-    quantity: number;
-    movement_type: string;
-    user_name?: string;
-    note?: string;
-  }
+  type InventoryHistory = InventoryHistoryEntry;
   const [loadingHistory, setLoadingHistory] = useState(false);
-  const API_BASE = process.env.NEXT_PUBLIC_API_BASE || "http://localhost:5000";
 
   const [isFormModalOpen, setIsFormModalOpen] = useState(false);
   const [isMovementModalOpen, setIsMovementModalOpen] = useState(false);
@@ -792,18 +1107,10 @@ function Inventory() {
   const fetchAllData = async () => {
     setLoading(true);
     try {
-      let archivedParam = "";
-      if (ingredientView === "active") archivedParam = "?archived=false";
-      else if (ingredientView === "archived") archivedParam = "?archived=true";
-      const ingResponse = await fetch(
-        `${API_BASE}/api/ingredients${archivedParam}`,
-        {
-          headers: getAuthHeaders(),
-        }
-      );
-      const ingData: Ingredient[] = ingResponse.ok
-        ? await ingResponse.json()
-        : [];
+      let archived: boolean | undefined;
+      if (ingredientView === "active") archived = false;
+      else if (ingredientView === "archived") archived = true;
+      const ingData = await api.ingredients.list(archived).catch(() => []);
       setIngredients(ingData);
     } catch {
       toast.error("Could not load inventory data.");
@@ -816,11 +1123,7 @@ function Inventory() {
   const fetchHistory = async () => {
     setLoadingHistory(true);
     try {
-      const res = await fetch(`${API_BASE}/api/products/history`, {
-        headers: getAuthHeaders(),
-      });
-      if (!res.ok) throw new Error("Failed to fetch inventory history");
-      const data = await res.json();
+      const data = await api.products.history();
       setHistory(data);
     } catch (e) {
       toast.error("Could not load inventory history");
@@ -832,30 +1135,18 @@ function Inventory() {
 
   // Create/update item
   const handleSaveOrUpdate = async (data: FormData) => {
-    const isIngredient = true; // Inventory handles ingredients only
-    let endpoint = "";
+    // Inventory handles ingredients only
     const method = data.id ? "PUT" : "POST";
 
-    if (isIngredient) {
-      endpoint = data.id ? `/api/ingredients/${data.id}` : "/api/ingredients";
-    } else {
-      endpoint = data.id ? `/api/products/${data.id}` : "/api/products";
-    }
-
     try {
-      const response = await fetch(`${API_BASE}${endpoint}`, {
-        method: method,
-        headers: {
-          "Content-Type": "application/json",
-          ...getAuthHeaders(),
-        },
-        body: JSON.stringify(data),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || "Failed to save/update.");
-      }
+      const payload = {
+        name: data.name,
+        category: data.category,
+        unit_of_measure: data.unit_of_measure,
+        required_stock: data.required_stock,
+      };
+      if (data.id) await api.ingredients.update(data.id, payload);
+      else await api.ingredients.create(payload);
 
       toast.success(
         `${data.name} ${method === "POST" ? "added" : "updated"} successfully!`
@@ -878,17 +1169,10 @@ function Inventory() {
   }) => {
     if (!selectedIngredient) return;
     try {
-      const payload = { ...data, ingredient_id: selectedIngredient.id };
-      const response = await fetch(`${API_BASE}/api/ingredients/movement`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          ...getAuthHeaders(),
-        },
-        body: JSON.stringify(payload),
+      await api.ingredients.recordMovement({
+        ...data,
+        ingredient_id: selectedIngredient.id,
       });
-
-      if (!response.ok) throw new Error("Failed to record movement.");
       toast.success(
         `${data.quantity} recorded as ${data.movement_type} for ${selectedIngredient.name}.`
       );
@@ -899,71 +1183,19 @@ function Inventory() {
   };
 
   // Archive / Unarchive helpers
-  const archiveIngredient = async (id: number) => {
-    const url = `${API_BASE}/api/ingredients/${id}/archive`;
-    const res = await fetch(url, { method: "POST", headers: getAuthHeaders() });
-    const text = await res.text();
-    let body: unknown = text;
-    try {
-      body = JSON.parse(text);
-    } catch {}
-    if (!res.ok) {
-      let errMsg = `HTTP ${res.status}`;
-      if (
-        typeof body === "object" &&
-        body !== null &&
-        Object.prototype.hasOwnProperty.call(body, "message") &&
-        typeof (body as { message?: unknown }).message === "string"
-      ) {
-        errMsg = (body as { message: string }).message;
-      }
-      throw new Error(errMsg);
-    }
-    return body;
-  };
+  const archiveIngredient = (id: number) => api.ingredients.archive(id);
 
-  const unarchiveIngredient = async (id: number) => {
-    const url = `${API_BASE}/api/ingredients/${id}/unarchive`;
-    const res = await fetch(url, { method: "POST", headers: getAuthHeaders() });
-    const text = await res.text();
-    let body: unknown = text;
-    try {
-      body = JSON.parse(text);
-    } catch {}
-    if (!res.ok) {
-      let errMsg = `HTTP ${res.status}`;
-      if (
-        typeof body === "object" &&
-        body !== null &&
-        Object.prototype.hasOwnProperty.call(body, "message") &&
-        typeof (body as { message?: unknown }).message === "string"
-      ) {
-        errMsg = (body as { message: string }).message;
-      }
-      throw new Error(errMsg);
-    }
-    return body;
-  };
+  const unarchiveIngredient = (id: number) => api.ingredients.unarchive(id);
 
   // Delete item
   const handleDeleteItem = async (item: Ingredient | Product) => {
     if (!item) return;
     const name = item.name;
     const isIngredient = "required_stock" in item;
-    const endpoint = isIngredient
-      ? `/api/ingredients/${item.id}`
-      : `/api/products/${item.id}`;
 
     try {
-      const response = await fetch(`${API_BASE}${endpoint}`, {
-        method: "DELETE",
-        headers: getAuthHeaders(),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || "Failed to delete item.");
-      }
+      if (isIngredient) await api.ingredients.remove(item.id);
+      else await api.products.remove(item.id);
 
       toast.success(`${name} deleted successfully!`);
       fetchAllData();
@@ -1265,6 +1497,16 @@ function Inventory() {
       >
         Ingredients
       </button>
+      <button
+        className={`px-5 py-2 rounded-t-lg font-semibold text-sm transition-colors border-b-2 ${
+          activeTab === "recipes"
+            ? "bg-white border-amber-800 text-amber-800"
+            : "bg-gray-100 border-transparent text-gray-500 hover:text-amber-800"
+        }`}
+        onClick={() => setActiveTab("recipes")}
+      >
+        Recipes
+      </button>
       <button
         className={`px-5 py-2 rounded-t-lg font-semibold text-sm transition-colors border-b-2 ${
           activeTab === "history"
@@ -1449,6 +1691,7 @@ function Inventory() {
             <div className="max-w-7xl mx-auto">{renderIngredientTable()}</div>
           </>
         )}
+        {activeTab === "recipes" && <RecipesPanel canEdit={isManager()} />}
         {activeTab === "history" && (
           <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm overflow-x-auto">
             <h2 className="text-xl font-bold mb-4 text-amber-800">
@@ -7,48 +7,31 @@ import {
   LuShoppingCart,
   LuCoffee,
   LuCar,
+  LuUndo2,
 } from "react-icons/lu";
 import { toast } from "react-toastify";
 import ProtectedRoute from "@/components/ProtectedRoute";
 import PageLoader from "@/components/PageLoader";
-import { getAuthHeaders } from "@/lib/auth";
-
-const API_BASE = process.env.NEXT_PUBLIC_API_BASE || "http://localhost:5000";
-
-interface Transaction {
-  order_id: string;
-  created_at: string;
-  total: number;
-  payment_method: string;
-  items: {
-    business_unit: "Coffee" | "Carwash";
-    item_type: string;
-    quantity: number;
-    line_total: number;
-    details: Record<string, unknown>;
-  }[];
-}
+import VoidOrderModal from "@/components/VoidOrderModal";
+import { api } from "@/lib/api";
+import type { Transaction } from "@/lib/apiTypes";
+import { isVoided, netTotal, refundedTotal } from "@/lib/refunds";
 
 function MyShiftTransactions() {
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [loading, setLoading] = useState(true);
   const [page, setPage] = useState(1);
   const [hasMore, setHasMore] = useState(true);
+  const [voidingTx, setVoidingTx] = useState<Transaction | null>(null);
   const pageSize = 50;
 
   const fetchTodaysTransactions = useCallback(async () => {
     try {
       setLoading(true);
-      const res = await fetch(
-        `${API_BASE}/api/reports/my-shift/transactions?size=${pageSize}&page=${page}`,
-        {
-          headers: getAuthHeaders(),
-        }
-      );
-
-      if (!res.ok) throw new Error("Failed to fetch transactions");
-
-      const data = await res.json();
+      const data = await api.reports.myShiftTransactions({
+        size: pageSize,
+        page,
+      });
       const newTransactions = data.transactions || [];
 
       if (page === 1) {
@@ -70,6 +53,12 @@ function MyShiftTransactions() {
     fetchTodaysTransactions();
   }, [fetchTodaysTransactions]);
 
+  // Reload from the first page so the refund shows up on its order
+  const handleRefunded = () => {
+    if (page === 1) fetchTodaysTransactions();
+    else setPage(1);
+  };
+
   const loadMore = () => {
     if (!loading && hasMore) {
       setPage((prev) => prev + 1);
@@ -88,6 +77,10 @@ function MyShiftTransactions() {
   const carwashTransactions = transactions.filter((tx) =>
     tx.items.some((item) => item.business_unit === "Carwash")
   );
+  const refundsTotal = transactions.reduce(
+    (sum, tx) => sum + refundedTotal(tx),
+    0
+  );
 
   return (
     <ProtectedRoute>
@@ -104,7 +97,7 @@ function MyShiftTransactions() {
         </div>
 
         {/* Summary Stats */}
-        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
           <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-4">
             <div className="flex items-center justify-between">
               <div>
@@ -152,6 +145,22 @@ function MyShiftTransactions() {
               </div>
             </div>
           </div>
+
+          <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-gray-600 font-medium">
+                  Voids / Refunds
+                </p>
+                <p className="text-2xl font-bold text-red-600 mt-1">
+                  -₱{refundsTotal.toFixed(2)}
+                </p>
+              </div>
+              <div className="w-12 h-12 bg-red-100 rounded-lg flex items-center justify-center">
+                <LuUndo2 size={24} className="text-red-600" />
+              </div>
+            </div>
+          </div>
         </div>
 
         {/* Transactions List */}
@@ -184,6 +193,11 @@ function MyShiftTransactions() {
                         <span className="text-sm font-semibold text-gray-900">
                           #{tx.order_id}
                         </span>
+                        {tx.or_number && (
+                          <span className="text-xs text-gray-500">
+                            OR {tx.or_number}
+                          </span>
+                        )}
                         <span
                           className={`text-xs px-2 py-0.5 rounded-full font-medium ${
                             tx.payment_method === "Cash"
@@ -193,6 +207,11 @@ function MyShiftTransactions() {
                         >
                           {tx.payment_method}
                         </span>
+                        {isVoided(tx) && (
+                          <span className="text-xs px-2 py-0.5 rounded-full font-medium bg-red-100 text-red-700">
+                            Voided
+                          </span>
+                        )}
                       </div>
                       <div className="flex items-center gap-2 text-xs text-gray-500">
                         <LuCalendar size={12} />
@@ -202,9 +221,29 @@ function MyShiftTransactions() {
                       </div>
                     </div>
                     <div className="text-right">
-                      <div className="text-lg font-bold text-gray-900">
+                      <div
+                        className={`text-lg font-bold ${
+                          isVoided(tx)
+                            ? "text-gray-400 line-through"
+                            : "text-gray-900"
+                        }`}
+                      >
                         ₱{Number(tx.total).toFixed(2)}
                       </div>
+                      {refundedTotal(tx) > 0 && !isVoided(tx) && (
+                        <div className="text-xs text-gray-500">
+                          Net ₱{netTotal(tx).toFixed(2)}
+                        </div>
+                      )}
+                      {netTotal(tx) > 0 && (
+                        <button
+                          onClick={() => setVoidingTx(tx)}
+                          className="mt-1 text-xs text-red-600 hover:text-red-700 font-semibold inline-flex items-center gap-1"
+                        >
+                          <LuUndo2 size={12} />
+                          Void / Refund
+                        </button>
+                      )}
                     </div>
                   </div>
                   <div className="space-y-1">
@@ -228,6 +267,21 @@ function MyShiftTransactions() {
                         <span>₱{Number(item.line_total).toFixed(2)}</span>
                       </div>
                     ))}
+                    {(tx.refunds ?? []).map((refund) => (
+                      <div
+                        key={refund.id}
+                        className="flex items-center justify-between text-sm text-red-600"
+                      >
+                        <span>
+                          {refund.type === "void" ? "Void" : "Refund"} ·{" "}
+                          {refund.reason}
+                          <span className="ml-2 text-xs text-gray-500">
+                            approved by {refund.approved_by_name}
+                          </span>
+                        </span>
+                        <span>-₱{Number(refund.amount).toFixed(2)}</span>
+                      </div>
+                    ))}
                   </div>
                 </div>
               ))}
@@ -247,6 +301,14 @@ function MyShiftTransactions() {
             </button>
           </div>
         )}
+
+        {voidingTx && (
+          <VoidOrderModal
+            transaction={voidingTx}
+            onClose={() => setVoidingTx(null)}
+            onRefunded={handleRefunded}
+          />
+        )}
       </div>
     </ProtectedRoute>
   );
@@ -39,143 +39,83 @@ import {
 import { format, parseISO } from "date-fns";
 import ProtectedRoute from "@/components/ProtectedRoute"; // Restricts access to authenticated users
 import PageLoader from "@/components/PageLoader"; // Loading spinner for async data
-import Spinner from "@/components/Spinner";
-import { getAuthHeaders } from "@/lib/auth"; // Helper for API auth headers
+import StartShiftModal from "@/components/StartShiftModal"; // Starting float entry
+import CloseShiftModal from "@/components/CloseShiftModal"; // Drawer count and Z-report
+import ReportPreview from "@/components/ReportPreview"; // X-report preview/print
+import { api } from "@/lib/api"; // Typed backend client
+import type {
+  SalesSummary,
+  SalesByBusinessByDay,
+  Ingredient,
+  CarwashTicket,
+  MyShiftSummary,
+  Transaction,
+} from "@/lib/apiTypes"; // Shared response types
 import { useAuth } from "@/contexts/AuthContext"; // Auth context for user info
-
-// --------------------
-// Type Definitions
-// --------------------
-
-// Sales summary for a single order
-interface SalesSummary {
-  order_id: string;
-  total: string;
-  payment_method?: string;
-  items_summary: {
-    business_unit: "Coffee" | "Carwash";
-  }[];
-}
-
-// Aggregated sales by business unit per day
-interface SalesByBusinessByDay {
-  date: string;
-  coffee_sales: string;
-  carwash_sales: string;
-}
-
-// Ingredient inventory structure
-interface Ingredient {
-  id: number;
-  name: string;
-  category: string;
-  current_stock: number;
-  required_stock: number;
-  unit_of_measure: string;
-}
-
-interface CarwashService {
-  id: number;
-  order_id: string;
-  status: string;
-  vehicle_type: string | null;
-  plate_number: string | null;
-  customer_name: string | null;
-  customer_phone: string | null;
-  total: string;
-  created_at: string;
-  items: {
-    service_name: string;
-    vehicle: string;
-    price: string;
-    quantity: number;
-  }[];
-}
-
-interface MyShiftTotals {
-  orderCount: number;
-  totalSales: number;
-  byBusinessUnit: { Coffee: number; Carwash: number };
-  byPayment: { Cash: number; Gcash: number };
-}
-
-interface MyShiftSummaryResp {
-  shift: {
-    id: number;
-    user_id: number;
-    start_time: string;
-    end_time: string | null;
-    status: "active" | "ended";
-  } | null;
-  totals: MyShiftTotals;
-}
-
-interface MyShiftTransaction {
-  order_id: string;
-  created_at: string;
-  total: number | string;
-  payment_method: string;
-  items: {
-    business_unit: "Coffee" | "Carwash";
-    item_type: string;
-    quantity: number;
-    line_total: number | string;
-    details: unknown;
-  }[];
-}
+import {
+  fetchShiftRefunds,
+  fetchShiftTransactions,
+} from "@/lib/cashDrawer"; // All transactions and refunds of my shift
+import { CACHE_KEYS, writeCache } from "@/lib/offlineCache"; // Offline copy of the current shift
+import { subscribeCarwashQueue } from "@/lib/carwashQueue"; // Live carwash tickets
+import { summarizeSales } from "@/lib/salesReport"; // X/Z report totals
+import { generateXReport } from "@/utils/escpos"; // ESC/POS report generator
 
 // Dashboard
 function Dashboard() {
-  const { isManager } = useAuth();
+  const { user, isManager } = useAuth();
   const [summaryData, setSummaryData] = useState<SalesSummary[]>([]);
   const [chartData, setChartData] = useState<SalesByBusinessByDay[]>([]);
   const [lowStockItems, setLowStockItems] = useState<Ingredient[]>([]);
   const [inProgressServices, setInProgressServices] = useState<
-    CarwashService[]
+    CarwashTicket[]
   >([]);
   const [myShiftSummary, setMyShiftSummary] =
-    useState<MyShiftSummaryResp | null>(null);
+    useState<MyShiftSummary | null>(null);
   const [myShiftTransactions, setMyShiftTransactions] = useState<
-    MyShiftTransaction[]
+    Transaction[]
   >([]);
   const [loading, setLoading] = useState(true);
-  const [startingShift, setStartingShift] = useState(false);
-  const [endingShift, setEndingShift] = useState(false);
+  const [showStartShift, setShowStartShift] = useState(false);
+  const [showCloseShift, setShowCloseShift] = useState(false);
+  const [xReportBytes, setXReportBytes] = useState<Uint8Array | null>(null);
+
+  // My Shift endpoints are best-effort; failures just clear the panel
+  const fetchMyShift = async (logPrefix: string) => {
+    const [summaryResult, txResult] = await Promise.allSettled([
+      api.reports.myShiftSummary(),
+      api.reports.myShiftTransactions({ size: 5 }),
+    ]);
+
+    if (summaryResult.status === "fulfilled") {
+      console.log(`${logPrefix} Summary response:`, summaryResult.value);
+      setMyShiftSummary(summaryResult.value);
+    } else {
+      console.warn(`${logPrefix} Summary failed:`, summaryResult.reason);
+      setMyShiftSummary(null);
+    }
+
+    if (txResult.status === "fulfilled") {
+      console.log(`${logPrefix} Transactions response:`, txResult.value);
+      setMyShiftTransactions(txResult.value.transactions || []);
+    } else {
+      console.warn(`${logPrefix} Transactions failed:`, txResult.reason);
+      setMyShiftTransactions([]);
+    }
+  };
 
   // Fetch data
   const fetchDashboardData = async () => {
     try {
       setLoading(true);
-      const API_URL =
-        process.env.NEXT_PUBLIC_API_BASE || "http://localhost:5000";
       if (isManager()) {
-        // Manager: fetch sales, inventory, carwash services AND my-shift endpoints
+        // Manager: fetch sales, inventory AND my-shift endpoints
         console.log("[Dashboard] Fetching manager data including shift...");
-        const [summaryRes, chartRes, ingredientsRes, carwashRes] =
-          await Promise.all([
-            fetch(`${API_URL}/api/reports/summary`, {
-              headers: getAuthHeaders(),
-            }),
-            fetch(`${API_URL}/api/reports/sales-by-business-by-day`, {
-              headers: getAuthHeaders(),
-            }),
-            fetch(`${API_URL}/api/ingredients`, { headers: getAuthHeaders() }),
-            fetch(`${API_URL}/api/carwash/services`, {
-              headers: getAuthHeaders(),
-            }),
-          ]);
-
-        if (!summaryRes.ok) throw new Error("Failed to fetch sales summary.");
-        if (!chartRes.ok) throw new Error("Failed to fetch chart data.");
-        if (!ingredientsRes.ok)
-          throw new Error("Failed to fetch inventory data.");
-        if (!carwashRes.ok)
-          throw new Error("Failed to fetch carwash services.");
-
-        const summary: SalesSummary[] = await summaryRes.json();
-        const chart: SalesByBusinessByDay[] = await chartRes.json();
-        const ingredients: Ingredient[] = await ingredientsRes.json();
-        const carwashServices: CarwashService[] = await carwashRes.json();
+        const [summary, chart, ingredients] = await Promise.all([
+          api.reports.summary(),
+          api.reports.salesByBusinessByDay(),
+          api.ingredients.list(),
+        ]);
 
         setSummaryData(summary);
         setChartData(chart);
@@ -187,111 +127,15 @@ function Dashboard() {
           )
         );
 
-        // Carwash in-progress
-        setInProgressServices(
-          carwashServices.filter((service) => service.status === "in_progress")
-        );
-
         // Manager My Shift endpoints
-        try {
-          const [myShiftSummaryRes, myShiftTxRes] = await Promise.all([
-            fetch(`${API_URL}/api/reports/my-shift/summary`, {
-              headers: getAuthHeaders(),
-            }),
-            fetch(`${API_URL}/api/reports/my-shift/transactions?size=5`, {
-              headers: getAuthHeaders(),
-            }),
-          ]);
-          if (myShiftSummaryRes.ok) {
-            const summaryJson = await myShiftSummaryRes.json();
-            console.log("[MyShift][Manager] Summary response:", summaryJson);
-            setMyShiftSummary(summaryJson);
-          } else {
-            console.warn(
-              "[MyShift][Manager] Summary failed:",
-              myShiftSummaryRes.status,
-              await myShiftSummaryRes.text()
-            );
-            setMyShiftSummary(null);
-          }
-          if (myShiftTxRes.ok) {
-            const txJson = await myShiftTxRes.json();
-            console.log("[MyShift][Manager] Transactions response:", txJson);
-            setMyShiftTransactions(txJson.transactions || []);
-          } else {
-            console.warn(
-              "[MyShift][Manager] Transactions failed:",
-              myShiftTxRes.status,
-              await myShiftTxRes.text()
-            );
-            setMyShiftTransactions([]);
-          }
-        } catch (e) {
-          console.error("[MyShift][Manager] endpoints error:", e);
-          setMyShiftSummary(null);
-          setMyShiftTransactions([]);
-        }
+        await fetchMyShift("[MyShift][Manager]");
       } else {
-        // Staff: fetch inventory, carwash services, and my-shift data
+        // Staff: fetch inventory and my-shift data
         console.log("[Dashboard] Fetching staff data...");
-        const [ingredientsRes, carwashRes] = await Promise.all([
-          fetch(`${API_URL}/api/ingredients`, {
-            headers: getAuthHeaders(),
-          }),
-          fetch(`${API_URL}/api/carwash/services`, {
-            headers: getAuthHeaders(),
-          }),
-        ]);
-
-        if (!ingredientsRes.ok)
-          throw new Error("Failed to fetch inventory data.");
-        if (!carwashRes.ok)
-          throw new Error("Failed to fetch carwash services.");
-
-        const ingredients: Ingredient[] = await ingredientsRes.json();
-        const carwashServices: CarwashService[] = await carwashRes.json();
+        const ingredients = await api.ingredients.list();
 
         // My Shift endpoints (best-effort)
-        try {
-          const [myShiftSummaryRes, myShiftTxRes] = await Promise.all([
-            fetch(`${API_URL}/api/reports/my-shift/summary`, {
-              headers: getAuthHeaders(),
-            }),
-            fetch(`${API_URL}/api/reports/my-shift/transactions?size=5`, {
-              headers: getAuthHeaders(),
-            }),
-          ]);
-
-          if (myShiftSummaryRes.ok) {
-            const summaryJson = await myShiftSummaryRes.json();
-            console.log("[MyShift] Summary response:", summaryJson);
-            setMyShiftSummary(summaryJson);
-          } else {
-            console.warn(
-              "[MyShift] Summary failed:",
-              myShiftSummaryRes.status,
-              await myShiftSummaryRes.text()
-            );
-            setMyShiftSummary(null);
-          }
-
-          if (myShiftTxRes.ok) {
-            const txJson = await myShiftTxRes.json();
-            console.log("[MyShift] Transactions response:", txJson);
-            setMyShiftTransactions(txJson.transactions || []);
-          } else {
-            console.warn(
-              "[MyShift] Transactions failed:",
-              myShiftTxRes.status,
-              await myShiftTxRes.text()
-            );
-            setMyShiftTransactions([]);
-          }
-        } catch (e) {
-          console.error("My Shift endpoints error:", e);
-          setMyShiftSummary(null);
-          setMyShiftTransactions([]);
-        }
+        await fetchMyShift("[MyShift]");
 
         // Ensure sales data is cleared for staff
         setSummaryData([]);
@@ -303,11 +147,6 @@ function Dashboard() {
             (item) => Number(item.current_stock) < Number(item.required_stock)
           )
         );
-
-        // Carwash in-progress
-        setInProgressServices(
-          carwashServices.filter((service) => service.status === "in_progress")
-        );
       }
     } catch (error: unknown) {
       const message = error instanceof Error ? error.message : "Unknown error";
@@ -322,56 +161,60 @@ function Dashboard() {
     fetchDashboardData();
   }, []);
 
-  // Shift handlers for staff
-  const handleStartShift = async () => {
-    try {
-      setStartingShift(true);
-      const API_URL =
-        process.env.NEXT_PUBLIC_API_BASE || "http://localhost:5000";
-      const res = await fetch(`${API_URL}/api/shifts/start`, {
-        method: "POST",
-        headers: getAuthHeaders(),
-      });
-
-      const data = await res.json();
-
-      if (!res.ok) {
-        throw new Error(data.message || data.error || "Failed to start shift");
-      }
-      toast.success("Shift started! You can now use the POS systems.");
-      fetchDashboardData(); // Refresh to show the new shift
-    } catch (err) {
-      console.error("Start shift error:", err);
-      toast.error(err instanceof Error ? err.message : "Failed to start shift");
-    } finally {
-      setStartingShift(false);
-    }
+  // Carwash in-progress, kept current by the live queue
+  useEffect(
+    () =>
+      subscribeCarwashQueue((queue) =>
+        setInProgressServices(
+          queue.tickets.filter((service) => service.status === "in_progress")
+        )
+      ),
+    []
+  );
+
+  // Shift handlers for staff; both refresh to show the new shift state
+  const handleShiftStarted = () => {
+    setShowStartShift(false);
+    fetchDashboardData();
+  };
+
+  const handleShiftClosed = () => {
+    setShowCloseShift(false);
+    writeCache(CACHE_KEYS.shift, null);
+    fetchDashboardData();
   };
 
-  const handleEndShift = async () => {
-    const notes = prompt("Add any notes for this shift (optional):");
+  // Mid-shift reading of my sales so far
+  const handleXReport = async () => {
+    const shift = myShiftSummary?.shift;
+    if (!shift) return;
     try {
-      setEndingShift(true);
-      const API_URL =
-        process.env.NEXT_PUBLIC_API_BASE || "http://localhost:5000";
-      const res = await fetch(`${API_URL}/api/shifts/end`, {
-        method: "POST",
-        headers: { ...getAuthHeaders(), "Content-Type": "application/json" },
-        body: JSON.stringify({ notes: notes || null }),
-      });
-
-      const data = await res.json();
-
-      if (!res.ok) {
-        throw new Error(data.message || data.error || "Failed to end shift");
-      }
-      toast.success("Shift ended successfully!");
-      fetchDashboardData(); // Refresh to show shift ended
+      const [transactions, refunds] = await Promise.all([
+        fetchShiftTransactions(),
+        fetchShiftRefunds(shift),
+      ]);
+      const timeFormat: Intl.DateTimeFormatOptions = {
+        month: "short",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+        hour12: true,
+      };
+      setXReportBytes(
+        generateXReport({
+          shiftId: shift.id,
+          cashierName: user?.fullName ?? "",
+          periodStart: new Date(shift.start_time).toLocaleString(
+            "en-US",
+            timeFormat
+          ),
+          sales: summarizeSales(transactions, refunds),
+          timestamp: new Date().toLocaleString("en-US", timeFormat),
+        })
+      );
     } catch (err) {
-      console.error("End shift error:", err);
-      toast.error(err instanceof Error ? err.message : "Failed to end shift");
-    } finally {
-      setEndingShift(false);
+      console.error("X-report error:", err);
+      toast.error("Could not build the X-report");
     }
   };
 
@@ -552,22 +395,29 @@ function Dashboard() {
                 </div>
               )}
               {/* Button logic: show End if active shift exists, otherwise show Start */}
+              {myShiftSummary?.shift?.status === "active" && (
+                <button
+                  onClick={handleXReport}
+                  className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg font-semibold hover:bg-gray-50 transition-colors flex items-center gap-2 whitespace-nowrap"
+                >
+                  <LuFileText size={16} />
+                  X-Report
+                </button>
+              )}
               {myShiftSummary?.shift?.status === "active" ? (
                 <button
-                  onClick={handleEndShift}
-                  disabled={endingShift}
+                  onClick={() => setShowCloseShift(true)}
                   className="px-4 py-2 bg-red-600 text-white rounded-lg font-semibold hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 whitespace-nowrap"
                 >
-                  {endingShift ? <Spinner /> : "End Shift"}
+                  End Shift
                 </button>
               ) : !myShiftSummary?.shift ||
                 myShiftSummary.shift.status === "ended" ? (
                 <button
-                  onClick={handleStartShift}
-                  disabled={startingShift}
+                  onClick={() => setShowStartShift(true)}
                   className="px-4 py-2 bg-green-600 text-white rounded-lg font-semibold hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 whitespace-nowrap"
                 >
-                  {startingShift ? <Spinner /> : "Start Shift"}
+                  Start Shift
                 </button>
               ) : null}
             </div>
@@ -607,6 +457,14 @@ function Dashboard() {
                       maximumFractionDigits: 2,
                     })}
                   </p>
+                  {Number(myShiftSummary.totals.refundTotal || 0) > 0 && (
+                    <p className="text-xs font-medium text-red-600 mt-1">
+                      -₱
+                      {Number(myShiftSummary.totals.refundTotal).toFixed(2)} in{" "}
+                      {myShiftSummary.totals.refundCount ?? 0} void/refund
+                      {myShiftSummary.totals.refundCount === 1 ? "" : "s"}
+                    </p>
+                  )}
                 </div>
 
                 <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100">
@@ -963,6 +821,26 @@ function Dashboard() {
           </div>
         </div>
       </div>
+
+      {showStartShift && (
+        <StartShiftModal
+          onClose={() => setShowStartShift(false)}
+          onStarted={handleShiftStarted}
+        />
+      )}
+      {showCloseShift && myShiftSummary?.shift && (
+        <CloseShiftModal
+          shift={myShiftSummary.shift}
+          onClose={() => setShowCloseShift(false)}
+          onClosed={handleShiftClosed}
+        />
+      )}
+      {xReportBytes && (
+        <ReportPreview
+          bytes={xReportBytes}
+          onClose={() => setXReportBytes(null)}
+        />
+      )}
     </div>
   );
 }
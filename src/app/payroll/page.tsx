@@ -0,0 +1,810 @@
+"use client";
+
+/*
+  Washer Payroll Page
+  -------------------
+  This page computes carwash washer commissions for managers. It allows managers to:
+    - Define commission rules per service and vehicle type (percentage or fixed per unit)
+    - Pick a pay period (week, half-month, custom dates) or a single shift
+    - Review each washer's earnings ledger built from completed tickets
+    - Export the payroll summary or the full ledger as CSV
+  Tickets worked by several washers split their commission equally.
+  Only accessible to managers.
+*/
+
+import { useEffect, useState } from "react";
+import { format, startOfMonth, endOfMonth, startOfWeek } from "date-fns";
+import {
+  LuWallet,
+  LuDownload,
+  LuPlus,
+  LuPencil,
+  LuTrash2,
+  LuChevronDown,
+  LuChevronRight,
+  LuTriangleAlert,
+} from "react-icons/lu";
+import { toast } from "react-toastify";
+import ProtectedRoute from "@/components/ProtectedRoute"; // Restricts access to authenticated users
+import ManagerOnlyRoute from "@/components/ManagerOnlyRoute"; // Restricts access to managers
+import Spinner from "@/components/Spinner"; // Loading spinner for async data
+import Card from "@/components/ui/Card"; // UI card wrapper
+import { api } from "@/lib/api"; // Typed backend client
+import type {
+  AdminCatalogService,
+  CarwashTicket,
+  CommissionRateType,
+  CommissionRule,
+  CommissionRulePayload,
+  ShiftWithUser,
+} from "@/lib/apiTypes"; // Shared response types
+import {
+  EarningEntry,
+  buildEarningsLedger,
+  fetchCompletedTickets,
+  summarizePayroll,
+} from "@/lib/commissions"; // Commission ledger and payroll totals
+
+// --------------------
+// Type Definitions
+// --------------------
+
+type PeriodPreset = "week" | "first-half" | "second-half" | "custom" | "shift";
+
+interface PayPeriod {
+  from: Date;
+  to: Date;
+  label: string;
+}
+
+function formatPeso(amount: number): string {
+  return `₱${amount.toLocaleString("en-PH", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+}
+
+function downloadCSV(filename: string, headers: string[], rows: string[][]) {
+  const csvContent = [
+    headers.join(","),
+    ...rows.map((row) => row.map((cell) => `"${cell}"`).join(",")),
+  ].join("\n");
+  const blob = new Blob([csvContent], { type: "text/csv" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function dayStart(date: string): Date {
+  return new Date(`${date}T00:00:00`);
+}
+
+function dayEnd(date: string): Date {
+  return new Date(`${date}T23:59:59.999`);
+}
+
+/**
+ * Start and end of the selected pay period; null until it is complete
+ */
+function payPeriod(
+  preset: PeriodPreset,
+  customStart: string,
+  customEnd: string,
+  shift: ShiftWithUser | undefined
+): PayPeriod | null {
+  const today = new Date();
+  const month = format(today, "yyyy-MM");
+  switch (preset) {
+    case "week": {
+      const start = format(
+        startOfWeek(today, { weekStartsOn: 1 }),
+        "yyyy-MM-dd"
+      );
+      const end = format(today, "yyyy-MM-dd");
+      return {
+        from: dayStart(start),
+        to: dayEnd(end),
+        label: `week-${start}`,
+      };
+    }
+    case "first-half":
+      return {
+        from: dayStart(`${month}-01`),
+        to: dayEnd(`${month}-15`),
+        label: `${month}-01-to-15`,
+      };
+    case "second-half":
+      return {
+        from: dayStart(`${month}-16`),
+        to: dayEnd(format(endOfMonth(startOfMonth(today)), "yyyy-MM-dd")),
+        label: `${month}-16-to-end`,
+      };
+    case "custom":
+      if (!customStart || !customEnd || customStart > customEnd) return null;
+      return {
+        from: dayStart(customStart),
+        to: dayEnd(customEnd),
+        label: `${customStart}-to-${customEnd}`,
+      };
+    case "shift":
+      if (!shift) return null;
+      return {
+        from: new Date(shift.start_time),
+        to: shift.end_time ? new Date(shift.end_time) : new Date(),
+        label: `shift-${shift.id}`,
+      };
+  }
+}
+
+function ruleScope(rule: CommissionRule): string {
+  return `${rule.service_name ?? "All services"} · ${
+    rule.vehicle_type ?? "All vehicles"
+  }`;
+}
+
+function describeRate(rule: CommissionRule): string {
+  return rule.rate_type === "percentage"
+    ? `${Number(rule.rate)}% of sale`
+    : `${formatPeso(Number(rule.rate))} per unit`;
+}
+
+// --------------------
+// Commission Rules
+// --------------------
+interface CommissionRulesProps {
+  rules: CommissionRule[];
+  services: AdminCatalogService[];
+  onChange: () => void;
+}
+
+function CommissionRules({ rules, services, onChange }: CommissionRulesProps) {
+  // Rule being edited; null adds a new one, undefined keeps the modal closed
+  const [editingRule, setEditingRule] = useState<CommissionRule | null>();
+
+  const handleToggle = async (rule: CommissionRule) => {
+    try {
+      await api.commissionRules.update(rule.id, { is_active: !rule.is_active });
+      toast.success(`Rule ${!rule.is_active ? "activated" : "deactivated"}`);
+      onChange();
+    } catch (err) {
+      console.error(err);
+      toast.error("Could not update rule");
+    }
+  };
+
+  const handleDelete = async (rule: CommissionRule) => {
+    if (!confirm(`Delete the commission rule for ${ruleScope(rule)}?`)) return;
+    try {
+      await api.commissionRules.remove(rule.id);
+      toast.success("Rule deleted successfully");
+      onChange();
+    } catch (err) {
+      console.error(err);
+      toast.error("Could not delete rule");
+    }
+  };
+
+  return (
+    <Card
+      title="Commission Rules"
+      subtitle="The most specific active rule applies to each service line"
+      headerRight={
+        <button
+          onClick={() => setEditingRule(null)}
+          className="flex items-center gap-2 bg-amber-700 text-white px-4 py-2 rounded-lg hover:bg-amber-600 transition-colors text-sm"
+        >
+          <LuPlus size={16} />
+          Add Rule
+        </button>
+      }
+    >
+      {rules.length === 0 ? (
+        <p className="text-sm text-gray-400 italic">
+          No commission rules yet. Washers earn nothing until one is added.
+        </p>
+      ) : (
+        <div className="divide-y">
+          {rules.map((rule) => (
+            <div
+              key={rule.id}
+              className={`flex items-center justify-between py-2 ${
+                !rule.is_active ? "opacity-60" : ""
+              }`}
+            >
+              <div>
+                <p className="font-medium">{ruleScope(rule)}</p>
+                <p className="text-sm text-gray-600">{describeRate(rule)}</p>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleToggle(rule)}
+                  className="p-2 rounded hover:bg-gray-100"
+                  title={rule.is_active ? "Deactivate" : "Activate"}
+                >
+                  {rule.is_active ? "🟢" : "⚪"}
+                </button>
+                <button
+                  onClick={() => setEditingRule(rule)}
+                  className="p-2 rounded hover:bg-gray-100 text-blue-600"
+                  title="Edit rule"
+                >
+                  <LuPencil size={18} />
+                </button>
+                <button
+                  onClick={() => handleDelete(rule)}
+                  className="p-2 rounded hover:bg-gray-100 text-red-600"
+                  title="Delete rule"
+                >
+                  <LuTrash2 size={18} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {editingRule !== undefined && (
+        <CommissionRuleModal
+          rule={editingRule}
+          services={services}
+          onClose={() => setEditingRule(undefined)}
+          onSave={onChange}
+        />
+      )}
+    </Card>
+  );
+}
+
+interface CommissionRuleModalProps {
+  rule: CommissionRule | null;
+  services: AdminCatalogService[];
+  onClose: () => void;
+  onSave: () => void;
+}
+
+function CommissionRuleModal({
+  rule,
+  services,
+  onClose,
+  onSave,
+}: CommissionRuleModalProps) {
+  const [serviceId, setServiceId] = useState(
+    rule?.service_id != null ? String(rule.service_id) : ""
+  );
+  const [vehicleType, setVehicleType] = useState(rule?.vehicle_type ?? "");
+  const [rateType, setRateType] = useState<CommissionRateType>(
+    rule?.rate_type || "percentage"
+  );
+  const [rate, setRate] = useState(
+    rule ? String(Number(rule.rate)) : ""
+  );
+  const [saving, setSaving] = useState(false);
+
+  // Vehicle types priced for the selected service (or any service)
+  const vehicleTypes = Array.from(
+    new Set(
+      services
+        .filter((s) => !serviceId || String(s.id) === serviceId)
+        .flatMap((s) => s.prices.map((p) => p.vehicle_type))
+    )
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const rateNum = parseFloat(rate);
+    if (
+      isNaN(rateNum) ||
+      rateNum < 0 ||
+      (rateType === "percentage" && rateNum > 100)
+    ) {
+      toast.error("Invalid commission rate");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const payload: CommissionRulePayload = {
+        service_id: serviceId ? Number(serviceId) : null,
+        vehicle_type: vehicleType || null,
+        rate_type: rateType,
+        rate: rateNum,
+      };
+      if (rule) await api.commissionRules.update(rule.id, payload);
+      else await api.commissionRules.create({ ...payload, is_active: true });
+
+      toast.success(`Rule ${rule ? "updated" : "created"} successfully`);
+      onSave();
+      onClose();
+    } catch (err) {
+      console.error(err);
+      toast.error(err instanceof Error ? err.message : "Could not save rule");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 backdrop-blur-sm bg-black/30 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg shadow-lg w-full max-w-md">
+        <h3 className="text-xl font-bold mb-4">
+          {rule ? "Edit Commission Rule" : "Add Commission Rule"}
+        </h3>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Service
+            </label>
+            <select
+              className="w-full border border-gray-300 rounded-lg p-2 bg-white"
+              value={serviceId}
+              onChange={(e) => setServiceId(e.target.value)}
+            >
+              <option value="">All services</option>
+              {services.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Vehicle Type
+            </label>
+            <select
+              className="w-full border border-gray-300 rounded-lg p-2 bg-white"
+              value={vehicleType}
+              onChange={(e) => setVehicleType(e.target.value)}
+            >
+              <option value="">All vehicles</option>
+              {vehicleTypes.map((v) => (
+                <option key={v} value={v}>
+                  {v}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Type *
+              </label>
+              <select
+                className="w-full border border-gray-300 rounded-lg p-2 bg-white"
+                value={rateType}
+                onChange={(e) =>
+                  setRateType(e.target.value as CommissionRateType)
+                }
+              >
+                <option value="percentage">Percent of sale (%)</option>
+                <option value="fixed">Fixed per unit (₱)</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Rate *
+              </label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                className="w-full border border-gray-300 rounded-lg p-2"
+                value={rate}
+                onChange={(e) => setRate(e.target.value)}
+                required
+                placeholder={rateType === "percentage" ? "30" : "0.00"}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg border border-gray-200 hover:bg-gray-50"
+              disabled={saving}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 rounded-lg bg-amber-800 text-white hover:bg-amber-700 flex items-center"
+              disabled={saving}
+            >
+              {saving ? (
+                <Spinner size="sm" thickness={2} />
+              ) : rule ? (
+                "Save"
+              ) : (
+                "Create"
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+// --------------------
+// Main Payroll Page Component
+// --------------------
+function WasherPayroll() {
+  const [rules, setRules] = useState<CommissionRule[]>([]);
+  const [services, setServices] = useState<AdminCatalogService[]>([]);
+  const [shifts, setShifts] = useState<ShiftWithUser[]>([]);
+  const [preset, setPreset] = useState<PeriodPreset>(() =>
+    new Date().getDate() <= 15 ? "first-half" : "second-half"
+  );
+  const [customStart, setCustomStart] = useState("");
+  const [customEnd, setCustomEnd] = useState("");
+  const [shiftId, setShiftId] = useState("");
+  // Tickets of the last loaded period; loading until it matches the period
+  const [loaded, setLoaded] = useState<{
+    key: string;
+    tickets: CarwashTicket[];
+  } | null>(null);
+  const [expandedWasher, setExpandedWasher] = useState<number | null>(null);
+
+  const period = payPeriod(
+    preset,
+    customStart,
+    customEnd,
+    shifts.find((s) => String(s.id) === shiftId)
+  );
+  const periodKey = period
+    ? `${period.from.toISOString()}|${period.to.toISOString()}`
+    : null;
+
+  const fetchRules = () =>
+    api.commissionRules
+      .list()
+      .then(setRules)
+      .catch((err) => {
+        console.error("Failed to load commission rules:", err);
+        toast.error("Could not load commission rules");
+      });
+
+  useEffect(() => {
+    fetchRules();
+    Promise.allSettled([
+      api.carwashCatalog.admin.services(),
+      api.shifts.history(),
+    ]).then(([serviceList, shiftList]) => {
+      if (serviceList.status === "fulfilled") setServices(serviceList.value);
+      if (shiftList.status === "fulfilled") setShifts(shiftList.value);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!periodKey) return;
+    const [from, to] = periodKey.split("|");
+    fetchCompletedTickets(new Date(from), new Date(to))
+      .then((tickets) => setLoaded({ key: periodKey, tickets }))
+      .catch((err) => {
+        console.error("Failed to load completed tickets:", err);
+        toast.error("Could not load completed services");
+        setLoaded({ key: periodKey, tickets: [] });
+      });
+  }, [periodKey]);
+
+  const loading = periodKey !== null && loaded?.key !== periodKey;
+  const ledger: EarningEntry[] =
+    loaded && loaded.key === periodKey
+      ? buildEarningsLedger(loaded.tickets, rules)
+      : [];
+  const payroll = summarizePayroll(ledger);
+  const totalCommission = payroll.reduce((sum, p) => sum + p.commission, 0);
+  const unmatched = ledger.filter((e) => e.ruleId === null).length;
+  const unassigned = (loaded?.tickets ?? []).filter(
+    (t) => !t.washers?.length
+  ).length;
+
+  const exportSummary = () => {
+    if (!period || payroll.length === 0) {
+      toast.info("No payroll to export");
+      return;
+    }
+    downloadCSV(
+      `washer-payroll-${period.label}.csv`,
+      ["Washer", "Tickets", "Services", "Service Amount", "Commission"],
+      payroll.map((p) => [
+        p.washerName,
+        String(p.tickets),
+        String(p.services),
+        p.serviceAmount.toFixed(2),
+        p.commission.toFixed(2),
+      ])
+    );
+    toast.success("Payroll exported successfully!");
+  };
+
+  const exportLedger = () => {
+    if (!period || ledger.length === 0) {
+      toast.info("No earnings to export");
+      return;
+    }
+    downloadCSV(
+      `washer-ledger-${period.label}.csv`,
+      [
+        "Completed",
+        "Order ID",
+        "Washer",
+        "Service",
+        "Vehicle",
+        "Plate",
+        "Line Amount",
+        "Share",
+        "Commission",
+      ],
+      ledger.map((e) => [
+        new Date(e.completedAt).toLocaleString(),
+        e.orderId,
+        e.washerName,
+        e.serviceName,
+        e.vehicle,
+        e.plateNumber ?? "",
+        e.lineAmount.toFixed(2),
+        e.share.toFixed(2),
+        e.commission.toFixed(2),
+      ])
+    );
+    toast.success("Ledger exported successfully!");
+  };
+
+  return (
+    <div className="p-4 sm:p-6 md:p-8 min-h-screen bg-linear-to-br from-gray-50 to-gray-100">
+      <div className="max-w-7xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <h1 className="text-2xl md:text-3xl font-bold flex items-center">
+            <LuWallet size={28} className="mr-2 md:mr-3 text-blue-600" />
+            Washer Payroll
+          </h1>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={exportSummary}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg flex items-center hover:bg-blue-700 transition-colors shadow-sm"
+            >
+              <LuDownload size={18} className="mr-2" />
+              Export Payroll
+            </button>
+            <button
+              onClick={exportLedger}
+              className="bg-gray-600 text-white px-4 py-2 rounded-lg flex items-center hover:bg-gray-700 transition-colors shadow-sm"
+            >
+              <LuDownload size={18} className="mr-2" />
+              Export Ledger
+            </button>
+          </div>
+        </div>
+
+        {/* Pay Period */}
+        <div className="bg-white p-4 rounded-xl border border-gray-200 shadow-sm flex flex-col md:flex-row md:items-end gap-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Pay Period
+            </label>
+            <select
+              className="border border-gray-300 rounded-lg p-2 bg-white"
+              value={preset}
+              onChange={(e) => setPreset(e.target.value as PeriodPreset)}
+            >
+              <option value="first-half">1st – 15th (this month)</option>
+              <option value="second-half">16th – end (this month)</option>
+              <option value="week">This week</option>
+              <option value="custom">Custom dates</option>
+              <option value="shift">Single shift</option>
+            </select>
+          </div>
+          {preset === "custom" && (
+            <div className="flex gap-2">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  From
+                </label>
+                <input
+                  type="date"
+                  className="border border-gray-300 rounded-lg p-2"
+                  value={customStart}
+                  onChange={(e) => setCustomStart(e.target.value)}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  To
+                </label>
+                <input
+                  type="date"
+                  className="border border-gray-300 rounded-lg p-2"
+                  value={customEnd}
+                  onChange={(e) => setCustomEnd(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+          {preset === "shift" && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Shift
+              </label>
+              <select
+                className="border border-gray-300 rounded-lg p-2 bg-white"
+                value={shiftId}
+                onChange={(e) => setShiftId(e.target.value)}
+              >
+                <option value="">Select a shift...</option>
+                {shifts.map((s) => (
+                  <option key={s.id} value={s.id}>
+                    {s.full_name} · {new Date(s.start_time).toLocaleString()}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          {period && (
+            <p className="text-sm text-gray-500 md:ml-auto">
+              {period.from.toLocaleString()} – {period.to.toLocaleString()}
+            </p>
+          )}
+        </div>
+
+        {/* Summary Cards */}
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4">
+          <div className="bg-white p-4 sm:p-6 rounded-xl border border-gray-200 shadow-sm">
+            <p className="text-xs sm:text-sm text-gray-500">Washers Paid</p>
+            <p className="text-2xl sm:text-3xl font-bold mt-1">
+              {payroll.length}
+            </p>
+          </div>
+          <div className="bg-white p-4 sm:p-6 rounded-xl border border-gray-200 shadow-sm">
+            <p className="text-xs sm:text-sm text-gray-500">
+              Completed Tickets
+            </p>
+            <p className="text-2xl sm:text-3xl font-bold mt-1">
+              {loaded?.key === periodKey ? loaded.tickets.length : 0}
+            </p>
+          </div>
+          <div className="bg-white p-4 sm:p-6 rounded-xl border border-green-200 shadow-sm">
+            <p className="text-xs sm:text-sm text-gray-500">Total Commission</p>
+            <p className="text-2xl sm:text-3xl font-bold mt-1 text-green-600">
+              {formatPeso(totalCommission)}
+            </p>
+          </div>
+          <div className="bg-white p-4 sm:p-6 rounded-xl border border-amber-200 shadow-sm">
+            <p className="text-xs sm:text-sm text-gray-500">Needs Review</p>
+            <p className="text-2xl sm:text-3xl font-bold mt-1 text-amber-600">
+              {unmatched + unassigned}
+            </p>
+            <p className="text-xs text-gray-400 mt-1">
+              {unmatched} without rule · {unassigned} without washer
+            </p>
+          </div>
+        </div>
+
+        {/* Payroll Summary */}
+        <Card title="Payroll Summary" subtitle="Click a washer for the ledger">
+          {!period ? (
+            <p className="text-center py-8 text-gray-500">
+              Select a complete pay period.
+            </p>
+          ) : loading ? (
+            <div className="flex justify-center py-8">
+              <Spinner size="md" />
+            </div>
+          ) : payroll.length === 0 ? (
+            <p className="text-center py-8 text-gray-500">
+              No completed services with assigned washers in this period.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-100">
+                  <tr>
+                    <th className="px-4 py-2 text-left">Washer</th>
+                    <th className="px-4 py-2 text-right">Tickets</th>
+                    <th className="px-4 py-2 text-right">Services</th>
+                    <th className="px-4 py-2 text-right">Service Amount</th>
+                    <th className="px-4 py-2 text-right">Commission</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {payroll.map((p) => [
+                    <tr
+                      key={p.washerId}
+                      onClick={() =>
+                        setExpandedWasher(
+                          expandedWasher === p.washerId ? null : p.washerId
+                        )
+                      }
+                      className="border-b hover:bg-gray-50 cursor-pointer"
+                    >
+                      <td className="px-4 py-2 font-medium">
+                        {expandedWasher === p.washerId ? (
+                          <LuChevronDown size={14} className="inline mr-1" />
+                        ) : (
+                          <LuChevronRight size={14} className="inline mr-1" />
+                        )}
+                        {p.washerName}
+                      </td>
+                      <td className="px-4 py-2 text-right">{p.tickets}</td>
+                      <td className="px-4 py-2 text-right">{p.services}</td>
+                      <td className="px-4 py-2 text-right">
+                        {formatPeso(p.serviceAmount)}
+                      </td>
+                      <td className="px-4 py-2 text-right font-semibold text-green-700">
+                        {formatPeso(p.commission)}
+                      </td>
+                    </tr>,
+                    ...(expandedWasher === p.washerId
+                      ? ledger
+                          .filter((e) => e.washerId === p.washerId)
+                          .map((e, idx) => (
+                            <tr
+                              key={`${p.washerId}-${idx}`}
+                              className="bg-gray-50 text-xs text-gray-600"
+                            >
+                              <td className="px-4 py-1 pl-9">
+                                {new Date(e.completedAt).toLocaleString()} ·{" "}
+                                {e.orderId}
+                                {e.plateNumber && ` · ${e.plateNumber}`}
+                              </td>
+                              <td className="px-4 py-1" colSpan={2}>
+                                {e.serviceName} ({e.vehicle})
+                                {e.ruleId === null && (
+                                  <span className="ml-1 text-amber-700">
+                                    <LuTriangleAlert
+                                      size={12}
+                                      className="inline mr-0.5"
+                                    />
+                                    no rule
+                                  </span>
+                                )}
+                              </td>
+                              <td className="px-4 py-1 text-right">
+                                {formatPeso(e.share)}
+                              </td>
+                              <td className="px-4 py-1 text-right">
+                                {formatPeso(e.commission)}
+                              </td>
+                            </tr>
+                          ))
+                      : []),
+                  ])}
+                </tbody>
+                <tfoot>
+                  <tr className="font-bold">
+                    <td className="px-4 py-2" colSpan={4}>
+                      Total
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      {formatPeso(totalCommission)}
+                    </td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          )}
+        </Card>
+
+        <CommissionRules
+          rules={rules}
+          services={services}
+          onChange={fetchRules}
+        />
+      </div>
+    </div>
+  );
+}
+
+export default function PayrollPage() {
+  return (
+    <ProtectedRoute>
+      <ManagerOnlyRoute>
+        <WasherPayroll />
+      </ManagerOnlyRoute>
+    </ProtectedRoute>
+  );
+}
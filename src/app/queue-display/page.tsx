@@ -0,0 +1,247 @@
+"use client";
+
+/*
+  Carwash Queue Display
+  ---------------------
+  Public, read-only screen for a TV or kiosk in the customer waiting area.
+    - Shows vehicles being washed and vehicles waiting, by masked plate number
+    - Estimates waiting times from recent service durations
+    - Updates live over server-sent events, falling back to polling
+  No login and no sidebar; customer names and phone numbers are never shown.
+*/
+
+import { useEffect, useState } from "react";
+import Image from "next/image";
+import { LuCar, LuClock, LuDroplets } from "react-icons/lu";
+import { api } from "@/lib/api"; // Typed backend client
+import type { PublicQueueSnapshot } from "@/lib/apiTypes"; // Shared response types
+import {
+  estimateWaits,
+  serviceDurations,
+} from "@/lib/queueEstimate"; // Wait estimates
+
+const POLL_INTERVAL_MS = 15000;
+const STREAM_RETRY_MS = 60000;
+// Re-render so the clock and estimates count down between updates
+const TICK_MS = 30000;
+
+function formatWait(minutes: number): string {
+  if (minutes <= 0) return "Any moment";
+  if (minutes < 60) return `~${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  return `~${hours} hr ${minutes % 60} min`;
+}
+
+export default function QueueDisplayPage() {
+  const [snapshot, setSnapshot] = useState<PublicQueueSnapshot | null>(null);
+  const [updatedAt, setUpdatedAt] = useState<Date | null>(null);
+  const [now, setNow] = useState(() => new Date());
+
+  // Keep the screen current: events trigger a refetch, polling covers gaps
+  useEffect(() => {
+    let stream: EventSource | null = null;
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let cancelled = false;
+
+    const fetchSnapshot = () =>
+      api.publicQueue
+        .snapshot()
+        .then((data) => {
+          if (cancelled) return;
+          setSnapshot(data);
+          setUpdatedAt(new Date());
+        })
+        .catch((err) => console.error("Queue display fetch failed:", err));
+
+    const startPolling = () => {
+      if (!pollTimer) pollTimer = setInterval(fetchSnapshot, POLL_INTERVAL_MS);
+    };
+
+    const openStream = () => {
+      if (typeof EventSource === "undefined") {
+        startPolling();
+        return;
+      }
+      const source = new EventSource(api.publicQueue.eventsUrl());
+      stream = source;
+      source.onopen = () => {
+        if (pollTimer) clearInterval(pollTimer);
+        pollTimer = null;
+        fetchSnapshot();
+      };
+      source.onmessage = () => fetchSnapshot();
+      source.onerror = () => {
+        source.close();
+        stream = null;
+        startPolling();
+        retryTimer = setTimeout(openStream, STREAM_RETRY_MS);
+      };
+    };
+
+    fetchSnapshot();
+    openStream();
+    const tick = setInterval(() => setNow(new Date()), TICK_MS);
+
+    return () => {
+      cancelled = true;
+      stream?.close();
+      if (pollTimer) clearInterval(pollTimer);
+      if (retryTimer) clearTimeout(retryTimer);
+      clearInterval(tick);
+    };
+  }, []);
+
+  const tickets = snapshot?.tickets ?? [];
+  const estimates = estimateWaits(
+    tickets,
+    serviceDurations(snapshot?.recent ?? []),
+    snapshot?.active_bays ?? 0,
+    now
+  );
+  const washing = tickets.filter((t) => t.status === "in_progress");
+  const waiting = tickets
+    .filter((t) => t.status === "queue")
+    .sort(
+      (a, b) =>
+        (estimates.get(a.ref)?.position ?? 0) -
+        (estimates.get(b.ref)?.position ?? 0)
+    );
+
+  return (
+    <div className="min-h-screen bg-stone-900 text-white p-6 lg:p-10 flex flex-col">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <Image
+          src="/images/logo.png"
+          alt="OneFaith Logo"
+          width={200}
+          height={100}
+          priority
+          className="object-contain h-16 w-auto"
+        />
+        <div className="text-right">
+          <p
+            className="text-4xl lg:text-5xl font-bold tabular-nums"
+            suppressHydrationWarning
+          >
+            {now.toLocaleTimeString("en-US", {
+              hour: "2-digit",
+              minute: "2-digit",
+              hour12: true,
+            })}
+          </p>
+          <p className="text-stone-400" suppressHydrationWarning>
+            {now.toLocaleDateString("en-US", {
+              weekday: "long",
+              month: "long",
+              day: "numeric",
+            })}
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 flex-1">
+        {/* Now Washing */}
+        <section className="bg-stone-800 rounded-2xl p-6">
+          <h2 className="text-3xl font-bold flex items-center mb-6 text-blue-300">
+            <LuDroplets size={32} className="mr-3" />
+            Now Washing
+          </h2>
+          {washing.length === 0 ? (
+            <p className="text-2xl text-stone-500">No vehicles being washed</p>
+          ) : (
+            <div className="space-y-4">
+              {washing.map((t) => (
+                <div
+                  key={t.ref}
+                  className="flex items-center justify-between bg-stone-700 rounded-xl px-6 py-4"
+                >
+                  <div>
+                    <p className="text-4xl font-mono font-bold tracking-widest">
+                      {t.plate_masked || "—"}
+                    </p>
+                    <p className="text-lg text-stone-300">
+                      {[t.vehicle_type, t.bay_name].filter(Boolean).join(" · ")}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-sm uppercase text-stone-400">
+                      Ready in
+                    </p>
+                    <p className="text-2xl font-semibold text-green-300">
+                      {formatWait(estimates.get(t.ref)?.minutes ?? 0)}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+
+        {/* Waiting */}
+        <section className="bg-stone-800 rounded-2xl p-6">
+          <h2 className="text-3xl font-bold flex items-center mb-6 text-amber-300">
+            <LuClock size={32} className="mr-3" />
+            In Line
+          </h2>
+          {waiting.length === 0 ? (
+            <p className="text-2xl text-stone-500">No vehicles waiting</p>
+          ) : (
+            <div className="space-y-4">
+              {waiting.map((t) => {
+                const estimate = estimates.get(t.ref);
+                return (
+                  <div
+                    key={t.ref}
+                    className="flex items-center bg-stone-700 rounded-xl px-6 py-4"
+                  >
+                    <span className="text-4xl font-bold text-amber-300 w-16">
+                      {estimate?.position}
+                    </span>
+                    <div className="flex-1">
+                      <p className="text-4xl font-mono font-bold tracking-widest">
+                        {t.plate_masked || "—"}
+                      </p>
+                      {t.vehicle_type && (
+                        <p className="text-lg text-stone-300">
+                          {t.vehicle_type}
+                        </p>
+                      )}
+                    </div>
+                    <div className="text-right">
+                      <p className="text-sm uppercase text-stone-400">
+                        Starts in
+                      </p>
+                      <p className="text-2xl font-semibold">
+                        {formatWait(estimate?.minutes ?? 0)}
+                      </p>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </section>
+      </div>
+
+      {/* Footer */}
+      <div className="flex items-center justify-between mt-8 text-stone-500">
+        <p className="flex items-center">
+          <LuCar size={18} className="mr-2" />
+          Wait times are estimates and may change.
+        </p>
+        {updatedAt && (
+          <p>
+            Updated{" "}
+            {updatedAt.toLocaleTimeString("en-US", {
+              hour: "2-digit",
+              minute: "2-digit",
+              hour12: true,
+            })}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
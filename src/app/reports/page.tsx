@@ -7,13 +7,49 @@
     - Most popular carwash services
     - Cancellation statistics
     - Revenue by vehicle type
+    - Washer throughput (completed tickets, service time, revenue)
     - Coffee product sales
     - Revenue trends over time
+    - End-of-day Z-report and X-report for the current shift
+    - Outstanding loyalty points (liability) aged by last activity
+    - Service time (SLA) compliance by vehicle type and washer
   Data is visualized using charts and tables. Only accessible to managers.
 */
 
 import { useEffect, useState } from "react";
-import { getAuthHeaders } from "@/lib/auth"; // Helper for API auth headers
+import { format, subDays } from "date-fns";
+import { toast } from "react-toastify";
+import { api } from "@/lib/api"; // Typed backend client
+import type {
+  CarwashTicket,
+  PopularService,
+  CancellationStats,
+  ServiceByVehicle,
+  RevenuePoint,
+  CoffeeTopProduct,
+  LoyaltyAccount,
+  ShiftRefund,
+  Transaction,
+  WasherThroughput,
+} from "@/lib/apiTypes"; // Shared report response types
+import {
+  SalesReport,
+  fetchDayRefunds,
+  fetchDayTransactions,
+  summarizeSales,
+} from "@/lib/salesReport"; // X/Z report totals
+import {
+  fetchShiftRefunds,
+  fetchShiftTransactions,
+} from "@/lib/cashDrawer"; // All transactions and refunds of my shift
+import {
+  liabilitySummary,
+  normalizeLoyaltySettings,
+} from "@/lib/loyalty"; // Loyalty liability aging
+import { fetchCompletedTickets } from "@/lib/commissions"; // Completed tickets in a date range
+import { SlaRow, slaCompliance } from "@/lib/sla"; // Service time compliance
+import { generateXReport, generateZReport } from "@/utils/escpos"; // ESC/POS report generators
+import { useAuth } from "@/contexts/AuthContext"; // Current user for the X-report
 // Import charting components for analytics
 import {
   LineChart,
@@ -29,52 +65,561 @@ import {
 } from "recharts";
 import Card from "@/components/ui/Card"; // UI card wrapper
 import ManagerOnlyRoute from "@/components/ManagerOnlyRoute"; // Restricts access to managers
+import ReportPreview from "@/components/ReportPreview"; // ESC/POS preview with print
+
+const REPORT_TIME_FORMAT: Intl.DateTimeFormatOptions = {
+  month: "short",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  hour12: true,
+};
+
+function formatPeso(amount: number): string {
+  return `${amount < 0 ? "-" : ""}₱${Math.abs(amount).toLocaleString("en-PH", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+}
 
-// API base URL
-const API_BASE = process.env.NEXT_PUBLIC_API_BASE || "http://localhost:5000";
+function downloadCSV(filename: string, headers: string[], rows: string[][]) {
+  const csvContent = [
+    headers.join(","),
+    ...rows.map((row) => row.map((cell) => `"${cell}"`).join(",")),
+  ].join("\n");
+  const blob = new Blob([csvContent], { type: "text/csv" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
 
 // --------------------
-// Type Definitions
+// End of Day (X/Z Reports)
 // --------------------
+function EndOfDayReport() {
+  const { user } = useAuth();
+  const [date, setDate] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  // Transactions sold and refunds made on the last loaded day; loading until
+  // it matches `date`
+  const [loaded, setLoaded] = useState<{
+    date: string;
+    transactions: Transaction[];
+    refunds: ShiftRefund[];
+  } | null>(null);
+  const [previewBytes, setPreviewBytes] = useState<Uint8Array | null>(null);
 
-// Most popular carwash service
-interface PopularService {
-  service_name: string;
-  category: string;
-  times_ordered: number;
-  total_quantity: number;
-  total_revenue: string;
-  avg_price: string;
-}
+  useEffect(() => {
+    Promise.all([fetchDayTransactions(date), fetchDayRefunds(date)])
+      .then(([transactions, refunds]) =>
+        setLoaded({ date, transactions, refunds })
+      )
+      .catch((err) => {
+        console.error("Failed to load day transactions:", err);
+        toast.error("Could not load sales for this day");
+        setLoaded({ date, transactions: [], refunds: [] });
+      });
+  }, [date]);
+
+  const loading = loaded?.date !== date;
+  const report: SalesReport | null = loaded
+    ? summarizeSales(loaded.transactions, loaded.refunds)
+    : null;
+
+  const handleZReport = () => {
+    if (!report) return;
+    setPreviewBytes(
+      generateZReport({
+        scope: "Business Day",
+        periodStart: format(new Date(`${date}T00:00:00`), "MMM dd, yyyy"),
+        periodEnd: format(new Date(`${date}T23:59:59`), "MMM dd, yyyy"),
+        sales: report,
+        timestamp: new Date().toLocaleString("en-US", REPORT_TIME_FORMAT),
+      })
+    );
+  };
+
+  const handleXReport = async () => {
+    try {
+      const shift = await api.shifts.current();
+      if (!shift || shift.status !== "active") {
+        toast.info("You have no active shift.");
+        return;
+      }
+      const [transactions, refunds] = await Promise.all([
+        fetchShiftTransactions(),
+        fetchShiftRefunds(shift),
+      ]);
+      setPreviewBytes(
+        generateXReport({
+          shiftId: shift.id,
+          cashierName: user?.fullName ?? "",
+          periodStart: new Date(shift.start_time).toLocaleString(
+            "en-US",
+            REPORT_TIME_FORMAT
+          ),
+          sales: summarizeSales(transactions, refunds),
+          timestamp: new Date().toLocaleString("en-US", REPORT_TIME_FORMAT),
+        })
+      );
+    } catch (err) {
+      console.error("X-report error:", err);
+      toast.error("Could not build the X-report");
+    }
+  };
 
-// Cancellation statistics for services
-interface CancellationStats {
-  service_name: string;
-  times_cancelled: number;
-  revenue_lost: string;
-  common_reasons: string;
+  return (
+    <div className="space-y-6">
+      <Card
+        title="End of Day"
+        subtitle="Totals for all staff on the selected business day"
+        headerRight={
+          <div className="flex items-center gap-2">
+            <input
+              type="date"
+              value={date}
+              onChange={(e) => e.target.value && setDate(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <button
+              onClick={handleXReport}
+              className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg text-sm font-semibold hover:bg-gray-50"
+            >
+              X-Report (My Shift)
+            </button>
+            <button
+              onClick={handleZReport}
+              disabled={loading || !report}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-semibold hover:bg-blue-700 disabled:opacity-50"
+            >
+              Z-Report
+            </button>
+          </div>
+        }
+      >
+        {loading || !report ? (
+          <div className="text-center py-8 text-gray-500">Loading sales...</div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 text-sm">
+            <table className="w-full">
+              <tbody>
+                <tr className="border-b">
+                  <td className="py-2">Transactions</td>
+                  <td className="py-2 text-right">{report.transactionCount}</td>
+                </tr>
+                <tr className="border-b">
+                  <td className="py-2">First / Last OR</td>
+                  <td className="py-2 text-right">
+                    {report.firstReceipt ?? "-"} / {report.lastReceipt ?? "-"}
+                  </td>
+                </tr>
+                <tr className="border-b">
+                  <td className="py-2">Gross Sales</td>
+                  <td className="py-2 text-right">
+                    {formatPeso(report.grossSales)}
+                  </td>
+                </tr>
+                {report.lessVat > 0 && (
+                  <tr className="border-b">
+                    <td className="py-2">Less VAT (exempt)</td>
+                    <td className="py-2 text-right">
+                      {formatPeso(-report.lessVat)}
+                    </td>
+                  </tr>
+                )}
+                {report.discounts.map((d) => (
+                  <tr key={d.name} className="border-b">
+                    <td className="py-2">
+                      {d.name} ({d.count})
+                    </td>
+                    <td className="py-2 text-right">{formatPeso(-d.amount)}</td>
+                  </tr>
+                ))}
+                <tr className="border-b text-red-600">
+                  <td className="py-2">
+                    Voids / Refunds ({report.voids.count})
+                  </td>
+                  <td className="py-2 text-right">
+                    {formatPeso(-report.voids.amount)}
+                  </td>
+                </tr>
+                <tr className="font-bold">
+                  <td className="py-2">Net Sales</td>
+                  <td className="py-2 text-right">
+                    {formatPeso(report.netSales)}
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+            <table className="w-full">
+              <thead className="bg-gray-100">
+                <tr>
+                  <th className="px-4 py-2 text-left">Payment</th>
+                  <th className="px-4 py-2 text-right">Orders</th>
+                  <th className="px-4 py-2 text-right">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.payments.map((p) => (
+                  <tr key={p.name} className="border-b">
+                    <td className="px-4 py-2">{p.name}</td>
+                    <td className="px-4 py-2 text-right">{p.count}</td>
+                    <td className="px-4 py-2 text-right">
+                      {formatPeso(p.amount)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <table className="w-full">
+              <thead className="bg-gray-100">
+                <tr>
+                  <th className="px-4 py-2 text-left">Business Unit</th>
+                  <th className="px-4 py-2 text-right">Orders</th>
+                  <th className="px-4 py-2 text-right">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.businessUnits.map((u) => (
+                  <tr key={u.name} className="border-b">
+                    <td className="px-4 py-2">{u.name}</td>
+                    <td className="px-4 py-2 text-right">{u.count}</td>
+                    <td className="px-4 py-2 text-right">
+                      {formatPeso(u.amount)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+
+      {previewBytes && (
+        <ReportPreview
+          bytes={previewBytes}
+          onClose={() => setPreviewBytes(null)}
+        />
+      )}
+    </div>
+  );
 }
 
-// Revenue by vehicle type and service
-interface ServiceByVehicle {
-  vehicle_type: string;
-  service_name: string;
-  times_ordered: number;
-  revenue: string;
+// --------------------
+// Loyalty Liability
+// --------------------
+function LoyaltyLiabilityReport() {
+  // Member balances and point value; null while loading
+  const [data, setData] = useState<{
+    accounts: LoyaltyAccount[];
+    pointValue: number;
+  } | null>(null);
+
+  useEffect(() => {
+    Promise.all([api.loyalty.accounts(), api.loyalty.settings()])
+      .then(([accounts, settings]) =>
+        setData({
+          accounts,
+          pointValue: Number(normalizeLoyaltySettings(settings).point_value),
+        })
+      )
+      .catch((err) => {
+        console.error("Failed to load loyalty accounts:", err);
+        toast.error("Could not load loyalty balances");
+        setData({ accounts: [], pointValue: 0 });
+      });
+  }, []);
+
+  const summary = data
+    ? liabilitySummary(data.accounts, data.pointValue)
+    : null;
+
+  const handleExport = () => {
+    if (!data) return;
+    downloadCSV(
+      `loyalty-liability-${format(new Date(), "yyyy-MM-dd")}.csv`,
+      [
+        "Phone",
+        "Name",
+        "Balance",
+        "Value",
+        "Earned",
+        "Redeemed",
+        "Last Activity",
+      ],
+      data.accounts
+        .filter((a) => Number(a.balance) > 0)
+        .map((a) => [
+          a.phone,
+          a.name ?? "",
+          String(a.balance),
+          (Number(a.balance) * data.pointValue).toFixed(2),
+          String(a.lifetime_earned),
+          String(a.lifetime_redeemed),
+          a.last_activity_at
+            ? format(new Date(a.last_activity_at), "yyyy-MM-dd")
+            : "",
+        ])
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card
+        title="Outstanding Points"
+        subtitle="Unredeemed loyalty points valued at the configured point value"
+        headerRight={
+          <button
+            onClick={handleExport}
+            disabled={!summary || summary.members === 0}
+            className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg text-sm font-semibold hover:bg-gray-50 disabled:opacity-50"
+          >
+            Export CSV
+          </button>
+        }
+      >
+        {!summary ? (
+          <div className="text-center py-8 text-gray-500">
+            Loading balances...
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 text-sm">
+            <table className="w-full">
+              <tbody>
+                <tr className="border-b">
+                  <td className="py-2">Members with points</td>
+                  <td className="py-2 text-right">{summary.members}</td>
+                </tr>
+                <tr className="border-b">
+                  <td className="py-2">Outstanding points</td>
+                  <td className="py-2 text-right">
+                    {summary.points.toLocaleString()}
+                  </td>
+                </tr>
+                <tr className="font-bold">
+                  <td className="py-2">Liability</td>
+                  <td className="py-2 text-right">
+                    {formatPeso(summary.amount)}
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+            <div className="lg:col-span-2 overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-100">
+                  <tr>
+                    <th className="px-4 py-2 text-left">Last Activity</th>
+                    <th className="px-4 py-2 text-right">Members</th>
+                    <th className="px-4 py-2 text-right">Points</th>
+                    <th className="px-4 py-2 text-right">Liability</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {summary.buckets.map((b) => (
+                    <tr key={b.label} className="border-b">
+                      <td className="px-4 py-2">{b.label}</td>
+                      <td className="px-4 py-2 text-right">{b.members}</td>
+                      <td className="px-4 py-2 text-right">
+                        {b.points.toLocaleString()}
+                      </td>
+                      <td className="px-4 py-2 text-right">
+                        {formatPeso(b.amount)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
 }
 
-// Revenue trend point
-interface RevenuePoint {
-  date: string;
-  revenue: number;
+// --------------------
+// Service Time (SLA) Compliance
+// --------------------
+function SlaRowsTable({ label, rows }: { label: string; rows: SlaRow[] }) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full">
+        <thead className="bg-gray-100">
+          <tr>
+            <th className="px-4 py-2 text-left">{label}</th>
+            <th className="px-4 py-2 text-right">Tickets</th>
+            <th className="px-4 py-2 text-right">On Time</th>
+            <th className="px-4 py-2 text-right">Avg Overrun</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.label} className="border-b">
+              <td className="px-4 py-2">{row.label}</td>
+              <td className="px-4 py-2 text-right">{row.tickets}</td>
+              <td className="px-4 py-2 text-right">
+                {((row.onTime / row.tickets) * 100).toFixed(0)}%
+              </td>
+              <td className="px-4 py-2 text-right">
+                {row.avgOverrun ? `${row.avgOverrun.toFixed(0)} min` : "-"}
+              </td>
+            </tr>
+          ))}
+          {rows.length === 0 && (
+            <tr>
+              <td colSpan={4} className="px-4 py-4 text-center text-gray-500">
+                No timed tickets in this period
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
 }
 
-// Top-selling coffee product
-interface CoffeeTopProduct {
-  product_name: string;
-  category: string;
-  total_quantity: number;
-  total_revenue: number;
+function SlaComplianceReport() {
+  const [from, setFrom] = useState(() =>
+    format(subDays(new Date(), 29), "yyyy-MM-dd")
+  );
+  const [to, setTo] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  // Tickets of the last loaded range; loading until it matches from/to
+  const [loaded, setLoaded] = useState<{
+    key: string;
+    tickets: CarwashTicket[];
+  } | null>(null);
+  const rangeKey = `${from}|${to}`;
+
+  useEffect(() => {
+    const key = `${from}|${to}`;
+    fetchCompletedTickets(
+      new Date(`${from}T00:00:00`),
+      new Date(`${to}T23:59:59.999`)
+    )
+      .then((tickets) => setLoaded({ key, tickets }))
+      .catch((err) => {
+        console.error("Failed to load completed tickets:", err);
+        toast.error("Could not load completed tickets");
+        setLoaded({ key, tickets: [] });
+      });
+  }, [from, to]);
+
+  const loading = loaded?.key !== rangeKey;
+  const summary = loaded ? slaCompliance(loaded.tickets) : null;
+
+  const handleExport = () => {
+    if (!summary) return;
+    const toRow = (group: string) => (row: SlaRow) => [
+      group,
+      row.label,
+      String(row.tickets),
+      String(row.onTime),
+      ((row.onTime / row.tickets) * 100).toFixed(1),
+      row.avgOverrun.toFixed(1),
+    ];
+    downloadCSV(
+      `sla-compliance-${from}-to-${to}.csv`,
+      [
+        "Group",
+        "Name",
+        "Tickets",
+        "On Time",
+        "Compliance %",
+        "Avg Overrun (min)",
+      ],
+      [
+        ...summary.byVehicle.map(toRow("Vehicle Type")),
+        ...summary.byWasher.map(toRow("Washer")),
+      ]
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card
+        title="Service Time Compliance"
+        subtitle="Completed tickets finished within their expected duration"
+        headerRight={
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="date"
+              value={from}
+              max={to}
+              onChange={(e) => e.target.value && setFrom(e.target.value)}
+              className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+            />
+            <span className="text-gray-500 text-sm">to</span>
+            <input
+              type="date"
+              value={to}
+              min={from}
+              onChange={(e) => e.target.value && setTo(e.target.value)}
+              className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+            />
+            <button
+              onClick={handleExport}
+              disabled={loading || !summary || summary.tracked === 0}
+              className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg text-sm font-semibold hover:bg-gray-50 disabled:opacity-50"
+            >
+              Export CSV
+            </button>
+          </div>
+        }
+      >
+        {loading || !summary ? (
+          <div className="text-center py-8 text-gray-500">
+            Loading tickets...
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            <div className="rounded-lg bg-gray-50 p-4">
+              <p className="text-xs text-gray-500">Compliance</p>
+              <p
+                className={`text-2xl font-bold ${
+                  summary.compliance >= 90
+                    ? "text-green-700"
+                    : summary.compliance >= 75
+                      ? "text-amber-600"
+                      : "text-red-600"
+                }`}
+              >
+                {summary.tracked ? `${summary.compliance.toFixed(1)}%` : "-"}
+              </p>
+            </div>
+            <div className="rounded-lg bg-gray-50 p-4">
+              <p className="text-xs text-gray-500">Timed tickets</p>
+              <p className="text-2xl font-bold">{summary.tracked}</p>
+            </div>
+            <div className="rounded-lg bg-gray-50 p-4">
+              <p className="text-xs text-gray-500">Finished late</p>
+              <p className="text-2xl font-bold text-red-600">
+                {summary.late}
+              </p>
+            </div>
+            <div className="rounded-lg bg-gray-50 p-4">
+              <p className="text-xs text-gray-500">Avg overrun (late)</p>
+              <p className="text-2xl font-bold">
+                {summary.avgOverrun.toFixed(0)} min
+              </p>
+            </div>
+          </div>
+        )}
+      </Card>
+
+      {!loading && summary && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card title="By Vehicle Type">
+            <SlaRowsTable label="Vehicle Type" rows={summary.byVehicle} />
+          </Card>
+          <Card title="By Washer">
+            <SlaRowsTable label="Washer" rows={summary.byWasher} />
+          </Card>
+        </div>
+      )}
+    </div>
+  );
 }
 
 // --------------------
@@ -90,6 +635,10 @@ function ReportsPage() {
     ServiceByVehicle[]
   >([]);
   const [carwashRevenue, setCarwashRevenue] = useState<RevenuePoint[]>([]);
+  // State for completed tickets per washer
+  const [washerThroughput, setWasherThroughput] = useState<
+    WasherThroughput[]
+  >([]);
 
   // Coffee analytics state
   const [coffeeTopProducts, setCoffeeTopProducts] = useState<
@@ -97,7 +646,9 @@ function ReportsPage() {
   >([]);
   const [coffeeRevenue, setCoffeeRevenue] = useState<RevenuePoint[]>([]);
 
-  const [activeTab, setActiveTab] = useState<"carwash" | "coffee">("carwash");
+  const [activeTab, setActiveTab] = useState<
+    "carwash" | "coffee" | "daily" | "loyalty" | "sla"
+  >("carwash");
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -107,59 +658,32 @@ function ReportsPage() {
   const fetchReports = async () => {
     setLoading(true);
     try {
-      // Fetch all reports in parallel
+      // Fetch all reports in parallel; a failed report just stays empty
       const [
-        popularRes,
-        cancellationsRes,
-        vehicleRes,
-        carwashRevenueRes,
-        coffeeTopRes,
-        coffeeRevenueRes,
+        popular,
+        cancellationStats,
+        byVehicle,
+        carwashTrend,
+        throughput,
+        coffeeTop,
+        coffeeTrend,
       ] = await Promise.all([
-        fetch(`${API_BASE}/api/reports/carwash/popular-services`, {
-          headers: getAuthHeaders(),
-        }),
-        fetch(`${API_BASE}/api/reports/carwash/cancellations`, {
-          headers: getAuthHeaders(),
-        }),
-        fetch(`${API_BASE}/api/reports/carwash/services-by-vehicle`, {
-          headers: getAuthHeaders(),
-        }),
-        fetch(`${API_BASE}/api/reports/carwash/revenue-trends`, {
-          headers: getAuthHeaders(),
-        }),
-        fetch(`${API_BASE}/api/reports/coffee/top-products`, {
-          headers: getAuthHeaders(),
-        }),
-        fetch(`${API_BASE}/api/reports/coffee/revenue-trends`, {
-          headers: getAuthHeaders(),
-        }),
+        api.reports.carwash.popularServices().catch(() => null),
+        api.reports.carwash.cancellations().catch(() => null),
+        api.reports.carwash.servicesByVehicle().catch(() => null),
+        api.reports.carwash.revenueTrends().catch(() => null),
+        api.reports.carwash.washerThroughput().catch(() => null),
+        api.reports.coffee.topProducts().catch(() => null),
+        api.reports.coffee.revenueTrends().catch(() => null),
       ]);
 
-      if (popularRes.ok) {
-        const data = await popularRes.json();
-        setPopularServices(data);
-      }
-      if (cancellationsRes.ok) {
-        const data = await cancellationsRes.json();
-        setCancellations(data);
-      }
-      if (vehicleRes.ok) {
-        const data = await vehicleRes.json();
-        setServicesByVehicle(data);
-      }
-      if (carwashRevenueRes.ok) {
-        const data: RevenuePoint[] = await carwashRevenueRes.json();
-        setCarwashRevenue(data);
-      }
-      if (coffeeTopRes.ok) {
-        const data: CoffeeTopProduct[] = await coffeeTopRes.json();
-        setCoffeeTopProducts(data);
-      }
-      if (coffeeRevenueRes.ok) {
-        const data: RevenuePoint[] = await coffeeRevenueRes.json();
-        setCoffeeRevenue(data);
-      }
+      if (popular) setPopularServices(popular);
+      if (cancellationStats) setCancellations(cancellationStats);
+      if (byVehicle) setServicesByVehicle(byVehicle);
+      if (carwashTrend) setCarwashRevenue(carwashTrend);
+      if (throughput) setWasherThroughput(throughput);
+      if (coffeeTop) setCoffeeTopProducts(coffeeTop);
+      if (coffeeTrend) setCoffeeRevenue(coffeeTrend);
     } catch (err) {
       console.error("Failed to fetch reports:", err);
     } finally {
@@ -204,6 +728,36 @@ function ReportsPage() {
           >
             Coffee
           </button>
+          <button
+            className={`px-4 py-2 -mb-px border-b-2 ${
+              activeTab === "daily"
+                ? "border-blue-600 text-blue-700"
+                : "border-transparent text-gray-600 hover:text-gray-900"
+            }`}
+            onClick={() => setActiveTab("daily")}
+          >
+            End of Day
+          </button>
+          <button
+            className={`px-4 py-2 -mb-px border-b-2 ${
+              activeTab === "loyalty"
+                ? "border-blue-600 text-blue-700"
+                : "border-transparent text-gray-600 hover:text-gray-900"
+            }`}
+            onClick={() => setActiveTab("loyalty")}
+          >
+            Loyalty
+          </button>
+          <button
+            className={`px-4 py-2 -mb-px border-b-2 ${
+              activeTab === "sla"
+                ? "border-blue-600 text-blue-700"
+                : "border-transparent text-gray-600 hover:text-gray-900"
+            }`}
+            onClick={() => setActiveTab("sla")}
+          >
+            Service Time
+          </button>
         </nav>
       </div>
 
@@ -343,6 +897,65 @@ function ReportsPage() {
             </div>
           </Card>
 
+          {/* Washer Throughput */}
+          <Card title="Washer Throughput">
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="h-72">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart
+                    data={washerThroughput.map((w) => ({
+                      name: w.washer_name,
+                      tickets: Number(w.tickets_completed),
+                    }))}
+                    margin={{ left: 8, right: 8 }}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="name" tick={{ fontSize: 12 }} />
+                    <YAxis allowDecimals={false} />
+                    <Tooltip />
+                    <Bar dataKey="tickets" name="Completed" fill="#2563eb" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-100">
+                    <tr>
+                      <th className="px-4 py-2 text-left">Washer</th>
+                      <th className="px-4 py-2 text-right">Completed</th>
+                      <th className="px-4 py-2 text-right">Avg Time</th>
+                      <th className="px-4 py-2 text-right">Revenue</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {washerThroughput.map((w) => (
+                      <tr
+                        key={w.washer_id}
+                        className="border-b hover:bg-gray-50"
+                      >
+                        <td className="px-4 py-2">{w.washer_name}</td>
+                        <td className="px-4 py-2 text-right">
+                          {w.tickets_completed}
+                        </td>
+                        <td className="px-4 py-2 text-right">
+                          {Number(w.avg_service_minutes).toFixed(0)} min
+                        </td>
+                        <td className="px-4 py-2 text-right">
+                          ₱{Number(w.revenue).toFixed(2)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {washerThroughput.length === 0 && (
+                  <div className="text-center py-4 text-gray-500">
+                    No data available
+                  </div>
+                )}
+              </div>
+            </div>
+          </Card>
+
           {/* Cancellations */}
           <Card title="Cancellation Analysis">
             <div className="overflow-x-auto">
@@ -475,6 +1088,12 @@ function ReportsPage() {
           </Card>
         </div>
       )}
+
+      {activeTab === "daily" && <EndOfDayReport />}
+
+      {activeTab === "loyalty" && <LoyaltyLiabilityReport />}
+
+      {activeTab === "sla" && <SlaComplianceReport />}
     </div>
   );
 }
@@ -3,18 +3,9 @@
 // Fetch dashboard summary for total revenue
 async function fetchDashboardSummaryTotal(): Promise<number> {
   try {
-    const API_BASE =
-      process.env.NEXT_PUBLIC_API_BASE || "http://localhost:5000";
-    const res = await fetch(`${API_BASE}/api/reports/summary`, {
-      headers: getAuthHeaders(),
-    });
-    if (!res.ok) return 0;
-    const data = await res.json();
+    const data = await api.reports.summary();
     // Dashboard expects an array of orders, sum their totals
-    return data.reduce(
-      (sum: number, order: { total: number }) => sum + Number(order.total),
-      0
-    );
+    return data.reduce((sum, order) => sum + Number(order.total), 0);
   } catch {
     return 0;
   }
@@ -26,6 +17,7 @@ async function fetchDashboardSummaryTotal(): Promise<number> {
   This page displays a detailed history of sales transactions, including staff shifts, revenue breakdowns, and itemized order details.
   It is accessible only to authenticated users (and some sections to managers only).
   The page fetches transaction data, aggregates revenue, and provides filtering, export, and search features for sales analytics.
+  Voids and refunds appear as negative entries under their order and are netted out of revenue; managers can void or refund from here.
 */
 
 import { useState, useEffect, useCallback } from "react";
@@ -41,15 +33,21 @@ import {
   LuCoffee,
   LuCar,
   LuSearch,
+  LuUndo2,
 } from "react-icons/lu";
 import { toast } from "react-toastify";
 import ProtectedRoute from "@/components/ProtectedRoute"; // Restricts access to authenticated users
 import ManagerOnlyRoute from "@/components/ManagerOnlyRoute"; // Restricts access to managers
 import PageLoader from "@/components/PageLoader"; // Loading spinner for async data
-import { getAuthHeaders } from "@/lib/auth"; // Helper for API auth headers
-
-// API base URL
-const API_BASE = process.env.NEXT_PUBLIC_API_BASE || "http://localhost:5000";
+import VoidOrderModal from "@/components/VoidOrderModal"; // Manager-approved voids and refunds
+import { api } from "@/lib/api"; // Typed backend client
+import type { StaffTransaction, TransactionFilters } from "@/lib/apiTypes"; // Shared response types
+import {
+  isVoided,
+  netTotal,
+  refundedByUnit,
+  refundedTotal,
+} from "@/lib/refunds"; // Void/refund totals
 
 // --------------------
 // Type Definitions
@@ -62,26 +60,8 @@ interface User {
   full_name: string;
 }
 
-// Transaction/order structure
-interface Transaction {
-  order_id: string;
-  created_at: string;
-  total: number;
-  payment_method: string;
-  shift_id: number | null;
-  user_id: number;
-  username: string;
-  full_name: string;
-  shift_start: string | null;
-  shift_end: string | null;
-  items: {
-    business_unit: "Coffee" | "Carwash";
-    item_type: string;
-    quantity: number;
-    line_total: number;
-    details: Record<string, unknown>;
-  }[];
-}
+// Transaction/order structure with staff and shift attribution
+type Transaction = StaffTransaction;
 
 // --------------------
 // Main Sales History Component
@@ -104,12 +84,16 @@ function StaffShiftsHistory() {
     totalRevenue: number;
     coffeeItemRevenue: number;
     carwashItemRevenue: number;
+    refundTotal: number;
   }
   const [aggregates, setAggregates] = useState<Aggregates>({
     totalRevenue: 0,
     coffeeItemRevenue: 0,
     carwashItemRevenue: 0,
+    refundTotal: 0,
   });
+  // Order being voided/refunded
+  const [voidingTx, setVoidingTx] = useState<Transaction | null>(null);
 
   // Filters
   const [selectedStaff, setSelectedStaff] = useState<string>("");
@@ -129,13 +113,8 @@ function StaffShiftsHistory() {
   useEffect(() => {
     const fetchUsers = async () => {
       try {
-        const res = await fetch(`${API_BASE}/api/auth/users`, {
-          headers: getAuthHeaders(),
-        });
-        if (res.ok) {
-          const data: User[] = await res.json();
-          setUsers(data);
-        }
+        const data: User[] = await api.users.list();
+        setUsers(data);
       } catch (err) {
         console.error("Failed to fetch users:", err);
       }
@@ -147,26 +126,17 @@ function StaffShiftsHistory() {
   const fetchTransactions = useCallback(async () => {
     try {
       setLoading(true);
-      const params = new URLSearchParams({
-        page: page.toString(),
-        size: pageSize.toString(),
-      });
-
-      if (selectedStaff) params.append("staffId", selectedStaff);
-      if (selectedBusinessUnit)
-        params.append("businessUnit", selectedBusinessUnit);
-      if (selectedPayment) params.append("payment", selectedPayment);
-      if (startDate) params.append("startDate", startDate);
-      if (endDate) params.append("endDate", endDate);
-
-      const res = await fetch(
-        `${API_BASE}/api/reports/my-shift/all-transactions?${params}`,
-        { headers: getAuthHeaders() }
-      );
-
-      if (!res.ok) throw new Error("Failed to fetch transactions");
-
-      const data = await res.json();
+      const filters: TransactionFilters = {
+        page,
+        size: pageSize,
+        staffId: selectedStaff,
+        businessUnit: selectedBusinessUnit,
+        payment: selectedPayment,
+        startDate,
+        endDate,
+      };
+
+      const data = await api.reports.allTransactions(filters);
       setTransactions(data.transactions || []);
       setTotalPages(data.totalPages || 1);
       setTotal(data.total || 0);
@@ -174,6 +144,7 @@ function StaffShiftsHistory() {
         totalRevenue: data.aggregates?.totalRevenue || 0,
         coffeeItemRevenue: data.aggregates?.coffeeItemRevenue || 0,
         carwashItemRevenue: data.aggregates?.carwashItemRevenue || 0,
+        refundTotal: data.aggregates?.refundTotal || 0,
       });
     } catch (err) {
       console.error("Error fetching transactions:", err);
@@ -202,6 +173,7 @@ function StaffShiftsHistory() {
 
     const headers = [
       "Order ID",
+      "OR No",
       "Date",
       "Time",
       "Staff",
@@ -212,21 +184,49 @@ function StaffShiftsHistory() {
       "Shift End",
     ];
 
-    const rows = transactions.map((tx) => {
+    // Each void/refund is exported as its own negative row
+    const rows = transactions.flatMap((tx) => {
       const businessUnits = [
         ...new Set(tx.items.map((i) => i.business_unit)),
       ].join(", ");
       const date = new Date(tx.created_at);
+      const shiftStart = tx.shift_start
+        ? new Date(tx.shift_start).toLocaleString()
+        : "N/A";
+      const shiftEnd = tx.shift_end
+        ? new Date(tx.shift_end).toLocaleString()
+        : "Active";
+      const refundRows = (tx.refunds ?? []).map((refund) => {
+        const refundDate = new Date(refund.created_at);
+        return [
+          `${tx.order_id} (${refund.type})`,
+          tx.or_number ?? "",
+          refundDate.toLocaleDateString(),
+          refundDate.toLocaleTimeString(),
+          refund.processed_by_name,
+          businessUnits,
+          tx.payment_method,
+          (-Number(refund.amount)).toFixed(2),
+          shiftStart,
+          shiftEnd,
+        ];
+      });
       return [
-        tx.order_id,
-        date.toLocaleDateString(),
-        date.toLocaleTimeString(),
-        tx.full_name,
-        businessUnits,
-        tx.payment_method,
-        (typeof tx.total === "number" ? tx.total : Number(tx.total)).toFixed(2),
-        tx.shift_start ? new Date(tx.shift_start).toLocaleString() : "N/A",
-        tx.shift_end ? new Date(tx.shift_end).toLocaleString() : "Active",
+        [
+          tx.order_id,
+          tx.or_number ?? "",
+          date.toLocaleDateString(),
+          date.toLocaleTimeString(),
+          tx.full_name,
+          businessUnits,
+          tx.payment_method,
+          (typeof tx.total === "number" ? tx.total : Number(tx.total)).toFixed(
+            2
+          ),
+          shiftStart,
+          shiftEnd,
+        ],
+        ...refundRows,
       ];
     });
 
@@ -271,7 +271,9 @@ function StaffShiftsHistory() {
     if (!searchQuery) return true;
 
     const query = searchQuery.toLowerCase();
-    const matchesOrderId = tx.order_id.toLowerCase().includes(query);
+    const matchesOrderId =
+      tx.order_id.toLowerCase().includes(query) ||
+      (tx.or_number ?? "").toLowerCase().includes(query);
     const matchesStaff =
       tx.full_name.toLowerCase().includes(query) ||
       tx.username.toLowerCase().includes(query);
@@ -282,9 +284,13 @@ function StaffShiftsHistory() {
     return matchesOrderId || matchesStaff || matchesItem;
   });
 
-  // Calculate stats from filtered transactions
+  // Calculate stats from filtered transactions, net of voids and refunds
   const totalRevenue = filteredTransactions.reduce(
-    (sum, tx) => sum + Number(tx.total),
+    (sum, tx) => sum + netTotal(tx),
+    0
+  );
+  const refundsTotal = filteredTransactions.reduce(
+    (sum, tx) => sum + refundedTotal(tx),
     0
   );
   // Per-item revenue per business unit to avoid overstating mixed orders
@@ -293,7 +299,8 @@ function StaffShiftsHistory() {
       sum +
       tx.items
         .filter((i) => i.business_unit === "Coffee")
-        .reduce((s, i) => s + Number(i.line_total), 0),
+        .reduce((s, i) => s + Number(i.line_total), 0) -
+      refundedByUnit(tx, "Coffee"),
     0
   );
   const carwashRevenue = filteredTransactions.reduce(
@@ -301,7 +308,8 @@ function StaffShiftsHistory() {
       sum +
       tx.items
         .filter((i) => i.business_unit === "Carwash")
-        .reduce((s, i) => s + Number(i.line_total), 0),
+        .reduce((s, i) => s + Number(i.line_total), 0) -
+      refundedByUnit(tx, "Carwash"),
     0
   );
 
@@ -312,7 +320,8 @@ function StaffShiftsHistory() {
       tx.items.reduce((itemSum, item) => itemSum + Number(item.line_total), 0),
     0
   );
-  const discountsOrAdjustments = grossItemSales - totalRevenue;
+  // Refunds are shown separately, not as discounts
+  const discountsOrAdjustments = grossItemSales - totalRevenue - refundsTotal;
 
   return (
     <div className="p-4 sm:p-6 md:p-8 min-h-screen bg-linear-to-br from-gray-50 to-gray-100">
@@ -466,6 +475,34 @@ function StaffShiftsHistory() {
             </div>
           </div>
         </div>
+
+        {/* Voids/Refunds Box */}
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-600 font-medium">
+                Voids / Refunds
+              </p>
+              <p className="text-2xl font-bold text-red-600 mt-1">
+                -₱
+                {refundsTotal.toLocaleString("en-PH", {
+                  minimumFractionDigits: 2,
+                  maximumFractionDigits: 2,
+                })}
+              </p>
+              <p className="text-xs text-gray-500 mt-1">
+                All Matching: -₱
+                {aggregates.refundTotal.toLocaleString("en-PH", {
+                  minimumFractionDigits: 2,
+                  maximumFractionDigits: 2,
+                })}
+              </p>
+            </div>
+            <div className="w-12 h-12 bg-red-100 rounded-lg flex items-center justify-center">
+              <LuUndo2 size={24} className="text-red-600" />
+            </div>
+          </div>
+        </div>
       </div>
 
       {/* Quick Date Filters */}
@@ -562,6 +599,9 @@ function StaffShiftsHistory() {
               <option value="">All</option>
               <option value="Cash">Cash</option>
               <option value="Gcash">GCash</option>
+              <option value="Maya">Maya</option>
+              <option value="Card">Card</option>
+              <option value="Split">Split</option>
             </select>
           </div>
 
@@ -685,13 +725,16 @@ function StaffShiftsHistory() {
                 <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Shift
                 </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
               {filteredTransactions.length === 0 ? (
                 <tr>
                   <td
-                    colSpan={7}
+                    colSpan={8}
                     className="px-4 py-8 text-center text-gray-500"
                   >
                     {searchQuery
@@ -704,10 +747,20 @@ function StaffShiftsHistory() {
                   const businessUnits = [
                     ...new Set(tx.items.map((i) => i.business_unit)),
                   ];
-                  return (
+                  return [
                     <tr key={tx.order_id} className="hover:bg-gray-50">
                       <td className="px-4 py-3 text-sm font-medium text-gray-900">
                         #{tx.order_id}
+                        {isVoided(tx) && (
+                          <span className="ml-2 inline-block px-2 py-0.5 rounded text-xs font-medium bg-red-100 text-red-700">
+                            Voided
+                          </span>
+                        )}
+                        {tx.or_number && (
+                          <div className="text-xs font-normal text-gray-500">
+                            OR {tx.or_number}
+                          </div>
+                        )}
                       </td>
                       <td className="px-4 py-3 text-sm text-gray-600">
                         <div className="flex items-center gap-2">
@@ -780,8 +833,52 @@ function StaffShiftsHistory() {
                           <span className="text-gray-400">No shift</span>
                         )}
                       </td>
-                    </tr>
-                  );
+                      <td className="px-4 py-3 text-right">
+                        {netTotal(tx) > 0 && (
+                          <button
+                            onClick={() => setVoidingTx(tx)}
+                            className="px-3 py-1 rounded-lg text-xs font-semibold bg-red-50 text-red-700 hover:bg-red-100 inline-flex items-center gap-1"
+                          >
+                            <LuUndo2 size={12} />
+                            Void / Refund
+                          </button>
+                        )}
+                      </td>
+                    </tr>,
+                    ...(tx.refunds ?? []).map((refund) => (
+                      <tr
+                        key={`${tx.order_id}-refund-${refund.id}`}
+                        className="bg-red-50/50"
+                      >
+                        <td className="px-4 py-2 text-xs font-medium text-red-700">
+                          ↳ {refund.type === "void" ? "Void" : "Refund"}
+                        </td>
+                        <td className="px-4 py-2 text-xs text-gray-600">
+                          {new Date(refund.created_at).toLocaleString()}
+                        </td>
+                        <td className="px-4 py-2 text-xs text-gray-600">
+                          {refund.processed_by_name}
+                          <div className="text-gray-500">
+                            Approved: {refund.approved_by_name}
+                          </div>
+                        </td>
+                        <td
+                          colSpan={2}
+                          className="px-4 py-2 text-xs text-gray-600"
+                        >
+                          {refund.reason}
+                        </td>
+                        <td className="px-4 py-2 text-sm font-bold text-red-600">
+                          -₱
+                          {Number(refund.amount).toLocaleString("en-PH", {
+                            minimumFractionDigits: 2,
+                            maximumFractionDigits: 2,
+                          })}
+                        </td>
+                        <td colSpan={2} />
+                      </tr>
+                    )),
+                  ];
                 })
               )}
             </tbody>
@@ -813,6 +910,14 @@ function StaffShiftsHistory() {
           </div>
         )}
       </div>
+
+      {voidingTx && (
+        <VoidOrderModal
+          transaction={voidingTx}
+          onClose={() => setVoidingTx(null)}
+          onRefunded={fetchTransactions}
+        />
+      )}
     </div>
   );
 }
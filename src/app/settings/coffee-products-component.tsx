@@ -4,22 +4,12 @@
 import { useState, useEffect } from "react";
 import Image from "next/image";
 import { toast } from "react-toastify";
-import { getAuthHeaders } from "@/lib/auth";
+import { api } from "@/lib/api";
+import type { Product } from "@/lib/apiTypes";
 import Spinner from "@/components/Spinner";
 import PageLoader from "@/components/PageLoader";
 import { LuPlus, LuPencil, LuTrash2 } from "react-icons/lu";
 
-const API_BASE = process.env.NEXT_PUBLIC_API_BASE || "http://localhost:5000";
-
-interface Product {
-  id: number;
-  name: string;
-  category: string;
-  price: number;
-  needs_temp: boolean;
-  image_url: string | null;
-}
-
 export function CoffeeProducts() {
   const [products, setProducts] = useState<Product[]>([]);
   const [loading, setLoading] = useState(true);
@@ -31,11 +21,7 @@ export function CoffeeProducts() {
   const fetchProducts = async () => {
     try {
       setLoading(true);
-      const res = await fetch(`${API_BASE}/api/products`, {
-        headers: getAuthHeaders(),
-      });
-      if (!res.ok) throw new Error("Failed to fetch products");
-      const data: Product[] = await res.json();
+      const data = await api.products.list();
       setProducts(data.map((p) => ({ ...p, price: Number(p.price) })));
     } catch (err) {
       console.error(err);
@@ -63,12 +49,7 @@ export function CoffeeProducts() {
     if (!confirm(`Delete product "${name}"? This cannot be undone.`)) return;
 
     try {
-      const res = await fetch(`${API_BASE}/api/products/${id}`, {
-        method: "DELETE",
-        headers: getAuthHeaders(),
-      });
-
-      if (!res.ok) throw new Error("Failed to delete product");
+      await api.products.remove(id);
 
       toast.success("Product deleted successfully");
       fetchProducts();
@@ -261,40 +242,20 @@ function ProductModal({ product, onClose, onSave }: ProductModalProps) {
 
       // Upload image if new file selected
       if (selectedFile) {
-        const formData = new FormData();
-        formData.append("image", selectedFile);
-
-        const uploadRes = await fetch(`${API_BASE}/api/upload`, {
-          method: "POST",
-          body: formData,
-        });
-
-        if (!uploadRes.ok) throw new Error("Image upload failed");
-        const uploadData = await uploadRes.json();
+        const uploadData = await api.uploads.image(selectedFile);
         imageUrl = uploadData.image_url;
       }
 
       // Save product
-      const url = product
-        ? `${API_BASE}/api/products/${product.id}`
-        : `${API_BASE}/api/products`;
-
-      const res = await fetch(url, {
-        method: product ? "PUT" : "POST",
-        headers: {
-          "Content-Type": "application/json",
-          ...getAuthHeaders(),
-        },
-        body: JSON.stringify({
-          name: name.trim(),
-          category: category.trim(),
-          price: priceNum,
-          needs_temp: needsTemp,
-          image_url: imageUrl,
-        }),
-      });
-
-      if (!res.ok) throw new Error("Failed to save product");
+      const payload = {
+        name: name.trim(),
+        category: category.trim(),
+        price: priceNum,
+        needs_temp: needsTemp,
+        image_url: imageUrl,
+      };
+      if (product) await api.products.update(product.id, payload);
+      else await api.products.create(payload);
 
       toast.success(`Product ${product ? "updated" : "created"} successfully`);
       onSave();
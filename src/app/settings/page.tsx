@@ -1,14 +1,19 @@
 "use client";
 
-type Role = "manager" | "staff";
-
 /*
   Settings Page
   -------------
   This page manages user accounts, staff shifts, carwash and product settings. It allows managers to:
     - View, add, edit, and archive user accounts
     - Manage staff shifts (start/end, notes)
-    - Configure carwash and product settings
+    - Configure carwash and product settings (including product modifiers)
+    - Bundle carwash services into packages and set up prepaid/unlimited wash plans
+    - Set up wash bays and washer staff
+    - Set appointment booking hours, slot length and capacity
+    - Define discount rules used by both POS pages
+    - Set loyalty earn rates, point value and rewards
+    - Edit the SMS sent to customers when their vehicle is ready
+    - Configure official receipt (OR) series per terminal and review the register
     - Logout and switch between tabs
   ProtectedRoute ensures only authenticated users can access this page.
   The page uses various utility and UI components for async data handling and user feedback.
@@ -19,7 +24,70 @@ import Image from "next/image";
 import ProtectedRoute from "@/components/ProtectedRoute"; // Restricts access to authenticated users
 import { useAuth } from "@/contexts/AuthContext"; // Auth context for user info
 import { toast } from "react-toastify";
-import { getAuthHeaders } from "@/lib/auth"; // Helper for API auth headers
+import { api, ApiError } from "@/lib/api"; // Typed backend client
+import { describeRule, normalizeDiscountRule } from "@/lib/discounts"; // Discount rule helpers
+import { normalizeModifierGroups } from "@/lib/modifiers"; // Product modifier helpers
+import {
+  DEFAULT_LOYALTY_SETTINGS,
+  normalizeLoyaltySettings,
+} from "@/lib/loyalty"; // Loyalty program helpers
+import {
+  DEFAULT_TEMPLATES,
+  TEMPLATE_PLACEHOLDERS,
+  fetchTemplate,
+  getNotificationGateway,
+  renderTemplate,
+} from "@/lib/notifications"; // Customer SMS templates
+import { WEEKDAY_NAMES, normalizeSchedule } from "@/lib/appointments"; // Booking hours
+import {
+  PACKAGE_CATEGORY,
+  PLAN_TYPE_LABELS,
+  formatExpiry,
+  membershipBalance,
+  normalizePlan,
+} from "@/lib/washPlans"; // Packages and wash plans
+import type {
+  AppointmentDay,
+  AppUser,
+  ShiftWithUser,
+  AdminCatalogService,
+  AdminCatalogPrice,
+  Product as ApiProduct,
+  Role,
+  UserPayload,
+  BusinessUnit,
+  DiscountRule,
+  DiscountRulePayload,
+  DiscountScope,
+  DiscountType,
+  LoyaltyEarnRate,
+  LoyaltyReward,
+  LoyaltyRewardPayload,
+  LoyaltySettings,
+  Membership,
+  ModifierGroup,
+  NotificationTemplate,
+  ReceiptRegisterEntry,
+  ReceiptResetRule,
+  ReceiptSeries,
+  ReceiptSeriesPayload,
+  CarwashBay,
+  WashPlan,
+  WashPlanPayload,
+  WashPlanType,
+  Washer,
+  WasherPayload,
+} from "@/lib/apiTypes"; // Shared response types
+import {
+  RESET_RULES,
+  formatReceiptNumber,
+  getTerminalId,
+  nextReceiptNumber,
+  periodKey,
+  registerTerminal,
+  suggestedTerminalId,
+  syncReceiptSeries,
+} from "@/lib/receiptNumbers"; // Official receipt numbering
 import Spinner from "@/components/Spinner"; // Loading spinner for async data
 import PageLoader from "@/components/PageLoader"; // Page-level loading spinner
 // Import icons for UI elements
@@ -31,45 +99,41 @@ import {
   LuClock,
   LuCar,
   LuCoffee,
+  LuPercent,
+  LuSlidersHorizontal,
+  LuReceipt,
+  LuUsers,
+  LuGift,
+  LuMessageSquare,
+  LuCalendarClock,
+  LuTicket,
 } from "react-icons/lu";
 
-// API base URL
-const API_BASE = process.env.NEXT_PUBLIC_API_BASE || "http://localhost:5000";
-
 // --------------------
 // Type Definitions
 // --------------------
 
-// User account structure
-interface AppUser {
-  id: number;
-  username: string;
-  full_name: string;
-  role: Role;
-  is_active: boolean;
-  created_at: string;
-}
-
 // Staff shift structure
-interface Shift {
-  id: number;
-  user_id: number;
-  username: string;
-  full_name: string;
-  role: "manager" | "staff";
-  start_time: string;
-  end_time: string | null;
-  status: "active" | "ended";
-  notes: string | null;
-}
+type Shift = ShiftWithUser;
 
 // --------------------
 // Main Settings Page Component
 // --------------------
 export default function SettingsPage() {
-  // State for active tab (accounts, shifts, carwash, products)
+  // State for active tab (accounts, shifts, carwash, plans, staffing,
+  // appointments, products, discounts, loyalty, notifications, receipts)
   const [activeTab, setActiveTab] = useState<
-    "accounts" | "shifts" | "carwash" | "products"
+    | "accounts"
+    | "shifts"
+    | "carwash"
+    | "plans"
+    | "staffing"
+    | "appointments"
+    | "products"
+    | "discounts"
+    | "loyalty"
+    | "notifications"
+    | "receipts"
   >("shifts");
   // Auth context for logout and role checks
   const { logout, isManager } = useAuth();
@@ -89,7 +153,7 @@ export default function SettingsPage() {
           </div>
 
           {/* Tabs */}
-          <div className="flex gap-2 mb-6 border-b border-gray-200">
+          <div className="flex gap-2 mb-6 border-b border-gray-200 overflow-x-auto">
             {isManager() && (
               <button
                 onClick={() => setActiveTab("accounts")}
@@ -127,6 +191,45 @@ export default function SettingsPage() {
                 Carwash Services
               </button>
             )}
+            {isManager() && (
+              <button
+                onClick={() => setActiveTab("plans")}
+                className={`px-4 py-2 font-medium transition-colors ${
+                  activeTab === "plans"
+                    ? "text-amber-700 border-b-2 border-amber-700"
+                    : "text-gray-500 hover:text-gray-700"
+                }`}
+              >
+                <LuTicket size={18} className="inline mr-2" />
+                Wash Plans
+              </button>
+            )}
+            {isManager() && (
+              <button
+                onClick={() => setActiveTab("staffing")}
+                className={`px-4 py-2 font-medium transition-colors ${
+                  activeTab === "staffing"
+                    ? "text-amber-700 border-b-2 border-amber-700"
+                    : "text-gray-500 hover:text-gray-700"
+                }`}
+              >
+                <LuUsers size={18} className="inline mr-2" />
+                Bays & Washers
+              </button>
+            )}
+            {isManager() && (
+              <button
+                onClick={() => setActiveTab("appointments")}
+                className={`px-4 py-2 font-medium transition-colors ${
+                  activeTab === "appointments"
+                    ? "text-amber-700 border-b-2 border-amber-700"
+                    : "text-gray-500 hover:text-gray-700"
+                }`}
+              >
+                <LuCalendarClock size={18} className="inline mr-2" />
+                Appointments
+              </button>
+            )}
             {isManager() && (
               <button
                 onClick={() => setActiveTab("products")}
@@ -140,6 +243,58 @@ export default function SettingsPage() {
                 Coffee Products
               </button>
             )}
+            {isManager() && (
+              <button
+                onClick={() => setActiveTab("discounts")}
+                className={`px-4 py-2 font-medium transition-colors ${
+                  activeTab === "discounts"
+                    ? "text-amber-700 border-b-2 border-amber-700"
+                    : "text-gray-500 hover:text-gray-700"
+                }`}
+              >
+                <LuPercent size={18} className="inline mr-2" />
+                Discounts
+              </button>
+            )}
+            {isManager() && (
+              <button
+                onClick={() => setActiveTab("loyalty")}
+                className={`px-4 py-2 font-medium transition-colors ${
+                  activeTab === "loyalty"
+                    ? "text-amber-700 border-b-2 border-amber-700"
+                    : "text-gray-500 hover:text-gray-700"
+                }`}
+              >
+                <LuGift size={18} className="inline mr-2" />
+                Loyalty
+              </button>
+            )}
+            {isManager() && (
+              <button
+                onClick={() => setActiveTab("notifications")}
+                className={`px-4 py-2 font-medium transition-colors ${
+                  activeTab === "notifications"
+                    ? "text-amber-700 border-b-2 border-amber-700"
+                    : "text-gray-500 hover:text-gray-700"
+                }`}
+              >
+                <LuMessageSquare size={18} className="inline mr-2" />
+                Notifications
+              </button>
+            )}
+            {isManager() && (
+              <button
+                onClick={() => setActiveTab("receipts")}
+                className={`px-4 py-2 font-medium transition-colors ${
+                  activeTab === "receipts"
+                    ? "text-amber-700 border-b-2 border-amber-700"
+                    : "text-gray-500 hover:text-gray-700"
+                }`}
+              >
+                <LuReceipt size={18} className="inline mr-2" />
+                Receipts
+              </button>
+            )}
           </div>
 
           {activeTab === "accounts" ? (
@@ -148,6 +303,20 @@ export default function SettingsPage() {
             <ShiftHistory />
           ) : activeTab === "carwash" ? (
             <CarwashCatalog />
+          ) : activeTab === "plans" ? (
+            <WashPlans />
+          ) : activeTab === "staffing" ? (
+            <CarwashStaffing />
+          ) : activeTab === "appointments" ? (
+            <AppointmentSettings />
+          ) : activeTab === "discounts" ? (
+            <DiscountRules />
+          ) : activeTab === "loyalty" ? (
+            <LoyaltyProgram />
+          ) : activeTab === "notifications" ? (
+            <NotificationSettings />
+          ) : activeTab === "receipts" ? (
+            <ReceiptSettings />
           ) : (
             <CoffeeProducts />
           )}
@@ -176,11 +345,7 @@ function ShiftHistory() {
   const fetchShifts = async () => {
     try {
       setLoading(true);
-      const res = await fetch(`${API_BASE}/api/shifts/history`, {
-        headers: getAuthHeaders(),
-      });
-      if (!res.ok) throw new Error("Failed to fetch shifts");
-      const data: Shift[] = await res.json();
+      const data = await api.shifts.history();
       setShifts(data);
     } catch (err) {
       console.error(err);
@@ -339,11 +504,7 @@ function StaffManagement() {
   const fetchUsers = async () => {
     try {
       setLoading(true);
-      const res = await fetch(`${API_BASE}/api/auth/users`, {
-        headers: getAuthHeaders(),
-      });
-      if (!res.ok) throw new Error("Failed to fetch users");
-      const data: AppUser[] = await res.json();
+      const data = await api.users.list();
       setUsers(data);
     } catch (err) {
       console.error(err);
@@ -492,16 +653,11 @@ function StaffManagement() {
   ) {
     (async () => {
       try {
-        const res = await fetch(`${API_BASE}/api/auth/users/${u.id}`, {
-          method: "PUT",
-          headers: { "Content-Type": "application/json", ...getAuthHeaders() },
-          body: JSON.stringify({
-            fullName: u.full_name,
-            role: u.role,
-            isActive: !u.is_active,
-          }),
+        await api.users.update(u.id, {
+          fullName: u.full_name,
+          role: u.role,
+          isActive: !u.is_active,
         });
-        if (!res.ok) throw new Error("Failed to update user");
         toast.success(
           `${!u.is_active ? "Activated" : "Deactivated"} ${u.username}`
         );
@@ -522,16 +678,7 @@ function StaffManagement() {
     if (!confirm(`Delete user ${u.username}? This cannot be undone.`)) return;
     (async () => {
       try {
-        const res = await fetch(`${API_BASE}/api/auth/users/${u.id}`, {
-          method: "DELETE",
-          headers: getAuthHeaders(),
-        });
-        if (!res.ok) {
-          const data = await res
-            .json()
-            .catch(() => ({ message: "Failed to delete user" }));
-          throw new Error(data.message || "Failed to delete user");
-        }
+        await api.users.remove(u.id);
         toast.success(`Deleted ${u.username}`);
         setUsersState(users.filter((x) => x.id !== u.id));
       } catch (err) {
@@ -557,6 +704,7 @@ function UserModal({
   const [role, setRole] = useState<Role>(editing?.role || "staff");
   const [password, setPassword] = useState("");
   const [confirm, setConfirm] = useState("");
+  const [pin, setPin] = useState("");
   const [saving, setSaving] = useState(false);
 
   const isEdit = Boolean(editing);
@@ -586,7 +734,12 @@ function UserModal({
         return;
       }
 
-      const payload: Record<string, unknown> = isEdit
+      if (pin && !/^\d{4,6}$/.test(pin)) {
+        toast.error("PIN must be 4 to 6 digits");
+        return;
+      }
+
+      const payload: UserPayload = isEdit
         ? {
             fullName,
             role,
@@ -595,22 +748,10 @@ function UserModal({
           }
         : { username, fullName, role, password };
       if (password) payload.password = password;
+      if (role === "manager" && pin) payload.pin = pin;
 
-      const res = await fetch(
-        isEdit
-          ? `${API_BASE}/api/auth/users/${editing!.id}`
-          : `${API_BASE}/api/auth/users`,
-        {
-          method: isEdit ? "PUT" : "POST",
-          headers: { "Content-Type": "application/json", ...getAuthHeaders() },
-          body: JSON.stringify(payload),
-        }
-      );
-
-      if (!res.ok) {
-        const data = await res.json().catch(() => ({}));
-        throw new Error(data.message || "Save failed");
-      }
+      if (isEdit) await api.users.update(editing!.id, payload);
+      else await api.users.create(payload);
 
       toast.success(isEdit ? "Account updated" : "Account created");
       onSaved();
@@ -696,6 +837,25 @@ function UserModal({
               minLength={password ? 6 : undefined}
             />
           </div>
+          {role === "manager" && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {isEdit ? "New Override PIN (optional)" : "Override PIN"}
+              </label>
+              <input
+                type="password"
+                inputMode="numeric"
+                autoComplete="off"
+                className="w-full border border-gray-300 rounded-lg p-2"
+                value={pin}
+                onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+                maxLength={6}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                4-6 digits, entered to approve voids and refunds.
+              </p>
+            </div>
+          )}
           <div className="flex justify-end gap-3 pt-2">
             <button
               type="button"
@@ -731,26 +891,9 @@ function title(editing: AppUser | null) {
 
 // ===== CARWASH CATALOG MANAGEMENT =====
 
-interface CarwashService {
-  id: number;
-  name: string;
-  category: string;
-  description: string;
-  display_order: number;
-  is_active: boolean;
-  prices: CarwashPrice[];
-  created_at: string;
-  updated_at: string;
-}
+type CarwashService = AdminCatalogService;
 
-interface CarwashPrice {
-  id: number;
-  service_id: number;
-  vehicle_type: string;
-  price: number;
-  is_active: boolean;
-  created_at: string;
-}
+type CarwashPrice = AdminCatalogPrice;
 
 // --------------------
 // Carwash Catalog Tab
@@ -779,14 +922,7 @@ function CarwashCatalog() {
   const fetchServices = async () => {
     try {
       setLoading(true);
-      const res = await fetch(
-        `${API_BASE}/api/carwash-catalog/admin/services`,
-        {
-          headers: getAuthHeaders(),
-        }
-      );
-      if (!res.ok) throw new Error("Failed to fetch services");
-      const data: CarwashService[] = await res.json();
+      const data = await api.carwashCatalog.admin.services();
       setServices(data);
     } catch (err) {
       console.error(err);
@@ -821,15 +957,7 @@ function CarwashCatalog() {
       return;
 
     try {
-      const res = await fetch(
-        `${API_BASE}/api/carwash-catalog/admin/services/${id}`,
-        {
-          method: "DELETE",
-          headers: getAuthHeaders(),
-        }
-      );
-
-      if (!res.ok) throw new Error("Failed to delete service");
+      await api.carwashCatalog.admin.removeService(id);
 
       toast.success("Service deleted successfully");
       fetchServices();
@@ -853,15 +981,7 @@ function CarwashCatalog() {
     if (!confirm(`Delete price for "${vehicleType}"?`)) return;
 
     try {
-      const res = await fetch(
-        `${API_BASE}/api/carwash-catalog/admin/prices/${priceId}`,
-        {
-          method: "DELETE",
-          headers: getAuthHeaders(),
-        }
-      );
-
-      if (!res.ok) throw new Error("Failed to delete price");
+      await api.carwashCatalog.admin.removePrice(priceId);
 
       toast.success("Price deleted successfully");
       fetchServices();
@@ -873,19 +993,9 @@ function CarwashCatalog() {
 
   const handleToggleServiceActive = async (service: CarwashService) => {
     try {
-      const res = await fetch(
-        `${API_BASE}/api/carwash-catalog/admin/services/${service.id}`,
-        {
-          method: "PUT",
-          headers: {
-            "Content-Type": "application/json",
-            ...getAuthHeaders(),
-          },
-          body: JSON.stringify({ is_active: !service.is_active }),
-        }
-      );
-
-      if (!res.ok) throw new Error("Failed to update service");
+      await api.carwashCatalog.admin.updateService(service.id, {
+        is_active: !service.is_active,
+      });
 
       toast.success(
         `Service ${!service.is_active ? "activated" : "deactivated"}`
@@ -943,6 +1053,14 @@ function CarwashCatalog() {
                 <p className="text-sm text-gray-600 mt-1">
                   {service.description}
                 </p>
+                {service.package_items && service.package_items.length > 0 && (
+                  <p className="text-sm text-gray-500 mt-1">
+                    Includes:{" "}
+                    {service.package_items
+                      .map((i) => i.service_name)
+                      .join(", ")}
+                  </p>
+                )}
               </div>
               <div className="flex gap-2">
                 <button
@@ -1000,6 +1118,11 @@ function CarwashCatalog() {
                           <p className="text-lg font-bold text-amber-700">
                             ₱{price.price.toLocaleString()}
                           </p>
+                          {price.expected_minutes && (
+                            <p className="text-xs text-gray-500">
+                              Target: {price.expected_minutes} min
+                            </p>
+                          )}
                         </div>
                         <div className="flex gap-1">
                           <button
@@ -1033,6 +1156,7 @@ function CarwashCatalog() {
       {showServiceModal && (
         <ServiceModal
           service={editingService}
+          services={services}
           onClose={() => {
             setShowServiceModal(false);
             setEditingService(null);
@@ -1059,16 +1183,37 @@ function CarwashCatalog() {
 // Service Modal Component
 interface ServiceModalProps {
   service: CarwashService | null;
+  // Whole catalog, to pick the services a package bundles
+  services: CarwashService[];
   onClose: () => void;
   onSave: () => void;
 }
 
-function ServiceModal({ service, onClose, onSave }: ServiceModalProps) {
+function ServiceModal({
+  service,
+  services,
+  onClose,
+  onSave,
+}: ServiceModalProps) {
   const [name, setName] = useState(service?.name || "");
   const [category, setCategory] = useState(service?.category || "Others");
   const [description, setDescription] = useState(service?.description || "");
   const [displayOrder, setDisplayOrder] = useState(service?.display_order || 0);
+  const [bundledIds, setBundledIds] = useState<number[]>(
+    service?.package_items?.map((i) => i.service_id) ?? []
+  );
   const [saving, setSaving] = useState(false);
+  const isPackage = category === PACKAGE_CATEGORY;
+  // Packages bundle single services only
+  const bundleOptions = services.filter(
+    (s) => s.id !== service?.id && !s.package_items?.length
+  );
+
+  const toggleBundled = (id: number) => {
+    setBundledIds((prev) =>
+      prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]
+    );
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -1077,29 +1222,24 @@ function ServiceModal({ service, onClose, onSave }: ServiceModalProps) {
       toast.error("Name and category are required");
       return;
     }
+    if (isPackage && bundledIds.length < 2) {
+      toast.error("A package needs at least two services");
+      return;
+    }
 
     setSaving(true);
 
     try {
-      const url = service
-        ? `${API_BASE}/api/carwash-catalog/admin/services/${service.id}`
-        : `${API_BASE}/api/carwash-catalog/admin/services`;
-
-      const res = await fetch(url, {
-        method: service ? "PUT" : "POST",
-        headers: {
-          "Content-Type": "application/json",
-          ...getAuthHeaders(),
-        },
-        body: JSON.stringify({
-          name: name.trim(),
-          category: category.trim(),
-          description: description.trim() || null,
-          display_order: displayOrder,
-        }),
-      });
-
-      if (!res.ok) throw new Error("Failed to save service");
+      const payload = {
+        name: name.trim(),
+        category: category.trim(),
+        description: description.trim() || null,
+        display_order: displayOrder,
+        package_service_ids: isPackage ? bundledIds : [],
+      };
+      if (service)
+        await api.carwashCatalog.admin.updateService(service.id, payload);
+      else await api.carwashCatalog.admin.createService(payload);
 
       toast.success(`Service ${service ? "updated" : "created"} successfully`);
       onSave();
@@ -1144,9 +1284,35 @@ function ServiceModal({ service, onClose, onSave }: ServiceModalProps) {
               <option value="Basic">Basic</option>
               <option value="Most Popular">Most Popular</option>
               <option value="Advanced">Advanced</option>
+              <option value={PACKAGE_CATEGORY}>Package</option>
               <option value="Others">Others</option>
             </select>
           </div>
+          {isPackage && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Included Services *
+              </label>
+              <div className="border border-gray-300 rounded-lg p-2 max-h-40 overflow-y-auto space-y-1">
+                {bundleOptions.map((option) => (
+                  <label
+                    key={option.id}
+                    className="flex items-center gap-2 text-sm"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={bundledIds.includes(option.id)}
+                      onChange={() => toggleBundled(option.id)}
+                    />
+                    {option.name}
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Set the package price per vehicle type under Vehicle Prices
+              </p>
+            </div>
+          )}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Description
@@ -1211,6 +1377,9 @@ interface PriceModalProps {
 function PriceModal({ serviceId, price, onClose, onSave }: PriceModalProps) {
   const [vehicleType, setVehicleType] = useState(price?.vehicle_type || "");
   const [priceValue, setPriceValue] = useState(price?.price?.toString() || "");
+  const [expectedMinutes, setExpectedMinutes] = useState(
+    price?.expected_minutes?.toString() || ""
+  );
   const [saving, setSaving] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -1227,30 +1396,24 @@ function PriceModal({ serviceId, price, onClose, onSave }: PriceModalProps) {
       return;
     }
 
+    // Blank means the service length isn't tracked for this vehicle type
+    const minutesNum = expectedMinutes ? parseInt(expectedMinutes, 10) : null;
+    if (minutesNum !== null && (isNaN(minutesNum) || minutesNum <= 0)) {
+      toast.error("Invalid expected duration");
+      return;
+    }
+
     setSaving(true);
 
     try {
-      const url = price
-        ? `${API_BASE}/api/carwash-catalog/admin/prices/${price.id}`
-        : `${API_BASE}/api/carwash-catalog/admin/prices`;
-
-      const res = await fetch(url, {
-        method: price ? "PUT" : "POST",
-        headers: {
-          "Content-Type": "application/json",
-          ...getAuthHeaders(),
-        },
-        body: JSON.stringify({
-          service_id: serviceId,
-          vehicle_type: vehicleType.trim(),
-          price: priceNum,
-        }),
-      });
-
-      if (!res.ok) {
-        const errorData = await res.json();
-        throw new Error(errorData.error || "Failed to save price");
-      }
+      const payload = {
+        service_id: serviceId,
+        vehicle_type: vehicleType.trim(),
+        price: priceNum,
+        expected_minutes: minutesNum,
+      };
+      if (price) await api.carwashCatalog.admin.updatePrice(price.id, payload);
+      else await api.carwashCatalog.admin.createPrice(payload);
 
       toast.success(`Price ${price ? "updated" : "added"} successfully`);
       onSave();
@@ -1300,6 +1463,24 @@ function PriceModal({ serviceId, price, onClose, onSave }: PriceModalProps) {
               placeholder="0.00"
             />
           </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Expected Duration (minutes)
+            </label>
+            <input
+              type="number"
+              step="1"
+              min="1"
+              className="w-full border border-gray-300 rounded-lg p-2"
+              value={expectedMinutes}
+              onChange={(e) => setExpectedMinutes(e.target.value)}
+              placeholder="e.g. 30"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Service length target. In-progress tickets turn amber near it
+              and red once overdue. Leave blank to skip tracking.
+            </p>
+          </div>
           <div className="flex justify-end gap-3 pt-2">
             <button
               type="button"
@@ -1331,14 +1512,7 @@ function PriceModal({ serviceId, price, onClose, onSave }: PriceModalProps) {
 
 // ===== COFFEE PRODUCTS MANAGEMENT =====
 
-interface Product {
-  id: number;
-  name: string;
-  category: string;
-  price: number;
-  needs_temp: boolean;
-  image_url: string | null;
-}
+type Product = ApiProduct;
 
 // --------------------
 // Coffee Products Tab
@@ -1353,6 +1527,8 @@ function CoffeeProducts() {
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
   // Modal state for add/edit product
   const [showProductModal, setShowProductModal] = useState(false);
+  // Product whose modifier groups are being edited
+  const [modifierProduct, setModifierProduct] = useState<Product | null>(null);
   // Search query for filtering products
   const [searchQuery, setSearchQuery] = useState("");
   // Selected category for filtering
@@ -1362,12 +1538,14 @@ function CoffeeProducts() {
   const fetchProducts = async () => {
     try {
       setLoading(true);
-      const res = await fetch(`${API_BASE}/api/products`, {
-        headers: getAuthHeaders(),
-      });
-      if (!res.ok) throw new Error("Failed to fetch products");
-      const data: Product[] = await res.json();
-      setProducts(data.map((p) => ({ ...p, price: Number(p.price) })));
+      const data = await api.products.list();
+      setProducts(
+        data.map((p) => ({
+          ...p,
+          price: Number(p.price),
+          modifier_groups: normalizeModifierGroups(p.modifier_groups),
+        }))
+      );
     } catch (err) {
       console.error(err);
       toast.error("Could not load coffee products");
@@ -1396,12 +1574,7 @@ function CoffeeProducts() {
     if (!confirm(`Delete product "${name}"? This cannot be undone.`)) return;
 
     try {
-      const res = await fetch(`${API_BASE}/api/products/${id}`, {
-        method: "DELETE",
-        headers: getAuthHeaders(),
-      });
-
-      if (!res.ok) throw new Error("Failed to delete product");
+      await api.products.remove(id);
 
       toast.success("Product deleted successfully");
       fetchProducts();
@@ -1500,8 +1673,23 @@ function CoffeeProducts() {
                     Hot/Cold
                   </span>
                 )}
+                {product.modifier_groups?.map((group) => (
+                  <span
+                    key={group.name}
+                    className="inline-block mt-1 ml-1 text-xs px-2 py-1 bg-blue-100 text-blue-700 rounded"
+                  >
+                    {group.name}
+                  </span>
+                ))}
               </div>
               <div className="flex flex-col gap-2">
+                <button
+                  onClick={() => setModifierProduct(product)}
+                  className="p-2 rounded hover:bg-gray-100 text-amber-700"
+                  title="Edit modifiers"
+                >
+                  <LuSlidersHorizontal size={18} />
+                </button>
                 <button
                   onClick={() => handleEditProduct(product)}
                   className="p-2 rounded hover:bg-gray-100 text-blue-600"
@@ -1541,6 +1729,15 @@ function CoffeeProducts() {
           onSave={fetchProducts}
         />
       )}
+
+      {/* Modifier Groups Modal */}
+      {modifierProduct && (
+        <ModifierGroupsModal
+          product={modifierProduct}
+          onClose={() => setModifierProduct(null)}
+          onSave={fetchProducts}
+        />
+      )}
     </div>
   );
 }
@@ -1594,44 +1791,23 @@ function ProductModal({ product, onClose, onSave }: ProductModalProps) {
 
       // Upload image if new file selected
       if (selectedFile) {
-        const formData = new FormData();
-        formData.append("image", selectedFile);
-
-        const uploadRes = await fetch(`${API_BASE}/api/upload`, {
-          method: "POST",
-          headers: {
-            // Do not set Content-Type for FormData; browser sets it with boundary automatically
-            ...getAuthHeaders(),
-          },
-          body: formData,
-        });
-
-        if (!uploadRes.ok) throw new Error("Image upload failed");
-        const uploadData = await uploadRes.json();
+        const uploadData = await api.uploads.image(selectedFile);
         imageUrl = uploadData.image_url;
       }
 
       // Save product
-      const url = product
-        ? `${API_BASE}/api/products/${product.id}`
-        : `${API_BASE}/api/products`;
-
-      const res = await fetch(url, {
-        method: product ? "PUT" : "POST",
-        headers: {
-          "Content-Type": "application/json",
-          ...getAuthHeaders(),
-        },
-        body: JSON.stringify({
-          name: name.trim(),
-          category: category.trim(),
-          price: priceNum,
-          needs_temp: needsTemp,
-          image_url: imageUrl,
-        }),
-      });
-
-      if (!res.ok) throw new Error("Failed to save product");
+      const payload = {
+        name: name.trim(),
+        category: category.trim(),
+        price: priceNum,
+        needs_temp: needsTemp,
+        image_url: imageUrl,
+        // Edited separately in ModifierGroupsModal and the Inventory recipes
+        modifier_groups: product?.modifier_groups ?? [],
+        recipe: product?.recipe ?? [],
+      };
+      if (product) await api.products.update(product.id, payload);
+      else await api.products.create(payload);
 
       toast.success(`Product ${product ? "updated" : "created"} successfully`);
       onSave();
@@ -1763,3 +1939,3098 @@ function ProductModal({ product, onClose, onSave }: ProductModalProps) {
     </div>
   );
 }
+
+// Starting points for the common modifier groups
+const MODIFIER_PRESETS: ModifierGroup[] = [
+  {
+    name: "Size",
+    required: true,
+    multiple: false,
+    options: [
+      { name: "12oz", price_delta: 0 },
+      { name: "16oz", price_delta: 20 },
+      { name: "22oz", price_delta: 40 },
+    ],
+  },
+  {
+    name: "Add-ons",
+    required: false,
+    multiple: true,
+    options: [
+      { name: "Extra shot", price_delta: 30 },
+      { name: "Oat milk", price_delta: 30 },
+      { name: "Syrup", price_delta: 20 },
+    ],
+  },
+  {
+    name: "Sugar Level",
+    required: false,
+    multiple: false,
+    options: [
+      { name: "0%", price_delta: 0 },
+      { name: "25%", price_delta: 0 },
+      { name: "50%", price_delta: 0 },
+      { name: "75%", price_delta: 0 },
+      { name: "100%", price_delta: 0 },
+    ],
+  },
+];
+
+// Modifier Groups Modal Component
+interface ModifierGroupsModalProps {
+  product: Product;
+  onClose: () => void;
+  onSave: () => void;
+}
+
+function ModifierGroupsModal({
+  product,
+  onClose,
+  onSave,
+}: ModifierGroupsModalProps) {
+  const [groups, setGroups] = useState<ModifierGroup[]>(
+    product.modifier_groups ?? []
+  );
+  const [saving, setSaving] = useState(false);
+
+  const updateGroup = (index: number, changes: Partial<ModifierGroup>) => {
+    setGroups((prev) =>
+      prev.map((g, i) => (i === index ? { ...g, ...changes } : g))
+    );
+  };
+
+  const updateOption = (
+    groupIndex: number,
+    optionIndex: number,
+    changes: Partial<ModifierGroup["options"][number]>
+  ) => {
+    const group = groups[groupIndex];
+    updateGroup(groupIndex, {
+      options: group.options.map((o, i) =>
+        i === optionIndex ? { ...o, ...changes } : o
+      ),
+    });
+  };
+
+  const addGroup = (preset?: ModifierGroup) => {
+    setGroups((prev) => [
+      ...prev,
+      preset
+        ? { ...preset, options: preset.options.map((o) => ({ ...o })) }
+        : {
+            name: "",
+            required: false,
+            multiple: false,
+            options: [{ name: "", price_delta: 0 }],
+          },
+    ]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const names = groups.map((g) => g.name.trim().toLowerCase());
+    if (names.some((n) => !n)) {
+      toast.error("Every group needs a name");
+      return;
+    }
+    if (names.includes("temperature")) {
+      toast.error('"Temperature" is reserved for the Hot/Cold option');
+      return;
+    }
+    if (new Set(names).size !== names.length) {
+      toast.error("Group names must be unique");
+      return;
+    }
+    if (
+      groups.some(
+        (g) => g.options.length === 0 || g.options.some((o) => !o.name.trim())
+      )
+    ) {
+      toast.error("Every group needs at least one named option");
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      await api.products.update(product.id, {
+        name: product.name,
+        category: product.category,
+        price: product.price,
+        needs_temp: product.needs_temp,
+        image_url: product.image_url,
+        recipe: product.recipe ?? [],
+        modifier_groups: groups.map((g) => ({
+          ...g,
+          name: g.name.trim(),
+          options: g.options.map((o) => ({
+            ...o,
+            name: o.name.trim(),
+            price_delta: Number(o.price_delta) || 0,
+          })),
+        })),
+      });
+
+      toast.success("Modifiers updated successfully");
+      onSave();
+      onClose();
+    } catch (err) {
+      console.error(err);
+      toast.error(
+        err instanceof Error ? err.message : "Could not save modifiers"
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 backdrop-blur-sm bg-black/30 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg shadow-lg w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <h3 className="text-xl font-bold mb-1">Modifiers for {product.name}</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Price changes are added to the base price of ₱
+          {product.price.toLocaleString()}.
+          {product.needs_temp && " Hot/Cold is asked automatically."}
+        </p>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {groups.length === 0 && (
+            <p className="text-sm text-gray-400 italic">No modifier groups</p>
+          )}
+          {groups.map((group, groupIndex) => (
+            <div key={groupIndex} className="border rounded-lg p-4 space-y-3">
+              <div className="flex gap-2 items-center">
+                <input
+                  type="text"
+                  className="flex-1 border border-gray-300 rounded-lg p-2"
+                  value={group.name}
+                  onChange={(e) =>
+                    updateGroup(groupIndex, { name: e.target.value })
+                  }
+                  placeholder="Group name, e.g. Size"
+                />
+                <button
+                  type="button"
+                  onClick={() =>
+                    setGroups((prev) => prev.filter((_, i) => i !== groupIndex))
+                  }
+                  className="p-2 rounded hover:bg-gray-100 text-red-600"
+                  title="Delete group"
+                >
+                  <LuTrash2 size={18} />
+                </button>
+              </div>
+              <div className="flex gap-6">
+                <label className="flex items-center text-sm text-gray-900">
+                  <input
+                    type="checkbox"
+                    checked={group.required}
+                    onChange={(e) =>
+                      updateGroup(groupIndex, { required: e.target.checked })
+                    }
+                    className="h-4 w-4 text-amber-600 border-gray-300 rounded focus:ring-amber-500"
+                  />
+                  <span className="ml-2">Required</span>
+                </label>
+                <label className="flex items-center text-sm text-gray-900">
+                  <input
+                    type="checkbox"
+                    checked={group.multiple}
+                    onChange={(e) =>
+                      updateGroup(groupIndex, { multiple: e.target.checked })
+                    }
+                    className="h-4 w-4 text-amber-600 border-gray-300 rounded focus:ring-amber-500"
+                  />
+                  <span className="ml-2">Allow multiple</span>
+                </label>
+              </div>
+              <div className="space-y-2">
+                {group.options.map((option, optionIndex) => (
+                  <div key={optionIndex} className="flex gap-2 items-center">
+                    <input
+                      type="text"
+                      className="flex-1 border border-gray-300 rounded-lg p-2"
+                      value={option.name}
+                      onChange={(e) =>
+                        updateOption(groupIndex, optionIndex, {
+                          name: e.target.value,
+                        })
+                      }
+                      placeholder="Option, e.g. 16oz"
+                    />
+                    <input
+                      type="number"
+                      step="0.01"
+                      className="w-28 border border-gray-300 rounded-lg p-2"
+                      value={option.price_delta}
+                      onChange={(e) =>
+                        updateOption(groupIndex, optionIndex, {
+                          price_delta: parseFloat(e.target.value) || 0,
+                        })
+                      }
+                      title="Price change (₱)"
+                    />
+                    <button
+                      type="button"
+                      onClick={() =>
+                        updateGroup(groupIndex, {
+                          options: group.options.filter(
+                            (_, i) => i !== optionIndex
+                          ),
+                        })
+                      }
+                      className="p-1 rounded hover:bg-gray-100 text-red-600"
+                      title="Remove option"
+                    >
+                      <LuTrash2 size={14} />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() =>
+                    updateGroup(groupIndex, {
+                      options: [...group.options, { name: "", price_delta: 0 }],
+                    })
+                  }
+                  className="text-sm text-amber-700 hover:underline flex items-center gap-1"
+                >
+                  <LuPlus size={14} />
+                  Add Option
+                </button>
+              </div>
+            </div>
+          ))}
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={() => addGroup()}
+              className="text-sm px-3 py-1 rounded-lg border border-gray-300 hover:bg-gray-50 flex items-center gap-1"
+            >
+              <LuPlus size={14} />
+              Add Group
+            </button>
+            {MODIFIER_PRESETS.filter(
+              (preset) => !groups.some((g) => g.name === preset.name)
+            ).map((preset) => (
+              <button
+                key={preset.name}
+                type="button"
+                onClick={() => addGroup(preset)}
+                className="text-sm px-3 py-1 rounded-lg border border-gray-300 hover:bg-gray-50 flex items-center gap-1"
+              >
+                <LuPlus size={14} />
+                {preset.name}
+              </button>
+            ))}
+          </div>
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg border border-gray-200 hover:bg-gray-50"
+              disabled={saving}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 rounded-lg bg-amber-800 text-white hover:bg-amber-700 flex items-center"
+              disabled={saving}
+            >
+              {saving ? <Spinner size="sm" thickness={2} /> : "Save"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+// ===== DISCOUNT RULES MANAGEMENT =====
+
+type DiscountCategoryOptions = Record<BusinessUnit, string[]>;
+
+// --------------------
+// Discount Rules Tab
+// --------------------
+// Allows managers to define the discounts offered by both POS pages.
+function DiscountRules() {
+  // List of discount rules
+  const [rules, setRules] = useState<DiscountRule[]>([]);
+  // Categories per business unit, for category restrictions
+  const [categoryOptions, setCategoryOptions] =
+    useState<DiscountCategoryOptions>({ Coffee: [], Carwash: [] });
+  // Loading state for async fetch
+  const [loading, setLoading] = useState(true);
+  // Currently editing rule (null if adding)
+  const [editingRule, setEditingRule] = useState<DiscountRule | null>(null);
+  // Modal state for add/edit rule
+  const [showRuleModal, setShowRuleModal] = useState(false);
+
+  // Fetch all discount rules from API
+  const fetchRules = async () => {
+    try {
+      setLoading(true);
+      const data = await api.discounts.list();
+      setRules(data.map(normalizeDiscountRule));
+    } catch (err) {
+      console.error(err);
+      toast.error("Could not load discount rules");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Load rules and the category lists on mount
+  useEffect(() => {
+    fetchRules();
+    Promise.allSettled([
+      api.products.list(),
+      api.carwashCatalog.admin.services(),
+    ]).then(([products, services]) => {
+      setCategoryOptions({
+        Coffee:
+          products.status === "fulfilled"
+            ? Array.from(new Set(products.value.map((p) => p.category)))
+            : [],
+        Carwash:
+          services.status === "fulfilled"
+            ? Array.from(new Set(services.value.map((s) => s.category)))
+            : [],
+      });
+    });
+  }, []);
+
+  // Handlers for add/edit/delete rule
+  const handleAddRule = () => {
+    setEditingRule(null);
+    setShowRuleModal(true);
+  };
+
+  const handleEditRule = (rule: DiscountRule) => {
+    setEditingRule(rule);
+    setShowRuleModal(true);
+  };
+
+  const handleDeleteRule = async (id: number, name: string) => {
+    if (!confirm(`Delete discount "${name}"?`)) return;
+
+    try {
+      await api.discounts.remove(id);
+
+      toast.success("Discount deleted successfully");
+      fetchRules();
+    } catch (err) {
+      console.error(err);
+      toast.error("Could not delete discount");
+    }
+  };
+
+  const handleToggleRuleActive = async (rule: DiscountRule) => {
+    try {
+      await api.discounts.update(rule.id, { is_active: !rule.is_active });
+
+      toast.success(`Discount ${!rule.is_active ? "activated" : "deactivated"}`);
+      fetchRules();
+    } catch (err) {
+      console.error(err);
+      toast.error("Could not update discount");
+    }
+  };
+
+  if (loading) return <PageLoader />;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-xl font-bold">Discount Rules</h2>
+          <p className="text-sm text-gray-600">
+            Manage discounts offered by the Coffee and Carwash POS
+          </p>
+        </div>
+        <button
+          onClick={handleAddRule}
+          className="flex items-center gap-2 bg-amber-700 text-white px-4 py-2 rounded-lg hover:bg-amber-600 transition-colors"
+        >
+          <LuPlus size={18} />
+          Add Discount
+        </button>
+      </div>
+
+      {/* Rules List */}
+      {rules.length === 0 ? (
+        <p className="text-sm text-gray-400 italic">No discounts defined</p>
+      ) : (
+        <div className="space-y-4">
+          {rules.map((rule) => (
+            <div
+              key={rule.id}
+              className={`bg-white rounded-lg shadow-sm border p-6 ${
+                !rule.is_active ? "opacity-60" : ""
+              }`}
+            >
+              <div className="flex justify-between items-start">
+                <div className="flex-1">
+                  <div className="flex items-center gap-3">
+                    <h3 className="text-lg font-bold">{rule.name}</h3>
+                    <span className="text-xs px-2 py-1 rounded bg-blue-100 text-blue-700">
+                      {rule.business_unit === "All"
+                        ? "Coffee & Carwash"
+                        : rule.business_unit}
+                    </span>
+                    {rule.requires_id && (
+                      <span className="text-xs px-2 py-1 rounded bg-purple-100 text-purple-700">
+                        ID required
+                      </span>
+                    )}
+                    {rule.vat_exempt && (
+                      <span className="text-xs px-2 py-1 rounded bg-green-100 text-green-700">
+                        VAT-exempt
+                      </span>
+                    )}
+                    {!rule.is_active && (
+                      <span className="text-xs px-2 py-1 rounded bg-gray-200 text-gray-700">
+                        Inactive
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-600 mt-1">
+                    {describeRule(rule)}
+                    {rule.max_amount !== null &&
+                      ` · max ₱${rule.max_amount.toLocaleString()}`}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Categories:{" "}
+                    {rule.categories.length > 0
+                      ? rule.categories.join(", ")
+                      : "All"}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleToggleRuleActive(rule)}
+                    className="p-2 rounded hover:bg-gray-100"
+                    title={rule.is_active ? "Deactivate" : "Activate"}
+                  >
+                    {rule.is_active ? "🟢" : "⚪"}
+                  </button>
+                  <button
+                    onClick={() => handleEditRule(rule)}
+                    className="p-2 rounded hover:bg-gray-100 text-blue-600"
+                    title="Edit discount"
+                  >
+                    <LuPencil size={18} />
+                  </button>
+                  <button
+                    onClick={() => handleDeleteRule(rule.id, rule.name)}
+                    className="p-2 rounded hover:bg-gray-100 text-red-600"
+                    title="Delete discount"
+                  >
+                    <LuTrash2 size={18} />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Modals */}
+      {showRuleModal && (
+        <DiscountRuleModal
+          rule={editingRule}
+          categoryOptions={categoryOptions}
+          onClose={() => {
+            setShowRuleModal(false);
+            setEditingRule(null);
+          }}
+          onSave={fetchRules}
+        />
+      )}
+    </div>
+  );
+}
+
+// Discount Rule Modal Component
+interface DiscountRuleModalProps {
+  rule: DiscountRule | null;
+  categoryOptions: DiscountCategoryOptions;
+  onClose: () => void;
+  onSave: () => void;
+}
+
+function DiscountRuleModal({
+  rule,
+  categoryOptions,
+  onClose,
+  onSave,
+}: DiscountRuleModalProps) {
+  const [name, setName] = useState(rule?.name || "");
+  const [type, setType] = useState<DiscountType>(rule?.type || "percentage");
+  const [value, setValue] = useState(rule?.value?.toString() || "");
+  const [scope, setScope] = useState<DiscountScope>(rule?.scope || "order");
+  const [businessUnit, setBusinessUnit] = useState<BusinessUnit | "All">(
+    rule?.business_unit || "All"
+  );
+  const [categories, setCategories] = useState<string[]>(
+    rule?.categories || []
+  );
+  const [maxAmount, setMaxAmount] = useState(
+    rule?.max_amount?.toString() || ""
+  );
+  const [requiresId, setRequiresId] = useState(rule?.requires_id || false);
+  const [vatExempt, setVatExempt] = useState(rule?.vat_exempt || false);
+  const [saving, setSaving] = useState(false);
+
+  // Categories offered for the selected business unit
+  const availableCategories = Array.from(
+    new Set([
+      ...(businessUnit === "Carwash" ? [] : categoryOptions.Coffee),
+      ...(businessUnit === "Coffee" ? [] : categoryOptions.Carwash),
+      ...categories,
+    ])
+  );
+
+  const toggleCategory = (category: string) => {
+    setCategories((prev) =>
+      prev.includes(category)
+        ? prev.filter((c) => c !== category)
+        : [...prev, category]
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim() || !value) {
+      toast.error("Name and value are required");
+      return;
+    }
+
+    const valueNum = parseFloat(value);
+    if (
+      isNaN(valueNum) ||
+      valueNum <= 0 ||
+      (type === "percentage" && valueNum > 100)
+    ) {
+      toast.error("Invalid discount value");
+      return;
+    }
+
+    const maxNum = maxAmount ? parseFloat(maxAmount) : null;
+    if (maxNum !== null && (isNaN(maxNum) || maxNum <= 0)) {
+      toast.error("Invalid maximum discount");
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      const payload: DiscountRulePayload = {
+        name: name.trim(),
+        type,
+        value: valueNum,
+        scope,
+        business_unit: businessUnit,
+        categories,
+        max_amount: maxNum,
+        requires_id: requiresId,
+        vat_exempt: vatExempt,
+      };
+      if (rule) await api.discounts.update(rule.id, payload);
+      else await api.discounts.create({ ...payload, is_active: true });
+
+      toast.success(`Discount ${rule ? "updated" : "created"} successfully`);
+      onSave();
+      onClose();
+    } catch (err) {
+      console.error(err);
+      const errorMessage =
+        err instanceof Error ? err.message : "Could not save discount";
+      toast.error(errorMessage);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 backdrop-blur-sm bg-black/30 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg shadow-lg w-full max-w-md max-h-[90vh] overflow-y-auto">
+        <h3 className="text-xl font-bold mb-4">
+          {rule ? "Edit Discount" : "Add Discount"}
+        </h3>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Name *
+            </label>
+            <input
+              type="text"
+              className="w-full border border-gray-300 rounded-lg p-2"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+              placeholder="e.g. Senior, PWD, Employee"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Type *
+              </label>
+              <select
+                className="w-full border border-gray-300 rounded-lg p-2 bg-white"
+                value={type}
+                onChange={(e) => setType(e.target.value as DiscountType)}
+              >
+                <option value="percentage">Percentage (%)</option>
+                <option value="fixed">Fixed amount (₱)</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Value *
+              </label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                className="w-full border border-gray-300 rounded-lg p-2"
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                required
+                placeholder={type === "percentage" ? "20" : "0.00"}
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Applies To *
+              </label>
+              <select
+                className="w-full border border-gray-300 rounded-lg p-2 bg-white"
+                value={scope}
+                onChange={(e) => setScope(e.target.value as DiscountScope)}
+              >
+                <option value="order">Whole order</option>
+                <option value="item">Each item</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Business Unit *
+              </label>
+              <select
+                className="w-full border border-gray-300 rounded-lg p-2 bg-white"
+                value={businessUnit}
+                onChange={(e) =>
+                  setBusinessUnit(e.target.value as BusinessUnit | "All")
+                }
+              >
+                <option value="All">Coffee & Carwash</option>
+                <option value="Coffee">Coffee</option>
+                <option value="Carwash">Carwash</option>
+              </select>
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Maximum Discount (₱)
+            </label>
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              className="w-full border border-gray-300 rounded-lg p-2"
+              value={maxAmount}
+              onChange={(e) => setMaxAmount(e.target.value)}
+              placeholder="No limit"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Categories
+            </label>
+            <p className="text-xs text-gray-500 mb-2">
+              Leave all unchecked to apply to every category.
+            </p>
+            {availableCategories.length === 0 ? (
+              <p className="text-sm text-gray-400 italic">
+                No categories available
+              </p>
+            ) : (
+              <div className="grid grid-cols-2 gap-2">
+                {availableCategories.map((category) => (
+                  <label
+                    key={category}
+                    className="flex items-center text-sm text-gray-900"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={categories.includes(category)}
+                      onChange={() => toggleCategory(category)}
+                      className="h-4 w-4 text-amber-600 border-gray-300 rounded focus:ring-amber-500"
+                    />
+                    <span className="ml-2">{category}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+          <div className="flex items-center">
+            <input
+              type="checkbox"
+              checked={requiresId}
+              onChange={(e) => setRequiresId(e.target.checked)}
+              id="requires-id-discount"
+              className="h-4 w-4 text-amber-600 border-gray-300 rounded focus:ring-amber-500"
+            />
+            <label
+              htmlFor="requires-id-discount"
+              className="ml-2 block text-sm text-gray-900"
+            >
+              Require ID number (Senior/PWD)?
+            </label>
+          </div>
+          <div className="flex items-center">
+            <input
+              type="checkbox"
+              checked={vatExempt}
+              onChange={(e) => setVatExempt(e.target.checked)}
+              id="vat-exempt-discount"
+              className="h-4 w-4 text-amber-600 border-gray-300 rounded focus:ring-amber-500"
+            />
+            <label
+              htmlFor="vat-exempt-discount"
+              className="ml-2 block text-sm text-gray-900"
+            >
+              VAT-exempt sale (remove 12% VAT before discount)?
+            </label>
+          </div>
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg border border-gray-200 hover:bg-gray-50"
+              disabled={saving}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 rounded-lg bg-amber-800 text-white hover:bg-amber-700 flex items-center"
+              disabled={saving}
+            >
+              {saving ? (
+                <Spinner size="sm" thickness={2} />
+              ) : rule ? (
+                "Save"
+              ) : (
+                "Create"
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+// --------------------
+// Official Receipts Tab
+// --------------------
+// Allows managers to configure OR number series and review issued numbers.
+function ReceiptSettings() {
+  // OR series for every business unit and terminal
+  const [series, setSeries] = useState<ReceiptSeries[]>([]);
+  // Loading state for async fetch
+  const [loading, setLoading] = useState(true);
+  // Terminal this device issues receipts as, once the backend confirms it
+  const [confirmedTerminal, setConfirmedTerminal] = useState(getTerminalId);
+  const [terminalId, setTerminalIdInput] = useState(
+    () => getTerminalId() ?? suggestedTerminalId()
+  );
+  const [savingTerminal, setSavingTerminal] = useState(false);
+  // Currently editing series (null if adding)
+  const [editingSeries, setEditingSeries] = useState<ReceiptSeries | null>(
+    null
+  );
+  // Modal state for add/edit series
+  const [showSeriesModal, setShowSeriesModal] = useState(false);
+
+  // Fetch all series from API
+  const fetchSeries = async () => {
+    try {
+      setLoading(true);
+      const data = await api.receipts.series();
+      setSeries(data);
+    } catch (err) {
+      console.error(err);
+      toast.error("Could not load receipt series");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSeries();
+  }, []);
+
+  const handleSaveTerminal = async () => {
+    setSavingTerminal(true);
+    let claimed: string;
+    try {
+      claimed = await registerTerminal(terminalId);
+    } catch (err) {
+      console.error(err);
+      toast.error(
+        err instanceof ApiError && err.status === 409
+          ? `Terminal ${terminalId.trim()} is already used by another device`
+          : err instanceof Error
+          ? err.message
+          : "Could not register the terminal"
+      );
+      return;
+    } finally {
+      setSavingTerminal(false);
+    }
+
+    setConfirmedTerminal(claimed);
+    setTerminalIdInput(claimed);
+    try {
+      await syncReceiptSeries();
+      toast.success(`This device now issues receipts as ${claimed}`);
+    } catch (err) {
+      console.error(err);
+      toast.warning("Terminal saved, but its series could not be loaded");
+    }
+  };
+
+  const handleDeleteSeries = async (s: ReceiptSeries) => {
+    if (
+      !confirm(
+        `Delete the ${s.business_unit} series for terminal ${s.terminal_id}?`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await api.receipts.removeSeries(s.id);
+
+      toast.success("Series deleted successfully");
+      fetchSeries();
+    } catch (err) {
+      console.error(err);
+      toast.error("Could not delete series");
+    }
+  };
+
+  if (loading) return <PageLoader />;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-xl font-bold">Official Receipts</h2>
+          <p className="text-sm text-gray-600">
+            OR numbers run per business unit and terminal without gaps
+          </p>
+        </div>
+        <button
+          onClick={() => {
+            setEditingSeries(null);
+            setShowSeriesModal(true);
+          }}
+          className="flex items-center gap-2 bg-amber-700 text-white px-4 py-2 rounded-lg hover:bg-amber-600 transition-colors"
+        >
+          <LuPlus size={18} />
+          Add Series
+        </button>
+      </div>
+
+      {/* This Device */}
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          This Device&apos;s Terminal ID
+        </label>
+        <div className="flex gap-2 max-w-sm">
+          <input
+            type="text"
+            className="w-full border border-gray-300 rounded-lg p-2"
+            value={terminalId}
+            onChange={(e) => setTerminalIdInput(e.target.value.toUpperCase())}
+            placeholder="T1"
+          />
+          <button
+            onClick={handleSaveTerminal}
+            disabled={savingTerminal || !terminalId.trim()}
+            className="px-4 py-2 rounded-lg bg-amber-800 text-white hover:bg-amber-700 disabled:opacity-50"
+          >
+            {savingTerminal ? <Spinner size="sm" thickness={2} /> : "Save"}
+          </button>
+        </div>
+        <p className="text-xs text-gray-500 mt-1">
+          Each register must use its own terminal ID so numbers never collide.
+          The server refuses an ID another device already holds.
+        </p>
+        {confirmedTerminal ? (
+          <p className="text-xs text-green-700 mt-1">
+            Confirmed: this device issues receipts as {confirmedTerminal}.
+          </p>
+        ) : (
+          <p className="text-xs text-red-600 mt-1">
+            Not set up: this device can&apos;t issue OR numbers until its
+            terminal ID is saved.
+          </p>
+        )}
+      </div>
+
+      {/* Series List */}
+      {series.length === 0 ? (
+        <p className="text-sm text-gray-400 italic">
+          No series defined. Terminals use CF-/CW- numbering until one is
+          added.
+        </p>
+      ) : (
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Business Unit
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Terminal
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Next Number
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Resets
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {series.map((s) => (
+                <tr
+                  key={s.id}
+                  className={`hover:bg-gray-50 ${
+                    !s.is_active ? "opacity-60" : ""
+                  }`}
+                >
+                  <td className="px-4 py-3 text-sm font-medium">
+                    {s.business_unit}
+                    {!s.is_active && (
+                      <span className="ml-2 text-xs px-2 py-1 rounded bg-gray-200 text-gray-700">
+                        Inactive
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm">{s.terminal_id}</td>
+                  <td className="px-4 py-3 text-sm font-mono">
+                    {nextReceiptNumber(s)}
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    {RESET_RULES.find((r) => r.value === s.reset_rule)
+                      ?.label ?? s.reset_rule}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    <button
+                      onClick={() => {
+                        setEditingSeries(s);
+                        setShowSeriesModal(true);
+                      }}
+                      className="p-2 rounded hover:bg-gray-100 text-blue-600"
+                      title="Edit series"
+                    >
+                      <LuPencil size={18} />
+                    </button>
+                    <button
+                      onClick={() => handleDeleteSeries(s)}
+                      className="p-2 rounded hover:bg-gray-100 text-red-600"
+                      title="Delete series"
+                    >
+                      <LuTrash2 size={18} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <ReceiptRegister />
+
+      {/* Modals */}
+      {showSeriesModal && (
+        <ReceiptSeriesModal
+          series={editingSeries}
+          onClose={() => {
+            setShowSeriesModal(false);
+            setEditingSeries(null);
+          }}
+          onSave={fetchSeries}
+        />
+      )}
+    </div>
+  );
+}
+
+// Register of issued and voided OR numbers
+function ReceiptRegister() {
+  const [entries, setEntries] = useState<ReceiptRegisterEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [businessUnit, setBusinessUnit] = useState("");
+  const [status, setStatus] = useState("");
+  const [selectedDate, setSelectedDate] = useState("");
+
+  useEffect(() => {
+    const fetchRegister = async () => {
+      try {
+        setLoading(true);
+        const data = await api.receipts.register({
+          page,
+          size: 20,
+          businessUnit: businessUnit || undefined,
+          status: status || undefined,
+          startDate: selectedDate || undefined,
+          endDate: selectedDate || undefined,
+        });
+        setEntries(data.entries || []);
+        setTotalPages(data.totalPages || 1);
+      } catch (err) {
+        console.error(err);
+        toast.error("Could not load the receipt register");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchRegister();
+  }, [page, businessUnit, status, selectedDate]);
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">
+            Receipt Register
+          </h3>
+          <p className="text-sm text-gray-600 mt-1">
+            Every OR number issued. Voiding an order voids its number.
+          </p>
+        </div>
+        <div className="flex flex-col sm:flex-row gap-2 mt-2 sm:mt-0">
+          <select
+            className="border border-gray-300 rounded px-2 py-1 text-sm"
+            value={businessUnit}
+            onChange={(e) => {
+              setBusinessUnit(e.target.value);
+              setPage(1);
+            }}
+          >
+            <option value="">All Units</option>
+            <option value="Coffee">Coffee</option>
+            <option value="Carwash">Carwash</option>
+          </select>
+          <select
+            className="border border-gray-300 rounded px-2 py-1 text-sm"
+            value={status}
+            onChange={(e) => {
+              setStatus(e.target.value);
+              setPage(1);
+            }}
+          >
+            <option value="">All Statuses</option>
+            <option value="issued">Issued</option>
+            <option value="voided">Voided</option>
+          </select>
+          <input
+            type="date"
+            className="border border-gray-300 rounded px-2 py-1 text-sm"
+            value={selectedDate}
+            onChange={(e) => {
+              setSelectedDate(e.target.value);
+              setPage(1);
+            }}
+            max={new Date().toISOString().slice(0, 10)}
+          />
+        </div>
+      </div>
+      {loading ? (
+        <div className="flex justify-center py-10">
+          <Spinner size="md" />
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="p-8 text-center text-gray-500">
+          No receipts issued yet.
+        </div>
+      ) : (
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                OR No
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                Issued
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                Order
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                Total
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                Status
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {entries.map((entry) => (
+              <tr key={entry.or_number} className="hover:bg-gray-50">
+                <td className="px-4 py-3 text-sm font-mono">
+                  {entry.or_number}
+                  <div className="text-xs text-gray-500 font-sans">
+                    {entry.business_unit} · {entry.terminal_id}
+                  </div>
+                </td>
+                <td className="px-4 py-3 text-sm">
+                  {new Date(entry.issued_at).toLocaleString()}
+                  {entry.issued_by_name && (
+                    <div className="text-xs text-gray-500">
+                      {entry.issued_by_name}
+                    </div>
+                  )}
+                </td>
+                <td className="px-4 py-3 text-sm">#{entry.order_id}</td>
+                <td className="px-4 py-3 text-sm">
+                  ₱{Number(entry.total).toFixed(2)}
+                </td>
+                <td className="px-4 py-3 text-sm">
+                  <span
+                    className={`px-2 py-1 rounded text-xs font-semibold ${
+                      entry.status === "voided"
+                        ? "bg-red-100 text-red-700"
+                        : "bg-emerald-100 text-emerald-700"
+                    }`}
+                  >
+                    {entry.status}
+                  </span>
+                  {entry.status === "voided" && entry.void_reason && (
+                    <div className="text-xs text-gray-500 mt-1">
+                      {entry.void_reason}
+                    </div>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {totalPages > 1 && (
+        <div className="px-6 py-3 border-t border-gray-200 flex items-center justify-between text-sm">
+          <button
+            onClick={() => setPage((p) => Math.max(1, p - 1))}
+            disabled={page <= 1}
+            className="px-3 py-1 rounded border border-gray-300 disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <span className="text-gray-600">
+            Page {page} of {totalPages}
+          </span>
+          <button
+            onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+            disabled={page >= totalPages}
+            className="px-3 py-1 rounded border border-gray-300 disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Receipt Series Modal Component
+interface ReceiptSeriesModalProps {
+  series: ReceiptSeries | null;
+  onClose: () => void;
+  onSave: () => void;
+}
+
+function ReceiptSeriesModal({
+  series,
+  onClose,
+  onSave,
+}: ReceiptSeriesModalProps) {
+  const [businessUnit, setBusinessUnit] = useState<BusinessUnit>(
+    series?.business_unit || "Coffee"
+  );
+  const [terminalId, setTerminalIdValue] = useState(
+    series?.terminal_id || getTerminalId() || ""
+  );
+  const [prefix, setPrefix] = useState(series?.prefix ?? "");
+  const [padding, setPadding] = useState(String(series?.padding ?? 6));
+  const [resetRule, setResetRule] = useState<ReceiptResetRule>(
+    series?.reset_rule || "never"
+  );
+  const [nextNumber, setNextNumber] = useState(
+    String(series?.next_number ?? 1)
+  );
+  const [isActive, setIsActive] = useState(series?.is_active ?? true);
+  const [saving, setSaving] = useState(false);
+
+  const paddingNum = parseInt(padding, 10);
+  const nextNum = parseInt(nextNumber, 10);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!terminalId.trim()) {
+      toast.error("Terminal ID is required");
+      return;
+    }
+    if (isNaN(paddingNum) || paddingNum < 1 || paddingNum > 12) {
+      toast.error("Digits must be between 1 and 12");
+      return;
+    }
+    if (isNaN(nextNum) || nextNum < 1) {
+      toast.error("Invalid next number");
+      return;
+    }
+    if (
+      series &&
+      nextNum < Number(series.next_number) &&
+      !confirm(
+        "Lowering the next number will reissue OR numbers already used. Continue?"
+      )
+    ) {
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      const payload: ReceiptSeriesPayload = {
+        business_unit: businessUnit,
+        terminal_id: terminalId.trim().toUpperCase(),
+        prefix,
+        padding: paddingNum,
+        reset_rule: resetRule,
+        next_number: nextNum,
+        is_active: isActive,
+      };
+      if (series) await api.receipts.updateSeries(series.id, payload);
+      else await api.receipts.createSeries(payload);
+
+      toast.success(`Series ${series ? "updated" : "created"} successfully`);
+      onSave();
+      onClose();
+    } catch (err) {
+      console.error(err);
+      const errorMessage =
+        err instanceof Error ? err.message : "Could not save series";
+      toast.error(errorMessage);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 backdrop-blur-sm bg-black/30 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg shadow-lg w-full max-w-md max-h-[90vh] overflow-y-auto">
+        <h3 className="text-xl font-bold mb-4">
+          {series ? "Edit Series" : "Add Series"}
+        </h3>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Business Unit *
+              </label>
+              <select
+                className="w-full border border-gray-300 rounded-lg p-2 bg-white"
+                value={businessUnit}
+                onChange={(e) =>
+                  setBusinessUnit(e.target.value as BusinessUnit)
+                }
+              >
+                <option value="Coffee">Coffee</option>
+                <option value="Carwash">Carwash</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Terminal ID *
+              </label>
+              <input
+                type="text"
+                className="w-full border border-gray-300 rounded-lg p-2"
+                value={terminalId}
+                onChange={(e) => setTerminalIdValue(e.target.value)}
+                required
+                placeholder="T1"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Prefix
+              </label>
+              <input
+                type="text"
+                className="w-full border border-gray-300 rounded-lg p-2"
+                value={prefix}
+                onChange={(e) => setPrefix(e.target.value)}
+                placeholder="e.g. CF1-"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Digits *
+              </label>
+              <input
+                type="number"
+                min="1"
+                max="12"
+                className="w-full border border-gray-300 rounded-lg p-2"
+                value={padding}
+                onChange={(e) => setPadding(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Reset *
+              </label>
+              <select
+                className="w-full border border-gray-300 rounded-lg p-2 bg-white"
+                value={resetRule}
+                onChange={(e) =>
+                  setResetRule(e.target.value as ReceiptResetRule)
+                }
+              >
+                {RESET_RULES.map((r) => (
+                  <option key={r.value} value={r.value}>
+                    {r.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Next Number *
+              </label>
+              <input
+                type="number"
+                min="1"
+                className="w-full border border-gray-300 rounded-lg p-2"
+                value={nextNumber}
+                onChange={(e) => setNextNumber(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            Next receipt:{" "}
+            <span className="font-mono">
+              {formatReceiptNumber(
+                { prefix, padding: paddingNum || 1 },
+                periodKey(resetRule, new Date()),
+                nextNum || 1
+              )}
+            </span>
+          </p>
+          <div className="flex items-center">
+            <input
+              type="checkbox"
+              checked={isActive}
+              onChange={(e) => setIsActive(e.target.checked)}
+              id="active-receipt-series"
+              className="h-4 w-4 text-amber-600 border-gray-300 rounded focus:ring-amber-500"
+            />
+            <label
+              htmlFor="active-receipt-series"
+              className="ml-2 block text-sm text-gray-900"
+            >
+              Active
+            </label>
+          </div>
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg border border-gray-200 hover:bg-gray-50"
+              disabled={saving}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 rounded-lg bg-amber-800 text-white hover:bg-amber-700 flex items-center"
+              disabled={saving}
+            >
+              {saving ? (
+                <Spinner size="sm" thickness={2} />
+              ) : series ? (
+                "Save"
+              ) : (
+                "Create"
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+// --------------------
+// Bays & Washers Tab
+// --------------------
+// Allows managers to set up wash bays and the washers assigned to tickets.
+function CarwashStaffing() {
+  const [bays, setBays] = useState<CarwashBay[]>([]);
+  const [washers, setWashers] = useState<Washer[]>([]);
+  // Loading state for async fetch
+  const [loading, setLoading] = useState(true);
+  // Bay being edited; null adds a new one, undefined keeps the modal closed
+  const [editingBay, setEditingBay] = useState<CarwashBay | null>();
+  const [editingWasher, setEditingWasher] = useState<Washer | null>();
+
+  // Fetch bays and washers from API
+  const fetchStaffing = async () => {
+    try {
+      setLoading(true);
+      const [bayList, washerList] = await Promise.all([
+        api.carwashBays.list(),
+        api.washers.list(),
+      ]);
+      setBays(bayList);
+      setWashers(washerList);
+    } catch (err) {
+      console.error(err);
+      toast.error("Could not load bays and washers");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchStaffing();
+  }, []);
+
+  const handleToggleBay = async (bay: CarwashBay) => {
+    try {
+      await api.carwashBays.update(bay.id, { is_active: !bay.is_active });
+      toast.success(`Bay ${!bay.is_active ? "activated" : "deactivated"}`);
+      fetchStaffing();
+    } catch (err) {
+      console.error(err);
+      toast.error("Could not update bay");
+    }
+  };
+
+  const handleDeleteBay = async (bay: CarwashBay) => {
+    if (!confirm(`Delete bay "${bay.name}"?`)) return;
+    try {
+      await api.carwashBays.remove(bay.id);
+      toast.success("Bay deleted successfully");
+      fetchStaffing();
+    } catch (err) {
+      console.error(err);
+      toast.error("Could not delete bay");
+    }
+  };
+
+  const handleToggleWasher = async (washer: Washer) => {
+    try {
+      await api.washers.update(washer.id, { is_active: !washer.is_active });
+      toast.success(
+        `Washer ${!washer.is_active ? "activated" : "deactivated"}`
+      );
+      fetchStaffing();
+    } catch (err) {
+      console.error(err);
+      toast.error("Could not update washer");
+    }
+  };
+
+  const handleDeleteWasher = async (washer: Washer) => {
+    if (!confirm(`Delete washer "${washer.name}"?`)) return;
+    try {
+      await api.washers.remove(washer.id);
+      toast.success("Washer deleted successfully");
+      fetchStaffing();
+    } catch (err) {
+      console.error(err);
+      toast.error("Could not delete washer");
+    }
+  };
+
+  if (loading) return <PageLoader />;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {/* Bays */}
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className="text-xl font-bold">Wash Bays</h2>
+            <p className="text-sm text-gray-600">
+              Bays shown on the Carwash Services board
+            </p>
+          </div>
+          <button
+            onClick={() => setEditingBay(null)}
+            className="flex items-center gap-2 bg-amber-700 text-white px-4 py-2 rounded-lg hover:bg-amber-600 transition-colors"
+          >
+            <LuPlus size={18} />
+            Add Bay
+          </button>
+        </div>
+        {bays.length === 0 ? (
+          <p className="text-sm text-gray-400 italic">No bays defined</p>
+        ) : (
+          <div className="divide-y">
+            {bays.map((bay) => (
+              <div
+                key={bay.id}
+                className={`flex items-center justify-between py-2 ${
+                  !bay.is_active ? "opacity-60" : ""
+                }`}
+              >
+                <span className="font-medium">{bay.name}</span>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleToggleBay(bay)}
+                    className="p-2 rounded hover:bg-gray-100"
+                    title={bay.is_active ? "Deactivate" : "Activate"}
+                  >
+                    {bay.is_active ? "🟢" : "⚪"}
+                  </button>
+                  <button
+                    onClick={() => setEditingBay(bay)}
+                    className="p-2 rounded hover:bg-gray-100 text-blue-600"
+                    title="Edit bay"
+                  >
+                    <LuPencil size={18} />
+                  </button>
+                  <button
+                    onClick={() => handleDeleteBay(bay)}
+                    className="p-2 rounded hover:bg-gray-100 text-red-600"
+                    title="Delete bay"
+                  >
+                    <LuTrash2 size={18} />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Washers */}
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className="text-xl font-bold">Washers</h2>
+            <p className="text-sm text-gray-600">
+              Staff assigned to tickets when a service starts
+            </p>
+          </div>
+          <button
+            onClick={() => setEditingWasher(null)}
+            className="flex items-center gap-2 bg-amber-700 text-white px-4 py-2 rounded-lg hover:bg-amber-600 transition-colors"
+          >
+            <LuPlus size={18} />
+            Add Washer
+          </button>
+        </div>
+        {washers.length === 0 ? (
+          <p className="text-sm text-gray-400 italic">No washers defined</p>
+        ) : (
+          <div className="divide-y">
+            {washers.map((washer) => (
+              <div
+                key={washer.id}
+                className={`flex items-center justify-between py-2 ${
+                  !washer.is_active ? "opacity-60" : ""
+                }`}
+              >
+                <div>
+                  <span className="font-medium">{washer.name}</span>
+                  {washer.phone && (
+                    <span className="block text-xs text-gray-500">
+                      {washer.phone}
+                    </span>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleToggleWasher(washer)}
+                    className="p-2 rounded hover:bg-gray-100"
+                    title={washer.is_active ? "Deactivate" : "Activate"}
+                  >
+                    {washer.is_active ? "🟢" : "⚪"}
+                  </button>
+                  <button
+                    onClick={() => setEditingWasher(washer)}
+                    className="p-2 rounded hover:bg-gray-100 text-blue-600"
+                    title="Edit washer"
+                  >
+                    <LuPencil size={18} />
+                  </button>
+                  <button
+                    onClick={() => handleDeleteWasher(washer)}
+                    className="p-2 rounded hover:bg-gray-100 text-red-600"
+                    title="Delete washer"
+                  >
+                    <LuTrash2 size={18} />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Modals */}
+      {editingBay !== undefined && (
+        <StaffingModal
+          kind="Bay"
+          name={editingBay?.name ?? ""}
+          onClose={() => setEditingBay(undefined)}
+          onSubmit={async ({ name }) => {
+            if (editingBay) {
+              await api.carwashBays.update(editingBay.id, { name });
+            } else {
+              await api.carwashBays.create({ name, is_active: true });
+            }
+            fetchStaffing();
+          }}
+        />
+      )}
+      {editingWasher !== undefined && (
+        <StaffingModal
+          kind="Washer"
+          name={editingWasher?.name ?? ""}
+          phone={editingWasher?.phone ?? ""}
+          onClose={() => setEditingWasher(undefined)}
+          onSubmit={async ({ name, phone }) => {
+            const payload: WasherPayload = { name, phone: phone || null };
+            if (editingWasher) {
+              await api.washers.update(editingWasher.id, payload);
+            } else {
+              await api.washers.create({ ...payload, is_active: true });
+            }
+            fetchStaffing();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+// Bay / Washer Modal Component
+interface StaffingModalProps {
+  kind: "Bay" | "Washer";
+  name: string;
+  // Washers only
+  phone?: string;
+  onClose: () => void;
+  onSubmit: (values: { name: string; phone: string }) => Promise<void>;
+}
+
+function StaffingModal({
+  kind,
+  name: initialName,
+  phone: initialPhone,
+  onClose,
+  onSubmit,
+}: StaffingModalProps) {
+  const [name, setName] = useState(initialName);
+  const [phone, setPhone] = useState(initialPhone ?? "");
+  const [saving, setSaving] = useState(false);
+  const editing = initialName !== "";
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      toast.error("Name is required");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSubmit({ name: name.trim(), phone: phone.trim() });
+      toast.success(`${kind} ${editing ? "updated" : "created"} successfully`);
+      onClose();
+    } catch (err) {
+      console.error(err);
+      toast.error(
+        err instanceof Error
+          ? err.message
+          : `Could not save ${kind.toLowerCase()}`
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 backdrop-blur-sm bg-black/30 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg shadow-lg w-full max-w-md">
+        <h3 className="text-xl font-bold mb-4">
+          {editing ? `Edit ${kind}` : `Add ${kind}`}
+        </h3>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Name *
+            </label>
+            <input
+              type="text"
+              className="w-full border border-gray-300 rounded-lg p-2"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+              placeholder={kind === "Bay" ? "e.g. Bay 1" : "Full name"}
+              autoFocus
+            />
+          </div>
+          {kind === "Washer" && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Phone
+              </label>
+              <input
+                type="tel"
+                className="w-full border border-gray-300 rounded-lg p-2"
+                value={phone}
+                onChange={(e) => setPhone(e.target.value)}
+                placeholder="09XX XXX XXXX"
+              />
+            </div>
+          )}
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg border border-gray-200 hover:bg-gray-50"
+              disabled={saving}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 rounded-lg bg-amber-800 text-white hover:bg-amber-700 flex items-center"
+              disabled={saving}
+            >
+              {saving ? (
+                <Spinner size="sm" thickness={2} />
+              ) : editing ? (
+                "Save"
+              ) : (
+                "Create"
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+// --------------------
+// Loyalty Tab
+// --------------------
+// Allows managers to set how points are earned and the rewards they buy.
+function LoyaltyProgram() {
+  const [settings, setSettings] = useState<LoyaltySettings>(
+    DEFAULT_LOYALTY_SETTINGS
+  );
+  const [rewards, setRewards] = useState<LoyaltyReward[]>([]);
+  // Loading state for async fetch
+  const [loading, setLoading] = useState(true);
+  const [savingSettings, setSavingSettings] = useState(false);
+  // Reward being edited; null adds a new one, undefined keeps the modal closed
+  const [editingReward, setEditingReward] = useState<LoyaltyReward | null>();
+
+  // Fetch settings and rewards from API
+  const fetchLoyalty = async () => {
+    try {
+      setLoading(true);
+      const [settingsData, rewardList] = await Promise.all([
+        api.loyalty.settings(),
+        api.loyalty.rewards(),
+      ]);
+      setSettings(normalizeLoyaltySettings(settingsData));
+      setRewards(rewardList);
+    } catch (err) {
+      console.error(err);
+      toast.error("Could not load loyalty settings");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Load settings and rewards on mount
+  useEffect(() => {
+    fetchLoyalty();
+  }, []);
+
+  // Earn rate for a business unit, with both parts off by default
+  const earnRate = (unit: BusinessUnit): LoyaltyEarnRate =>
+    settings.earn_rates.find((r) => r.business_unit === unit) ?? {
+      business_unit: unit,
+      pesos_per_point: 0,
+      points_per_order: 0,
+    };
+
+  const updateEarnRate = (
+    unit: BusinessUnit,
+    field: "pesos_per_point" | "points_per_order",
+    value: string
+  ) => {
+    const rate = { ...earnRate(unit), [field]: Number(value) || 0 };
+    setSettings((prev) => ({
+      ...prev,
+      earn_rates: [
+        ...prev.earn_rates.filter((r) => r.business_unit !== unit),
+        rate,
+      ],
+    }));
+  };
+
+  const handleSaveSettings = async () => {
+    setSavingSettings(true);
+    try {
+      const saved = await api.loyalty.updateSettings({
+        ...settings,
+        earn_rates: (["Coffee", "Carwash"] as BusinessUnit[]).map(earnRate),
+      });
+      setSettings(normalizeLoyaltySettings(saved));
+      toast.success("Loyalty settings saved");
+    } catch (err) {
+      console.error(err);
+      toast.error("Could not save loyalty settings");
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
+  const handleToggleRewardActive = async (reward: LoyaltyReward) => {
+    try {
+      await api.loyalty.updateReward(reward.id, {
+        is_active: !reward.is_active,
+      });
+      toast.success(`Reward ${!reward.is_active ? "activated" : "deactivated"}`);
+      fetchLoyalty();
+    } catch (err) {
+      console.error(err);
+      toast.error("Could not update reward");
+    }
+  };
+
+  const handleDeleteReward = async (reward: LoyaltyReward) => {
+    if (!confirm(`Delete reward "${reward.name}"?`)) return;
+
+    try {
+      await api.loyalty.removeReward(reward.id);
+      toast.success("Reward deleted successfully");
+      fetchLoyalty();
+    } catch (err) {
+      console.error(err);
+      toast.error("Could not delete reward");
+    }
+  };
+
+  if (loading) return <PageLoader />;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-xl font-bold">Loyalty Program</h2>
+          <p className="text-sm text-gray-600">
+            Points earned by phone number in the Coffee and Carwash POS
+          </p>
+        </div>
+        <button
+          onClick={() =>
+            setSettings((prev) => ({ ...prev, is_enabled: !prev.is_enabled }))
+          }
+          className="flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-300 hover:bg-gray-50"
+          title={settings.is_enabled ? "Disable" : "Enable"}
+        >
+          {settings.is_enabled ? "🟢 Enabled" : "⚪ Disabled"}
+        </button>
+      </div>
+
+      {/* Earn rates */}
+      <div className="bg-white rounded-lg shadow-sm border p-6 space-y-4">
+        <h3 className="text-lg font-bold">Earning</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {(["Coffee", "Carwash"] as BusinessUnit[]).map((unit) => {
+            const rate = earnRate(unit);
+            return (
+              <div key={unit} className="border rounded-lg p-4">
+                <p className="font-semibold mb-3">{unit}</p>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      ₱ per point
+                    </label>
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      className="w-full border border-gray-300 rounded-lg p-2"
+                      value={rate.pesos_per_point || ""}
+                      onChange={(e) =>
+                        updateEarnRate(unit, "pesos_per_point", e.target.value)
+                      }
+                      placeholder="Off"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Points per order
+                    </label>
+                    <input
+                      type="number"
+                      step="1"
+                      min="0"
+                      className="w-full border border-gray-300 rounded-lg p-2"
+                      value={rate.points_per_order || ""}
+                      onChange={(e) =>
+                        updateEarnRate(unit, "points_per_order", e.target.value)
+                      }
+                      placeholder="Off"
+                    />
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+          <div className="sm:w-60">
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Point value (₱)
+            </label>
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              className="w-full border border-gray-300 rounded-lg p-2"
+              value={settings.point_value || ""}
+              onChange={(e) =>
+                setSettings((prev) => ({
+                  ...prev,
+                  point_value: Number(e.target.value) || 0,
+                }))
+              }
+              placeholder="0.00"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Used to value outstanding points in reports
+            </p>
+          </div>
+          <button
+            onClick={handleSaveSettings}
+            disabled={savingSettings}
+            className="sm:ml-auto px-4 py-2 rounded-lg bg-amber-800 text-white hover:bg-amber-700 flex items-center justify-center"
+          >
+            {savingSettings ? <Spinner size="sm" thickness={2} /> : "Save"}
+          </button>
+        </div>
+      </div>
+
+      {/* Rewards */}
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-bold">Rewards</h3>
+          <button
+            onClick={() => setEditingReward(null)}
+            className="flex items-center gap-2 bg-amber-700 text-white px-4 py-2 rounded-lg hover:bg-amber-600 transition-colors"
+          >
+            <LuPlus size={18} />
+            Add Reward
+          </button>
+        </div>
+        {rewards.length === 0 ? (
+          <p className="text-sm text-gray-400 italic">No rewards defined</p>
+        ) : (
+          <div className="divide-y">
+            {rewards.map((reward) => (
+              <div
+                key={reward.id}
+                className={`flex justify-between items-center py-3 ${
+                  !reward.is_active ? "opacity-60" : ""
+                }`}
+              >
+                <div>
+                  <div className="flex items-center gap-3">
+                    <p className="font-semibold">{reward.name}</p>
+                    <span className="text-xs px-2 py-1 rounded bg-blue-100 text-blue-700">
+                      {reward.business_unit === "All"
+                        ? "Coffee & Carwash"
+                        : reward.business_unit}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-600">
+                    {reward.points_cost} pts · ₱
+                    {Number(reward.value).toFixed(2)} off
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleToggleRewardActive(reward)}
+                    className="p-2 rounded hover:bg-gray-100"
+                    title={reward.is_active ? "Deactivate" : "Activate"}
+                  >
+                    {reward.is_active ? "🟢" : "⚪"}
+                  </button>
+                  <button
+                    onClick={() => setEditingReward(reward)}
+                    className="p-2 rounded hover:bg-gray-100 text-blue-600"
+                    title="Edit reward"
+                  >
+                    <LuPencil size={18} />
+                  </button>
+                  <button
+                    onClick={() => handleDeleteReward(reward)}
+                    className="p-2 rounded hover:bg-gray-100 text-red-600"
+                    title="Delete reward"
+                  >
+                    <LuTrash2 size={18} />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Modals */}
+      {editingReward !== undefined && (
+        <LoyaltyRewardModal
+          reward={editingReward}
+          onClose={() => setEditingReward(undefined)}
+          onSave={fetchLoyalty}
+        />
+      )}
+    </div>
+  );
+}
+
+// Loyalty Reward Modal Component
+interface LoyaltyRewardModalProps {
+  reward: LoyaltyReward | null;
+  onClose: () => void;
+  onSave: () => void;
+}
+
+function LoyaltyRewardModal({
+  reward,
+  onClose,
+  onSave,
+}: LoyaltyRewardModalProps) {
+  const [name, setName] = useState(reward?.name || "");
+  const [pointsCost, setPointsCost] = useState(
+    reward?.points_cost?.toString() || ""
+  );
+  const [value, setValue] = useState(reward?.value?.toString() || "");
+  const [businessUnit, setBusinessUnit] = useState<BusinessUnit | "All">(
+    reward?.business_unit || "All"
+  );
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const pointsNum = parseInt(pointsCost, 10);
+    const valueNum = parseFloat(value);
+    if (!name.trim() || isNaN(pointsNum) || pointsNum <= 0) {
+      toast.error("Name and points cost are required");
+      return;
+    }
+    if (isNaN(valueNum) || valueNum <= 0) {
+      toast.error("Invalid reward value");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const payload: LoyaltyRewardPayload = {
+        name: name.trim(),
+        points_cost: pointsNum,
+        value: valueNum,
+        business_unit: businessUnit,
+      };
+      if (reward) await api.loyalty.updateReward(reward.id, payload);
+      else await api.loyalty.createReward({ ...payload, is_active: true });
+
+      toast.success(`Reward ${reward ? "updated" : "created"} successfully`);
+      onSave();
+      onClose();
+    } catch (err) {
+      console.error(err);
+      toast.error(err instanceof Error ? err.message : "Could not save reward");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 backdrop-blur-sm bg-black/30 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg shadow-lg w-full max-w-md">
+        <h3 className="text-xl font-bold mb-4">
+          {reward ? "Edit Reward" : "Add Reward"}
+        </h3>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Name *
+            </label>
+            <input
+              type="text"
+              className="w-full border border-gray-300 rounded-lg p-2"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+              placeholder="e.g. Free Americano, ₱100 off wash"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Points Cost *
+              </label>
+              <input
+                type="number"
+                step="1"
+                min="1"
+                className="w-full border border-gray-300 rounded-lg p-2"
+                value={pointsCost}
+                onChange={(e) => setPointsCost(e.target.value)}
+                required
+                placeholder="100"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Value (₱) *
+              </label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                className="w-full border border-gray-300 rounded-lg p-2"
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                required
+                placeholder="0.00"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Business Unit *
+            </label>
+            <select
+              className="w-full border border-gray-300 rounded-lg p-2 bg-white"
+              value={businessUnit}
+              onChange={(e) =>
+                setBusinessUnit(e.target.value as BusinessUnit | "All")
+              }
+            >
+              <option value="All">Coffee & Carwash</option>
+              <option value="Coffee">Coffee</option>
+              <option value="Carwash">Carwash</option>
+            </select>
+          </div>
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg border border-gray-200 hover:bg-gray-50"
+              disabled={saving}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 rounded-lg bg-amber-800 text-white hover:bg-amber-700 flex items-center"
+              disabled={saving}
+            >
+              {saving ? (
+                <Spinner size="sm" thickness={2} />
+              ) : reward ? (
+                "Save"
+              ) : (
+                "Create"
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+// --------------------
+// Notifications Tab
+// --------------------
+// Allows managers to edit the message sent when a vehicle is ready.
+function NotificationSettings() {
+  const [template, setTemplate] = useState<NotificationTemplate | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Load the saved template on mount
+  useEffect(() => {
+    fetchTemplate("ticket_ready")
+      .then(setTemplate)
+      .catch((err) => {
+        console.error(err);
+        toast.error("Could not load message templates");
+        setTemplate({
+          event: "ticket_ready",
+          body: DEFAULT_TEMPLATES.ticket_ready,
+          is_enabled: true,
+        });
+      });
+  }, []);
+
+  const handleSave = async () => {
+    if (!template) return;
+    if (!template.body.trim()) {
+      toast.error("Message is required");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const saved = await api.notifications.updateTemplate(template.event, {
+        body: template.body.trim(),
+        is_enabled: template.is_enabled,
+      });
+      setTemplate(saved);
+      toast.success("Message template saved");
+    } catch (err) {
+      console.error(err);
+      toast.error("Could not save message template");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!template) return <PageLoader />;
+
+  // Sample ticket for the preview
+  const preview = renderTemplate(template.body, {
+    order_id: "ORD-1A2B3C4D",
+    created_at: new Date().toISOString(),
+    items: [
+      {
+        service_name: "Premium Wash",
+        vehicle: "Sedan",
+        price: 350,
+        quantity: 1,
+      },
+    ],
+    total: 350,
+    payment_method: "Cash",
+    status: "completed",
+    customer_name: "Juan",
+    plate_number: "ABC 1234",
+  });
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-xl font-bold">Customer Notifications</h2>
+          <p className="text-sm text-gray-600">
+            SMS sent when a carwash ticket is completed · gateway:{" "}
+            <span className="font-mono">{getNotificationGateway().name}</span>
+          </p>
+        </div>
+        <button
+          onClick={() =>
+            setTemplate({ ...template, is_enabled: !template.is_enabled })
+          }
+          className="flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-300 hover:bg-gray-50"
+          title={template.is_enabled ? "Disable" : "Enable"}
+        >
+          {template.is_enabled ? "🟢 Enabled" : "⚪ Disabled"}
+        </button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border p-6 space-y-4">
+        <h3 className="text-lg font-bold">Vehicle Ready</h3>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Message *
+          </label>
+          <textarea
+            className="w-full border border-gray-300 rounded-lg p-2 h-28"
+            value={template.body}
+            onChange={(e) =>
+              setTemplate({ ...template, body: e.target.value })
+            }
+          />
+          <div className="flex flex-wrap gap-2 mt-2">
+            {TEMPLATE_PLACEHOLDERS.map((placeholder) => (
+              <button
+                key={placeholder}
+                type="button"
+                onClick={() =>
+                  setTemplate({
+                    ...template,
+                    body: `${template.body} ${placeholder}`.trimStart(),
+                  })
+                }
+                className="text-xs font-mono px-2 py-1 rounded bg-gray-100 hover:bg-gray-200 text-gray-700"
+              >
+                {placeholder}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div>
+          <p className="block text-sm font-medium text-gray-700 mb-1">
+            Preview ({preview.length} characters)
+          </p>
+          <p className="text-sm bg-gray-50 border rounded-lg p-3">{preview}</p>
+        </div>
+        <div className="flex justify-end">
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 rounded-lg bg-amber-800 text-white hover:bg-amber-700 flex items-center"
+          >
+            {saving ? <Spinner size="sm" thickness={2} /> : "Save"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// --------------------
+// Appointments Tab
+// --------------------
+// Allows managers to set booking hours, slot length and capacity per weekday.
+function AppointmentSettings() {
+  const [days, setDays] = useState<AppointmentDay[] | null>(null);
+  const [activeBays, setActiveBays] = useState(0);
+  const [saving, setSaving] = useState(false);
+
+  // Load the schedule and the bay count used as the default capacity
+  useEffect(() => {
+    Promise.allSettled([
+      api.appointments.schedule(),
+      api.carwashBays.list(),
+    ]).then(([schedule, bays]) => {
+      if (schedule.status === "rejected") {
+        console.error(schedule.reason);
+        toast.error("Could not load booking hours");
+      }
+      setDays(
+        normalizeSchedule(
+          schedule.status === "fulfilled" ? schedule.value : []
+        )
+      );
+      if (bays.status === "fulfilled") {
+        setActiveBays(bays.value.filter((b) => b.is_active).length);
+      }
+    });
+  }, []);
+
+  const updateDay = (dayOfWeek: number, changes: Partial<AppointmentDay>) => {
+    setDays((prev) =>
+      prev
+        ? prev.map((d) =>
+            d.day_of_week === dayOfWeek ? { ...d, ...changes } : d
+          )
+        : prev
+    );
+  };
+
+  const handleSave = async () => {
+    if (!days) return;
+    const invalid = days.find(
+      (d) => d.is_open && (d.open_time >= d.close_time || d.slot_minutes <= 0)
+    );
+    if (invalid) {
+      toast.error(`Check the hours for ${WEEKDAY_NAMES[invalid.day_of_week]}`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      setDays(normalizeSchedule(await api.appointments.updateSchedule(days)));
+      toast.success("Booking hours saved");
+    } catch (err) {
+      console.error(err);
+      toast.error("Could not save booking hours");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!days) return <PageLoader />;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-xl font-bold">Appointment Hours</h2>
+          <p className="text-sm text-gray-600">
+            Slots offered in the booking calendar. Leave capacity blank to
+            use the number of active bays ({activeBays}).
+          </p>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-4 py-2 rounded-lg bg-amber-800 text-white hover:bg-amber-700 flex items-center"
+        >
+          {saving ? <Spinner size="sm" thickness={2} /> : "Save"}
+        </button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-100">
+            <tr>
+              <th className="px-4 py-3 text-left">Day</th>
+              <th className="px-4 py-3 text-left">Opens</th>
+              <th className="px-4 py-3 text-left">Closes</th>
+              <th className="px-4 py-3 text-left">Slot (min)</th>
+              <th className="px-4 py-3 text-left">Capacity</th>
+            </tr>
+          </thead>
+          <tbody>
+            {days.map((day) => (
+              <tr
+                key={day.day_of_week}
+                className={`border-b ${!day.is_open ? "opacity-60" : ""}`}
+              >
+                <td className="px-4 py-2">
+                  <button
+                    onClick={() =>
+                      updateDay(day.day_of_week, { is_open: !day.is_open })
+                    }
+                    className="flex items-center gap-2 font-medium"
+                    title={day.is_open ? "Close this day" : "Open this day"}
+                  >
+                    {day.is_open ? "🟢" : "⚪"}{" "}
+                    {WEEKDAY_NAMES[day.day_of_week]}
+                  </button>
+                </td>
+                <td className="px-4 py-2">
+                  <input
+                    type="time"
+                    value={day.open_time}
+                    disabled={!day.is_open}
+                    onChange={(e) =>
+                      updateDay(day.day_of_week, { open_time: e.target.value })
+                    }
+                    className="border border-gray-300 rounded-lg p-2"
+                  />
+                </td>
+                <td className="px-4 py-2">
+                  <input
+                    type="time"
+                    value={day.close_time}
+                    disabled={!day.is_open}
+                    onChange={(e) =>
+                      updateDay(day.day_of_week, { close_time: e.target.value })
+                    }
+                    className="border border-gray-300 rounded-lg p-2"
+                  />
+                </td>
+                <td className="px-4 py-2">
+                  <select
+                    value={day.slot_minutes}
+                    disabled={!day.is_open}
+                    onChange={(e) =>
+                      updateDay(day.day_of_week, {
+                        slot_minutes: Number(e.target.value),
+                      })
+                    }
+                    className="border border-gray-300 rounded-lg p-2 bg-white"
+                  >
+                    {[30, 45, 60, 90, 120].map((minutes) => (
+                      <option key={minutes} value={minutes}>
+                        {minutes}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td className="px-4 py-2">
+                  <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={day.capacity ?? ""}
+                    disabled={!day.is_open}
+                    onChange={(e) =>
+                      updateDay(day.day_of_week, {
+                        capacity: e.target.value
+                          ? Math.max(parseInt(e.target.value, 10), 1)
+                          : null,
+                      })
+                    }
+                    placeholder={`${activeBays || 1} (bays)`}
+                    className="w-28 border border-gray-300 rounded-lg p-2"
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+// --------------------
+// Wash Plans Tab
+// --------------------
+// Allows managers to set up prepaid wash cards and unlimited memberships sold
+// at the carwash POS, and to look up the memberships sold per plate.
+function WashPlans() {
+  const [plans, setPlans] = useState<WashPlan[]>([]);
+  // Catalog, to pick the services and vehicle types a plan covers
+  const [services, setServices] = useState<CarwashService[]>([]);
+  // Loading state for async fetch
+  const [loading, setLoading] = useState(true);
+  // Plan being edited; null adds a new one, undefined keeps the modal closed
+  const [editingPlan, setEditingPlan] = useState<WashPlan | null>();
+  // Membership lookup by plate; the active ones are listed by default
+  const [plateQuery, setPlateQuery] = useState("");
+  const [memberships, setMemberships] = useState<Membership[]>([]);
+  const [searching, setSearching] = useState(false);
+
+  // Fetch plans and the catalog from API
+  const fetchPlans = async () => {
+    try {
+      setLoading(true);
+      const [planList, catalog] = await Promise.all([
+        api.washPlans.list(),
+        api.carwashCatalog.admin.services(),
+      ]);
+      setPlans(planList.map(normalizePlan));
+      setServices(catalog);
+    } catch (err) {
+      console.error(err);
+      toast.error("Could not load wash plans");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchMemberships = async (plate: string) => {
+    setSearching(true);
+    try {
+      const list = await api.memberships.list(
+        plate ? { plate } : { status: "active" }
+      );
+      setMemberships(list);
+    } catch (err) {
+      console.error(err);
+      toast.error("Could not load memberships");
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  // Load plans and active memberships on mount
+  useEffect(() => {
+    fetchPlans();
+    fetchMemberships("");
+  }, []);
+
+  const handleTogglePlanActive = async (plan: WashPlan) => {
+    try {
+      await api.washPlans.update(plan.id, { is_active: !plan.is_active });
+      toast.success(`Plan ${!plan.is_active ? "activated" : "deactivated"}`);
+      fetchPlans();
+    } catch (err) {
+      console.error(err);
+      toast.error("Could not update plan");
+    }
+  };
+
+  const handleDeletePlan = async (plan: WashPlan) => {
+    if (!confirm(`Delete plan "${plan.name}"? Sold memberships stay valid.`))
+      return;
+
+    try {
+      await api.washPlans.remove(plan.id);
+      toast.success("Plan deleted successfully");
+      fetchPlans();
+    } catch (err) {
+      console.error(err);
+      toast.error("Could not delete plan");
+    }
+  };
+
+  const handleCancelMembership = async (membership: Membership) => {
+    if (
+      !confirm(
+        `Cancel ${membership.plan_name} for ${membership.plate_number}? Remaining washes are forfeited.`
+      )
+    )
+      return;
+
+    try {
+      await api.memberships.cancel(membership.id);
+      toast.success("Membership cancelled");
+      fetchMemberships(plateQuery.trim().toUpperCase());
+    } catch (err) {
+      console.error(err);
+      toast.error("Could not cancel membership");
+    }
+  };
+
+  // Names of the services a plan covers, for the list
+  const coveredServices = (plan: WashPlan) =>
+    plan.service_ids.length === 0
+      ? "Any service"
+      : plan.service_ids
+          .map((id) => services.find((s) => s.id === id)?.name ?? `#${id}`)
+          .join(", ");
+
+  if (loading) return <PageLoader />;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-xl font-bold">Wash Plans</h2>
+          <p className="text-sm text-gray-600">
+            Prepaid wash cards and unlimited memberships, tied to a plate
+          </p>
+        </div>
+        <button
+          onClick={() => setEditingPlan(null)}
+          className="flex items-center gap-2 bg-amber-700 text-white px-4 py-2 rounded-lg hover:bg-amber-600 transition-colors"
+        >
+          <LuPlus size={18} />
+          Add Plan
+        </button>
+      </div>
+
+      {/* Plans */}
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        {plans.length === 0 ? (
+          <p className="text-sm text-gray-400 italic">No wash plans defined</p>
+        ) : (
+          <div className="divide-y">
+            {plans.map((plan) => (
+              <div
+                key={plan.id}
+                className={`flex justify-between items-center py-3 ${
+                  !plan.is_active ? "opacity-60" : ""
+                }`}
+              >
+                <div>
+                  <div className="flex items-center gap-3">
+                    <p className="font-semibold">{plan.name}</p>
+                    <span className="text-xs px-2 py-1 rounded bg-blue-100 text-blue-700">
+                      {PLAN_TYPE_LABELS[plan.type]}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-600">
+                    ₱{Number(plan.price).toFixed(2)} ·{" "}
+                    {plan.type === "prepaid"
+                      ? `${plan.washes} washes`
+                      : "Unlimited washes"}{" "}
+                    · {plan.validity_days} days ·{" "}
+                    {plan.vehicle_type ?? "Any vehicle"}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {coveredServices(plan)}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleTogglePlanActive(plan)}
+                    className="p-2 rounded hover:bg-gray-100"
+                    title={plan.is_active ? "Deactivate" : "Activate"}
+                  >
+                    {plan.is_active ? "🟢" : "⚪"}
+                  </button>
+                  <button
+                    onClick={() => setEditingPlan(plan)}
+                    className="p-2 rounded hover:bg-gray-100 text-blue-600"
+                    title="Edit plan"
+                  >
+                    <LuPencil size={18} />
+                  </button>
+                  <button
+                    onClick={() => handleDeletePlan(plan)}
+                    className="p-2 rounded hover:bg-gray-100 text-red-600"
+                    title="Delete plan"
+                  >
+                    <LuTrash2 size={18} />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Memberships */}
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-3 mb-4">
+          <h3 className="text-lg font-bold">Memberships</h3>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              fetchMemberships(plateQuery.trim().toUpperCase());
+            }}
+            className="flex gap-2"
+          >
+            <input
+              value={plateQuery}
+              onChange={(e) => setPlateQuery(e.target.value.toUpperCase())}
+              placeholder="Plate number (blank: all active)"
+              className="border border-gray-300 rounded-lg p-2 text-sm"
+            />
+            <button
+              type="submit"
+              disabled={searching}
+              className="px-4 py-2 rounded-lg bg-gray-800 text-white text-sm hover:bg-gray-700 flex items-center"
+            >
+              {searching ? <Spinner size="sm" thickness={2} /> : "Search"}
+            </button>
+          </form>
+        </div>
+        {memberships.length === 0 ? (
+          <p className="text-sm text-gray-400 italic">No memberships found</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2 pr-4">Plate</th>
+                  <th className="py-2 pr-4">Plan</th>
+                  <th className="py-2 pr-4">Customer</th>
+                  <th className="py-2 pr-4">Balance</th>
+                  <th className="py-2 pr-4">Valid Until</th>
+                  <th className="py-2 pr-4">Status</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {memberships.map((membership) => (
+                  <tr key={membership.id}>
+                    <td className="py-2 pr-4 font-semibold">
+                      {membership.plate_number}
+                    </td>
+                    <td className="py-2 pr-4">{membership.plan_name}</td>
+                    <td className="py-2 pr-4">
+                      {membership.customer_name ||
+                        membership.customer_phone ||
+                        "—"}
+                    </td>
+                    <td className="py-2 pr-4">
+                      {membershipBalance(membership)}
+                    </td>
+                    <td className="py-2 pr-4">
+                      {formatExpiry(membership.expires_at)}
+                    </td>
+                    <td className="py-2 pr-4 capitalize">
+                      {membership.status.replace("_", " ")}
+                    </td>
+                    <td className="py-2 text-right">
+                      {membership.status === "active" && (
+                        <button
+                          onClick={() => handleCancelMembership(membership)}
+                          className="text-xs text-red-600 hover:underline"
+                        >
+                          Cancel
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Modals */}
+      {editingPlan !== undefined && (
+        <WashPlanModal
+          plan={editingPlan}
+          services={services}
+          onClose={() => setEditingPlan(undefined)}
+          onSave={fetchPlans}
+        />
+      )}
+    </div>
+  );
+}
+
+// Wash Plan Modal Component
+interface WashPlanModalProps {
+  plan: WashPlan | null;
+  services: CarwashService[];
+  onClose: () => void;
+  onSave: () => void;
+}
+
+function WashPlanModal({
+  plan,
+  services,
+  onClose,
+  onSave,
+}: WashPlanModalProps) {
+  const [name, setName] = useState(plan?.name || "");
+  const [type, setType] = useState<WashPlanType>(plan?.type || "prepaid");
+  const [washes, setWashes] = useState(plan?.washes?.toString() || "");
+  const [validityDays, setValidityDays] = useState(
+    plan?.validity_days?.toString() || "30"
+  );
+  const [price, setPrice] = useState(plan?.price?.toString() || "");
+  const [vehicleType, setVehicleType] = useState(plan?.vehicle_type || "");
+  const [serviceIds, setServiceIds] = useState<number[]>(
+    plan?.service_ids ?? []
+  );
+  const [saving, setSaving] = useState(false);
+  const vehicleTypes = Array.from(
+    new Set(services.flatMap((s) => s.prices.map((p) => p.vehicle_type)))
+  );
+
+  const toggleService = (id: number) => {
+    setServiceIds((prev) =>
+      prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const washesNum = parseInt(washes, 10);
+    const daysNum = parseInt(validityDays, 10);
+    const priceNum = parseFloat(price);
+    if (!name.trim() || isNaN(priceNum) || priceNum <= 0) {
+      toast.error("Name and price are required");
+      return;
+    }
+    if (type === "prepaid" && (isNaN(washesNum) || washesNum <= 0)) {
+      toast.error("Enter the number of washes on the card");
+      return;
+    }
+    if (isNaN(daysNum) || daysNum <= 0) {
+      toast.error("Invalid validity period");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const payload: WashPlanPayload = {
+        name: name.trim(),
+        type,
+        washes: type === "prepaid" ? washesNum : null,
+        validity_days: daysNum,
+        price: priceNum,
+        vehicle_type: vehicleType || null,
+        service_ids: serviceIds,
+      };
+      if (plan) await api.washPlans.update(plan.id, payload);
+      else await api.washPlans.create({ ...payload, is_active: true });
+
+      toast.success(`Plan ${plan ? "updated" : "created"} successfully`);
+      onSave();
+      onClose();
+    } catch (err) {
+      console.error(err);
+      toast.error(err instanceof Error ? err.message : "Could not save plan");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 backdrop-blur-sm bg-black/30 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg shadow-lg w-full max-w-md max-h-[90vh] overflow-y-auto">
+        <h3 className="text-xl font-bold mb-4">
+          {plan ? "Edit Plan" : "Add Plan"}
+        </h3>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Name *
+            </label>
+            <input
+              type="text"
+              className="w-full border border-gray-300 rounded-lg p-2"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+              placeholder="e.g. 10-Wash Card, Monthly Unlimited"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Type *
+            </label>
+            <select
+              className="w-full border border-gray-300 rounded-lg p-2 bg-white"
+              value={type}
+              onChange={(e) => setType(e.target.value as WashPlanType)}
+            >
+              <option value="prepaid">Prepaid card (number of washes)</option>
+              <option value="unlimited">Unlimited (until expiry)</option>
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            {type === "prepaid" && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Washes *
+                </label>
+                <input
+                  type="number"
+                  step="1"
+                  min="1"
+                  className="w-full border border-gray-300 rounded-lg p-2"
+                  value={washes}
+                  onChange={(e) => setWashes(e.target.value)}
+                  required
+                  placeholder="10"
+                />
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Valid for (days) *
+              </label>
+              <input
+                type="number"
+                step="1"
+                min="1"
+                className="w-full border border-gray-300 rounded-lg p-2"
+                value={validityDays}
+                onChange={(e) => setValidityDays(e.target.value)}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Price (₱) *
+              </label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                className="w-full border border-gray-300 rounded-lg p-2"
+                value={price}
+                onChange={(e) => setPrice(e.target.value)}
+                required
+                placeholder="0.00"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Vehicle Type
+            </label>
+            <select
+              className="w-full border border-gray-300 rounded-lg p-2 bg-white"
+              value={vehicleType}
+              onChange={(e) => setVehicleType(e.target.value)}
+            >
+              <option value="">Any vehicle</option>
+              {vehicleTypes.map((v) => (
+                <option key={v} value={v}>
+                  {v}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Covered Services
+            </label>
+            <div className="border border-gray-300 rounded-lg p-2 max-h-40 overflow-y-auto space-y-1">
+              {services.map((service) => (
+                <label
+                  key={service.id}
+                  className="flex items-center gap-2 text-sm"
+                >
+                  <input
+                    type="checkbox"
+                    checked={serviceIds.includes(service.id)}
+                    onChange={() => toggleService(service.id)}
+                  />
+                  {service.name}
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Leave all unchecked to cover any service. Each visit redeems one
+              wash.
+            </p>
+          </div>
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg border border-gray-200 hover:bg-gray-50"
+              disabled={saving}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 rounded-lg bg-amber-800 text-white hover:bg-amber-700 flex items-center"
+              disabled={saving}
+            >
+              {saving ? (
+                <Spinner size="sm" thickness={2} />
+              ) : plan ? (
+                "Save"
+              ) : (
+                "Create"
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
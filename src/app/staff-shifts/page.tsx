@@ -17,9 +17,8 @@ import { toast } from "react-toastify";
 import ProtectedRoute from "@/components/ProtectedRoute";
 import ManagerOnlyRoute from "@/components/ManagerOnlyRoute";
 import PageLoader from "@/components/PageLoader";
-import { getAuthHeaders } from "@/lib/auth";
-
-const API_BASE = process.env.NEXT_PUBLIC_API_BASE || "http://localhost:5000";
+import { api } from "@/lib/api";
+import type { StaffTransaction, TransactionFilters } from "@/lib/apiTypes";
 
 interface User {
   id: number;
@@ -27,25 +26,7 @@ interface User {
   full_name: string;
 }
 
-interface Transaction {
-  order_id: string;
-  created_at: string;
-  total: number;
-  payment_method: string;
-  shift_id: number | null;
-  user_id: number;
-  username: string;
-  full_name: string;
-  shift_start: string | null;
-  shift_end: string | null;
-  items: {
-    business_unit: "Coffee" | "Carwash";
-    item_type: string;
-    quantity: number;
-    line_total: number;
-    details: Record<string, unknown>;
-  }[];
-}
+type Transaction = StaffTransaction;
 
 function StaffShiftsHistory() {
   const [transactions, setTransactions] = useState<Transaction[]>([]);
@@ -80,13 +61,8 @@ function StaffShiftsHistory() {
   useEffect(() => {
     const fetchUsers = async () => {
       try {
-        const res = await fetch(`${API_BASE}/api/auth/users`, {
-          headers: getAuthHeaders(),
-        });
-        if (res.ok) {
-          const data: User[] = await res.json();
-          setUsers(data);
-        }
+        const data: User[] = await api.users.list();
+        setUsers(data);
       } catch (err) {
         console.error("Failed to fetch users:", err);
       }
@@ -98,26 +74,17 @@ function StaffShiftsHistory() {
   const fetchTransactions = useCallback(async () => {
     try {
       setLoading(true);
-      const params = new URLSearchParams({
-        page: page.toString(),
-        size: pageSize.toString(),
-      });
-
-      if (selectedStaff) params.append("staffId", selectedStaff);
-      if (selectedBusinessUnit)
-        params.append("businessUnit", selectedBusinessUnit);
-      if (selectedPayment) params.append("payment", selectedPayment);
-      if (startDate) params.append("startDate", startDate);
-      if (endDate) params.append("endDate", endDate);
-
-      const res = await fetch(
-        `${API_BASE}/api/reports/my-shift/all-transactions?${params}`,
-        { headers: getAuthHeaders() }
-      );
-
-      if (!res.ok) throw new Error("Failed to fetch transactions");
-
-      const data = await res.json();
+      const filters: TransactionFilters = {
+        page,
+        size: pageSize,
+        staffId: selectedStaff,
+        businessUnit: selectedBusinessUnit,
+        payment: selectedPayment,
+        startDate,
+        endDate,
+      };
+
+      const data = await api.reports.allTransactions(filters);
       setTransactions(data.transactions || []);
       setTotalPages(data.totalPages || 1);
       setTotal(data.total || 0);
@@ -490,6 +457,9 @@ function StaffShiftsHistory() {
               <option value="">All</option>
               <option value="Cash">Cash</option>
               <option value="Gcash">GCash</option>
+              <option value="Maya">Maya</option>
+              <option value="Card">Card</option>
+              <option value="Split">Split</option>
             </select>
           </div>
 
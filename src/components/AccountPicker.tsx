@@ -0,0 +1,105 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { LuBuilding2, LuX } from "react-icons/lu";
+import { toast } from "react-toastify";
+import { api } from "@/lib/api";
+import type { CorporateAccount } from "@/lib/apiTypes";
+import {
+  availableCredit,
+  chargeBlocker,
+  normalizeAccount,
+} from "@/lib/corporateAccounts";
+
+interface AccountPickerProps {
+  selected: CorporateAccount | null;
+  onSelect: (account: CorporateAccount | null) => void;
+  // Amount that will go on the account, checked against its credit
+  amount: number;
+}
+
+// Corporate account selection for "Charge to account" in the POS pages
+export default function AccountPicker({
+  selected,
+  onSelect,
+  amount,
+}: AccountPickerProps) {
+  const [accounts, setAccounts] = useState<CorporateAccount[] | null>(null);
+
+  useEffect(() => {
+    api.corporateAccounts
+      .list()
+      .then((list) =>
+        setAccounts(list.map(normalizeAccount).filter((a) => a.is_active))
+      )
+      .catch((err) => {
+        console.error("Failed to load corporate accounts:", err);
+        toast.error("Could not load corporate accounts.");
+        setAccounts([]);
+      });
+  }, []);
+
+  const blocker = selected ? chargeBlocker(selected, amount) : null;
+
+  return (
+    <div className="mb-4">
+      <label className="block text-xs font-semibold text-gray-700 mb-2 uppercase tracking-wide">
+        Corporate Account
+      </label>
+      {selected ? (
+        <div
+          className={`flex items-center justify-between rounded-lg px-3 py-2 text-sm border ${
+            blocker
+              ? "bg-red-50 border-red-200"
+              : "bg-emerald-50 border-emerald-200"
+          }`}
+        >
+          <div>
+            <p className="font-semibold text-gray-900 flex items-center gap-1">
+              <LuBuilding2 size={14} />
+              {selected.name}
+            </p>
+            <p className="text-xs text-gray-600">
+              ₱{availableCredit(selected).toFixed(2)} credit available ·{" "}
+              {selected.plates.length} authorized plate
+              {selected.plates.length === 1 ? "" : "s"}
+            </p>
+            {blocker && <p className="text-xs text-red-600">{blocker}</p>}
+          </div>
+          <button
+            type="button"
+            onClick={() => onSelect(null)}
+            className="text-gray-500 hover:text-gray-800"
+            title="Remove account"
+          >
+            <LuX size={18} />
+          </button>
+        </div>
+      ) : (
+        <select
+          value=""
+          onChange={(e) =>
+            onSelect(
+              accounts?.find((a) => String(a.id) === e.target.value) ?? null
+            )
+          }
+          disabled={!accounts || accounts.length === 0}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white focus:outline-none focus:ring-2 focus:ring-amber-500 disabled:bg-gray-100"
+        >
+          <option value="">
+            {!accounts
+              ? "Loading accounts..."
+              : accounts.length === 0
+                ? "No active corporate accounts"
+                : "Select an account..."}
+          </option>
+          {accounts?.map((account) => (
+            <option key={account.id} value={account.id}>
+              {account.name}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
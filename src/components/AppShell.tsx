@@ -3,7 +3,9 @@
 import { useEffect, useState } from "react";
 import Image from "next/image";
 import SidebarNav from "./SidebarNav";
+import PendingSyncIndicator from "./PendingSyncIndicator";
 import { LuMenu, LuX } from "react-icons/lu";
+import { startOutboxSync } from "@/lib/orderOutbox";
 
 interface AppShellProps {
   children: React.ReactNode;
@@ -27,6 +29,9 @@ export default function AppShell({ children }: AppShellProps) {
     return () => window.removeEventListener("resize", onResize);
   }, []);
 
+  // Replay offline orders in the background on every page
+  useEffect(() => startOutboxSync(), []);
+
   return (
     <div className="relative min-h-screen bg-linear-to-br from-gray-50 to-gray-100">
       {/* Sidebar for mobile/tablet: off-canvas; for lg+: fixed visible */}
@@ -51,6 +56,10 @@ export default function AppShell({ children }: AppShellProps) {
         <div className="flex-1 overflow-y-auto">
           <SidebarNav />
         </div>
+        {/* Offline orders waiting to sync; the header shows it below xl */}
+        <div className="hidden xl:block px-4 pb-4">
+          <PendingSyncIndicator />
+        </div>
       </aside>
 
       {/* Backdrop on mobile/tablet when sidebar is open */}
@@ -72,6 +81,9 @@ export default function AppShell({ children }: AppShellProps) {
           {open ? <LuX size={20} /> : <LuMenu size={20} />}
         </button>
         <span className="font-semibold">OneFaith POS</span>
+        <div className="ml-auto">
+          <PendingSyncIndicator />
+        </div>
       </header>
 
       {/* Main content: add left padding on lg to account for fixed sidebar */}
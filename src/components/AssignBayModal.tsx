@@ -0,0 +1,176 @@
+"use client";
+
+import { useState } from "react";
+import { LuX } from "react-icons/lu";
+import { toast } from "react-toastify";
+import Spinner from "@/components/Spinner";
+import { api } from "@/lib/api";
+import type { CarwashBay, CarwashTicket, Washer } from "@/lib/apiTypes";
+
+interface AssignBayModalProps {
+  ticket: CarwashTicket;
+  bays: CarwashBay[];
+  washers: Washer[];
+  // Bays already washing another vehicle
+  busyBayIds: number[];
+  onClose: () => void;
+  onStarted: () => void;
+}
+
+// Pick a bay and the washers for a ticket, then start the service
+export default function AssignBayModal({
+  ticket,
+  bays,
+  washers,
+  busyBayIds,
+  onClose,
+  onStarted,
+}: AssignBayModalProps) {
+  const activeBays = bays.filter((b) => b.is_active);
+  const activeWashers = washers.filter((w) => w.is_active);
+  const [bayId, setBayId] = useState<number | null>(
+    activeBays.find((b) => !busyBayIds.includes(b.id))?.id ?? null
+  );
+  const [washerIds, setWasherIds] = useState<number[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const toggleWasher = (id: number) => {
+    setWasherIds((prev) =>
+      prev.includes(id) ? prev.filter((w) => w !== id) : [...prev, id]
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (activeBays.length > 0 && bayId === null) {
+      toast.error("Please select a bay.");
+      return;
+    }
+    if (activeWashers.length > 0 && washerIds.length === 0) {
+      toast.error("Please assign at least one washer.");
+      return;
+    }
+    if (
+      bayId !== null &&
+      busyBayIds.includes(bayId) &&
+      !confirm("This bay already has a vehicle in progress. Use it anyway?")
+    ) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await api.carwash.start(ticket.order_id, {
+        bay_id: bayId,
+        washer_ids: washerIds,
+      });
+      toast.success("Service started!");
+      onStarted();
+    } catch (err) {
+      console.error("Error starting service:", err);
+      toast.error(
+        err instanceof Error ? err.message : "Could not start service"
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 backdrop-blur-sm bg-black/30 flex items-center justify-center z-50 p-4">
+      <div className="bg-white p-6 rounded-lg shadow-lg w-full max-w-md max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-semibold">Start Service</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-800">
+            <LuX size={24} />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          <span className="font-mono">{ticket.order_id}</span>
+          {ticket.plate_number && ` · ${ticket.plate_number}`}
+          {ticket.vehicle_type && ` · ${ticket.vehicle_type}`}
+        </p>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Bay
+            </label>
+            {activeBays.length === 0 ? (
+              <p className="text-sm text-gray-400 italic">
+                No bays configured. Add them in Settings.
+              </p>
+            ) : (
+              <div className="grid grid-cols-3 gap-2">
+                {activeBays.map((bay) => (
+                  <button
+                    key={bay.id}
+                    type="button"
+                    onClick={() => setBayId(bay.id)}
+                    className={`px-3 py-2 rounded-lg font-medium text-sm transition-all ${
+                      bayId === bay.id
+                        ? "bg-blue-600 text-white shadow-md"
+                        : "bg-gray-100 border border-gray-300 text-gray-700 hover:bg-gray-200"
+                    }`}
+                  >
+                    {bay.name}
+                    {busyBayIds.includes(bay.id) && (
+                      <span className="block text-xs font-normal opacity-80">
+                        In use
+                      </span>
+                    )}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Washers
+            </label>
+            {activeWashers.length === 0 ? (
+              <p className="text-sm text-gray-400 italic">
+                No washers configured. Add them in Settings.
+              </p>
+            ) : (
+              <div className="grid grid-cols-2 gap-2">
+                {activeWashers.map((washer) => (
+                  <label
+                    key={washer.id}
+                    className="flex items-center text-sm text-gray-900"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={washerIds.includes(washer.id)}
+                      onChange={() => toggleWasher(washer.id)}
+                      className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                    />
+                    <span className="ml-2">{washer.name}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg border border-gray-200 hover:bg-gray-50"
+              disabled={saving}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700 flex items-center"
+              disabled={saving}
+            >
+              {saving ? <Spinner size="sm" thickness={2} /> : "Start Service"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,429 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { LuX, LuPrinter, LuEye } from "react-icons/lu";
+import { toast } from "react-toastify";
+import Spinner from "@/components/Spinner";
+import ReportPreview from "@/components/ReportPreview";
+import { useAuth } from "@/contexts/AuthContext";
+import { api } from "@/lib/api";
+import type {
+  CashCount,
+  Shift,
+  ShiftRefund,
+  Transaction,
+} from "@/lib/apiTypes";
+import {
+  DENOMINATIONS,
+  countTotal,
+  expectedCash,
+  fetchShiftRefunds,
+  fetchShiftTransactions,
+} from "@/lib/cashDrawer";
+import {
+  OutboxStatus,
+  flushOutbox,
+  subscribeOutbox,
+} from "@/lib/orderOutbox";
+import { summarizeSales } from "@/lib/salesReport";
+import { generateZReport } from "@/utils/escpos";
+import { printWithRawBT, canUseRawBT } from "@/utils/rawbt";
+
+interface CloseShiftModalProps {
+  shift: Shift;
+  onClose: () => void;
+  // Called when the cashier dismisses the Z-report after closing
+  onClosed: () => void;
+}
+
+function formatPeso(amount: number): string {
+  return `${amount < 0 ? "-" : ""}₱${Math.abs(amount).toLocaleString("en-PH", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+}
+
+function formatTime(value: string | Date): string {
+  return new Date(value).toLocaleString("en-US", {
+    month: "short",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: true,
+  });
+}
+
+// Count the drawer, compare it with the expected cash and end the shift
+export default function CloseShiftModal({
+  shift,
+  onClose,
+  onClosed,
+}: CloseShiftModalProps) {
+  const { user } = useAuth();
+  // Bumped by "Retry" to load the shift's sales again
+  const [attempt, setAttempt] = useState(0);
+  // Sales and refunds of the last load attempt; null when it failed. Loading
+  // until the attempt matches, and closing stays blocked until they are in,
+  // since expected cash would otherwise be the float alone.
+  const [loaded, setLoaded] = useState<{
+    attempt: number;
+    data: { transactions: Transaction[]; refunds: ShiftRefund[] } | null;
+  } | null>(null);
+  const [quantities, setQuantities] = useState<Record<number, string>>({});
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [reportBytes, setReportBytes] = useState<Uint8Array | null>(null);
+  const [showPreview, setShowPreview] = useState(false);
+  // Offline orders not yet synced: their cash is in the drawer but not in the
+  // shift's sales, so closing waits for them
+  const [outbox, setOutbox] = useState<OutboxStatus | null>(null);
+
+  useEffect(() => {
+    Promise.all([fetchShiftTransactions(), fetchShiftRefunds(shift)])
+      .then(([transactions, refunds]) =>
+        setLoaded({ attempt, data: { transactions, refunds } })
+      )
+      .catch((err) => {
+        console.error("Failed to load shift transactions:", err);
+        toast.error("Could not load this shift's sales");
+        setLoaded({ attempt, data: null });
+      });
+  }, [attempt, shift]);
+
+  useEffect(() => {
+    let lastPending = 0;
+    return subscribeOutbox((status) => {
+      // Orders just synced: load the sales again so they are counted
+      if (lastPending > 0 && status.pending === 0) setAttempt((n) => n + 1);
+      lastPending = status.pending;
+      setOutbox(status);
+    });
+  }, []);
+
+  const loading = loaded?.attempt !== attempt || outbox === null;
+  const pendingSync = outbox?.pending ?? 0;
+  const transactions = loaded?.data?.transactions ?? [];
+  const refunds = loaded?.data?.refunds ?? [];
+  const loadFailed = !loading && loaded?.data === null;
+
+  const counts: CashCount[] = DENOMINATIONS.map((denomination) => ({
+    denomination,
+    quantity: Math.max(0, parseInt(quantities[denomination] || "0", 10) || 0),
+  }));
+  const counted = countTotal(counts);
+  // Recorded when the shift was started; not editable at close
+  const startingFloat = Number(shift.starting_float ?? 0) || 0;
+  const expected = expectedCash(startingFloat, transactions, refunds);
+  const overShort = Math.round((counted - expected.expected) * 100) / 100;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (loading || loadFailed || pendingSync > 0) return;
+    if (
+      outbox?.failed &&
+      !confirm(
+        `${outbox.failed} offline order(s) were rejected by the server and ` +
+          "are not in the expected cash. Close the shift anyway?"
+      )
+    ) {
+      return;
+    }
+    if (
+      overShort !== 0 &&
+      !confirm(
+        `Drawer is ${overShort > 0 ? "over" : "short"} by ${formatPeso(
+          Math.abs(overShort)
+        )}. Close the shift anyway?`
+      )
+    ) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const closed = await api.shifts.close({
+        notes: notes.trim() || null,
+        starting_float: expected.startingFloat,
+        cash_counts: counts.filter((c) => c.quantity > 0),
+        expected_cash: expected.expected,
+        counted_cash: counted,
+        over_short: overShort,
+      });
+      toast.success("Shift ended successfully!");
+      setReportBytes(
+        generateZReport({
+          scope: `Shift #${closed?.id ?? shift.id}`,
+          cashierName: user?.fullName ?? "",
+          periodStart: formatTime(shift.start_time),
+          periodEnd: formatTime(closed?.end_time ?? new Date()),
+          sales: summarizeSales(transactions, refunds),
+          drawer: {
+            startingFloat: expected.startingFloat,
+            cashSales: expected.cashSales,
+            changeGiven: expected.changeGiven,
+            cashRefunds: expected.cashRefunds,
+            expectedCash: expected.expected,
+            counts,
+            countedCash: counted,
+            overShort,
+          },
+          notes: notes.trim() || null,
+          timestamp: formatTime(new Date()),
+        })
+      );
+    } catch (err) {
+      console.error("End shift error:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to end shift");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePrint = async () => {
+    if (!reportBytes) return;
+    const success = await printWithRawBT(
+      reportBytes,
+      () => toast.success("Sending to thermal printer..."),
+      (error) => {
+        toast.error("RawBT not available. Showing the report instead.");
+        console.error("[ESC/POS]", error);
+      }
+    );
+    if (!success) setShowPreview(true);
+  };
+
+  // Shift is closed: offer the Z-report
+  if (reportBytes) {
+    return (
+      <div className="fixed inset-0 backdrop-blur-sm bg-black/30 flex items-center justify-center z-50">
+        <div className="bg-white p-6 rounded-lg shadow-lg w-full max-w-md text-gray-900">
+          <h3 className="text-xl font-semibold mb-2">Shift Closed</h3>
+          <p
+            className={`text-sm font-medium mb-4 ${
+              overShort === 0
+                ? "text-emerald-700"
+                : overShort > 0
+                  ? "text-amber-700"
+                  : "text-red-700"
+            }`}
+          >
+            {overShort === 0
+              ? "Drawer balanced."
+              : `Drawer ${overShort > 0 ? "over" : "short"} by ${formatPeso(
+                  Math.abs(overShort)
+                )}.`}
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setShowPreview(true)}
+              className="bg-purple-600 hover:bg-purple-700 text-white px-4 py-3 rounded-lg font-bold transition-colors"
+              title="Preview Z-report"
+            >
+              <LuEye size={20} />
+            </button>
+            {canUseRawBT() && (
+              <button
+                onClick={handlePrint}
+                className="flex-1 bg-blue-600 hover:bg-blue-700 text-white p-3 rounded-lg font-bold transition-colors flex items-center justify-center gap-2"
+              >
+                <LuPrinter size={20} />
+                Print Z-Report
+              </button>
+            )}
+            <button
+              onClick={onClosed}
+              className="flex-1 bg-emerald-600 hover:bg-emerald-700 text-white p-3 rounded-lg font-bold transition-colors"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+        {showPreview && (
+          <ReportPreview
+            bytes={reportBytes}
+            onClose={() => setShowPreview(false)}
+          />
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 backdrop-blur-sm bg-black/30 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg shadow-lg w-full max-w-lg max-h-[90vh] overflow-y-auto text-gray-900">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-semibold">Close Shift</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-800">
+            <LuX size={24} />
+          </button>
+        </div>
+        {loading ? (
+          <div className="flex justify-center py-10">
+            <Spinner size="md" />
+          </div>
+        ) : loadFailed ? (
+          <div className="text-center py-8 space-y-4">
+            <p className="text-sm text-red-700">
+              This shift&apos;s sales could not be loaded, so the expected cash
+              is unknown. The shift can&apos;t be closed until they load.
+            </p>
+            <div className="flex justify-center gap-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 rounded-lg border border-gray-200 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={() => setAttempt((n) => n + 1)}
+                className="px-4 py-2 rounded-lg bg-amber-800 text-white hover:bg-amber-700"
+              >
+                Retry
+              </button>
+            </div>
+          </div>
+        ) : pendingSync > 0 ? (
+          <div className="text-center py-8 space-y-4">
+            <p className="text-sm text-amber-800">
+              {pendingSync} offline order(s) haven&apos;t reached the server
+              yet. Their cash is in the drawer but not in the expected cash, so
+              sync them before closing the shift.
+            </p>
+            <div className="flex justify-center gap-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 rounded-lg border border-gray-200 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={() => flushOutbox(true)}
+                disabled={outbox?.syncing}
+                className="px-4 py-2 rounded-lg bg-amber-800 text-white hover:bg-amber-700 flex items-center"
+              >
+                {outbox?.syncing ? (
+                  <Spinner size="sm" thickness={2} />
+                ) : (
+                  "Sync Now"
+                )}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Cash Count
+              </label>
+              <div className="grid grid-cols-3 gap-2">
+                {DENOMINATIONS.map((denomination) => (
+                  <div key={denomination}>
+                    <span className="block text-xs text-gray-500 mb-0.5">
+                      ₱{denomination}
+                    </span>
+                    <input
+                      type="number"
+                      min="0"
+                      inputMode="numeric"
+                      className="w-full border border-gray-300 rounded-lg p-2 text-right"
+                      value={quantities[denomination] ?? ""}
+                      onChange={(e) => {
+                        // Whole, non-negative counts only
+                        if (!/^\d*$/.test(e.target.value)) return;
+                        setQuantities((prev) => ({
+                          ...prev,
+                          [denomination]: e.target.value,
+                        }));
+                      }}
+                      placeholder="0"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 text-sm space-y-1">
+              <div className="flex justify-between">
+                <span>Starting float</span>
+                <span>{formatPeso(expected.startingFloat)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Cash received</span>
+                <span>{formatPeso(expected.cashSales)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Change given</span>
+                <span>{formatPeso(-expected.changeGiven)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Cash refunds</span>
+                <span>{formatPeso(-expected.cashRefunds)}</span>
+              </div>
+              <div className="flex justify-between font-semibold border-t pt-1">
+                <span>Expected cash</span>
+                <span>{formatPeso(expected.expected)}</span>
+              </div>
+              <div className="flex justify-between font-semibold">
+                <span>Counted cash</span>
+                <span>{formatPeso(counted)}</span>
+              </div>
+              <div
+                className={`flex justify-between font-bold text-base ${
+                  overShort === 0
+                    ? "text-emerald-700"
+                    : overShort > 0
+                      ? "text-amber-700"
+                      : "text-red-700"
+                }`}
+              >
+                <span>
+                  {overShort === 0
+                    ? "Balanced"
+                    : overShort > 0
+                      ? "Over"
+                      : "Short"}
+                </span>
+                <span>{formatPeso(overShort)}</span>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Notes
+              </label>
+              <textarea
+                className="w-full border border-gray-300 rounded-lg p-2"
+                rows={2}
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Optional notes about this shift"
+              />
+            </div>
+
+            <div className="flex justify-end gap-3 pt-2">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 rounded-lg border border-gray-200 hover:bg-gray-50"
+                disabled={saving}
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 rounded-lg bg-amber-800 text-white hover:bg-amber-700 flex items-center"
+                disabled={saving}
+              >
+                {saving ? <Spinner size="sm" thickness={2} /> : "Close Shift"}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
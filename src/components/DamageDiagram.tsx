@@ -0,0 +1,65 @@
+"use client";
+
+import type { DamageMark } from "@/lib/apiTypes";
+import {
+  DiagramLayout,
+  damageLabel,
+  damageStyle,
+} from "@/lib/vehicleCondition";
+
+interface DamageDiagramProps {
+  layout: DiagramLayout;
+  marks: DamageMark[];
+  // Read-only when omitted
+  onZoneClick?: (zone: string) => void;
+}
+
+// Top-down vehicle diagram with the damage marked on each zone
+export default function DamageDiagram({
+  layout,
+  marks,
+  onZoneClick,
+}: DamageDiagramProps) {
+  return (
+    <div
+      className="grid gap-1"
+      style={{ gridTemplateColumns: `repeat(${layout.columns}, 1fr)` }}
+    >
+      {layout.zones.map((zone) => {
+        const zoneMarks = marks.filter((m) => m.zone === zone.id);
+        return (
+          <button
+            key={zone.id}
+            type="button"
+            disabled={!onZoneClick}
+            onClick={() => onZoneClick?.(zone.id)}
+            style={{
+              gridRow: `${zone.row} / span ${zone.rowSpan ?? 1}`,
+              gridColumn: `${zone.col} / span ${zone.colSpan ?? 1}`,
+            }}
+            className={`min-h-12 rounded-md border px-1 py-1.5 text-xs flex flex-col items-center justify-center gap-1 transition-colors ${
+              zoneMarks.length > 0
+                ? "border-red-300 bg-red-50 text-red-800"
+                : "border-gray-300 bg-gray-50 text-gray-600"
+            } ${onZoneClick ? "hover:bg-amber-50 cursor-pointer" : "cursor-default"}`}
+          >
+            <span className="font-medium leading-tight">{zone.label}</span>
+            {zoneMarks.length > 0 && (
+              <span className="flex flex-wrap justify-center gap-0.5">
+                {zoneMarks.map((m) => (
+                  <span
+                    key={m.type}
+                    title={damageLabel(m.type)}
+                    className={`px-1 rounded text-[10px] text-white ${damageStyle(m.type)}`}
+                  >
+                    {damageLabel(m.type)}
+                  </span>
+                ))}
+              </span>
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+"use client";
+
+import { useState } from "react";
+import { LuX } from "react-icons/lu";
+import { toast } from "react-toastify";
+import type { DiscountRule } from "@/lib/apiTypes";
+import { AppliedDiscount, describeRule } from "@/lib/discounts";
+
+interface DiscountPickerProps {
+  rules: DiscountRule[];
+  applied: AppliedDiscount | null;
+  onChange: (applied: AppliedDiscount | null) => void;
+}
+
+// Chip colors cycled across rules
+const CHIP_COLORS = [
+  "bg-blue-700",
+  "bg-purple-700",
+  "bg-green-700",
+  "bg-rose-700",
+  "bg-teal-700",
+];
+
+// Discount chips for the POS cart; asks for the holder's ID when a rule needs it
+export default function DiscountPicker({
+  rules,
+  applied,
+  onChange,
+}: DiscountPickerProps) {
+  const [pendingRule, setPendingRule] = useState<DiscountRule | null>(null);
+
+  const handleSelect = (rule: DiscountRule) => {
+    if (rule.requires_id) {
+      setPendingRule(rule);
+      return;
+    }
+    onChange({ rule, idNumber: null, holderName: null });
+  };
+
+  return (
+    <div className="mb-4">
+      <label className="block text-xs font-semibold text-gray-700 mb-2 uppercase tracking-wide">
+        Discount
+      </label>
+      <div className="grid grid-cols-4 gap-2">
+        <button
+          onClick={() => onChange(null)}
+          className={`px-2 py-2 rounded-lg font-medium transition-all text-xs btn-chip ${
+            applied === null
+              ? "bg-gray-800 text-white shadow-md"
+              : "bg-gray-100 border border-gray-300 text-gray-700 hover:bg-gray-200"
+          }`}
+        >
+          None
+        </button>
+        {rules.map((rule, index) => (
+          <button
+            key={rule.id}
+            onClick={() => handleSelect(rule)}
+            title={describeRule(rule)}
+            className={`px-2 py-2 rounded-lg font-medium transition-all text-xs btn-chip ${
+              applied?.rule.id === rule.id
+                ? `${CHIP_COLORS[index % CHIP_COLORS.length]} text-white shadow-md`
+                : "bg-gray-100 border border-gray-300 text-gray-700 hover:bg-gray-200"
+            }`}
+          >
+            {rule.name}
+          </button>
+        ))}
+      </div>
+      {applied && (
+        <p className="text-xs text-gray-500 mt-2">
+          {describeRule(applied.rule)}
+          {applied.idNumber && ` · ID ${applied.idNumber}`}
+          {applied.holderName && ` (${applied.holderName})`}
+        </p>
+      )}
+
+      {pendingRule && (
+        <DiscountIdModal
+          rule={pendingRule}
+          onClose={() => setPendingRule(null)}
+          onSubmit={(idNumber, holderName) => {
+            onChange({ rule: pendingRule, idNumber, holderName });
+            setPendingRule(null);
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+interface DiscountIdModalProps {
+  rule: DiscountRule;
+  onClose: () => void;
+  onSubmit: (idNumber: string, holderName: string | null) => void;
+}
+
+function DiscountIdModal({ rule, onClose, onSubmit }: DiscountIdModalProps) {
+  const [idNumber, setIdNumber] = useState("");
+  const [holderName, setHolderName] = useState("");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!idNumber.trim()) {
+      toast.error(`Please enter the ${rule.name} ID number.`);
+      return;
+    }
+    onSubmit(idNumber.trim(), holderName.trim() || null);
+  };
+
+  return (
+    <div className="fixed inset-0 backdrop-blur-sm bg-black/30 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg shadow-lg w-full max-w-md">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-semibold">{rule.name} Discount</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-800">
+            <LuX size={24} />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          Record the {rule.name} ID presented by the customer.
+        </p>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              ID Number *
+            </label>
+            <input
+              type="text"
+              className="w-full border border-gray-300 rounded-lg p-2"
+              value={idNumber}
+              onChange={(e) => setIdNumber(e.target.value)}
+              autoFocus
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Name on ID
+            </label>
+            <input
+              type="text"
+              className="w-full border border-gray-300 rounded-lg p-2"
+              value={holderName}
+              onChange={(e) => setHolderName(e.target.value)}
+            />
+          </div>
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg border border-gray-200 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 rounded-lg bg-amber-800 text-white hover:bg-amber-700"
+            >
+              Apply Discount
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
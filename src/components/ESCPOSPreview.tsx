@@ -6,6 +6,8 @@ import { LuX } from "react-icons/lu";
 interface ESCPOSPreviewProps {
   bytes: Uint8Array;
   onClose: () => void;
+  // Shows a Print button, e.g. for reports opened straight into the preview
+  onPrint?: () => void;
 }
 
 // ESC/POS command constants for parsing
@@ -130,7 +132,11 @@ function parseESCPOS(bytes: Uint8Array): ParsedLine[] {
   return lines;
 }
 
-export default function ESCPOSPreview({ bytes, onClose }: ESCPOSPreviewProps) {
+export default function ESCPOSPreview({
+  bytes,
+  onClose,
+  onPrint,
+}: ESCPOSPreviewProps) {
   const lines = parseESCPOS(bytes);
 
   return (
@@ -192,10 +198,18 @@ export default function ESCPOSPreview({ bytes, onClose }: ESCPOSPreviewProps) {
         </div>
 
         {/* Actions */}
-        <div className="p-4 bg-gray-50 rounded-b-lg shrink-0">
+        <div className="p-4 bg-gray-50 rounded-b-lg shrink-0 flex gap-2">
+          {onPrint && (
+            <button
+              onClick={onPrint}
+              className="flex-1 bg-blue-600 hover:bg-blue-700 text-white p-3 rounded-lg font-semibold transition-colors"
+            >
+              Print
+            </button>
+          )}
           <button
             onClick={onClose}
-            className="w-full bg-gray-700 hover:bg-gray-800 text-white p-3 rounded-lg font-semibold transition-colors"
+            className="flex-1 bg-gray-700 hover:bg-gray-800 text-white p-3 rounded-lg font-semibold transition-colors"
           >
             Close Preview
           </button>
@@ -10,9 +10,11 @@ export default function LayoutContent({
 }) {
   const pathname = usePathname();
   const isLoginPage = pathname === "/login";
+  // Full-screen customer display for TVs/kiosks
+  const isQueueDisplay = pathname === "/queue-display";
 
-  // Show children without AppShell on login page
-  if (isLoginPage) {
+  // Show children without AppShell on login page and queue display
+  if (isLoginPage || isQueueDisplay) {
     return <>{children}</>;
   }
 
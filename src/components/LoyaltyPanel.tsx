@@ -0,0 +1,131 @@
+"use client";
+
+import { useState } from "react";
+import { LuGift, LuX } from "react-icons/lu";
+import { toast } from "react-toastify";
+import Spinner from "@/components/Spinner";
+import type { LoyaltyAccount, LoyaltyReward } from "@/lib/apiTypes";
+import { findLoyaltyAccount } from "@/lib/loyalty";
+
+interface LoyaltyPanelProps {
+  rewards: LoyaltyReward[];
+  member: LoyaltyAccount | null;
+  onMemberChange: (member: LoyaltyAccount | null) => void;
+  redeemed: LoyaltyReward | null;
+  onRedeem: (reward: LoyaltyReward | null) => void;
+  // Points this order will earn, shown next to the balance
+  pointsToEarn: number;
+}
+
+// Member lookup by phone and reward chips for the POS cart
+export default function LoyaltyPanel({
+  rewards,
+  member,
+  onMemberChange,
+  redeemed,
+  onRedeem,
+  pointsToEarn,
+}: LoyaltyPanelProps) {
+  const [phone, setPhone] = useState("");
+  const [searching, setSearching] = useState(false);
+
+  const handleLookup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const cleanPhone = phone.replace(/[\s\-()]/g, "");
+    if (!/^(\+639|09)\d{9}$/.test(cleanPhone)) {
+      toast.error("Phone must be in format: +639XXXXXXXXX or 09XXXXXXXXX");
+      return;
+    }
+    setSearching(true);
+    try {
+      const account = await findLoyaltyAccount(cleanPhone);
+      onMemberChange(account);
+      if (!account.last_activity_at) {
+        toast.info("New member: points start with this order.");
+      }
+    } catch (err) {
+      console.error("Loyalty lookup failed:", err);
+      toast.error("Could not look up loyalty points.");
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handleClear = () => {
+    onRedeem(null);
+    onMemberChange(null);
+    setPhone("");
+  };
+
+  return (
+    <div className="mb-4">
+      <label className="block text-xs font-semibold text-gray-700 mb-2 uppercase tracking-wide">
+        Loyalty
+      </label>
+      {!member ? (
+        <form onSubmit={handleLookup} className="flex gap-2">
+          <input
+            value={phone}
+            onChange={(e) => setPhone(e.target.value)}
+            placeholder="Member phone (09XXXXXXXXX)"
+            inputMode="tel"
+            maxLength={13}
+            className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-amber-500"
+          />
+          <button
+            type="submit"
+            disabled={searching || !phone}
+            className="px-3 py-2 rounded-lg bg-gray-800 text-white text-sm font-medium hover:bg-gray-700 disabled:bg-gray-400 flex items-center"
+          >
+            {searching ? <Spinner size="sm" thickness={2} /> : "Find"}
+          </button>
+        </form>
+      ) : (
+        <>
+          <div className="flex items-center justify-between bg-amber-50 border border-amber-200 rounded-lg px-3 py-2 text-sm">
+            <div>
+              <p className="font-semibold text-gray-900">
+                {member.name || member.phone}
+              </p>
+              <p className="text-xs text-gray-600">
+                {member.balance} pts
+                {pointsToEarn > 0 && ` · +${pointsToEarn} this order`}
+              </p>
+            </div>
+            <button
+              onClick={handleClear}
+              className="text-gray-500 hover:text-gray-800"
+              title="Remove member"
+            >
+              <LuX size={18} />
+            </button>
+          </div>
+          {rewards.length > 0 && (
+            <div className="grid grid-cols-2 gap-2 mt-2">
+              {rewards.map((reward) => {
+                const active = redeemed?.id === reward.id;
+                const affordable = member.balance >= reward.points_cost;
+                return (
+                  <button
+                    key={reward.id}
+                    onClick={() => onRedeem(active ? null : reward)}
+                    disabled={!active && !affordable}
+                    title={`₱${Number(reward.value).toFixed(2)} off`}
+                    className={`px-2 py-2 rounded-lg font-medium transition-all text-xs flex items-center justify-center gap-1 ${
+                      active
+                        ? "bg-amber-700 text-white shadow-md"
+                        : "bg-gray-100 border border-gray-300 text-gray-700 hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                    }`}
+                  >
+                    <LuGift size={14} />
+                    {reward.name} ({reward.points_cost} pts)
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
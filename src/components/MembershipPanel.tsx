@@ -0,0 +1,142 @@
+"use client";
+
+import { useState } from "react";
+import { LuTicket, LuX } from "react-icons/lu";
+import { toast } from "react-toastify";
+import Spinner from "@/components/Spinner";
+import { api } from "@/lib/api";
+import type { Membership } from "@/lib/apiTypes";
+import { normalizePlate } from "@/lib/customers";
+import {
+  formatExpiry,
+  membershipBalance,
+  redeemBlocker,
+} from "@/lib/washPlans";
+
+interface MembershipPanelProps {
+  // Plate already entered for the order, used to prefill the lookup
+  initialPlate: string;
+  applied: Membership | null;
+  onApply: (membership: Membership | null) => void;
+  // Name of the cart line the applied plan pays for, if any
+  coveredService: string | null;
+}
+
+// Plate lookup for prepaid cards and memberships in the carwash POS cart
+export default function MembershipPanel({
+  initialPlate,
+  applied,
+  onApply,
+  coveredService,
+}: MembershipPanelProps) {
+  const [plate, setPlate] = useState(initialPlate);
+  const [searching, setSearching] = useState(false);
+  const [found, setFound] = useState<Membership[] | null>(null);
+
+  const handleLookup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const cleanPlate = normalizePlate(plate);
+    if (!cleanPlate) return;
+    setSearching(true);
+    try {
+      const memberships = await api.memberships.list({
+        plate: cleanPlate,
+        status: "active",
+      });
+      setFound(memberships);
+      if (memberships.length === 0) {
+        toast.info(`No active plan for ${cleanPlate}.`);
+      }
+    } catch (err) {
+      console.error("Membership lookup failed:", err);
+      toast.error("Could not look up wash plans.");
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handleClear = () => {
+    onApply(null);
+    setFound(null);
+  };
+
+  return (
+    <div className="mb-4">
+      <label className="block text-xs font-semibold text-gray-700 mb-2 uppercase tracking-wide">
+        Wash Plan
+      </label>
+      {applied ? (
+        <div className="flex items-center justify-between bg-emerald-50 border border-emerald-200 rounded-lg px-3 py-2 text-sm">
+          <div>
+            <p className="font-semibold text-gray-900">
+              {applied.plan_name} · {applied.plate_number}
+            </p>
+            <p className="text-xs text-gray-600">
+              {membershipBalance(applied)} · until{" "}
+              {formatExpiry(applied.expires_at)}
+            </p>
+            <p
+              className={`text-xs ${
+                coveredService ? "text-emerald-700" : "text-red-600"
+              }`}
+            >
+              {coveredService
+                ? `Covers ${coveredService}`
+                : "No service in the cart is covered by this plan"}
+            </p>
+          </div>
+          <button
+            onClick={handleClear}
+            className="text-gray-500 hover:text-gray-800"
+            title="Remove plan"
+          >
+            <LuX size={18} />
+          </button>
+        </div>
+      ) : (
+        <>
+          <form onSubmit={handleLookup} className="flex gap-2">
+            <input
+              value={plate}
+              onChange={(e) => setPlate(e.target.value.toUpperCase())}
+              placeholder="Plate number"
+              maxLength={20}
+              className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-amber-500"
+            />
+            <button
+              type="submit"
+              disabled={searching || !plate.trim()}
+              className="px-3 py-2 rounded-lg bg-gray-800 text-white text-sm font-medium hover:bg-gray-700 disabled:bg-gray-400 flex items-center"
+            >
+              {searching ? <Spinner size="sm" thickness={2} /> : "Find"}
+            </button>
+          </form>
+          {found && found.length > 0 && (
+            <div className="space-y-2 mt-2">
+              {found.map((membership) => {
+                const blocker = redeemBlocker(membership);
+                return (
+                  <button
+                    key={membership.id}
+                    onClick={() => onApply(membership)}
+                    disabled={!!blocker}
+                    className="w-full px-3 py-2 rounded-lg bg-gray-100 border border-gray-300 text-left text-xs text-gray-700 hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                  >
+                    <LuTicket size={16} />
+                    <span className="flex-1">
+                      <span className="font-semibold">
+                        {membership.plan_name}
+                      </span>{" "}
+                      · {blocker ?? membershipBalance(membership)}
+                    </span>
+                    <span>{formatExpiry(membership.expires_at)}</span>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
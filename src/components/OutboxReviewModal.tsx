@@ -0,0 +1,148 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { LuX } from "react-icons/lu";
+import { toast } from "react-toastify";
+import Spinner from "@/components/Spinner";
+import {
+  OutboxEntry,
+  discardOutboxEntry,
+  listOutbox,
+  retryOutboxEntry,
+  subscribeOutbox,
+} from "@/lib/orderOutbox";
+
+interface OutboxReviewModalProps {
+  onClose: () => void;
+}
+
+function orderTotal(entry: OutboxEntry): number | null {
+  const { total } = entry.payload.orderDetails as { total?: unknown };
+  return typeof total === "number" ? total : null;
+}
+
+// Offline orders the backend rejected, for a manager to retry or discard
+export default function OutboxReviewModal({ onClose }: OutboxReviewModalProps) {
+  const [entries, setEntries] = useState<OutboxEntry[] | null>(null);
+  // Order currently being retried or discarded
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // Refreshed on every outbox change, including background syncs
+  useEffect(
+    () =>
+      subscribeOutbox(() => {
+        listOutbox()
+          .then((all) => setEntries(all.filter((e) => e.status === "failed")))
+          .catch((error) => {
+            console.error("[Outbox] Failed to list entries:", error);
+            setEntries([]);
+          });
+      }),
+    []
+  );
+
+  const handleRetry = async (entry: OutboxEntry) => {
+    setBusyId(entry.orderId);
+    try {
+      if (await retryOutboxEntry(entry.orderId)) {
+        toast.success(`Order ${entry.orderId} synced`);
+      } else {
+        toast.error(`Order ${entry.orderId} was not accepted`);
+      }
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDiscard = async (entry: OutboxEntry) => {
+    if (
+      !confirm(
+        `Discard order ${entry.orderId}? It will never reach the backend ` +
+          "and has to be rung up again if it should be kept."
+      )
+    ) {
+      return;
+    }
+    setBusyId(entry.orderId);
+    try {
+      await discardOutboxEntry(entry.orderId);
+      toast.info(`Order ${entry.orderId} discarded`);
+    } catch (error) {
+      console.error("Error discarding order:", error);
+      toast.error("Could not discard the order");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 backdrop-blur-sm bg-black/30 flex items-center justify-center z-50 p-4">
+      <div className="bg-white p-6 rounded-lg shadow-lg w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-semibold">Failed Offline Orders</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-800">
+            <LuX size={24} />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          These orders were taken offline and rejected by the server when they
+          synced. Retry once the cause is fixed, or discard them.
+        </p>
+        {entries === null ? (
+          <div className="flex justify-center py-8">
+            <Spinner />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-gray-400 italic">No failed orders.</p>
+        ) : (
+          <ul className="space-y-3">
+            {entries.map((entry) => {
+              const total = orderTotal(entry);
+              return (
+                <li
+                  key={entry.orderId}
+                  className="border border-gray-200 rounded-lg p-3"
+                >
+                  <div className="flex justify-between items-start gap-3">
+                    <div className="text-sm">
+                      <p className="font-mono font-semibold">{entry.orderId}</p>
+                      <p className="text-gray-600">
+                        {entry.businessUnit}
+                        {total !== null && ` · ₱${total.toFixed(2)}`}
+                        {" · "}
+                        {new Date(entry.createdAt).toLocaleString("en-PH")}
+                      </p>
+                      <p className="text-red-600 mt-1">
+                        {entry.lastError || "Rejected by the server"}
+                      </p>
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      <button
+                        onClick={() => handleDiscard(entry)}
+                        disabled={busyId !== null}
+                        className="px-3 py-1.5 text-sm rounded-lg border border-gray-200 hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        Discard
+                      </button>
+                      <button
+                        onClick={() => handleRetry(entry)}
+                        disabled={busyId !== null}
+                        className="px-3 py-1.5 text-sm rounded-lg bg-amber-800 text-white hover:bg-amber-900 disabled:opacity-50 flex items-center"
+                      >
+                        {busyId === entry.orderId ? (
+                          <Spinner size="sm" thickness={2} />
+                        ) : (
+                          "Retry"
+                        )}
+                      </button>
+                    </div>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { LuCloudOff, LuRefreshCw, LuTriangleAlert } from "react-icons/lu";
+import { toast } from "react-toastify";
+import OutboxReviewModal from "@/components/OutboxReviewModal";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  flushOutbox,
+  subscribeOutbox,
+  OutboxStatus,
+} from "@/lib/orderOutbox";
+
+// Shows how many offline orders are still waiting to reach the backend
+export default function PendingSyncIndicator() {
+  const [status, setStatus] = useState<OutboxStatus>({
+    pending: 0,
+    failed: 0,
+    syncing: false,
+  });
+  const [reviewing, setReviewing] = useState(false);
+  const { isManager } = useAuth();
+
+  // Syncing itself runs from AppShell; this only shows the counts
+  useEffect(() => subscribeOutbox(setStatus), []);
+
+  const handleSyncNow = async () => {
+    const synced = await flushOutbox(true);
+    if (synced > 0) toast.success(`Synced ${synced} offline order(s)`);
+  };
+
+  if (status.pending === 0 && status.failed === 0 && !reviewing) return null;
+
+  return (
+    <div className="flex items-center gap-2">
+      {status.pending > 0 && (
+        <button
+          onClick={handleSyncNow}
+          disabled={status.syncing}
+          className="inline-flex items-center gap-2 px-3 py-2 text-sm rounded-md border border-amber-300 bg-amber-50 text-amber-800 hover:bg-amber-100 disabled:opacity-60"
+          title="Orders saved offline. Click to retry now."
+        >
+          {status.syncing ? (
+            <LuRefreshCw size={16} className="animate-spin" />
+          ) : (
+            <LuCloudOff size={16} />
+          )}
+          <span>{status.pending} pending sync</span>
+        </button>
+      )}
+      {status.failed > 0 &&
+        (isManager() ? (
+          <button
+            onClick={() => setReviewing(true)}
+            className="inline-flex items-center gap-1 px-3 py-2 text-sm rounded-md border border-red-300 bg-red-50 text-red-700 hover:bg-red-100"
+            title="Rejected by the server. Click to review."
+          >
+            <LuTriangleAlert size={16} />
+            {status.failed} failed
+          </button>
+        ) : (
+          <span
+            className="inline-flex items-center gap-1 px-3 py-2 text-sm rounded-md border border-red-300 bg-red-50 text-red-700"
+            title="Rejected by the server. Please notify a manager."
+          >
+            <LuTriangleAlert size={16} />
+            {status.failed} failed
+          </span>
+        ))}
+      {reviewing && <OutboxReviewModal onClose={() => setReviewing(false)} />}
+    </div>
+  );
+}
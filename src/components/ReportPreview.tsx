@@ -0,0 +1,32 @@
+"use client";
+
+import { toast } from "react-toastify";
+import ESCPOSPreview from "@/components/ESCPOSPreview";
+import { printWithRawBT, canUseRawBT } from "@/utils/rawbt";
+
+interface ReportPreviewProps {
+  bytes: Uint8Array;
+  onClose: () => void;
+}
+
+// X/Z-report preview with a Print button when a thermal printer is available
+export default function ReportPreview({ bytes, onClose }: ReportPreviewProps) {
+  const handlePrint = async () => {
+    await printWithRawBT(
+      bytes,
+      () => toast.success("Sending to thermal printer..."),
+      (error) => {
+        toast.error("RawBT not available. Install RawBT app to print.");
+        console.error("[ESC/POS]", error);
+      }
+    );
+  };
+
+  return (
+    <ESCPOSPreview
+      bytes={bytes}
+      onClose={onClose}
+      onPrint={canUseRawBT() ? handlePrint : undefined}
+    />
+  );
+}
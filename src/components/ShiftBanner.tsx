@@ -2,39 +2,26 @@
 
 import { useEffect, useState, useCallback } from "react";
 import { useAuth } from "@/contexts/AuthContext";
-import { getAuthHeaders } from "@/lib/auth";
-import { toast } from "react-toastify";
+import { api } from "@/lib/api";
+import type { Shift } from "@/lib/apiTypes";
+import { CACHE_KEYS, withOfflineCache, writeCache } from "@/lib/offlineCache";
 import { LuClock, LuLogOut, LuLogIn } from "react-icons/lu";
-
-const API_BASE = process.env.NEXT_PUBLIC_API_BASE || "http://localhost:5000";
-
-interface Shift {
-  id: number;
-  user_id: number;
-  start_time: string;
-  end_time: string | null;
-  status: "active" | "ended";
-  notes: string | null;
-}
+import StartShiftModal from "@/components/StartShiftModal";
+import CloseShiftModal from "@/components/CloseShiftModal";
 
 export default function ShiftBanner() {
   const { user } = useAuth();
   const [shift, setShift] = useState<Shift | null>(null);
-  const [loading, setLoading] = useState(false);
-  const [elapsed, setElapsed] = useState("");
+  const [showStartShift, setShowStartShift] = useState(false);
+  const [showCloseShift, setShowCloseShift] = useState(false);
+  // Refreshed every minute while a shift is active
+  const [now, setNow] = useState(() => Date.now());
 
-  const fetchCurrentShift = useCallback(async () => {
+  const fetchCurrentShift = useCallback(() => {
     if (!user) return;
-    try {
-      const res = await fetch(`${API_BASE}/api/shifts/current`, {
-        headers: getAuthHeaders(),
-      });
-      if (!res.ok) throw new Error("Failed to fetch shift");
-      const data = await res.json();
-      setShift(data.shift);
-    } catch (err) {
-      console.error(err);
-    }
+    withOfflineCache(CACHE_KEYS.shift, () => api.shifts.current())
+      .then((data) => setShift(data?.status === "active" ? data : null))
+      .catch((err) => console.error(err));
   }, [user]);
 
   useEffect(() => {
@@ -42,64 +29,28 @@ export default function ShiftBanner() {
   }, [fetchCurrentShift]);
 
   useEffect(() => {
-    if (!shift) {
-      setElapsed("");
-      return;
-    }
-
-    const updateElapsed = () => {
-      const start = new Date(shift.start_time).getTime();
-      const now = Date.now();
-      const diff = now - start;
-      const hours = Math.floor(diff / 1000 / 60 / 60);
-      const minutes = Math.floor((diff / 1000 / 60) % 60);
-      setElapsed(`${hours}h ${minutes}m`);
-    };
-
-    updateElapsed();
-    const interval = setInterval(updateElapsed, 60000); // Update every minute
+    if (!shift) return;
+    const interval = setInterval(() => setNow(Date.now()), 60000);
     return () => clearInterval(interval);
   }, [shift]);
 
-  const handleStartShift = async () => {
-    try {
-      setLoading(true);
-      const res = await fetch(`${API_BASE}/api/shifts/start`, {
-        method: "POST",
-        headers: getAuthHeaders(),
-      });
-      if (!res.ok) {
-        const data = await res.json();
-        throw new Error(data.message || "Failed to start shift");
-      }
-      toast.success("Shift started!");
-      fetchCurrentShift();
-    } catch (err) {
-      console.error(err);
-      toast.error(err instanceof Error ? err.message : "Failed to start shift");
-    } finally {
-      setLoading(false);
-    }
+  const elapsedMs = shift
+    ? Math.max(0, now - new Date(shift.start_time).getTime())
+    : 0;
+  const elapsed = `${Math.floor(elapsedMs / 1000 / 60 / 60)}h ${Math.floor(
+    (elapsedMs / 1000 / 60) % 60
+  )}m`;
+
+  const handleShiftStarted = () => {
+    setShowStartShift(false);
+    setNow(Date.now());
+    fetchCurrentShift();
   };
 
-  const handleEndShift = async () => {
-    const notes = prompt("Optional: Add notes about this shift");
-    try {
-      setLoading(true);
-      const res = await fetch(`${API_BASE}/api/shifts/end`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json", ...getAuthHeaders() },
-        body: JSON.stringify({ notes }),
-      });
-      if (!res.ok) throw new Error("Failed to end shift");
-      toast.success("Shift ended!");
-      setShift(null);
-    } catch (err) {
-      console.error(err);
-      toast.error("Failed to end shift");
-    } finally {
-      setLoading(false);
-    }
+  const handleShiftClosed = () => {
+    setShowCloseShift(false);
+    setShift(null);
+    writeCache(CACHE_KEYS.shift, null);
   };
 
   if (!user) return null;
@@ -124,8 +75,9 @@ export default function ShiftBanner() {
         )}
       </div>
       <button
-        onClick={shift ? handleEndShift : handleStartShift}
-        disabled={loading}
+        onClick={() =>
+          shift ? setShowCloseShift(true) : setShowStartShift(true)
+        }
         className={`px-3 py-1 rounded-lg font-medium flex items-center gap-1 transition-colors ${
           shift
             ? "bg-white/20 hover:bg-white/30 text-white"
@@ -142,6 +94,20 @@ export default function ShiftBanner() {
           </>
         )}
       </button>
+
+      {showStartShift && (
+        <StartShiftModal
+          onClose={() => setShowStartShift(false)}
+          onStarted={handleShiftStarted}
+        />
+      )}
+      {showCloseShift && shift && (
+        <CloseShiftModal
+          shift={shift}
+          onClose={() => setShowCloseShift(false)}
+          onClosed={handleShiftClosed}
+        />
+      )}
     </div>
   );
 }
@@ -3,7 +3,7 @@
 
 import Link from "next/link";
 import { usePathname } from "next/navigation";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import {
   LuLayoutDashboard,
   LuBoxes,
@@ -12,9 +12,17 @@ import {
   LuSettings,
   LuChartBar,
   LuUsers,
+  LuWallet,
+  LuContact,
+  LuCalendarClock,
+  LuBuilding2,
 } from "react-icons/lu";
+import { toast } from "react-toastify";
 import { useAuth } from "@/contexts/AuthContext";
-import { getAuthHeaders } from "@/lib/auth";
+import { api } from "@/lib/api";
+import type { CarwashTicket } from "@/lib/apiTypes";
+import { subscribeCarwashQueue } from "@/lib/carwashQueue";
+import { overdueTickets } from "@/lib/sla";
 
 // Nav sections
 const managementItems = [
@@ -38,6 +46,25 @@ const managementItems = [
     icon: LuCar,
     roles: ["manager", "staff"],
   },
+  {
+    name: "Appointments",
+    href: "/appointments",
+    icon: LuCalendarClock,
+    roles: ["manager", "staff"],
+  },
+  {
+    name: "Customers",
+    href: "/customers",
+    icon: LuContact,
+    roles: ["manager", "staff"],
+  },
+  {
+    name: "Corporate Accounts",
+    href: "/accounts",
+    icon: LuBuilding2,
+    roles: ["manager"],
+  },
+  { name: "Payroll", href: "/payroll", icon: LuWallet, roles: ["manager"] },
   {
     name: "Settings",
     href: "/settings",
@@ -55,24 +82,22 @@ export default function SidebarNav() {
   const pathname = usePathname();
   const { user } = useAuth();
   const [lowStockCount, setLowStockCount] = useState<number>(0);
+  const [queuedCount, setQueuedCount] = useState<number>(0);
+  const [inService, setInService] = useState<CarwashTicket[]>([]);
+  const [overdueCount, setOverdueCount] = useState<number>(0);
+  // Tickets already announced as overdue, so each one alerts only once
+  const alertedRef = useRef<Set<string>>(new Set());
+  const isManager = user?.role === "manager";
 
   // Fetch low stock count
   useEffect(() => {
     const fetchLowStockCount = async () => {
       try {
-        const API_BASE =
-          process.env.NEXT_PUBLIC_API_BASE || "http://localhost:5000";
-        const response = await fetch(`${API_BASE}/api/ingredients`, {
-          headers: getAuthHeaders(),
-        });
-        if (response.ok) {
-          const ingredients = await response.json();
-          const lowStock = ingredients.filter(
-            (item: { current_stock: number; required_stock: number }) =>
-              Number(item.current_stock) < Number(item.required_stock)
-          );
-          setLowStockCount(lowStock.length);
-        }
+        const ingredients = await api.ingredients.list();
+        const lowStock = ingredients.filter(
+          (item) => Number(item.current_stock) < Number(item.required_stock)
+        );
+        setLowStockCount(lowStock.length);
       } catch {
         // Silently fail to not disrupt navigation
       }
@@ -86,6 +111,41 @@ export default function SidebarNav() {
     }
   }, [user]);
 
+  // Vehicles waiting in the carwash queue, updated live
+  useEffect(() => {
+    if (!user) return;
+    return subscribeCarwashQueue((queue) => {
+      setQueuedCount(queue.tickets.filter((t) => t.status === "queue").length);
+      setInService(queue.tickets.filter((t) => t.status === "in_progress"));
+    });
+  }, [user]);
+
+  // Warn managers when a vehicle runs past its expected service time;
+  // re-checked every minute since tickets go overdue without queue changes
+  useEffect(() => {
+    if (!isManager) return;
+    const check = () => {
+      const overdue = overdueTickets(inService);
+      setOverdueCount(overdue.length);
+      overdue
+        .filter((t) => !alertedRef.current.has(t.order_id))
+        .forEach((t) => {
+          alertedRef.current.add(t.order_id);
+          const where = t.bay_name ? ` in ${t.bay_name}` : "";
+          toast.warn(
+            `${t.plate_number || t.order_id} is past its expected ` +
+              `${t.expected_minutes} min${where}.`
+          );
+        });
+    };
+    const timeout = setTimeout(check, 0);
+    const interval = setInterval(check, 60 * 1000);
+    return () => {
+      clearTimeout(timeout);
+      clearInterval(interval);
+    };
+  }, [isManager, inService]);
+
   const linkClass = (active: boolean, accent?: "pos") =>
     `flex items-center gap-3 p-3 rounded-lg transition-colors ${
       active
@@ -113,7 +173,12 @@ export default function SidebarNav() {
           {visibleManagementItems.map((item) => {
             const active = isActive(item.href);
             const Icon = item.icon;
-            const showBadge = item.href === "/inventory" && lowStockCount > 0;
+            const badgeCount =
+              item.href === "/inventory"
+                ? lowStockCount
+                : item.href === "/carwash-services"
+                  ? queuedCount
+                  : 0;
 
             return (
               <Link
@@ -123,11 +188,25 @@ export default function SidebarNav() {
               >
                 <Icon size={20} />
                 <span>{item.name}</span>
-                {showBadge && (
-                  <span className="ml-auto bg-red-500 text-white text-xs font-bold px-2 py-1 rounded-full">
-                    {lowStockCount}
-                  </span>
-                )}
+                <span className="ml-auto flex gap-1">
+                  {item.href === "/carwash-services" && overdueCount > 0 && (
+                    <span
+                      className="bg-red-500 text-white text-xs font-bold px-2 py-1 rounded-full"
+                      title="Past expected service time"
+                    >
+                      {overdueCount} late
+                    </span>
+                  )}
+                  {badgeCount > 0 && (
+                    <span
+                      className={`text-white text-xs font-bold px-2 py-1 rounded-full ${
+                        item.href === "/inventory" ? "bg-red-500" : "bg-blue-500"
+                      }`}
+                    >
+                      {badgeCount}
+                    </span>
+                  )}
+                </span>
               </Link>
             );
           })}
@@ -0,0 +1,92 @@
+"use client";
+
+import { useState } from "react";
+import { LuX } from "react-icons/lu";
+import { toast } from "react-toastify";
+import Spinner from "@/components/Spinner";
+import { api } from "@/lib/api";
+
+interface StartShiftModalProps {
+  onClose: () => void;
+  onStarted: () => void;
+}
+
+// Start a shift, recording the cash float placed in the drawer
+export default function StartShiftModal({
+  onClose,
+  onStarted,
+}: StartShiftModalProps) {
+  const [startingFloat, setStartingFloat] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseFloat(startingFloat || "0");
+    if (isNaN(amount) || amount < 0) {
+      toast.error("Please enter a valid starting float.");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await api.shifts.start(amount);
+      toast.success("Shift started! You can now use the POS systems.");
+      onStarted();
+    } catch (err) {
+      console.error("Start shift error:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to start shift");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 backdrop-blur-sm bg-black/30 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg shadow-lg w-full max-w-md text-gray-900">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-semibold">Start Shift</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-800">
+            <LuX size={24} />
+          </button>
+        </div>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Starting Float (₱)
+            </label>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              className="w-full border border-gray-300 rounded-lg p-2"
+              value={startingFloat}
+              onChange={(e) => setStartingFloat(e.target.value)}
+              placeholder="0.00"
+              autoFocus
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Cash in the drawer before the first sale.
+            </p>
+          </div>
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg border border-gray-200 hover:bg-gray-50"
+              disabled={saving}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 rounded-lg bg-amber-800 text-white hover:bg-amber-700 flex items-center"
+              disabled={saving}
+            >
+              {saving ? <Spinner size="sm" thickness={2} /> : "Start Shift"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
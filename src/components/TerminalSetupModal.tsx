@@ -0,0 +1,107 @@
+"use client";
+
+import { useState } from "react";
+import { LuX } from "react-icons/lu";
+import { toast } from "react-toastify";
+import Spinner from "@/components/Spinner";
+import { ApiError } from "@/lib/api";
+import { isNetworkError } from "@/lib/orderOutbox";
+import {
+  registerTerminal,
+  suggestedTerminalId,
+  syncReceiptSeries,
+} from "@/lib/receiptNumbers";
+
+interface TerminalSetupModalProps {
+  onClose: () => void;
+  // Called once the terminal is confirmed and its series synced
+  onReady: () => void;
+}
+
+// First-run setup: claim a terminal ID so this device can issue OR numbers
+export default function TerminalSetupModal({
+  onClose,
+  onReady,
+}: TerminalSetupModalProps) {
+  const [terminalId, setTerminalId] = useState(suggestedTerminalId);
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!terminalId.trim()) {
+      toast.error("Please enter a terminal ID.");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const claimed = await registerTerminal(terminalId);
+      await syncReceiptSeries();
+      toast.success(`This device now issues receipts as ${claimed}`);
+      onReady();
+    } catch (err) {
+      console.error("Terminal setup failed:", err);
+      toast.error(
+        err instanceof ApiError && err.status === 409
+          ? `Terminal ${terminalId.trim()} is already used by another device`
+          : isNetworkError(err)
+            ? "Offline: setting up a terminal needs a connection."
+            : err instanceof Error
+              ? err.message
+              : "Could not set up the terminal"
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 backdrop-blur-sm bg-black/30 flex items-center justify-center z-50 p-4">
+      <div className="bg-white p-6 rounded-lg shadow-lg w-full max-w-md text-gray-900">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-semibold">Set Up This Terminal</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-800">
+            <LuX size={24} />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          Official receipt numbers run per terminal, so each register needs its
+          own terminal ID before its first sale. The server refuses an ID
+          another device already holds.
+        </p>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Terminal ID
+            </label>
+            <input
+              type="text"
+              className="w-full border border-gray-300 rounded-lg p-2"
+              value={terminalId}
+              onChange={(e) => setTerminalId(e.target.value.toUpperCase())}
+              placeholder="e.g. T2"
+              autoFocus
+            />
+          </div>
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg border border-gray-200 hover:bg-gray-50"
+              disabled={saving}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 rounded-lg bg-amber-800 text-white hover:bg-amber-700 flex items-center"
+              disabled={saving}
+            >
+              {saving ? <Spinner size="sm" thickness={2} /> : "Set Up"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
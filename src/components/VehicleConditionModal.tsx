@@ -0,0 +1,319 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { LuCamera, LuX } from "react-icons/lu";
+import { toast } from "react-toastify";
+import Spinner from "@/components/Spinner";
+import DamageDiagram from "@/components/DamageDiagram";
+import { api } from "@/lib/api";
+import type { CarwashTicket, DamageType, FuelLevel } from "@/lib/apiTypes";
+import {
+  DAMAGE_TYPES,
+  FUEL_LEVELS,
+  MAX_CONDITION_PHOTOS,
+  VALUABLES_CHECKLIST,
+  diagramFor,
+  toggleMark,
+} from "@/lib/vehicleCondition";
+
+interface VehicleConditionModalProps {
+  ticket: CarwashTicket;
+  onClose: () => void;
+  onSaved: (ticket: CarwashTicket) => void;
+}
+
+// Check-in condition form: damage diagram, fuel, valuables, notes and photos
+export default function VehicleConditionModal({
+  ticket,
+  onClose,
+  onSaved,
+}: VehicleConditionModalProps) {
+  const existing = ticket.condition;
+  const layout = diagramFor(ticket.vehicle_type);
+  const [damageType, setDamageType] = useState<DamageType>("scratch");
+  const [marks, setMarks] = useState(existing?.marks ?? []);
+  const [fuelLevel, setFuelLevel] = useState<FuelLevel | null>(
+    existing?.fuel_level ?? null
+  );
+  const [valuables, setValuables] = useState<string[]>(
+    existing?.valuables ?? []
+  );
+  const [otherValuable, setOtherValuable] = useState("");
+  const [notes, setNotes] = useState(existing?.notes ?? "");
+  const [photos, setPhotos] = useState<string[]>(existing?.photos ?? []);
+  const [uploading, setUploading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const toggleValuable = (item: string) => {
+    setValuables((prev) =>
+      prev.includes(item) ? prev.filter((v) => v !== item) : [...prev, item]
+    );
+  };
+
+  const addOtherValuable = () => {
+    const item = otherValuable.trim();
+    if (!item) return;
+    if (!valuables.includes(item)) setValuables([...valuables, item]);
+    setOtherValuable("");
+  };
+
+  const handlePhotos = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    const room = MAX_CONDITION_PHOTOS - photos.length;
+    if (files.length > room) {
+      toast.warn(`Only ${MAX_CONDITION_PHOTOS} photos per vehicle.`);
+    }
+
+    setUploading(true);
+    try {
+      // One at a time so a slow connection doesn't stall every photo
+      for (const file of files.slice(0, Math.max(room, 0))) {
+        const { image_url } = await api.uploads.image(file);
+        setPhotos((prev) => [...prev, image_url]);
+      }
+    } catch (err) {
+      console.error("Error uploading photo:", err);
+      toast.error("Could not upload photo");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (
+      marks.length === 0 &&
+      photos.length === 0 &&
+      !confirm("No damage marked and no photos taken. Save anyway?")
+    ) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const saved = await api.carwash.saveCondition(ticket.order_id, {
+        marks,
+        notes: notes.trim(),
+        fuel_level: fuelLevel,
+        valuables,
+        photos,
+      });
+      toast.success("Vehicle condition saved!");
+      onSaved(saved);
+    } catch (err) {
+      console.error("Error saving vehicle condition:", err);
+      toast.error(
+        err instanceof Error ? err.message : "Could not save vehicle condition"
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 backdrop-blur-sm bg-black/30 flex items-center justify-center z-50 p-4">
+      <div className="bg-white p-6 rounded-lg shadow-lg w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-semibold">Vehicle Condition</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-800">
+            <LuX size={24} />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          <span className="font-mono">{ticket.order_id}</span>
+          {ticket.plate_number && ` · ${ticket.plate_number}`}
+          {ticket.vehicle_type && ` · ${ticket.vehicle_type}`}
+        </p>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Existing Damage
+            </label>
+            <div className="flex flex-wrap gap-2 mb-2">
+              {DAMAGE_TYPES.map((d) => (
+                <button
+                  key={d.type}
+                  type="button"
+                  onClick={() => setDamageType(d.type)}
+                  className={`px-3 py-1 rounded-full text-xs font-semibold border transition-all ${
+                    damageType === d.type
+                      ? `${d.style} text-white border-transparent shadow`
+                      : "bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
+                  }`}
+                >
+                  {d.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mb-2">
+              Pick a damage type, then tap the {layout.name.toLowerCase()} zone.
+              Tap again to remove it. Front is at the top.
+            </p>
+            <DamageDiagram
+              layout={layout}
+              marks={marks}
+              onZoneClick={(zone) =>
+                setMarks((prev) => toggleMark(prev, zone, damageType))
+              }
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Fuel Level
+            </label>
+            <div className="grid grid-cols-5 gap-2">
+              {FUEL_LEVELS.map((level) => (
+                <button
+                  key={level}
+                  type="button"
+                  onClick={() =>
+                    setFuelLevel(fuelLevel === level ? null : level)
+                  }
+                  className={`px-3 py-2 rounded-lg font-medium text-sm transition-all ${
+                    fuelLevel === level
+                      ? "bg-amber-800 text-white shadow-md"
+                      : "bg-gray-100 border border-gray-300 text-gray-700 hover:bg-gray-200"
+                  }`}
+                >
+                  {level}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Valuables Left Inside
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              {[
+                ...VALUABLES_CHECKLIST,
+                ...valuables.filter((v) => !VALUABLES_CHECKLIST.includes(v)),
+              ].map((item) => (
+                <label
+                  key={item}
+                  className="flex items-center text-sm text-gray-900"
+                >
+                  <input
+                    type="checkbox"
+                    checked={valuables.includes(item)}
+                    onChange={() => toggleValuable(item)}
+                    className="h-4 w-4 text-amber-600 border-gray-300 rounded focus:ring-amber-500"
+                  />
+                  <span className="ml-2">{item}</span>
+                </label>
+              ))}
+            </div>
+            <div className="flex gap-2 mt-2">
+              <input
+                type="text"
+                className="w-full border border-gray-300 rounded-lg p-2"
+                value={otherValuable}
+                onChange={(e) => setOtherValuable(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    addOtherValuable();
+                  }
+                }}
+                placeholder="Other item"
+              />
+              <button
+                type="button"
+                onClick={addOtherValuable}
+                className="px-4 py-2 rounded-lg border border-gray-200 hover:bg-gray-50"
+              >
+                Add
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Notes
+            </label>
+            <textarea
+              className="w-full border border-gray-300 rounded-lg p-2"
+              rows={3}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="e.g. Faded paint on roof, aftermarket rims"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Photos ({photos.length}/{MAX_CONDITION_PHOTOS})
+            </label>
+            <div className="grid grid-cols-4 gap-2">
+              {photos.map((url) => (
+                <div key={url} className="relative">
+                  <Image
+                    src={url}
+                    alt="Vehicle condition"
+                    width={120}
+                    height={120}
+                    className="w-full aspect-square rounded-lg object-cover border"
+                  />
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setPhotos((prev) => prev.filter((p) => p !== url))
+                    }
+                    className="absolute top-1 right-1 bg-white/90 rounded-full p-0.5 text-gray-700 hover:text-red-600"
+                    title="Remove photo"
+                  >
+                    <LuX size={14} />
+                  </button>
+                </div>
+              ))}
+              {photos.length < MAX_CONDITION_PHOTOS && (
+                <label className="aspect-square rounded-lg border-2 border-dashed border-gray-300 flex flex-col items-center justify-center text-xs text-gray-500 cursor-pointer hover:bg-gray-50">
+                  {uploading ? (
+                    <Spinner size="sm" thickness={2} />
+                  ) : (
+                    <>
+                      <LuCamera size={22} />
+                      <span className="mt-1">Take photo</span>
+                    </>
+                  )}
+                  {/* Opens the rear camera on tablets */}
+                  <input
+                    type="file"
+                    accept="image/*"
+                    capture="environment"
+                    multiple
+                    onChange={handlePhotos}
+                    disabled={uploading}
+                    className="hidden"
+                  />
+                </label>
+              )}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg border border-gray-200 hover:bg-gray-50"
+              disabled={saving}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 rounded-lg bg-amber-800 text-white hover:bg-amber-900 flex items-center"
+              disabled={saving || uploading}
+            >
+              {saving ? <Spinner size="sm" thickness={2} /> : "Save Condition"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,335 @@
+"use client";
+
+import { useState } from "react";
+import { LuX } from "react-icons/lu";
+import { toast } from "react-toastify";
+import Spinner from "@/components/Spinner";
+import ESCPOSPreview from "@/components/ESCPOSPreview";
+import { useAuth } from "@/contexts/AuthContext";
+import { api, ApiError } from "@/lib/api";
+import type {
+  OrderRefund,
+  RefundLine,
+  RefundType,
+  Transaction,
+} from "@/lib/apiTypes";
+import { sumAmounts } from "@/lib/money";
+import { recordIngredientUsage } from "@/lib/recipes";
+import {
+  REFUND_REASONS,
+  lineRefundAmount,
+  netTotal,
+  refundIngredientUsage,
+  refundedQuantities,
+  voidLines,
+} from "@/lib/refunds";
+import { generateRefundSlip } from "@/utils/escpos";
+import { printWithRawBT, canUseRawBT } from "@/utils/rawbt";
+
+interface VoidOrderModalProps {
+  transaction: Transaction;
+  onClose: () => void;
+  // Called once the refund is recorded so the page can reload its data
+  onRefunded: (refund: OrderRefund) => void;
+}
+
+function itemName(tx: Transaction, index: number): string {
+  const item = tx.items[index];
+  const name = item.details?.name;
+  return typeof name === "string" && name ? name : item.item_type;
+}
+
+// Void a whole order or refund some of its lines, approved with a manager PIN
+export default function VoidOrderModal({
+  transaction: tx,
+  onClose,
+  onRefunded,
+}: VoidOrderModalProps) {
+  const { user } = useAuth();
+  const refunded = refundedQuantities(tx);
+  const remaining = tx.items.map((item, i) => item.quantity - refunded[i]);
+
+  const [type, setType] = useState<RefundType>("void");
+  const [quantities, setQuantities] = useState<number[]>(() =>
+    tx.items.map(() => 0)
+  );
+  const [reason, setReason] = useState(REFUND_REASONS[0]);
+  const [otherReason, setOtherReason] = useState("");
+  const [managerPin, setManagerPin] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [slipBytes, setSlipBytes] = useState<Uint8Array | null>(null);
+
+  const selectedLines: RefundLine[] =
+    type === "void"
+      ? voidLines(tx).lines
+      : quantities
+          .map((quantity, index) => ({
+            item_index: index,
+            quantity,
+            amount: lineRefundAmount(tx, index, quantity),
+          }))
+          .filter((line) => line.quantity > 0);
+  const amount =
+    type === "void"
+      ? voidLines(tx).amount
+      : sumAmounts(selectedLines.map((line) => line.amount));
+
+  const setQuantity = (index: number, value: number) => {
+    const quantity = Math.max(0, Math.min(remaining[index], value || 0));
+    setQuantities((prev) => prev.map((q, i) => (i === index ? quantity : q)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const finalReason = reason === "Other" ? otherReason.trim() : reason;
+    if (!finalReason) {
+      toast.error("Please enter a reason.");
+      return;
+    }
+    if (selectedLines.length === 0 || amount <= 0) {
+      toast.error("Select at least one item to refund.");
+      return;
+    }
+    if (!managerPin.trim()) {
+      toast.error("A manager PIN is required.");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const refund = await api.orders.refund(tx.order_id, {
+        type,
+        reason: finalReason,
+        lines: selectedLines,
+        amount,
+        manager_pin: managerPin.trim(),
+      });
+
+      // Put the ingredients used by the returned drinks back into stock
+      if (tx.items.some((item) => item.business_unit === "Coffee")) {
+        try {
+          const products = await api.products.list();
+          const usage = refundIngredientUsage(
+            tx,
+            selectedLines,
+            products,
+            type === "void"
+          );
+          // Keyed per refund: a partial refund and a later void both restore
+          // their own lines
+          await recordIngredientUsage(
+            tx.order_id,
+            usage,
+            "void",
+            `void-${tx.order_id}-${refund.id}`
+          );
+        } catch (error) {
+          console.error("Failed to restore inventory:", error);
+          toast.warning("Refund saved, but inventory was not restored.");
+        }
+      }
+
+      toast.success(
+        `${type === "void" ? "Order voided" : "Refund recorded"}: ₱${amount.toFixed(2)}`
+      );
+      onRefunded(refund);
+
+      const bytes = generateRefundSlip({
+        orderId: tx.order_id,
+        orNumber: tx.or_number,
+        businessUnit: [...new Set(tx.items.map((i) => i.business_unit))].join(
+          " / "
+        ),
+        type,
+        items: selectedLines.map((line) => ({
+          name: itemName(tx, line.item_index),
+          quantity: line.quantity,
+          amount: Number(line.amount),
+        })),
+        amount,
+        reason: finalReason,
+        approvedBy: refund.approved_by_name,
+        processedBy: refund.processed_by_name || user?.fullName || "",
+        paymentMethod: tx.payment_method,
+        timestamp: new Date().toLocaleString("en-US", {
+          month: "short",
+          day: "2-digit",
+          year: "numeric",
+          hour: "2-digit",
+          minute: "2-digit",
+          hour12: true,
+        }),
+      });
+
+      if (canUseRawBT()) {
+        await printWithRawBT(bytes, undefined, (error) => {
+          toast.error("RawBT not available. Refund slip was not printed.");
+          console.error("[ESC/POS]", error);
+        });
+        onClose();
+      } else {
+        // No thermal printer on this device; show the slip instead
+        setSlipBytes(bytes);
+      }
+    } catch (error) {
+      console.error("Refund failed:", error);
+      toast.error(
+        error instanceof ApiError && error.status === 403
+          ? "Invalid manager PIN."
+          : error instanceof Error
+            ? error.message
+            : "Refund failed"
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (slipBytes) {
+    return <ESCPOSPreview bytes={slipBytes} onClose={onClose} />;
+  }
+
+  return (
+    <div className="fixed inset-0 backdrop-blur-sm bg-black/30 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg shadow-lg w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-semibold">Void / Refund #{tx.order_id}</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-800">
+            <LuX size={24} />
+          </button>
+        </div>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            {(["void", "refund"] as RefundType[]).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setType(option)}
+                className={`px-3 py-2 rounded-lg font-medium text-sm transition-all ${
+                  type === option
+                    ? "bg-red-600 text-white shadow-md"
+                    : "bg-gray-100 border border-gray-300 text-gray-700 hover:bg-gray-200"
+                }`}
+              >
+                {option === "void" ? "Void Entire Order" : "Refund Items"}
+              </button>
+            ))}
+          </div>
+
+          <div className="border rounded-lg divide-y">
+            {tx.items.map((item, index) => (
+              <div
+                key={index}
+                className="flex items-center justify-between gap-3 p-2 text-sm"
+              >
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 truncate">
+                    {itemName(tx, index)}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {item.quantity}x · ₱{Number(item.line_total).toFixed(2)}
+                    {refunded[index] > 0 && ` · ${refunded[index]} returned`}
+                  </p>
+                </div>
+                {type === "refund" ? (
+                  <input
+                    type="number"
+                    min="0"
+                    max={remaining[index]}
+                    className="w-20 border border-gray-300 rounded-lg p-1 text-right"
+                    value={quantities[index]}
+                    onChange={(e) =>
+                      setQuantity(index, parseInt(e.target.value, 10))
+                    }
+                    disabled={remaining[index] === 0}
+                  />
+                ) : (
+                  <span className="text-gray-500">{remaining[index]}</span>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Reason *
+            </label>
+            <select
+              className="w-full border border-gray-300 rounded-lg p-2 bg-white"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            >
+              {REFUND_REASONS.map((r) => (
+                <option key={r} value={r}>
+                  {r}
+                </option>
+              ))}
+              <option value="Other">Other</option>
+            </select>
+            {reason === "Other" && (
+              <input
+                type="text"
+                className="w-full border border-gray-300 rounded-lg p-2 mt-2"
+                placeholder="Describe the reason"
+                value={otherReason}
+                onChange={(e) => setOtherReason(e.target.value)}
+              />
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Manager PIN *
+            </label>
+            <input
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              className="w-full border border-gray-300 rounded-lg p-2 tracking-widest"
+              value={managerPin}
+              onChange={(e) => setManagerPin(e.target.value)}
+            />
+          </div>
+
+          <div className="flex justify-between items-center bg-red-50 border border-red-200 rounded-lg p-3">
+            <span className="text-sm font-medium text-red-800">
+              Amount to return
+            </span>
+            <span className="text-lg font-bold text-red-700">
+              -₱{amount.toFixed(2)}
+            </span>
+          </div>
+          <p className="text-xs text-gray-500">
+            Order total ₱{Number(tx.total).toFixed(2)}, currently ₱
+            {netTotal(tx).toFixed(2)} after earlier refunds.
+          </p>
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg border border-gray-200 hover:bg-gray-50"
+              disabled={saving}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 rounded-lg bg-red-600 text-white hover:bg-red-700 flex items-center"
+              disabled={saving}
+            >
+              {saving ? (
+                <Spinner size="sm" thickness={2} />
+              ) : type === "void" ? (
+                "Void Order"
+              ) : (
+                "Refund Items"
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
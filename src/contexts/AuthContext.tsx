@@ -5,17 +5,18 @@ import {
   useContext,
   useState,
   useEffect,
+  useCallback,
   ReactNode,
 } from "react";
 import { useRouter } from "next/navigation";
 import { toast } from "react-toastify";
+import { api, setUnauthorizedHandler } from "@/lib/api";
+import type { AuthUser, Shift } from "@/lib/apiTypes";
+import CloseShiftModal from "@/components/CloseShiftModal";
+import { CACHE_KEYS, clearCache, withOfflineCache } from "@/lib/offlineCache";
+import { flushOutbox } from "@/lib/orderOutbox";
 
-interface User {
-  id: number;
-  username: string;
-  fullName: string;
-  role: "manager" | "staff";
-}
+type User = AuthUser;
 
 interface AuthContextType {
   user: User | null;
@@ -31,8 +32,9 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  // Active shift being closed before logging out
+  const [closingShift, setClosingShift] = useState<Shift | null>(null);
   const router = useRouter();
-  const API_BASE = process.env.NEXT_PUBLIC_API_BASE || "http://localhost:5000";
 
   // Verify token on mount
   useEffect(() => {
@@ -44,48 +46,50 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       }
 
       try {
-        const response = await fetch(`${API_BASE}/api/auth/verify`, {
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-        });
-
-        if (response.ok) {
-          const data = await response.json();
-          setUser(data.user);
-        } else {
-          localStorage.removeItem("auth_token");
-        }
+        // Offline, the last verified user stays logged in so the counter can
+        // keep selling after a reload; the outbox syncs under the same token
+        const data = await withOfflineCache(CACHE_KEYS.user, () =>
+          api.auth.verify()
+        );
+        setUser(data.user);
       } catch (error) {
         console.error("Token verification failed:", error);
         localStorage.removeItem("auth_token");
+        clearCache(CACHE_KEYS.user, CACHE_KEYS.shift);
       } finally {
         setLoading(false);
       }
     };
 
     verifyToken();
-  }, [API_BASE]);
+  }, []);
+
+  // Any API call that comes back 401 means the token expired or was revoked
+  const handleUnauthorized = useCallback(() => {
+    // Several requests can fail at once; only the first one logs out
+    if (!localStorage.getItem("auth_token")) return;
+    localStorage.removeItem("auth_token");
+    clearCache(CACHE_KEYS.user, CACHE_KEYS.shift);
+    setUser(null);
+    router.push("/login");
+    toast.error("Your session has expired. Please log in again.");
+  }, [router]);
+
+  useEffect(() => {
+    setUnauthorizedHandler(handleUnauthorized);
+    return () => setUnauthorizedHandler(null);
+  }, [handleUnauthorized]);
 
   const login = async (username: string, password: string) => {
     try {
-      const response = await fetch(`${API_BASE}/api/auth/login`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ username, password }),
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || "Login failed");
-      }
-
-      const data = await response.json();
+      const data = await api.auth.login(username, password);
       localStorage.setItem("auth_token", data.token);
+      // The cached shift belonged to whoever was logged in before
+      clearCache(CACHE_KEYS.user, CACHE_KEYS.shift);
       setUser(data.user);
       toast.success(`Welcome, ${data.user.fullName}!`);
+      // Orders held back by an expired session can go out now
+      flushOutbox(true);
       router.push("/");
     } catch (error) {
       const message = error instanceof Error ? error.message : "Login failed";
@@ -94,25 +98,42 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const logout = () => {
-    // End shift if active before logging out
-    const token = localStorage.getItem("auth_token");
-    if (token && user) {
-      fetch(`${API_BASE}/api/shifts/end`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`,
-        },
-        body: JSON.stringify({ notes: "Auto-ended on logout" }),
-      }).catch(() => {}); // Silently fail if no active shift
-    }
+  const finishLogout = () => {
+    setClosingShift(null);
     localStorage.removeItem("auth_token");
+    clearCache(CACHE_KEYS.user, CACHE_KEYS.shift);
     setUser(null);
     router.push("/login");
     toast.info("Logged out successfully");
   };
 
+  // A shift is never ended without a drawer count: an active shift is either
+  // closed through the drawer count first or left open for a manager to
+  // reconcile
+  const logout = () => {
+    if (!user || !localStorage.getItem("auth_token")) {
+      finishLogout();
+      return;
+    }
+    api.shifts
+      .current()
+      .then((shift) => {
+        if (
+          shift?.status === "active" &&
+          confirm(
+            "Your shift is still active. Count the drawer and close it now?\n" +
+              "Cancel logs out and leaves the shift open for a manager."
+          )
+        ) {
+          setClosingShift(shift);
+          return;
+        }
+        finishLogout();
+      })
+      // Offline or no shift to check: the shift stays as it is
+      .catch(() => finishLogout());
+  };
+
   const isManager = () => user?.role === "manager";
   const isStaff = () => user?.role === "staff" || user?.role === "manager";
 
@@ -121,6 +142,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       value={{ user, loading, login, logout, isManager, isStaff }}
     >
       {children}
+      {closingShift && (
+        <CloseShiftModal
+          shift={closingShift}
+          onClose={() => setClosingShift(null)}
+          onClosed={finishLogout}
+        />
+      )}
     </AuthContext.Provider>
   );
 }
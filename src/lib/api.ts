@@ -0,0 +1,775 @@
+// Typed API client
+// One method per backend route so pages don't hand-roll fetch calls. Every
+// request carries the auth token, non-2xx responses become ApiError, and a 401
+// is reported to the handler registered by AuthContext (which logs the user out).
+
+import { getAuthHeaders } from "./auth";
+import type {
+  AccountCharge,
+  AccountLedgerFilters,
+  AccountPayment,
+  AccountPaymentPayload,
+  AdminCatalogService,
+  Appointment,
+  AppointmentDay,
+  AppointmentFilters,
+  AppointmentPayload,
+  AppUser,
+  CancellationStats,
+  CarwashBay,
+  CarwashBayPayload,
+  CarwashTicket,
+  CarwashTicketFilters,
+  CarwashTicketPayload,
+  CatalogPricePayload,
+  CatalogService,
+  CatalogServicePayload,
+  CloseShiftRequest,
+  CoffeeTopProduct,
+  CommissionRule,
+  CommissionRulePayload,
+  CorporateAccount,
+  CorporateAccountPayload,
+  CreateOrderRequest,
+  CreateOrderResponse,
+  Customer,
+  CustomerPayload,
+  CustomerVehicle,
+  CustomerVehiclePayload,
+  CustomerVisitRequest,
+  DiscountRule,
+  DiscountRulePayload,
+  Ingredient,
+  IngredientPayload,
+  IngredientUsagePayload,
+  InventoryHistoryEntry,
+  LoginResponse,
+  LoyaltyAccount,
+  LoyaltyReward,
+  LoyaltyRewardPayload,
+  LoyaltySettings,
+  Membership,
+  MembershipFilters,
+  NotificationDelivery,
+  NotificationDeliveryPayload,
+  NotificationEvent,
+  NotificationTemplate,
+  NotificationTemplatePayload,
+  OrderRefund,
+  AuthUser,
+  MyShiftSummary,
+  PopularService,
+  PublicQueueSnapshot,
+  Product,
+  ProductPayload,
+  ReceiptRegisterFilters,
+  ReceiptRegisterPage,
+  ReceiptSeries,
+  ReceiptSeriesPayload,
+  RefundOrderRequest,
+  RevenuePoint,
+  SalesByBusinessByDay,
+  SendSmsRequest,
+  SendSmsResponse,
+  SalesSummary,
+  ServiceByVehicle,
+  SettleTicketRequest,
+  Shift,
+  ShiftRefund,
+  ShiftWithUser,
+  StaffTransaction,
+  StartServiceRequest,
+  StockMovementPayload,
+  StreamToken,
+  TerminalClaim,
+  Transaction,
+  TransactionFilters,
+  TransactionPage,
+  UploadResponse,
+  VehicleConditionPayload,
+  UserPayload,
+  WashPlan,
+  WashPlanPayload,
+  Washer,
+  WasherPayload,
+  WasherThroughput,
+} from "./apiTypes";
+
+export const API_BASE =
+  process.env.NEXT_PUBLIC_API_BASE || "http://localhost:5000";
+
+/**
+ * Error thrown for failed requests. `status` is 0 when the backend could not
+ * be reached at all.
+ */
+export class ApiError extends Error {
+  status: number;
+  data: unknown;
+
+  constructor(message: string, status: number, data: unknown = null) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.data = data;
+  }
+
+  get isNetworkError(): boolean {
+    return this.status === 0;
+  }
+}
+
+type QueryValue = string | number | boolean | null | undefined;
+
+interface RequestOptions {
+  method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  body?: unknown;
+  query?: Record<string, QueryValue>;
+  headers?: Record<string, string>;
+  // Login/verify handle their own 401s
+  skipUnauthorized?: boolean;
+}
+
+let unauthorizedHandler: (() => void) | null = null;
+
+/**
+ * Register the callback run when any request comes back 401
+ */
+export function setUnauthorizedHandler(handler: (() => void) | null): void {
+  unauthorizedHandler = handler;
+}
+
+function buildUrl(path: string, query?: Record<string, QueryValue>): string {
+  const params = new URLSearchParams();
+  Object.entries(query || {}).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== "") {
+      params.append(key, String(value));
+    }
+  });
+  const qs = params.toString();
+  return `${API_BASE}${path}${qs ? `?${qs}` : ""}`;
+}
+
+function errorMessage(data: unknown, status: number): string {
+  if (typeof data === "object" && data !== null) {
+    const { message, error } = data as { message?: unknown; error?: unknown };
+    if (typeof message === "string" && message) return message;
+    if (typeof error === "string" && error) return error;
+  }
+  return `Request failed (HTTP ${status})`;
+}
+
+async function request<T>(
+  path: string,
+  options: RequestOptions = {}
+): Promise<T> {
+  const { method = "GET", body, query, headers, skipUnauthorized } = options;
+  const isFormData = body instanceof FormData;
+
+  let response: Response;
+  try {
+    response = await fetch(buildUrl(path, query), {
+      method,
+      headers: {
+        // Let the browser set the multipart boundary for FormData
+        ...(body !== undefined && !isFormData
+          ? { "Content-Type": "application/json" }
+          : {}),
+        ...getAuthHeaders(),
+        ...headers,
+      } as HeadersInit,
+      body:
+        body === undefined
+          ? undefined
+          : isFormData
+            ? body
+            : JSON.stringify(body),
+    });
+  } catch (error) {
+    throw new ApiError(
+      error instanceof Error ? error.message : "Network error",
+      0
+    );
+  }
+
+  const text = await response.text();
+  let data: unknown = null;
+  if (text) {
+    try {
+      data = JSON.parse(text);
+    } catch {
+      data = text;
+    }
+  }
+
+  if (!response.ok) {
+    if (response.status === 401 && !skipUnauthorized) {
+      unauthorizedHandler?.();
+    }
+    throw new ApiError(
+      errorMessage(data, response.status),
+      response.status,
+      data
+    );
+  }
+
+  return data as T;
+}
+
+const enc = encodeURIComponent;
+
+export const api = {
+  auth: {
+    login: (username: string, password: string) =>
+      request<LoginResponse>("/api/auth/login", {
+        method: "POST",
+        body: { username, password },
+        skipUnauthorized: true,
+      }),
+    verify: () =>
+      request<{ user: AuthUser }>("/api/auth/verify", {
+        skipUnauthorized: true,
+      }),
+  },
+
+  users: {
+    list: () => request<AppUser[]>("/api/auth/users"),
+    create: (payload: UserPayload) =>
+      request<AppUser>("/api/auth/users", { method: "POST", body: payload }),
+    update: (id: number, payload: UserPayload) =>
+      request<AppUser>(`/api/auth/users/${id}`, {
+        method: "PUT",
+        body: payload,
+      }),
+    remove: (id: number) =>
+      request<void>(`/api/auth/users/${id}`, { method: "DELETE" }),
+  },
+
+  orders: {
+    // The client orderId is sent as an idempotency key, on the first attempt
+    // and on outbox replays alike
+    create: (order: CreateOrderRequest, idempotencyKey?: string) =>
+      request<CreateOrderResponse>("/api/orders", {
+        method: "POST",
+        body: order,
+        headers: idempotencyKey
+          ? { "Idempotency-Key": idempotencyKey }
+          : undefined,
+      }),
+    // Rejected with 403 when the manager PIN is wrong
+    refund: (orderId: string, payload: RefundOrderRequest) =>
+      request<OrderRefund>(`/api/orders/${enc(orderId)}/refunds`, {
+        method: "POST",
+        body: payload,
+      }),
+  },
+
+  shifts: {
+    current: () => request<Shift | null>("/api/shifts/current"),
+    start: (startingFloat: number) =>
+      request<Shift>("/api/shifts/start", {
+        method: "POST",
+        body: { starting_float: startingFloat },
+      }),
+    // Not tied to the 401 handler: logout calls this with a possibly stale token
+    end: (notes: string | null, options: { skipUnauthorized?: boolean } = {}) =>
+      request<Shift>("/api/shifts/end", {
+        method: "POST",
+        body: { notes },
+        ...options,
+      }),
+    // End the shift with the drawer count
+    close: (payload: CloseShiftRequest) =>
+      request<Shift>("/api/shifts/end", { method: "POST", body: payload }),
+    history: () => request<ShiftWithUser[]>("/api/shifts/history"),
+  },
+
+  reports: {
+    summary: () => request<SalesSummary[]>("/api/reports/summary"),
+    salesByBusinessByDay: () =>
+      request<SalesByBusinessByDay[]>(
+        "/api/reports/sales-by-business-by-day"
+      ),
+    myShiftSummary: () =>
+      request<MyShiftSummary>("/api/reports/my-shift/summary"),
+    myShiftTransactions: (query: { page?: number; size?: number } = {}) =>
+      request<TransactionPage<Transaction>>(
+        "/api/reports/my-shift/transactions",
+        { query: { ...query } }
+      ),
+    // Refunds recorded during my shift, whichever shift sold the order
+    myShiftRefunds: () =>
+      request<ShiftRefund[]>("/api/reports/my-shift/refunds"),
+    // Refunds recorded between the dates (by when they were made), all staff
+    refunds: (range: { startDate: string; endDate: string }) =>
+      request<ShiftRefund[]>("/api/reports/refunds", { query: { ...range } }),
+    allTransactions: (filters: TransactionFilters = {}) =>
+      request<TransactionPage<StaffTransaction>>(
+        "/api/reports/my-shift/all-transactions",
+        { query: { ...filters } }
+      ),
+    carwash: {
+      popularServices: () =>
+        request<PopularService[]>("/api/reports/carwash/popular-services"),
+      cancellations: () =>
+        request<CancellationStats[]>("/api/reports/carwash/cancellations"),
+      washerThroughput: () =>
+        request<WasherThroughput[]>(
+          "/api/reports/carwash/washer-throughput"
+        ),
+      servicesByVehicle: () =>
+        request<ServiceByVehicle[]>(
+          "/api/reports/carwash/services-by-vehicle"
+        ),
+      revenueTrends: () =>
+        request<RevenuePoint[]>("/api/reports/carwash/revenue-trends"),
+    },
+    coffee: {
+      topProducts: () =>
+        request<CoffeeTopProduct[]>("/api/reports/coffee/top-products"),
+      revenueTrends: () =>
+        request<RevenuePoint[]>("/api/reports/coffee/revenue-trends"),
+    },
+  },
+
+  ingredients: {
+    list: (archived?: boolean) =>
+      request<Ingredient[]>("/api/ingredients", { query: { archived } }),
+    create: (payload: IngredientPayload) =>
+      request<Ingredient>("/api/ingredients", {
+        method: "POST",
+        body: payload,
+      }),
+    update: (id: number, payload: IngredientPayload) =>
+      request<Ingredient>(`/api/ingredients/${id}`, {
+        method: "PUT",
+        body: payload,
+      }),
+    remove: (id: number) =>
+      request<void>(`/api/ingredients/${id}`, { method: "DELETE" }),
+    archive: (id: number) =>
+      request<unknown>(`/api/ingredients/${id}/archive`, { method: "POST" }),
+    unarchive: (id: number) =>
+      request<unknown>(`/api/ingredients/${id}/unarchive`, {
+        method: "POST",
+      }),
+    recordMovement: (payload: StockMovementPayload) =>
+      request<unknown>("/api/ingredients/movement", {
+        method: "POST",
+        body: payload,
+      }),
+    // The key makes a retried batch a no-op once the first attempt landed
+    recordUsage: (payload: IngredientUsagePayload, idempotencyKey: string) =>
+      request<unknown>("/api/ingredients/usage", {
+        method: "POST",
+        body: payload,
+        headers: { "Idempotency-Key": idempotencyKey },
+      }),
+  },
+
+  products: {
+    list: () => request<Product[]>("/api/products"),
+    create: (payload: ProductPayload) =>
+      request<Product>("/api/products", { method: "POST", body: payload }),
+    update: (id: number, payload: ProductPayload) =>
+      request<Product>(`/api/products/${id}`, {
+        method: "PUT",
+        body: payload,
+      }),
+    remove: (id: number) =>
+      request<void>(`/api/products/${id}`, { method: "DELETE" }),
+    history: () => request<InventoryHistoryEntry[]>("/api/products/history"),
+  },
+
+  uploads: {
+    image: (file: File) => {
+      const formData = new FormData();
+      formData.append("image", file);
+      return request<UploadResponse>("/api/upload", {
+        method: "POST",
+        body: formData,
+      });
+    },
+  },
+
+  carwash: {
+    list: (filters: CarwashTicketFilters = {}) =>
+      request<CarwashTicket[]>("/api/carwash/services", {
+        query: { ...filters },
+      }),
+    get: (orderId: string) =>
+      request<CarwashTicket>(`/api/carwash/services/${enc(orderId)}`),
+    upsert: (payload: CarwashTicketPayload) =>
+      request<CarwashTicket>("/api/carwash/services", {
+        method: "POST",
+        body: payload,
+      }),
+    start: (orderId: string, assignment?: StartServiceRequest) =>
+      request<CarwashTicket>(`/api/carwash/services/${enc(orderId)}/start`, {
+        method: "PUT",
+        body: assignment,
+      }),
+    complete: (orderId: string) =>
+      request<CarwashTicket>(
+        `/api/carwash/services/${enc(orderId)}/complete`,
+        { method: "PUT" }
+      ),
+    cancel: (orderId: string, reason: string) =>
+      request<CarwashTicket>(`/api/carwash/services/${enc(orderId)}/cancel`, {
+        method: "PUT",
+        body: { reason },
+      }),
+    reopen: (orderId: string) =>
+      request<CarwashTicket>(`/api/carwash/services/${enc(orderId)}/reopen`, {
+        method: "PUT",
+      }),
+    // Mark a pay-later ticket paid
+    settle: (orderId: string, payload: SettleTicketRequest) =>
+      request<CarwashTicket>(`/api/carwash/services/${enc(orderId)}/settle`, {
+        method: "PUT",
+        body: payload,
+      }),
+    // Check-in condition form; saving again replaces it
+    saveCondition: (orderId: string, payload: VehicleConditionPayload) =>
+      request<CarwashTicket>(
+        `/api/carwash/services/${enc(orderId)}/condition`,
+        { method: "PUT", body: payload }
+      ),
+    // EventSource cannot set headers, so the stream is opened with a
+    // short-lived token from here instead of the login token
+    streamToken: () =>
+      request<StreamToken>("/api/carwash/events/token", { method: "POST" }),
+    // Server-sent events stream of CarwashTicketEvent
+    eventsUrl: (streamToken: string) =>
+      buildUrl("/api/carwash/events", { stream_token: streamToken }),
+    // Link a ticket (text order_id) to the DB order id (UUID)
+    linkOrder: (ticketId: string, dbOrderId: string) =>
+      request<unknown>(`/api/carwash/services/${enc(ticketId)}/link-order`, {
+        method: "PATCH",
+        body: { order_id: dbOrderId },
+      }),
+  },
+
+  customers: {
+    // Matches name, phone or plate
+    list: (search?: string) =>
+      request<Customer[]>("/api/customers", { query: { search } }),
+    get: (id: number) => request<Customer>(`/api/customers/${id}`),
+    update: (id: number, payload: CustomerPayload) =>
+      request<Customer>(`/api/customers/${id}`, {
+        method: "PUT",
+        body: payload,
+      }),
+    // Tickets of every vehicle the customer has brought in, newest first
+    visits: (id: number) =>
+      request<CarwashTicket[]>(`/api/customers/${id}/visits`),
+    recordVisit: (payload: CustomerVisitRequest) =>
+      request<Customer>("/api/customers/visits", {
+        method: "POST",
+        body: payload,
+      }),
+    addVehicle: (customerId: number, payload: CustomerVehiclePayload) =>
+      request<CustomerVehicle>(`/api/customers/${customerId}/vehicles`, {
+        method: "POST",
+        body: payload,
+      }),
+    updateVehicle: (
+      customerId: number,
+      vehicleId: number,
+      payload: CustomerVehiclePayload
+    ) =>
+      request<CustomerVehicle>(
+        `/api/customers/${customerId}/vehicles/${vehicleId}`,
+        { method: "PUT", body: payload }
+      ),
+    removeVehicle: (customerId: number, vehicleId: number) =>
+      request<void>(`/api/customers/${customerId}/vehicles/${vehicleId}`, {
+        method: "DELETE",
+      }),
+  },
+
+  loyalty: {
+    settings: () => request<LoyaltySettings>("/api/loyalty/settings"),
+    updateSettings: (payload: LoyaltySettings) =>
+      request<LoyaltySettings>("/api/loyalty/settings", {
+        method: "PUT",
+        body: payload,
+      }),
+    rewards: () => request<LoyaltyReward[]>("/api/loyalty/rewards"),
+    createReward: (payload: LoyaltyRewardPayload) =>
+      request<LoyaltyReward>("/api/loyalty/rewards", {
+        method: "POST",
+        body: payload,
+      }),
+    updateReward: (id: number, payload: LoyaltyRewardPayload) =>
+      request<LoyaltyReward>(`/api/loyalty/rewards/${id}`, {
+        method: "PUT",
+        body: payload,
+      }),
+    removeReward: (id: number) =>
+      request<void>(`/api/loyalty/rewards/${id}`, { method: "DELETE" }),
+    // 404 when the phone has never earned points
+    account: (phone: string) =>
+      request<LoyaltyAccount>(`/api/loyalty/accounts/${enc(phone)}`),
+    accounts: () => request<LoyaltyAccount[]>("/api/loyalty/accounts"),
+  },
+
+  washPlans: {
+    list: () => request<WashPlan[]>("/api/wash-plans"),
+    create: (payload: WashPlanPayload) =>
+      request<WashPlan>("/api/wash-plans", { method: "POST", body: payload }),
+    update: (id: number, payload: WashPlanPayload) =>
+      request<WashPlan>(`/api/wash-plans/${id}`, {
+        method: "PUT",
+        body: payload,
+      }),
+    remove: (id: number) =>
+      request<void>(`/api/wash-plans/${id}`, { method: "DELETE" }),
+  },
+
+  // Memberships are created and drawn down by the orders that sell and
+  // redeem them; the client only reads them and cancels
+  memberships: {
+    list: (filters: MembershipFilters = {}) =>
+      request<Membership[]>("/api/memberships", { query: { ...filters } }),
+    cancel: (id: number) =>
+      request<Membership>(`/api/memberships/${id}/cancel`, { method: "PUT" }),
+  },
+
+  // Charges are posted by the backend from orders paid on account; the
+  // client records the payments received against them
+  corporateAccounts: {
+    list: () => request<CorporateAccount[]>("/api/corporate-accounts"),
+    create: (payload: CorporateAccountPayload) =>
+      request<CorporateAccount>("/api/corporate-accounts", {
+        method: "POST",
+        body: payload,
+      }),
+    update: (id: number, payload: CorporateAccountPayload) =>
+      request<CorporateAccount>(`/api/corporate-accounts/${id}`, {
+        method: "PUT",
+        body: payload,
+      }),
+    charges: (id: number, filters: AccountLedgerFilters = {}) =>
+      request<AccountCharge[]>(`/api/corporate-accounts/${id}/charges`, {
+        query: { ...filters },
+      }),
+    payments: (id: number, filters: AccountLedgerFilters = {}) =>
+      request<AccountPayment[]>(`/api/corporate-accounts/${id}/payments`, {
+        query: { ...filters },
+      }),
+    recordPayment: (id: number, payload: AccountPaymentPayload) =>
+      request<AccountPayment>(`/api/corporate-accounts/${id}/payments`, {
+        method: "POST",
+        body: payload,
+      }),
+  },
+
+  appointments: {
+    schedule: () => request<AppointmentDay[]>("/api/appointments/schedule"),
+    updateSchedule: (days: AppointmentDay[]) =>
+      request<AppointmentDay[]>("/api/appointments/schedule", {
+        method: "PUT",
+        body: days,
+      }),
+    list: (filters: AppointmentFilters = {}) =>
+      request<Appointment[]>("/api/appointments", { query: { ...filters } }),
+    get: (id: number) => request<Appointment>(`/api/appointments/${id}`),
+    create: (payload: AppointmentPayload) =>
+      request<Appointment>("/api/appointments", {
+        method: "POST",
+        body: payload,
+      }),
+    update: (id: number, payload: AppointmentPayload) =>
+      request<Appointment>(`/api/appointments/${id}`, {
+        method: "PUT",
+        body: payload,
+      }),
+    // Customer arrived and paid; links the queue ticket
+    checkIn: (id: number, orderId: string) =>
+      request<Appointment>(`/api/appointments/${id}/check-in`, {
+        method: "PUT",
+        body: { order_id: orderId },
+      }),
+    noShow: (id: number, reason: string) =>
+      request<Appointment>(`/api/appointments/${id}/no-show`, {
+        method: "PUT",
+        body: { reason },
+      }),
+    cancel: (id: number, reason: string) =>
+      request<Appointment>(`/api/appointments/${id}/cancel`, {
+        method: "PUT",
+        body: { reason },
+      }),
+  },
+
+  notifications: {
+    templates: () =>
+      request<NotificationTemplate[]>("/api/notifications/templates"),
+    updateTemplate: (
+      event: NotificationEvent,
+      payload: NotificationTemplatePayload
+    ) =>
+      request<NotificationTemplate>(`/api/notifications/templates/${event}`, {
+        method: "PUT",
+        body: payload,
+      }),
+    // Delivery log of one ticket, newest first
+    deliveries: (orderId: string) =>
+      request<NotificationDelivery[]>("/api/notifications/deliveries", {
+        query: { order_id: orderId },
+      }),
+    logDelivery: (payload: NotificationDeliveryPayload) =>
+      request<NotificationDelivery>("/api/notifications/deliveries", {
+        method: "POST",
+        body: payload,
+      }),
+    sendSms: (payload: SendSmsRequest) =>
+      request<SendSmsResponse>("/api/notifications/sms", {
+        method: "POST",
+        body: payload,
+      }),
+  },
+
+  // Customer-facing queue display; no login required
+  publicQueue: {
+    snapshot: () =>
+      request<PublicQueueSnapshot>("/api/public/carwash/queue", {
+        skipUnauthorized: true,
+      }),
+    // Server-sent events stream; any message means the queue changed
+    eventsUrl: () => buildUrl("/api/public/carwash/events"),
+  },
+
+  carwashBays: {
+    list: () => request<CarwashBay[]>("/api/carwash/bays"),
+    create: (payload: CarwashBayPayload) =>
+      request<CarwashBay>("/api/carwash/bays", {
+        method: "POST",
+        body: payload,
+      }),
+    update: (id: number, payload: CarwashBayPayload) =>
+      request<CarwashBay>(`/api/carwash/bays/${id}`, {
+        method: "PUT",
+        body: payload,
+      }),
+    remove: (id: number) =>
+      request<void>(`/api/carwash/bays/${id}`, { method: "DELETE" }),
+  },
+
+  commissionRules: {
+    list: () => request<CommissionRule[]>("/api/carwash/commission-rules"),
+    create: (payload: CommissionRulePayload) =>
+      request<CommissionRule>("/api/carwash/commission-rules", {
+        method: "POST",
+        body: payload,
+      }),
+    update: (id: number, payload: CommissionRulePayload) =>
+      request<CommissionRule>(`/api/carwash/commission-rules/${id}`, {
+        method: "PUT",
+        body: payload,
+      }),
+    remove: (id: number) =>
+      request<void>(`/api/carwash/commission-rules/${id}`, {
+        method: "DELETE",
+      }),
+  },
+
+  washers: {
+    list: () => request<Washer[]>("/api/carwash/washers"),
+    create: (payload: WasherPayload) =>
+      request<Washer>("/api/carwash/washers", {
+        method: "POST",
+        body: payload,
+      }),
+    update: (id: number, payload: WasherPayload) =>
+      request<Washer>(`/api/carwash/washers/${id}`, {
+        method: "PUT",
+        body: payload,
+      }),
+    remove: (id: number) =>
+      request<void>(`/api/carwash/washers/${id}`, { method: "DELETE" }),
+  },
+
+  carwashCatalog: {
+    services: () =>
+      request<CatalogService[]>("/api/carwash-catalog/services"),
+    admin: {
+      services: () =>
+        request<AdminCatalogService[]>(
+          "/api/carwash-catalog/admin/services"
+        ),
+      createService: (payload: CatalogServicePayload) =>
+        request<AdminCatalogService>("/api/carwash-catalog/admin/services", {
+          method: "POST",
+          body: payload,
+        }),
+      updateService: (id: number, payload: CatalogServicePayload) =>
+        request<AdminCatalogService>(
+          `/api/carwash-catalog/admin/services/${id}`,
+          { method: "PUT", body: payload }
+        ),
+      removeService: (id: number) =>
+        request<void>(`/api/carwash-catalog/admin/services/${id}`, {
+          method: "DELETE",
+        }),
+      createPrice: (payload: CatalogPricePayload) =>
+        request<unknown>("/api/carwash-catalog/admin/prices", {
+          method: "POST",
+          body: payload,
+        }),
+      updatePrice: (id: number, payload: CatalogPricePayload) =>
+        request<unknown>(`/api/carwash-catalog/admin/prices/${id}`, {
+          method: "PUT",
+          body: payload,
+        }),
+      removePrice: (id: number) =>
+        request<void>(`/api/carwash-catalog/admin/prices/${id}`, {
+          method: "DELETE",
+        }),
+    },
+  },
+
+  discounts: {
+    list: () => request<DiscountRule[]>("/api/discounts"),
+    create: (payload: DiscountRulePayload) =>
+      request<DiscountRule>("/api/discounts", {
+        method: "POST",
+        body: payload,
+      }),
+    update: (id: number, payload: DiscountRulePayload) =>
+      request<DiscountRule>(`/api/discounts/${id}`, {
+        method: "PUT",
+        body: payload,
+      }),
+    remove: (id: number) =>
+      request<void>(`/api/discounts/${id}`, { method: "DELETE" }),
+  },
+
+  receipts: {
+    series: () => request<ReceiptSeries[]>("/api/receipts/series"),
+    createSeries: (payload: ReceiptSeriesPayload) =>
+      request<ReceiptSeries>("/api/receipts/series", {
+        method: "POST",
+        body: payload,
+      }),
+    updateSeries: (id: number, payload: ReceiptSeriesPayload) =>
+      request<ReceiptSeries>(`/api/receipts/series/${id}`, {
+        method: "PUT",
+        body: payload,
+      }),
+    removeSeries: (id: number) =>
+      request<void>(`/api/receipts/series/${id}`, { method: "DELETE" }),
+    // Rejected with 409 when another device holds the terminal ID. The backend
+    // opens the terminal's default CF-/CW- series if it has none, so a sync
+    // always learns the next number it expects.
+    claimTerminal: (claim: TerminalClaim) =>
+      request<TerminalClaim>("/api/receipts/terminals", {
+        method: "POST",
+        body: claim,
+      }),
+    register: (filters: ReceiptRegisterFilters = {}) =>
+      request<ReceiptRegisterPage>("/api/receipts/register", {
+        query: { ...filters },
+      }),
+  },
+};
@@ -0,0 +1,1142 @@
+// Shared request/response types for the backend API
+// Numeric columns come back from Postgres as strings in some endpoints, so
+// those fields are typed as Numeric and should be wrapped in Number() before math.
+
+export type Numeric = number | string;
+
+export type Role = "manager" | "staff";
+export type BusinessUnit = "Coffee" | "Carwash";
+
+// --------------------
+// Auth & Users
+// --------------------
+
+// Logged-in user as returned by /api/auth/login and /api/auth/verify
+export interface AuthUser {
+  id: number;
+  username: string;
+  fullName: string;
+  role: Role;
+}
+
+export interface LoginResponse {
+  token: string;
+  user: AuthUser;
+}
+
+// User account as listed in Settings
+export interface AppUser {
+  id: number;
+  username: string;
+  full_name: string;
+  role: Role;
+  is_active: boolean;
+  created_at: string;
+}
+
+export interface UserPayload {
+  username?: string;
+  fullName: string;
+  role: Role;
+  isActive?: boolean;
+  password?: string;
+  // Numeric PIN a manager enters to approve voids and refunds
+  pin?: string;
+}
+
+// --------------------
+// Shifts
+// --------------------
+
+export interface Shift {
+  id: number;
+  user_id: number;
+  start_time: string;
+  end_time: string | null;
+  status: "active" | "ended";
+  notes: string | null;
+  // Cash drawer reconciliation, filled in when the shift is closed
+  starting_float?: Numeric | null;
+  expected_cash?: Numeric | null;
+  counted_cash?: Numeric | null;
+  // Counted minus expected: positive is over, negative is short
+  over_short?: Numeric | null;
+  cash_counts?: CashCount[] | null;
+}
+
+// Number of bills/coins of one denomination in the drawer
+export interface CashCount {
+  denomination: number;
+  quantity: number;
+}
+
+export interface CloseShiftRequest {
+  notes: string | null;
+  starting_float: number;
+  cash_counts: CashCount[];
+  expected_cash: number;
+  counted_cash: number;
+  over_short: number;
+}
+
+// Shift history rows include the staff member
+export interface ShiftWithUser extends Shift {
+  username: string;
+  full_name: string;
+  role: Role;
+}
+
+// --------------------
+// Orders
+// --------------------
+
+// orderDetails is the unit-specific order shape built by each POS page
+export interface CreateOrderRequest {
+  orderDetails: object;
+  businessUnit: BusinessUnit;
+}
+
+export interface CreateOrderResponse {
+  orderId: string;
+  message?: string;
+}
+
+// "void" cancels the whole order; "refund" returns some of its lines
+export type RefundType = "void" | "refund";
+
+export interface RefundLine {
+  // Position of the line in the order's items
+  item_index: number;
+  quantity: number;
+  amount: Numeric;
+}
+
+// Void or refund recorded against a completed order
+export interface OrderRefund {
+  id: number;
+  order_id: string;
+  created_at: string;
+  type: RefundType;
+  amount: Numeric;
+  reason: string;
+  lines: RefundLine[];
+  approved_by_name: string;
+  processed_by_name: string;
+}
+
+// The manager PIN is checked by the backend before anything is recorded
+export interface RefundOrderRequest {
+  type: RefundType;
+  reason: string;
+  lines: RefundLine[];
+  amount: number;
+  manager_pin: string;
+}
+
+// --------------------
+// Reports
+// --------------------
+
+// Sales summary for a single order
+export interface SalesSummary {
+  order_id: string;
+  total: string;
+  payment_method?: string;
+  items_summary: {
+    business_unit: BusinessUnit;
+  }[];
+}
+
+// Aggregated sales by business unit per day
+export interface SalesByBusinessByDay {
+  date: string;
+  coffee_sales: string;
+  carwash_sales: string;
+}
+
+export interface TransactionItem {
+  business_unit: BusinessUnit;
+  item_type: string;
+  quantity: number;
+  line_total: number;
+  details: Record<string, unknown>;
+}
+
+export interface Transaction {
+  order_id: string;
+  // Official receipt number; older orders have none
+  or_number?: string | null;
+  created_at: string;
+  total: number;
+  payment_method: string;
+  items: TransactionItem[];
+  // Voids and refunds recorded against the order
+  refunds?: OrderRefund[];
+  // Ingredients deducted when the order was saved (coffee orders)
+  ingredient_usage?: RecipeLine[] | null;
+  // Cash portion of the payment and change given, for drawer reconciliation
+  cash_tendered?: Numeric | null;
+  change_due?: Numeric | null;
+  // Order-level amounts used by the X/Z reports
+  subtotal?: Numeric | null;
+  discount?: Numeric | null;
+  discount_type?: string | null;
+  // Loyalty reward redeemed on top of the discount
+  loyalty?: OrderLoyalty | null;
+  tenders?: { method: string; amount: Numeric }[] | null;
+  vat?: {
+    vatable_sales: Numeric;
+    vat_amount: Numeric;
+    vat_exempt_sales: Numeric;
+    less_vat: Numeric;
+  } | null;
+}
+
+// A refund paid out during my shift or a report period, with the order it was
+// made on (which may have been sold in an earlier shift or day)
+export interface ShiftRefund extends OrderRefund {
+  order: Transaction;
+}
+
+// Transactions across all staff include who rang them up and their shift
+export interface StaffTransaction extends Transaction {
+  shift_id: number | null;
+  user_id: number;
+  username: string;
+  full_name: string;
+  shift_start: string | null;
+  shift_end: string | null;
+}
+
+export interface TransactionAggregates {
+  totalRevenue: number;
+  coffeeItemRevenue: number;
+  carwashItemRevenue: number;
+  // Sum of voids and refunds, as a positive amount
+  refundTotal?: number;
+}
+
+export interface TransactionPage<T = Transaction> {
+  transactions: T[];
+  total?: number;
+  totalPages?: number;
+  aggregates?: TransactionAggregates;
+}
+
+export interface TransactionFilters {
+  page?: number;
+  size?: number;
+  staffId?: string;
+  businessUnit?: string;
+  payment?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface MyShiftTotals {
+  orderCount: number;
+  totalSales: number;
+  byBusinessUnit: { Coffee: number; Carwash: number };
+  byPayment: { Cash: number; Gcash: number };
+  // Voids and refunds processed during the shift
+  refundCount?: number;
+  refundTotal?: number;
+}
+
+export interface MyShiftSummary {
+  shift: Shift | null;
+  totals: MyShiftTotals;
+}
+
+// Most popular carwash service
+export interface PopularService {
+  service_name: string;
+  category: string;
+  times_ordered: number;
+  total_quantity: number;
+  total_revenue: string;
+  avg_price: string;
+}
+
+// Completed tickets per washer; revenue is split among a ticket's washers
+export interface WasherThroughput {
+  washer_id: number;
+  washer_name: string;
+  tickets_completed: number;
+  avg_service_minutes: Numeric;
+  revenue: Numeric;
+}
+
+// Cancellation statistics for services
+export interface CancellationStats {
+  service_name: string;
+  times_cancelled: number;
+  revenue_lost: string;
+  common_reasons: string;
+}
+
+// Revenue by vehicle type and service
+export interface ServiceByVehicle {
+  vehicle_type: string;
+  service_name: string;
+  times_ordered: number;
+  revenue: string;
+}
+
+// Revenue trend point
+export interface RevenuePoint {
+  date: string;
+  revenue: number;
+}
+
+// Top-selling coffee product
+export interface CoffeeTopProduct {
+  product_name: string;
+  category: string;
+  total_quantity: number;
+  total_revenue: number;
+}
+
+// --------------------
+// Inventory
+// --------------------
+
+export interface Ingredient {
+  id: number;
+  name: string;
+  category: string;
+  unit_of_measure: string;
+  current_stock: number;
+  required_stock: number;
+  archived?: boolean;
+}
+
+export interface IngredientPayload {
+  name: string;
+  category: string;
+  unit_of_measure?: string;
+  required_stock?: number;
+}
+
+export type MovementType = "IN" | "OUT" | "AUDIT";
+
+export interface StockMovementPayload {
+  ingredient_id: number;
+  quantity: number;
+  movement_type: MovementType;
+  notes: string;
+}
+
+// Ingredient quantity (in the ingredient's unit) used by a recipe or an order
+export interface RecipeLine {
+  ingredient_id: number;
+  quantity: number;
+}
+
+// Body for POST /api/ingredients/usage: all of an order's stock movements,
+// applied together or not at all
+export interface IngredientUsagePayload {
+  order_id: string;
+  movement_type: MovementType;
+  lines: RecipeLine[];
+  notes: string;
+}
+
+export interface InventoryHistoryEntry {
+  id: number;
+  created_at: string;
+  product_name?: string;
+  ingredient_name?: string;
+  quantity: number;
+  movement_type: string;
+  user_name?: string;
+  note?: string;
+}
+
+// --------------------
+// Coffee Products
+// --------------------
+
+// One choice within a modifier group, e.g. "16oz" (+₱20) or "Oat milk"
+export interface ModifierOption {
+  name: string;
+  price_delta: number;
+  // Extra ingredients used when this option is picked
+  recipe?: RecipeLine[];
+}
+
+// Group of choices offered for a product, e.g. Size, Add-ons, Sugar Level
+export interface ModifierGroup {
+  name: string;
+  // The cashier must pick at least one option
+  required: boolean;
+  // Several options may be picked (add-ons) instead of exactly one (size)
+  multiple: boolean;
+  options: ModifierOption[];
+}
+
+export interface Product {
+  id: number;
+  name: string;
+  category: string;
+  price: number;
+  needs_temp: boolean;
+  image_url: string | null;
+  modifier_groups?: ModifierGroup[];
+  // Ingredients used by one unit of the product
+  recipe?: RecipeLine[];
+}
+
+export interface ProductPayload {
+  name: string;
+  category: string;
+  price: number;
+  needs_temp: boolean;
+  image_url: string | null;
+  modifier_groups?: ModifierGroup[];
+  recipe?: RecipeLine[];
+}
+
+export interface UploadResponse {
+  image_url: string;
+}
+
+// --------------------
+// Carwash Service Tickets
+// --------------------
+
+export type CarwashTicketStatus =
+  | "queue"
+  | "in_progress"
+  | "completed"
+  | "cancelled";
+
+// Pay-later tickets are created "unpaid" and settled at pickup
+export type CarwashPaymentStatus = "paid" | "unpaid";
+
+export interface CarwashTicketItem {
+  serviceId?: string;
+  service_name: string;
+  vehicle: string;
+  price: Numeric;
+  quantity: number;
+  // Services the washer performs when the line is a package
+  package_items?: string[];
+}
+
+export interface CarwashTicket {
+  id?: number;
+  order_id: string;
+  // Order id shared by the tickets of a multi-vehicle order (one ticket per
+  // vehicle, "<order id>-1", "-2", ...); null for single-vehicle orders
+  group_id?: string | null;
+  created_at: string;
+  items: CarwashTicketItem[];
+  total: Numeric;
+  // Null while a pay-later ticket is unpaid
+  payment_method: string | null;
+  // Missing on tickets created before pay-later (always paid)
+  payment_status?: CarwashPaymentStatus;
+  status: CarwashTicketStatus;
+  started_at?: string;
+  completed_at?: string;
+  cancelled_at?: string;
+  vehicle_type?: string | null;
+  plate_number?: string | null;
+  customer_name?: string | null;
+  customer_phone?: string | null;
+  cancel_reason?: string;
+  // Bay and washers assigned when the service starts
+  bay_id?: number | null;
+  bay_name?: string | null;
+  washers?: TicketWasher[];
+  // Expected service length (SLA) from the catalog at the time of sale; null
+  // when none of its services has one
+  expected_minutes?: number | null;
+  // Condition recorded at check-in; null until the form is filled in
+  condition?: VehicleCondition | null;
+}
+
+export interface TicketWasher {
+  id: number;
+  name: string;
+}
+
+// Body for starting a ticket
+export interface StartServiceRequest {
+  bay_id: number | null;
+  washer_ids: number[];
+}
+
+// --------------------
+// Vehicle Condition (check-in)
+// --------------------
+
+export type DamageType = "scratch" | "dent" | "crack" | "chip" | "missing";
+
+// Existing damage marked on a zone of the vehicle diagram
+export interface DamageMark {
+  zone: string;
+  type: DamageType;
+}
+
+export type FuelLevel = "E" | "1/4" | "1/2" | "3/4" | "F";
+
+export interface VehicleCondition {
+  marks: DamageMark[];
+  notes: string;
+  fuel_level: FuelLevel | null;
+  // Checklist items found in the vehicle
+  valuables: string[];
+  // Image URLs from /api/upload
+  photos: string[];
+  checked_by_name: string | null;
+  checked_at: string;
+}
+
+export type VehicleConditionPayload = Omit<
+  VehicleCondition,
+  "checked_by_name" | "checked_at"
+>;
+
+export type CarwashTicketEventType =
+  | "created"
+  | "started"
+  | "completed"
+  | "cancelled"
+  | "reopened"
+  | "updated";
+
+// Single-use credential for opening the carwash event stream; expires within
+// a minute, so the URL it appears in is worthless once the stream is open
+export interface StreamToken {
+  token: string;
+  expires_at: string;
+}
+
+// Pushed on the carwash event stream whenever a ticket changes. `ticket` is
+// the ticket after the change; when omitted the client re-fetches the queue.
+export interface CarwashTicketEvent {
+  type: CarwashTicketEventType;
+  order_id: string;
+  ticket?: CarwashTicket | null;
+}
+
+// --------------------
+// Carwash Bays & Washers
+// --------------------
+
+export interface CarwashBay {
+  id: number;
+  name: string;
+  is_active: boolean;
+}
+
+export type CarwashBayPayload = Partial<Omit<CarwashBay, "id">>;
+
+// Washer staff; not necessarily an app user
+export interface Washer {
+  id: number;
+  name: string;
+  phone: string | null;
+  is_active: boolean;
+}
+
+export type WasherPayload = Partial<Omit<Washer, "id">>;
+
+export interface CarwashTicketFilters {
+  status?: CarwashTicketStatus;
+  // ISO timestamps bounding completed_at
+  completedFrom?: string;
+  completedTo?: string;
+}
+
+// --------------------
+// Washer Commissions
+// --------------------
+
+export type CommissionRateType = "percentage" | "fixed";
+
+// Commission paid per service line. A null service or vehicle type matches
+// any; the most specific active rule wins.
+export interface CommissionRule {
+  id: number;
+  service_id: number | null;
+  service_name: string | null;
+  vehicle_type: string | null;
+  rate_type: CommissionRateType;
+  // Percent of the line amount, or pesos per unit for "fixed"
+  rate: Numeric;
+  is_active: boolean;
+}
+
+export type CommissionRulePayload = Partial<
+  Omit<CommissionRule, "id" | "service_name">
+>;
+
+// Body for creating/updating a ticket from the POS
+export interface CarwashTicketPayload {
+  order_id: string | null;
+  group_id?: string | null;
+  status: Exclude<CarwashTicketStatus, "cancelled">;
+  vehicle_type: string | null;
+  plate_number: string | null;
+  customer_name: string | null;
+  customer_phone: string | null;
+  payment_method: string | null;
+  payment_status?: CarwashPaymentStatus;
+  total: number;
+  items: CarwashTicketItem[];
+  expected_minutes?: number | null;
+}
+
+// Body for settling a pay-later ticket; the order is linked separately
+export interface SettleTicketRequest {
+  payment_method: string;
+}
+
+// --------------------
+// Customers & Vehicles
+// --------------------
+
+// Registered vehicle; plates are unique across all customers
+export interface CustomerVehicle {
+  id: number;
+  customer_id: number;
+  plate_number: string;
+  vehicle_type: string | null;
+  make: string | null;
+  color: string | null;
+}
+
+export type CustomerVehiclePayload = Partial<
+  Omit<CustomerVehicle, "id" | "customer_id">
+>;
+
+// Carwash customer keyed by phone number (stored as +639XXXXXXXXX)
+export interface Customer {
+  id: number;
+  name: string;
+  phone: string;
+  notes: string | null;
+  created_at: string;
+  vehicles: CustomerVehicle[];
+  // Totals over completed tickets
+  visit_count: number;
+  lifetime_spend: Numeric;
+  last_visit_at: string | null;
+}
+
+export interface CustomerPayload {
+  name?: string;
+  phone?: string;
+  notes?: string | null;
+}
+
+// Body for recording a POS visit. The customer is matched by phone and the
+// vehicle by plate; both are created when new.
+export interface CustomerVisitRequest {
+  name: string;
+  phone: string;
+  plate_number: string | null;
+  vehicle_type: string | null;
+  order_id: string;
+}
+
+// --------------------
+// Loyalty
+// --------------------
+
+// How a business unit awards points: one point per `pesos_per_point` paid
+// plus `points_per_order` per order (a stamp card). 0 turns either part off.
+export interface LoyaltyEarnRate {
+  business_unit: BusinessUnit;
+  pesos_per_point: Numeric;
+  points_per_order: number;
+}
+
+export interface LoyaltySettings {
+  is_enabled: boolean;
+  earn_rates: LoyaltyEarnRate[];
+  // Pesos one point is worth when valuing outstanding points
+  point_value: Numeric;
+}
+
+// Reward redeemed for points as a peso discount on the order
+export interface LoyaltyReward {
+  id: number;
+  name: string;
+  points_cost: number;
+  value: Numeric;
+  business_unit: BusinessUnit | "All";
+  is_active: boolean;
+}
+
+export type LoyaltyRewardPayload = Partial<Omit<LoyaltyReward, "id">>;
+
+// Member balance, keyed by phone number (+639XXXXXXXXX)
+export interface LoyaltyAccount {
+  phone: string;
+  name: string | null;
+  balance: number;
+  lifetime_earned: number;
+  lifetime_redeemed: number;
+  last_activity_at: string | null;
+}
+
+// Stored with the order; the backend posts it to the member's points ledger
+// when the order is saved (including orders replayed from the outbox)
+export interface OrderLoyalty {
+  phone: string;
+  reward_id: number | null;
+  reward_name: string | null;
+  reward_amount: number;
+  points_redeemed: number;
+  points_earned: number;
+  // Balance after this order
+  balance: number;
+}
+
+// --------------------
+// Customer Notifications
+// --------------------
+
+// Moment a customer is notified; only "ticket_ready" is sent today
+export type NotificationEvent = "ticket_ready";
+
+// Message text with {placeholders} filled from the ticket (Settings)
+export interface NotificationTemplate {
+  event: NotificationEvent;
+  body: string;
+  is_enabled: boolean;
+}
+
+export type NotificationTemplatePayload = Partial<
+  Omit<NotificationTemplate, "event">
+>;
+
+// "logged" means the message was only written to the log (no real gateway)
+export type NotificationStatus = "sent" | "logged" | "failed";
+
+// One dispatch attempt for a ticket
+export interface NotificationDelivery {
+  id: number;
+  order_id: string;
+  event: NotificationEvent;
+  phone: string;
+  message: string;
+  gateway: string;
+  status: NotificationStatus;
+  error: string | null;
+  created_at: string;
+}
+
+export type NotificationDeliveryPayload = Omit<
+  NotificationDelivery,
+  "id" | "created_at"
+>;
+
+// Body for the backend SMS relay, which holds the provider credentials
+export interface SendSmsRequest {
+  phone: string;
+  message: string;
+}
+
+export interface SendSmsResponse {
+  // Provider message id, when it returns one
+  message_id?: string | null;
+}
+
+// --------------------
+// Appointments
+// --------------------
+
+// Booking hours for one day of the week (0 = Sunday). Each slot takes up to
+// `capacity` vehicles; null means one per active bay.
+export interface AppointmentDay {
+  day_of_week: number;
+  is_open: boolean;
+  // "HH:mm", local time
+  open_time: string;
+  close_time: string;
+  slot_minutes: number;
+  capacity: number | null;
+}
+
+export type AppointmentStatus = "booked" | "arrived" | "no_show" | "cancelled";
+
+export interface Appointment {
+  id: number;
+  scheduled_at: string;
+  customer_name: string;
+  customer_phone: string;
+  plate_number: string | null;
+  vehicle_type: string | null;
+  service_id: number | null;
+  service_name: string | null;
+  notes: string | null;
+  status: AppointmentStatus;
+  // Ticket created when the customer arrived and paid
+  order_id: string | null;
+  // "Customer no-show" for no-shows, so they count with ticket cancellations
+  cancel_reason: string | null;
+  created_at: string;
+  // Earlier no-shows by the same phone number
+  no_show_count: number;
+}
+
+export type AppointmentPayload = Partial<
+  Omit<
+    Appointment,
+    | "id"
+    | "status"
+    | "order_id"
+    | "cancel_reason"
+    | "created_at"
+    | "no_show_count"
+  >
+>;
+
+// Range filter; both ends are ISO timestamps
+export interface AppointmentFilters {
+  from?: string;
+  to?: string;
+}
+
+// --------------------
+// Public Queue Display
+// --------------------
+
+// Open ticket as served to the unauthenticated queue display; no customer
+// details or order id, and the plate only ever leaves the server masked
+export interface PublicQueueTicket {
+  // Opaque key for the display; cannot be used to look up the order
+  ref: string;
+  status: Extract<CarwashTicketStatus, "queue" | "in_progress">;
+  plate_masked: string | null;
+  vehicle_type: string | null;
+  services: string[];
+  created_at: string;
+  started_at: string | null;
+  bay_name: string | null;
+}
+
+// A recently completed service, used to estimate durations
+export interface RecentServiceDuration {
+  vehicle_type: string | null;
+  started_at: string;
+  completed_at: string;
+}
+
+export interface PublicQueueSnapshot {
+  tickets: PublicQueueTicket[];
+  recent: RecentServiceDuration[];
+  active_bays: number;
+}
+
+// --------------------
+// Carwash Catalog
+// --------------------
+
+// Price for a carwash service by vehicle type
+export interface CatalogPrice {
+  vehicle_type: string;
+  price: number;
+  // Expected service length for this vehicle type; null when not tracked
+  expected_minutes?: number | null;
+}
+
+// Service bundled into a package
+export interface CatalogPackageItem {
+  service_id: number;
+  service_name: string;
+}
+
+// Carwash service as sold in the POS. A package bundles other services at
+// its own price per vehicle type.
+export interface CatalogService {
+  id: number;
+  name: string;
+  category: string;
+  description: string;
+  prices: CatalogPrice[];
+  // Empty (or missing) for single services
+  package_items?: CatalogPackageItem[];
+}
+
+export interface AdminCatalogPrice extends CatalogPrice {
+  id: number;
+  service_id: number;
+  is_active: boolean;
+  created_at: string;
+}
+
+// Carwash service with admin-only fields (Settings)
+export interface AdminCatalogService extends Omit<CatalogService, "prices"> {
+  display_order: number;
+  is_active: boolean;
+  prices: AdminCatalogPrice[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CatalogServicePayload {
+  name?: string;
+  category?: string;
+  description?: string | null;
+  display_order?: number;
+  is_active?: boolean;
+  // Replaces the bundled services; [] turns a package into a single service
+  package_service_ids?: number[];
+}
+
+export interface CatalogPricePayload {
+  service_id: number;
+  vehicle_type: string;
+  price: number;
+  expected_minutes?: number | null;
+}
+
+// --------------------
+// Wash Plans & Memberships
+// --------------------
+
+// "prepaid": a card with a fixed number of washes
+// "unlimited": any number of washes until the plan expires
+export type WashPlanType = "prepaid" | "unlimited";
+
+// Plan sold at the carwash POS (Settings)
+export interface WashPlan {
+  id: number;
+  name: string;
+  type: WashPlanType;
+  // Washes on a prepaid card; null for unlimited plans
+  washes: number | null;
+  // Days the plan stays valid from the sale
+  validity_days: number;
+  price: Numeric;
+  // Null when the plan covers any vehicle type
+  vehicle_type: string | null;
+  // Catalog services a wash may be; empty covers every service
+  service_ids: number[];
+  is_active: boolean;
+}
+
+export type WashPlanPayload = Partial<Omit<WashPlan, "id">>;
+
+export type MembershipStatus = "active" | "expired" | "used_up" | "cancelled";
+
+// A plan sold to one vehicle, identified by plate number
+export interface Membership {
+  id: number;
+  plan_id: number;
+  plan_name: string;
+  type: WashPlanType;
+  plate_number: string;
+  customer_name: string | null;
+  customer_phone: string | null;
+  washes_total: number | null;
+  // Null for unlimited plans
+  washes_remaining: number | null;
+  vehicle_type: string | null;
+  service_ids: number[];
+  starts_at: string;
+  expires_at: string;
+  status: MembershipStatus;
+  // Order that sold the plan
+  order_id: string;
+  last_used_at: string | null;
+  created_at: string;
+}
+
+export interface MembershipFilters {
+  plate?: string;
+  status?: MembershipStatus;
+}
+
+// Stored with the order that redeems a wash; the backend deducts it from the
+// membership when the order is saved (including orders replayed from the
+// outbox)
+export interface OrderMembership {
+  membership_id: number;
+  plan_name: string;
+  type: WashPlanType;
+  plate_number: string;
+  // Cart line covered by the plan
+  covered_line_id: string;
+  amount_covered: number;
+  // Balance after this order; null for unlimited plans
+  washes_remaining: number | null;
+  expires_at: string;
+}
+
+// --------------------
+// Corporate Accounts
+// --------------------
+
+// Fleet or corporate client that washes on account and pays monthly
+export interface CorporateAccount {
+  id: number;
+  name: string;
+  contact_name: string | null;
+  contact_phone: string | null;
+  email: string | null;
+  billing_address: string | null;
+  // Most the account may owe at once
+  credit_limit: Numeric;
+  // Unpaid charges less unapplied payments, kept by the backend
+  balance: Numeric;
+  // Days after the statement a charge falls due
+  payment_terms_days: number;
+  // Plates allowed to charge carwash orders; empty for coffee-only accounts
+  plates: string[];
+  is_active: boolean;
+  created_at: string;
+}
+
+export type CorporateAccountPayload = Partial<
+  Omit<CorporateAccount, "id" | "balance" | "created_at">
+>;
+
+// An order charged to the account, posted by the backend from the order
+export interface AccountCharge {
+  id: number;
+  account_id: number;
+  order_id: string;
+  or_number: string | null;
+  business_unit: BusinessUnit;
+  plate_number: string | null;
+  amount: Numeric;
+  created_at: string;
+}
+
+// Money received against the account's statement
+export interface AccountPayment {
+  id: number;
+  account_id: number;
+  amount: Numeric;
+  method: string;
+  reference: string | null;
+  received_at: string;
+  recorded_by_name: string | null;
+}
+
+export type AccountPaymentPayload = Pick<
+  AccountPayment,
+  "amount" | "method" | "reference"
+>;
+
+// Range filter; both ends are ISO timestamps
+export interface AccountLedgerFilters {
+  from?: string;
+  to?: string;
+}
+
+// Stored with an order paid (wholly or partly) on account; the backend posts
+// the charge when the order is saved (including orders replayed from the
+// outbox)
+export interface OrderAccountCharge {
+  account_id: number;
+  account_name: string;
+  amount: number;
+  // Vehicles washed on the charge (carwash only)
+  plate_numbers: string[];
+}
+
+// --------------------
+// Discounts
+// --------------------
+
+export type DiscountType = "percentage" | "fixed";
+
+// "item" applies to each eligible line; "order" to the eligible subtotal
+export type DiscountScope = "item" | "order";
+
+// Manager-defined discount rule (Settings)
+export interface DiscountRule {
+  id: number;
+  name: string;
+  type: DiscountType;
+  // Percent (0-100) or peso amount depending on type
+  value: number;
+  scope: DiscountScope;
+  // Product/service categories the rule covers; empty means all
+  categories: string[];
+  // Cap on the total discount per order, null for no cap
+  max_amount: number | null;
+  // Senior/PWD discounts must record the holder's ID number
+  requires_id: boolean;
+  // Senior/PWD sales are VAT-exempt: VAT is removed before the discount
+  vat_exempt: boolean;
+  business_unit: BusinessUnit | "All";
+  is_active: boolean;
+}
+
+export type DiscountRulePayload = Partial<Omit<DiscountRule, "id">>;
+
+// --------------------
+// Official Receipts
+// --------------------
+
+// When the sequence starts over; the period is printed in the OR number
+export type ReceiptResetRule = "never" | "daily" | "monthly" | "yearly";
+
+// OR number series for one business unit on one terminal
+export interface ReceiptSeries {
+  id: number;
+  business_unit: BusinessUnit;
+  terminal_id: string;
+  // Printed before the number, e.g. "CF1-"
+  prefix: string;
+  // Digits the sequence is zero-padded to
+  padding: number;
+  reset_rule: ReceiptResetRule;
+  // Next sequence the backend expects, raised as orders sync
+  next_number: number;
+  // Period of next_number ("" for never, e.g. "2026" for yearly)
+  current_period: string;
+  is_active: boolean;
+}
+
+// A terminal ID held by one device; the backend rejects (409) a claim on an
+// ID another device already holds
+export interface TerminalClaim {
+  terminal_id: string;
+  device_id: string;
+}
+
+export type ReceiptSeriesPayload = Partial<
+  Omit<ReceiptSeries, "id" | "current_period">
+>;
+
+export type ReceiptNumberStatus = "issued" | "voided";
+
+// One issued OR number; voiding the order voids its number
+export interface ReceiptRegisterEntry {
+  or_number: string;
+  business_unit: BusinessUnit;
+  terminal_id: string;
+  order_id: string;
+  total: Numeric;
+  status: ReceiptNumberStatus;
+  issued_at: string;
+  issued_by_name: string | null;
+  voided_at: string | null;
+  void_reason: string | null;
+}
+
+export interface ReceiptRegisterFilters {
+  page?: number;
+  size?: number;
+  businessUnit?: string;
+  terminalId?: string;
+  status?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface ReceiptRegisterPage {
+  entries: ReceiptRegisterEntry[];
+  total?: number;
+  totalPages?: number;
+}
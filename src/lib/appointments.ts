@@ -0,0 +1,119 @@
+// Carwash appointment slots
+// Managers set booking hours per weekday in Settings. A day is cut into
+// fixed-length slots and each slot takes as many vehicles as its capacity,
+// which defaults to the number of active bays.
+
+import type { Appointment, AppointmentDay } from "./apiTypes";
+
+// Same text as the ticket cancel reason, so both show up together in the
+// cancellation report
+export const NO_SHOW_REASON = "Customer no-show";
+
+// A booked appointment can be marked a no-show this long after its start
+export const NO_SHOW_GRACE_MINUTES = 15;
+
+export const WEEKDAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+// Used until a manager saves booking hours: every day 8:00–17:00, hourly
+export const DEFAULT_SCHEDULE: AppointmentDay[] = WEEKDAY_NAMES.map(
+  (_, day) => ({
+    day_of_week: day,
+    is_open: true,
+    open_time: "08:00",
+    close_time: "17:00",
+    slot_minutes: 60,
+    capacity: null,
+  })
+);
+
+export interface AppointmentSlot {
+  start: Date;
+  end: Date;
+  capacity: number;
+  // Appointments still holding a place (booked or arrived)
+  appointments: Appointment[];
+  available: number;
+}
+
+/**
+ * Fill in days missing from the saved schedule with the defaults
+ */
+export function normalizeSchedule(days: AppointmentDay[]): AppointmentDay[] {
+  return DEFAULT_SCHEDULE.map(
+    (fallback) =>
+      days.find((d) => d.day_of_week === fallback.day_of_week) ?? fallback
+  );
+}
+
+function atTime(date: Date, time: string): Date {
+  const [hours, minutes] = time.split(":").map(Number);
+  const result = new Date(date);
+  result.setHours(hours || 0, minutes || 0, 0, 0);
+  return result;
+}
+
+// Booked and arrived appointments take a place; the rest free it up
+export function holdsSlot(appointment: Appointment): boolean {
+  return appointment.status === "booked" || appointment.status === "arrived";
+}
+
+/**
+ * Slots of one day with the appointments booked into each. Appointments are
+ * matched to the slot they start in.
+ */
+export function daySlots(
+  schedule: AppointmentDay[],
+  date: Date,
+  activeBays: number,
+  appointments: Appointment[]
+): AppointmentSlot[] {
+  const day = normalizeSchedule(schedule).find(
+    (d) => d.day_of_week === date.getDay()
+  );
+  if (!day || !day.is_open || day.slot_minutes <= 0) return [];
+
+  const capacity = day.capacity ?? Math.max(activeBays, 1);
+  const close = atTime(date, day.close_time);
+  const slots: AppointmentSlot[] = [];
+  for (
+    let start = atTime(date, day.open_time);
+    start.getTime() + day.slot_minutes * 60000 <= close.getTime();
+    start = new Date(start.getTime() + day.slot_minutes * 60000)
+  ) {
+    const end = new Date(start.getTime() + day.slot_minutes * 60000);
+    const booked = appointments.filter((a) => {
+      const at = new Date(a.scheduled_at).getTime();
+      return at >= start.getTime() && at < end.getTime();
+    });
+    slots.push({
+      start,
+      end,
+      capacity,
+      appointments: booked,
+      available: Math.max(capacity - booked.filter(holdsSlot).length, 0),
+    });
+  }
+  return slots;
+}
+
+/**
+ * Whether staff may mark a booked appointment as a no-show
+ */
+export function isOverdue(
+  appointment: Appointment,
+  now: Date = new Date()
+): boolean {
+  return (
+    appointment.status === "booked" &&
+    now.getTime() - new Date(appointment.scheduled_at).getTime() >
+      NO_SHOW_GRACE_MINUTES * 60000
+  );
+}
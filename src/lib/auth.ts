@@ -1,15 +1,21 @@
 // Auth utilities for API calls
 
 /**
- * Get authorization headers for API requests
- * Returns headers object with Authorization Bearer token if available
+ * Get the stored auth token, if any
  */
-export function getAuthHeaders(): HeadersInit {
+export function getAuthToken(): string | null {
   if (typeof window === "undefined") {
-    return {};
+    return null;
   }
+  return localStorage.getItem("auth_token");
+}
 
-  const token = localStorage.getItem("auth_token");
+/**
+ * Get authorization headers for API requests
+ * Returns headers object with Authorization Bearer token if available
+ */
+export function getAuthHeaders(): HeadersInit {
+  const token = getAuthToken();
   if (!token) {
     return {};
   }
@@ -21,6 +27,7 @@ export function getAuthHeaders(): HeadersInit {
 
 /**
  * Make authenticated API call with automatic token injection
+ * Prefer the typed `api` client in ./api for backend routes
  */
 export async function fetchWithAuth(
   url: string,
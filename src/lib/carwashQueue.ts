@@ -0,0 +1,213 @@
+// Live carwash queue
+// One shared copy of the ticket list for every screen that shows the queue
+// (services page, dashboard, sidebar badges). Ticket create/start/complete/
+// cancel events arrive over server-sent events and are applied in place; when
+// the stream is unavailable the list is polled instead and the stream is
+// retried with backoff. The connection only stays open while something is
+// subscribed.
+
+import { api } from "./api";
+import type { CarwashTicket, CarwashTicketEvent } from "./apiTypes";
+
+const POLL_INTERVAL_MS = 30000;
+
+// Stream retry timing: 30s, 60s, 120s ... capped at 5 minutes
+const BASE_RETRY_MS = 30000;
+const MAX_RETRY_MS = 5 * 60 * 1000;
+
+// "live" while the event stream is open, "polling" while falling back
+export type QueueMode = "connecting" | "live" | "polling";
+
+export interface QueueState {
+  tickets: CarwashTicket[];
+  // False until the first list has loaded (or failed to)
+  loaded: boolean;
+  mode: QueueMode;
+}
+
+type Listener = (state: QueueState) => void;
+
+const listeners = new Set<Listener>();
+let state: QueueState = { tickets: [], loaded: false, mode: "connecting" };
+
+let source: EventSource | null = null;
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let retryDelay = BASE_RETRY_MS;
+let fetching: Promise<void> | null = null;
+// Bumped by stop() so a request still in flight from before can't repopulate
+// the list after the last subscriber has left
+let generation = 0;
+
+function setState(next: Partial<QueueState>) {
+  state = { ...state, ...next };
+  listeners.forEach((listener) => listener(state));
+}
+
+/**
+ * Re-fetch the full ticket list. Concurrent calls share one request.
+ */
+export function refreshCarwashQueue(): Promise<void> {
+  if (!fetching) {
+    const current = generation;
+    const request: Promise<void> = api.carwash
+      .list()
+      .then((tickets) => {
+        if (current === generation) setState({ tickets, loaded: true });
+      })
+      .catch((error) => {
+        if (current !== generation) return;
+        console.error("Error fetching carwash queue:", error);
+        setState({ loaded: true });
+      })
+      .finally(() => {
+        if (fetching === request) fetching = null;
+      });
+    fetching = request;
+  }
+  return fetching;
+}
+
+function applyEvent(event: CarwashTicketEvent) {
+  const ticket = event.ticket;
+  if (!ticket) {
+    refreshCarwashQueue();
+    return;
+  }
+  const exists = state.tickets.some((t) => t.order_id === ticket.order_id);
+  setState({
+    tickets: exists
+      ? state.tickets.map((t) => (t.order_id === ticket.order_id ? ticket : t))
+      : [ticket, ...state.tickets],
+  });
+}
+
+function startPolling() {
+  if (pollTimer) return;
+  pollTimer = setInterval(refreshCarwashQueue, POLL_INTERVAL_MS);
+}
+
+function stopPolling() {
+  if (pollTimer) clearInterval(pollTimer);
+  pollTimer = null;
+}
+
+function closeStream() {
+  if (source) source.close();
+  source = null;
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+}
+
+// Fall back to polling and try the stream again later
+function retryStream() {
+  closeStream();
+  setState({ mode: "polling" });
+  startPolling();
+  retryTimer = setTimeout(openStream, retryDelay);
+  retryDelay = Math.min(retryDelay * 2, MAX_RETRY_MS);
+}
+
+async function openStream() {
+  closeStream();
+  if (typeof EventSource === "undefined") {
+    setState({ mode: "polling" });
+    startPolling();
+    return;
+  }
+
+  const current = generation;
+  let streamToken: string;
+  try {
+    ({ token: streamToken } = await api.carwash.streamToken());
+  } catch (error) {
+    if (current !== generation) return;
+    console.error("Error opening carwash event stream:", error);
+    retryStream();
+    return;
+  }
+  // Stopped (or restarted) while the token was on its way
+  if (current !== generation) return;
+
+  const stream = new EventSource(api.carwash.eventsUrl(streamToken));
+  source = stream;
+
+  stream.onopen = () => {
+    retryDelay = BASE_RETRY_MS;
+    stopPolling();
+    setState({ mode: "live" });
+    // Catch up on anything missed while disconnected
+    refreshCarwashQueue();
+  };
+
+  stream.onmessage = (message) => {
+    try {
+      applyEvent(JSON.parse(message.data) as CarwashTicketEvent);
+    } catch (error) {
+      console.error("Invalid carwash event:", error);
+    }
+  };
+
+  // The token is single-use, so a reconnect has to fetch a new one
+  stream.onerror = () => {
+    if (source !== stream) return;
+    retryStream();
+  };
+}
+
+function start() {
+  retryDelay = BASE_RETRY_MS;
+  setState({ mode: "connecting" });
+  refreshCarwashQueue();
+  openStream();
+}
+
+function stop() {
+  generation++;
+  fetching = null;
+  closeStream();
+  stopPolling();
+  state = { tickets: [], loaded: false, mode: "connecting" };
+}
+
+/**
+ * Subscribe to the live ticket list. The first subscriber opens the
+ * connection and the last one to leave closes it. Returns an unsubscribe
+ * function.
+ */
+export function subscribeCarwashQueue(listener: Listener): () => void {
+  listeners.add(listener);
+  if (listeners.size === 1) start();
+  else listener(state);
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) stop();
+  };
+}
+
+/**
+ * Pay-later ticket still waiting for payment (cancelled tickets owe nothing)
+ */
+export function isUnpaid(ticket: CarwashTicket): boolean {
+  return ticket.payment_status === "unpaid" && ticket.status !== "cancelled";
+}
+
+/**
+ * Tickets split into their orders: the vehicles of a multi-vehicle order
+ * (same group_id) stay together at the position of the first one
+ */
+export function groupTickets(tickets: CarwashTicket[]): CarwashTicket[][] {
+  const groups: CarwashTicket[][] = [];
+  const byGroupId = new Map<string, CarwashTicket[]>();
+  for (const ticket of tickets) {
+    const existing = ticket.group_id ? byGroupId.get(ticket.group_id) : null;
+    if (existing) {
+      existing.push(ticket);
+      continue;
+    }
+    const group = [ticket];
+    groups.push(group);
+    if (ticket.group_id) byGroupId.set(ticket.group_id, group);
+  }
+  return groups;
+}
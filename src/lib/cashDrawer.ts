@@ -0,0 +1,117 @@
+// Cash drawer reconciliation for closing a shift
+// Expected cash is the starting float plus the cash actually kept from each
+// order (cash tendered minus change given) minus cash handed back on refunds.
+// Refunds count in the shift that paid them out, whichever shift sold the
+// order, and only up to the cash the order brought in; the rest of a split
+// Cash/GCash order is returned the other way.
+// The cashier's denomination count is compared against it to flag over/short.
+
+import { api } from "./api";
+import type {
+  CashCount,
+  Shift,
+  ShiftRefund,
+  Transaction,
+} from "./apiTypes";
+import { sum, sumAmounts, toCents } from "./money";
+
+// Bills and coins counted at close, largest first
+export const DENOMINATIONS = [1000, 500, 200, 100, 50, 20, 10, 5, 1];
+
+export interface ExpectedCash {
+  startingFloat: number;
+  cashSales: number;
+  changeGiven: number;
+  cashRefunds: number;
+  expected: number;
+}
+
+export function countTotal(counts: CashCount[]): number {
+  return sum(counts.map((c) => toCents(c.denomination) * c.quantity)) / 100;
+}
+
+/**
+ * Cash tendered and change given on one order. Orders saved before tenders
+ * were recorded fall back to the total when paid in cash.
+ */
+function cashMovement(tx: Transaction): { tendered: number; change: number } {
+  if (tx.cash_tendered !== undefined && tx.cash_tendered !== null) {
+    return {
+      tendered: Number(tx.cash_tendered),
+      change: Number(tx.change_due ?? 0),
+    };
+  }
+  return tx.payment_method === "Cash"
+    ? { tendered: Number(tx.total), change: 0 }
+    : { tendered: 0, change: 0 };
+}
+
+/**
+ * Cash paid out of the drawer for a refund: its amount, capped at the cash the
+ * order brought in less what earlier refunds on it already paid back in cash
+ */
+export function refundCashShare(refund: ShiftRefund): number {
+  const movement = cashMovement(refund.order);
+  let cashLeft = Math.max(
+    0,
+    toCents(movement.tendered) - toCents(movement.change)
+  );
+  const earlier = (refund.order.refunds ?? []).filter(
+    (r) =>
+      r.id !== refund.id &&
+      new Date(r.created_at).getTime() < new Date(refund.created_at).getTime()
+  );
+  earlier.forEach((r) => {
+    cashLeft -= Math.min(cashLeft, toCents(r.amount));
+  });
+  return Math.min(cashLeft, toCents(refund.amount)) / 100;
+}
+
+export function expectedCash(
+  startingFloat: number,
+  transactions: Transaction[],
+  shiftRefunds: ShiftRefund[]
+): ExpectedCash {
+  let tendered = 0;
+  let change = 0;
+  transactions.forEach((tx) => {
+    const movement = cashMovement(tx);
+    tendered += toCents(movement.tendered);
+    change += toCents(movement.change);
+  });
+  const refunds = toCents(sumAmounts(shiftRefunds.map(refundCashShare)));
+  return {
+    startingFloat,
+    cashSales: tendered / 100,
+    changeGiven: change / 100,
+    cashRefunds: refunds / 100,
+    expected: (toCents(startingFloat) + tendered - change - refunds) / 100,
+  };
+}
+
+/**
+ * Refunds paid out between the start of the shift and its end (or now)
+ */
+export async function fetchShiftRefunds(shift: Shift): Promise<ShiftRefund[]> {
+  const start = new Date(shift.start_time).getTime();
+  const end = shift.end_time ? new Date(shift.end_time).getTime() : Infinity;
+  const refunds = await api.reports.myShiftRefunds();
+  return refunds.filter((r) => {
+    const paid = new Date(r.created_at).getTime();
+    return paid >= start && paid <= end;
+  });
+}
+
+/**
+ * Every transaction of the current shift, following the pages
+ */
+export async function fetchShiftTransactions(): Promise<Transaction[]> {
+  const size = 100;
+  const all: Transaction[] = [];
+  for (let page = 1; ; page++) {
+    const data = await api.reports.myShiftTransactions({ page, size });
+    const batch = data.transactions || [];
+    all.push(...batch);
+    if (batch.length < size || page >= (data.totalPages ?? page)) return all;
+  }
+}
@@ -0,0 +1,195 @@
+// Washer commissions and payroll
+// Every completed ticket pays commission on each service line according to the
+// most specific rule for its service and vehicle type. When several washers
+// worked a ticket they share its commission equally. The ledger and payroll
+// summary are rebuilt from the tickets completed within a pay period.
+
+import { api } from "./api";
+import type {
+  CarwashTicket,
+  CarwashTicketItem,
+  CommissionRule,
+} from "./apiTypes";
+import { toCents } from "./money";
+
+// One washer's share of one service line
+export interface EarningEntry {
+  orderId: string;
+  completedAt: string;
+  washerId: number;
+  washerName: string;
+  serviceName: string;
+  vehicle: string;
+  plateNumber: string | null;
+  // Full line amount and this washer's share of it
+  lineAmount: number;
+  share: number;
+  commission: number;
+  // Lines without a matching rule earn nothing and are flagged for review
+  ruleId: number | null;
+}
+
+export interface PayrollLine {
+  washerId: number;
+  washerName: string;
+  tickets: number;
+  services: number;
+  serviceAmount: number;
+  commission: number;
+}
+
+function ruleMatches(
+  rule: CommissionRule,
+  item: CarwashTicketItem
+): boolean {
+  // Lines from before service ids were stored can only match by name
+  const serviceMatches =
+    rule.service_id === null ||
+    (item.serviceId !== undefined
+      ? String(rule.service_id) === String(item.serviceId)
+      : rule.service_name === item.service_name);
+  const vehicleMatches =
+    rule.vehicle_type === null || rule.vehicle_type === item.vehicle;
+  return serviceMatches && vehicleMatches;
+}
+
+// Service + vehicle beats service only, which beats vehicle only
+function specificity(rule: CommissionRule): number {
+  return (rule.service_id !== null ? 2 : 0) + (rule.vehicle_type ? 1 : 0);
+}
+
+/**
+ * Most specific active rule for a service line, if any
+ */
+export function ruleFor(
+  rules: CommissionRule[],
+  item: CarwashTicketItem
+): CommissionRule | null {
+  return (
+    rules
+      .filter((r) => r.is_active && ruleMatches(r, item))
+      .sort((a, b) => specificity(b) - specificity(a))[0] ?? null
+  );
+}
+
+/**
+ * Commission in centavos for a whole service line
+ */
+function lineCommissionCents(
+  rule: CommissionRule,
+  item: CarwashTicketItem
+): number {
+  if (rule.rate_type === "fixed") {
+    return toCents(rule.rate) * item.quantity;
+  }
+  return Math.round(
+    (toCents(item.price) * item.quantity * Number(rule.rate)) / 100
+  );
+}
+
+// Splits centavos evenly; the first shares absorb the remainder
+function splitCents(cents: number, parts: number): number[] {
+  const base = Math.floor(cents / parts);
+  const remainder = cents - base * parts;
+  return Array.from({ length: parts }, (_, i) =>
+    i < remainder ? base + 1 : base
+  );
+}
+
+export function buildEarningsLedger(
+  tickets: CarwashTicket[],
+  rules: CommissionRule[]
+): EarningEntry[] {
+  const entries: EarningEntry[] = [];
+  tickets
+    .filter(
+      (t) => t.status === "completed" && t.completed_at && t.washers?.length
+    )
+    .sort(
+      (a, b) =>
+        new Date(a.completed_at!).getTime() -
+        new Date(b.completed_at!).getTime()
+    )
+    .forEach((ticket) => {
+      const washers = ticket.washers!;
+      ticket.items.forEach((item) => {
+        const rule = ruleFor(rules, item);
+        const lineCents = toCents(item.price) * item.quantity;
+        const shares = splitCents(lineCents, washers.length);
+        const commissions = splitCents(
+          rule ? lineCommissionCents(rule, item) : 0,
+          washers.length
+        );
+        washers.forEach((washer, i) => {
+          entries.push({
+            orderId: ticket.order_id,
+            completedAt: ticket.completed_at!,
+            washerId: washer.id,
+            washerName: washer.name,
+            serviceName: item.service_name,
+            vehicle: item.vehicle,
+            plateNumber: ticket.plate_number ?? null,
+            lineAmount: lineCents / 100,
+            share: shares[i] / 100,
+            commission: commissions[i] / 100,
+            ruleId: rule?.id ?? null,
+          });
+        });
+      });
+    });
+  return entries;
+}
+
+export function summarizePayroll(ledger: EarningEntry[]): PayrollLine[] {
+  const byWasher = new Map<
+    number,
+    {
+      name: string;
+      tickets: Set<string>;
+      services: number;
+      cents: number;
+      commission: number;
+    }
+  >();
+  ledger.forEach((entry) => {
+    const current = byWasher.get(entry.washerId) ?? {
+      name: entry.washerName,
+      tickets: new Set<string>(),
+      services: 0,
+      cents: 0,
+      commission: 0,
+    };
+    current.tickets.add(entry.orderId);
+    current.services += 1;
+    current.cents += toCents(entry.share);
+    current.commission += toCents(entry.commission);
+    byWasher.set(entry.washerId, current);
+  });
+  return Array.from(byWasher, ([washerId, w]) => ({
+    washerId,
+    washerName: w.name,
+    tickets: w.tickets.size,
+    services: w.services,
+    serviceAmount: w.cents / 100,
+    commission: w.commission / 100,
+  })).sort((a, b) => a.washerName.localeCompare(b.washerName));
+}
+
+/**
+ * Tickets completed between two instants (inclusive)
+ */
+export async function fetchCompletedTickets(
+  from: Date,
+  to: Date
+): Promise<CarwashTicket[]> {
+  const tickets = await api.carwash.list({
+    status: "completed",
+    completedFrom: from.toISOString(),
+    completedTo: to.toISOString(),
+  });
+  return tickets.filter((t) => {
+    if (t.status !== "completed" || !t.completed_at) return false;
+    const completed = new Date(t.completed_at).getTime();
+    return completed >= from.getTime() && completed <= to.getTime();
+  });
+}
@@ -0,0 +1,276 @@
+// Corporate (fleet) accounts billed monthly
+// An account's authorized vehicles wash on credit: the POS checks the plate
+// and the available credit, then sends the charge with the order so the
+// backend can post it to the account even for orders that were queued
+// offline. Managers print a monthly statement; payments settle the oldest
+// charges first, and whatever is left unpaid is aged from its charge date.
+
+import type {
+  AccountCharge,
+  AccountPayment,
+  CorporateAccount,
+  OrderAccountCharge,
+} from "./apiTypes";
+import { normalizePlate } from "./customers";
+import { sumAmounts, toCents } from "./money";
+
+// Days since the charge, for the aging on statements
+export const AGING_BUCKETS = [
+  { label: "0–30 days", maxDays: 30 },
+  { label: "31–60 days", maxDays: 60 },
+  { label: "61–90 days", maxDays: 90 },
+  { label: "Over 90 days", maxDays: Infinity },
+];
+
+export interface AgingBucket {
+  label: string;
+  charges: number;
+  amount: number;
+}
+
+// A charge with the part of it still unpaid
+export interface OpenCharge {
+  charge: AccountCharge;
+  due: number;
+}
+
+export interface AccountStatement {
+  from: Date;
+  to: Date;
+  openingBalance: number;
+  // Activity within the period, oldest first
+  charges: AccountCharge[];
+  payments: AccountPayment[];
+  totalCharges: number;
+  totalPayments: number;
+  closingBalance: number;
+  // Unpaid charges as of the end of the period
+  aging: AgingBucket[];
+  dueDate: Date;
+}
+
+// One row of the statement's activity, with the balance after it
+export interface StatementLine {
+  date: string;
+  description: string;
+  charge: number;
+  payment: number;
+  balance: number;
+}
+
+function sumRows(rows: { amount: AccountCharge["amount"] }[]): number {
+  return sumAmounts(rows.map((r) => r.amount));
+}
+
+// Numeric columns may arrive as strings
+export function normalizeAccount(account: CorporateAccount): CorporateAccount {
+  return {
+    ...account,
+    credit_limit: Number(account.credit_limit),
+    balance: Number(account.balance),
+    payment_terms_days: Number(account.payment_terms_days),
+    plates: account.plates ?? [],
+  };
+}
+
+/**
+ * Comma/newline separated plate list as typed by a manager, cleaned up.
+ * Plates themselves contain spaces ("ABC 1234"), so only lines and commas
+ * separate them.
+ */
+export function parsePlates(text: string): string[] {
+  return [
+    ...new Set(text.split(/[\n,]+/).map(normalizePlate).filter(Boolean)),
+  ];
+}
+
+export function availableCredit(account: CorporateAccount): number {
+  return (
+    Math.max(
+      0,
+      toCents(account.credit_limit) - toCents(account.balance)
+    ) / 100
+  );
+}
+
+/**
+ * Why the amount can't be charged to the account, or null when it can
+ */
+export function chargeBlocker(
+  account: CorporateAccount,
+  amount: number
+): string | null {
+  if (!account.is_active) return `${account.name} is inactive.`;
+  const available = availableCredit(account);
+  if (toCents(amount) > toCents(available)) {
+    return `${account.name} has only ₱${available.toFixed(2)} of credit left.`;
+  }
+  return null;
+}
+
+/**
+ * Plates of the order that the account doesn't allow to charge
+ */
+export function unauthorizedPlates(
+  account: CorporateAccount,
+  plates: string[]
+): string[] {
+  const authorized = account.plates.map(normalizePlate);
+  return plates.filter((p) => !authorized.includes(normalizePlate(p)));
+}
+
+/**
+ * Charge to store with an order, or null when nothing goes on account
+ */
+export function orderAccountCharge(
+  account: CorporateAccount | null,
+  amount: number,
+  plateNumbers: string[] = []
+): OrderAccountCharge | null {
+  if (!account || amount <= 0) return null;
+  return {
+    account_id: account.id,
+    account_name: account.name,
+    amount: toCents(amount) / 100,
+    plate_numbers: plateNumbers,
+  };
+}
+
+/**
+ * Apply the payments to the oldest charges first; returns what is still owed
+ * on each charge
+ */
+export function openCharges(
+  charges: AccountCharge[],
+  payments: AccountPayment[]
+): OpenCharge[] {
+  let credit = toCents(sumRows(payments));
+  return [...charges]
+    .sort(
+      (a, b) =>
+        new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+    )
+    .map((charge) => {
+      const amount = toCents(charge.amount);
+      const applied = Math.min(credit, amount);
+      credit -= applied;
+      return { charge, due: (amount - applied) / 100 };
+    })
+    .filter((c) => c.due > 0);
+}
+
+/**
+ * Unpaid charges grouped by how long ago they were made
+ */
+export function agingSummary(
+  open: OpenCharge[],
+  asOf: Date = new Date()
+): AgingBucket[] {
+  const buckets: AgingBucket[] = AGING_BUCKETS.map((b) => ({
+    label: b.label,
+    charges: 0,
+    amount: 0,
+  }));
+  open.forEach(({ charge, due }) => {
+    const days =
+      (asOf.getTime() - new Date(charge.created_at).getTime()) / 86400000;
+    const index = AGING_BUCKETS.findIndex((b) => days <= b.maxDays);
+    const bucket = buckets[index === -1 ? buckets.length - 1 : index];
+    bucket.charges += 1;
+    bucket.amount = (toCents(bucket.amount) + toCents(due)) / 100;
+  });
+  return buckets;
+}
+
+/**
+ * Statement for one period from the account's charges and payments up to the
+ * end of it
+ */
+export function buildStatement(
+  account: CorporateAccount,
+  charges: AccountCharge[],
+  payments: AccountPayment[],
+  from: Date,
+  to: Date
+): AccountStatement {
+  const time = (date: string) => new Date(date).getTime();
+  const within = (date: string) =>
+    time(date) >= from.getTime() && time(date) <= to.getTime();
+  const before = (date: string) => time(date) < from.getTime();
+
+  const upToEnd = {
+    charges: charges.filter((c) => time(c.created_at) <= to.getTime()),
+    payments: payments.filter((p) => time(p.received_at) <= to.getTime()),
+  };
+  const periodCharges = upToEnd.charges
+    .filter((c) => within(c.created_at))
+    .sort((a, b) => time(a.created_at) - time(b.created_at));
+  const periodPayments = upToEnd.payments
+    .filter((p) => within(p.received_at))
+    .sort((a, b) => time(a.received_at) - time(b.received_at));
+
+  const openingCents =
+    toCents(sumRows(upToEnd.charges.filter((c) => before(c.created_at)))) -
+    toCents(sumRows(upToEnd.payments.filter((p) => before(p.received_at))));
+  const totalCharges = sumRows(periodCharges);
+  const totalPayments = sumRows(periodPayments);
+
+  const dueDate = new Date(to);
+  dueDate.setDate(dueDate.getDate() + account.payment_terms_days);
+
+  return {
+    from,
+    to,
+    openingBalance: openingCents / 100,
+    charges: periodCharges,
+    payments: periodPayments,
+    totalCharges,
+    totalPayments,
+    closingBalance:
+      (openingCents + toCents(totalCharges) - toCents(totalPayments)) / 100,
+    aging: agingSummary(openCharges(upToEnd.charges, upToEnd.payments), to),
+    dueDate,
+  };
+}
+
+/**
+ * Charges and payments of the statement in date order with a running balance
+ */
+export function statementLines(statement: AccountStatement): StatementLine[] {
+  const rows = [
+    ...statement.charges.map((c) => ({
+      date: c.created_at,
+      description: [
+        c.business_unit,
+        c.or_number ? `OR ${c.or_number}` : c.order_id,
+        c.plate_number,
+      ]
+        .filter(Boolean)
+        .join(" · "),
+      charge: Number(c.amount),
+      payment: 0,
+    })),
+    ...statement.payments.map((p) => ({
+      date: p.received_at,
+      description: ["Payment", p.method, p.reference]
+        .filter(Boolean)
+        .join(" · "),
+      charge: 0,
+      payment: Number(p.amount),
+    })),
+  ].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  let balance = toCents(statement.openingBalance);
+  return rows.map((row) => {
+    balance += toCents(row.charge) - toCents(row.payment);
+    return { ...row, balance: balance / 100 };
+  });
+}
+
+/**
+ * Account name and amount for the ESC/POS receipt, signed by the driver
+ */
+export function receiptAccount(charge: OrderAccountCharge | null | undefined) {
+  if (!charge) return null;
+  return { accountName: charge.account_name, amount: charge.amount };
+}
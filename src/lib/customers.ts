@@ -0,0 +1,47 @@
+// Carwash customer registry helpers
+// Customers are keyed by phone number and vehicles by plate, so both are
+// normalized the same way everywhere they are entered or searched.
+
+import type { Customer, CustomerVehicle } from "./apiTypes";
+
+/**
+ * "09171234567" and "+639171234567" are the same customer; store the
+ * international form
+ */
+export function normalizePhone(phone: string): string {
+  const clean = phone.replace(/[\s\-()]/g, "");
+  return clean.startsWith("09") ? `+63${clean.slice(1)}` : clean;
+}
+
+export function normalizePlate(plate: string): string {
+  return plate.replace(/[^a-z0-9]/gi, "").toUpperCase();
+}
+
+/**
+ * Short description of a vehicle, e.g. "Red Toyota Vios · Sedan"
+ */
+export function vehicleLabel(vehicle: CustomerVehicle): string {
+  const model = [vehicle.color, vehicle.make].filter(Boolean).join(" ");
+  return [model, vehicle.vehicle_type].filter(Boolean).join(" · ");
+}
+
+/**
+ * The vehicle to pre-fill for a customer: the one whose plate was typed,
+ * else the only one matching the type in the cart, else their only vehicle
+ */
+export function preferredVehicle(
+  customer: Customer,
+  plate: string,
+  vehicleType: string | null | undefined
+): CustomerVehicle | null {
+  const typed = normalizePlate(plate);
+  const byPlate = customer.vehicles.find(
+    (v) => typed && normalizePlate(v.plate_number) === typed
+  );
+  if (byPlate) return byPlate;
+  const sameType = customer.vehicles.filter(
+    (v) => vehicleType && v.vehicle_type === vehicleType
+  );
+  if (sameType.length === 1) return sameType[0];
+  return customer.vehicles.length === 1 ? customer.vehicles[0] : null;
+}
@@ -0,0 +1,186 @@
+// Discount rule evaluation shared by the POS pages
+// Rules are defined by managers in Settings. Every discount is broken down per
+// cart line so receipts can show exactly which items were discounted.
+
+import { api } from "./api";
+import type { BusinessUnit, DiscountRule } from "./apiTypes";
+import { sum, toCents } from "./money";
+
+// Used when /api/discounts can't be reached (e.g. offline) so the statutory
+// Senior/PWD discounts keep working
+export const DEFAULT_DISCOUNT_RULES: DiscountRule[] = [
+  {
+    id: -1,
+    name: "Senior",
+    type: "percentage",
+    value: 20,
+    scope: "order",
+    categories: [],
+    max_amount: null,
+    requires_id: true,
+    vat_exempt: true,
+    business_unit: "All",
+    is_active: true,
+  },
+  {
+    id: -2,
+    name: "PWD",
+    type: "percentage",
+    value: 20,
+    scope: "order",
+    categories: [],
+    max_amount: null,
+    requires_id: true,
+    vat_exempt: true,
+    business_unit: "All",
+    is_active: true,
+  },
+  {
+    id: -3,
+    name: "Employee",
+    type: "percentage",
+    value: 20,
+    scope: "order",
+    categories: [],
+    max_amount: null,
+    requires_id: false,
+    vat_exempt: false,
+    business_unit: "All",
+    is_active: true,
+  },
+];
+
+// Cart line as seen by the discount engine
+export interface DiscountableLine {
+  lineId: string;
+  category: string;
+  unitPrice: number;
+  quantity: number;
+}
+
+export interface DiscountBreakdown {
+  total: number;
+  // Discount granted on each line, keyed by lineId
+  byLine: Record<string, number>;
+}
+
+// Discount chosen for the current order, with the holder's ID when required
+export interface AppliedDiscount {
+  rule: DiscountRule;
+  idNumber: string | null;
+  holderName: string | null;
+}
+
+/**
+ * Split `cents` across lines in proportion to `weights`. Rounding leftovers go
+ * to the heaviest line.
+ */
+export function allocate(cents: number, weights: number[]): number[] {
+  const totalWeight = sum(weights);
+  if (totalWeight <= 0) return weights.map(() => 0);
+  const shares = weights.map((w) => Math.floor((cents * w) / totalWeight));
+  const heaviest = weights.indexOf(Math.max(...weights));
+  shares[heaviest] += cents - sum(shares);
+  return shares;
+}
+
+export function ruleAppliesToCategory(
+  rule: DiscountRule,
+  category: string
+): boolean {
+  return (
+    rule.categories.length === 0 ||
+    rule.categories.some((c) => c.toLowerCase() === category.toLowerCase())
+  );
+}
+
+/**
+ * Short description for chips and Settings, e.g. "20% off order"
+ */
+export function describeRule(rule: DiscountRule): string {
+  const amount =
+    rule.type === "percentage" ? `${rule.value}%` : `₱${rule.value}`;
+  return `${amount} off ${rule.scope === "item" ? "each item" : "order"}`;
+}
+
+/**
+ * Compute the discount a rule grants on the given lines. Lines outside the
+ * rule's categories get nothing; the max cap is spread back over the lines.
+ */
+export function computeDiscount(
+  rule: DiscountRule | null,
+  lines: DiscountableLine[]
+): DiscountBreakdown {
+  const byLine: Record<string, number> = {};
+  lines.forEach((line) => {
+    byLine[line.lineId] = 0;
+  });
+  if (!rule) return { total: 0, byLine };
+
+  const eligible = lines.filter((line) =>
+    ruleAppliesToCategory(rule, line.category)
+  );
+  const lineCents = eligible.map((line) =>
+    toCents(line.unitPrice * line.quantity)
+  );
+
+  let cents: number[];
+  if (rule.scope === "item") {
+    cents = eligible.map((line, i) =>
+      Math.min(
+        lineCents[i],
+        rule.type === "percentage"
+          ? Math.round((lineCents[i] * rule.value) / 100)
+          : toCents(rule.value) * line.quantity
+      )
+    );
+  } else {
+    const base = sum(lineCents);
+    const amount =
+      rule.type === "percentage"
+        ? Math.round((base * rule.value) / 100)
+        : toCents(rule.value);
+    cents = allocate(Math.min(base, amount), lineCents);
+  }
+
+  if (rule.max_amount !== null && sum(cents) > toCents(rule.max_amount)) {
+    cents = allocate(toCents(rule.max_amount), cents);
+  }
+
+  eligible.forEach((line, i) => {
+    byLine[line.lineId] = cents[i] / 100;
+  });
+  return { total: sum(cents) / 100, byLine };
+}
+
+// Numeric columns may arrive as strings
+export function normalizeDiscountRule(rule: DiscountRule): DiscountRule {
+  return {
+    ...rule,
+    value: Number(rule.value),
+    max_amount: rule.max_amount === null ? null : Number(rule.max_amount),
+    categories: rule.categories ?? [],
+    vat_exempt: Boolean(rule.vat_exempt),
+  };
+}
+
+/**
+ * Active rules for a POS page. Falls back to the built-in rules when the
+ * backend is unreachable.
+ */
+export async function fetchDiscountRules(
+  businessUnit: BusinessUnit
+): Promise<DiscountRule[]> {
+  let rules: DiscountRule[];
+  try {
+    rules = (await api.discounts.list()).map(normalizeDiscountRule);
+  } catch (error) {
+    console.error("Failed to load discount rules:", error);
+    rules = DEFAULT_DISCOUNT_RULES;
+  }
+  return rules.filter(
+    (r) =>
+      r.is_active &&
+      (r.business_unit === "All" || r.business_unit === businessUnit)
+  );
+}
@@ -0,0 +1,210 @@
+// Loyalty points shared by the Coffee and Carwash POS
+// Members are identified by phone number. Each paid order earns points at the
+// business unit's rate; a reward is redeemed as a peso discount on the order.
+// The POS computes the points for the receipt and sends them with the order,
+// so the backend can post them to the member's ledger even for orders that
+// were queued offline.
+
+import { api, ApiError } from "./api";
+import type {
+  BusinessUnit,
+  LoyaltyAccount,
+  LoyaltyReward,
+  LoyaltySettings,
+  OrderLoyalty,
+} from "./apiTypes";
+import { normalizePhone } from "./customers";
+
+// Used when settings can't be loaded; nothing is earned or redeemed
+export const DEFAULT_LOYALTY_SETTINGS: LoyaltySettings = {
+  is_enabled: false,
+  earn_rates: [],
+  point_value: 0,
+};
+
+// Points last touched within these many days, for the liability report
+export const LIABILITY_AGE_BUCKETS = [
+  { label: "0–90 days", maxDays: 90 },
+  { label: "91–180 days", maxDays: 180 },
+  { label: "181–365 days", maxDays: 365 },
+  { label: "Over 1 year", maxDays: Infinity },
+];
+
+export interface LiabilityBucket {
+  label: string;
+  members: number;
+  points: number;
+  amount: number;
+}
+
+export interface LiabilitySummary {
+  members: number;
+  points: number;
+  amount: number;
+  buckets: LiabilityBucket[];
+}
+
+// Numeric columns may arrive as strings
+export function normalizeLoyaltySettings(
+  settings: LoyaltySettings
+): LoyaltySettings {
+  return {
+    is_enabled: Boolean(settings.is_enabled),
+    point_value: Number(settings.point_value) || 0,
+    earn_rates: (settings.earn_rates ?? []).map((rate) => ({
+      business_unit: rate.business_unit,
+      pesos_per_point: Number(rate.pesos_per_point) || 0,
+      points_per_order: Number(rate.points_per_order) || 0,
+    })),
+  };
+}
+
+/**
+ * Settings and active rewards for a POS page. Loyalty is switched off when
+ * the backend can't be reached.
+ */
+export async function fetchLoyaltyProgram(businessUnit: BusinessUnit): Promise<{
+  settings: LoyaltySettings;
+  rewards: LoyaltyReward[];
+}> {
+  try {
+    const [settings, rewards] = await Promise.all([
+      api.loyalty.settings(),
+      api.loyalty.rewards(),
+    ]);
+    return {
+      settings: normalizeLoyaltySettings(settings),
+      rewards: rewards
+        .map((r) => ({ ...r, value: Number(r.value) }))
+        .filter(
+          (r) =>
+            r.is_active &&
+            (r.business_unit === "All" || r.business_unit === businessUnit)
+        ),
+    };
+  } catch (error) {
+    console.error("Failed to load loyalty program:", error);
+    return { settings: DEFAULT_LOYALTY_SETTINGS, rewards: [] };
+  }
+}
+
+/**
+ * Member balance for a phone number; a phone that has never earned points
+ * starts a new member with a zero balance
+ */
+export async function findLoyaltyAccount(
+  phone: string
+): Promise<LoyaltyAccount> {
+  const key = normalizePhone(phone);
+  try {
+    return await api.loyalty.account(key);
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) {
+      return {
+        phone: key,
+        name: null,
+        balance: 0,
+        lifetime_earned: 0,
+        lifetime_redeemed: 0,
+        last_activity_at: null,
+      };
+    }
+    throw error;
+  }
+}
+
+export function pointsEarned(
+  settings: LoyaltySettings,
+  businessUnit: BusinessUnit,
+  amountPaid: number
+): number {
+  if (!settings.is_enabled || amountPaid <= 0) return 0;
+  const rate = settings.earn_rates.find(
+    (r) => r.business_unit === businessUnit
+  );
+  if (!rate) return 0;
+  const perPeso = Number(rate.pesos_per_point);
+  return (
+    (perPeso > 0 ? Math.floor(amountPaid / perPeso) : 0) +
+    Number(rate.points_per_order)
+  );
+}
+
+/**
+ * Points activity to store with an order, or null for non-members
+ */
+export function orderLoyalty(
+  settings: LoyaltySettings,
+  businessUnit: BusinessUnit,
+  member: LoyaltyAccount | null,
+  reward: LoyaltyReward | null,
+  rewardAmount: number,
+  amountPaid: number
+): OrderLoyalty | null {
+  if (!settings.is_enabled || !member) return null;
+  const redeemed = reward ? reward.points_cost : 0;
+  const earned = pointsEarned(settings, businessUnit, amountPaid);
+  return {
+    phone: member.phone,
+    reward_id: reward?.id ?? null,
+    reward_name: reward?.name ?? null,
+    reward_amount: reward ? rewardAmount : 0,
+    points_redeemed: redeemed,
+    points_earned: earned,
+    balance: Number(member.balance) - redeemed + earned,
+  };
+}
+
+/**
+ * Outstanding points valued at the configured point value, aged by each
+ * member's last activity
+ */
+export function liabilitySummary(
+  accounts: LoyaltyAccount[],
+  pointValue: number,
+  now: Date = new Date()
+): LiabilitySummary {
+  const buckets: LiabilityBucket[] = LIABILITY_AGE_BUCKETS.map((b) => ({
+    label: b.label,
+    members: 0,
+    points: 0,
+    amount: 0,
+  }));
+
+  accounts
+    .filter((a) => Number(a.balance) > 0)
+    .forEach((account) => {
+      const days = account.last_activity_at
+        ? (now.getTime() - new Date(account.last_activity_at).getTime()) /
+          86400000
+        : Infinity;
+      const index = LIABILITY_AGE_BUCKETS.findIndex((b) => days <= b.maxDays);
+      const bucket = buckets[index === -1 ? buckets.length - 1 : index];
+      bucket.members += 1;
+      bucket.points += Number(account.balance);
+    });
+
+  buckets.forEach((b) => {
+    b.amount = Math.round(b.points * pointValue * 100) / 100;
+  });
+  return {
+    members: buckets.reduce((sum, b) => sum + b.members, 0),
+    points: buckets.reduce((sum, b) => sum + b.points, 0),
+    amount: buckets.reduce((sum, b) => sum + b.amount, 0),
+    buckets,
+  };
+}
+
+/**
+ * Reward and points lines for the ESC/POS receipt
+ */
+export function receiptLoyalty(loyalty: OrderLoyalty | null | undefined) {
+  if (!loyalty) return null;
+  return {
+    rewardName: loyalty.reward_name,
+    rewardAmount: loyalty.reward_amount,
+    pointsEarned: loyalty.points_earned,
+    pointsRedeemed: loyalty.points_redeemed,
+    balance: loyalty.balance,
+  };
+}
@@ -0,0 +1,79 @@
+// Product modifier helpers for the Coffee POS
+// Modifier groups (size, add-ons, sugar level) are defined per product in
+// Settings. The legacy Hot/Cold choice (`needs_temp`) is offered as a built-in
+// Temperature group so the POS has a single picker for all options.
+
+import type { ModifierGroup, Product } from "./apiTypes";
+
+// Modifier picked for a cart line
+export interface SelectedModifier {
+  group: string;
+  name: string;
+  price_delta: number;
+}
+
+export const TEMPERATURE_GROUP: ModifierGroup = {
+  name: "Temperature",
+  required: true,
+  multiple: false,
+  options: [
+    { name: "Hot", price_delta: 0 },
+    { name: "Cold", price_delta: 0 },
+  ],
+};
+
+// Numeric columns may arrive as strings
+export function normalizeModifierGroups(
+  groups: ModifierGroup[] | null | undefined
+): ModifierGroup[] {
+  return (groups ?? []).map((group) => ({
+    ...group,
+    required: Boolean(group.required),
+    multiple: Boolean(group.multiple),
+    options: (group.options ?? []).map((option) => ({
+      ...option,
+      price_delta: Number(option.price_delta) || 0,
+    })),
+  }));
+}
+
+/**
+ * Groups the POS should ask for when the product is added
+ */
+export function modifierGroupsFor(product: Product): ModifierGroup[] {
+  const groups = normalizeModifierGroups(product.modifier_groups);
+  return product.needs_temp ? [TEMPERATURE_GROUP, ...groups] : groups;
+}
+
+export function modifiersTotal(modifiers: SelectedModifier[]): number {
+  return modifiers.reduce((sum, m) => sum + m.price_delta, 0);
+}
+
+/**
+ * Stable key so identical selections merge into one cart line
+ */
+export function modifiersKey(modifiers: SelectedModifier[]): string {
+  return modifiers
+    .map((m) => `${m.group}:${m.name}`)
+    .sort()
+    .join("|");
+}
+
+/**
+ * Validate a selection against the groups. Returns an error message or null.
+ */
+export function validateModifiers(
+  groups: ModifierGroup[],
+  modifiers: SelectedModifier[]
+): string | null {
+  for (const group of groups) {
+    const picked = modifiers.filter((m) => m.group === group.name);
+    if (group.required && picked.length === 0) {
+      return `Please select ${group.name.toLowerCase()}.`;
+    }
+    if (!group.multiple && picked.length > 1) {
+      return `Only one ${group.name.toLowerCase()} can be selected.`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,19 @@
+// Peso amount helpers shared by the POS libraries
+// Amounts are added and compared in whole centavos to avoid floating point
+// drift (0.1 + 0.2), then divided by 100 again at the edges. The backend
+// sends decimals as strings, so anything that isn't a number counts as zero.
+
+export function toCents(amount: unknown): number {
+  return Math.round((Number(amount) || 0) * 100);
+}
+
+export function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+/**
+ * Total of peso amounts, added in centavos, e.g. [0.1, 0.2] → 0.3
+ */
+export function sumAmounts(amounts: unknown[]): number {
+  return sum(amounts.map(toCents)) / 100;
+}
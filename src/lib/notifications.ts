@@ -0,0 +1,143 @@
+// Customer notifications for carwash tickets
+// Messages go out through a gateway chosen by NEXT_PUBLIC_SMS_GATEWAY:
+//   - "log" (default): writes the message to the console only, for testing
+//   - "sms": relays through the backend, which holds the provider credentials
+// Every attempt, successful or not, is recorded in the ticket's delivery log.
+
+import { api } from "./api";
+import type {
+  CarwashTicket,
+  NotificationDelivery,
+  NotificationDeliveryPayload,
+  NotificationEvent,
+  NotificationStatus,
+  NotificationTemplate,
+} from "./apiTypes";
+import { normalizePhone } from "./customers";
+
+export interface GatewayResult {
+  status: NotificationStatus;
+  error?: string | null;
+}
+
+// Adapter for one way of reaching a customer
+export interface NotificationGateway {
+  name: string;
+  send(phone: string, message: string): Promise<GatewayResult>;
+}
+
+export const logOnlyGateway: NotificationGateway = {
+  name: "log",
+  async send(phone, message) {
+    console.info(`[notifications] to ${phone}: ${message}`);
+    return { status: "logged" };
+  },
+};
+
+export const smsGateway: NotificationGateway = {
+  name: "sms",
+  async send(phone, message) {
+    try {
+      await api.notifications.sendSms({ phone, message });
+      return { status: "sent" };
+    } catch (error) {
+      return {
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  },
+};
+
+const GATEWAYS: Record<string, NotificationGateway> = {
+  [logOnlyGateway.name]: logOnlyGateway,
+  [smsGateway.name]: smsGateway,
+};
+
+export function getNotificationGateway(): NotificationGateway {
+  return GATEWAYS[process.env.NEXT_PUBLIC_SMS_GATEWAY ?? ""] ?? logOnlyGateway;
+}
+
+// Used until a manager saves their own text
+export const DEFAULT_TEMPLATES: Record<NotificationEvent, string> = {
+  ticket_ready:
+    "Hi {customer_name}, your vehicle {plate_number} is ready for pick-up. Thank you!",
+};
+
+// Placeholders offered in the Settings template editor
+export const TEMPLATE_PLACEHOLDERS = [
+  "{customer_name}",
+  "{plate_number}",
+  "{services}",
+  "{order_id}",
+];
+
+export function renderTemplate(body: string, ticket: CarwashTicket): string {
+  const values: Record<string, string> = {
+    customer_name: ticket.customer_name || "Customer",
+    plate_number: ticket.plate_number || "",
+    services: ticket.items.map((i) => i.service_name).join(", "),
+    order_id: ticket.order_id,
+  };
+  return body
+    .replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match)
+    .replace(/\s{2,}/g, " ")
+    .trim();
+}
+
+/**
+ * Saved template for an event, falling back to the default text
+ */
+export async function fetchTemplate(
+  event: NotificationEvent
+): Promise<NotificationTemplate> {
+  const templates = await api.notifications.templates();
+  return (
+    templates.find((t) => t.event === event) ?? {
+      event,
+      body: DEFAULT_TEMPLATES[event],
+      is_enabled: true,
+    }
+  );
+}
+
+// Outcome of a ready message; the send and its log entry fail separately
+export interface ReadyNotice {
+  delivery: NotificationDeliveryPayload;
+  // Saved log entry, or null when the message went out but logging failed
+  logged: NotificationDelivery | null;
+}
+
+/**
+ * Tell the customer their vehicle is ready. Returns what was sent, or null
+ * when nothing was (no phone number or the template is disabled).
+ */
+export async function notifyTicketReady(
+  ticket: CarwashTicket
+): Promise<ReadyNotice | null> {
+  if (!ticket.customer_phone) return null;
+  const template = await fetchTemplate("ticket_ready");
+  if (!template.is_enabled) return null;
+
+  const phone = normalizePhone(ticket.customer_phone);
+  const message = renderTemplate(template.body, ticket);
+  const gateway = getNotificationGateway();
+  const result = await gateway.send(phone, message);
+  const delivery: NotificationDeliveryPayload = {
+    order_id: ticket.order_id,
+    event: "ticket_ready",
+    phone,
+    message,
+    gateway: gateway.name,
+    status: result.status,
+    error: result.error ?? null,
+  };
+  // The message has already gone out; a lost log entry must not report it
+  // as unsent
+  try {
+    return { delivery, logged: await api.notifications.logDelivery(delivery) };
+  } catch (error) {
+    console.error("[notifications] Failed to log delivery:", error);
+    return { delivery, logged: null };
+  }
+}
@@ -0,0 +1,66 @@
+// Last known server data for starting the POS offline
+// A reload during an outage would otherwise leave the counter without a user,
+// a shift or a menu. The reads a sale depends on are cached in localStorage on
+// every successful load and served from there while the backend can't be
+// reached; any other error (401, 500, ...) still fails as before.
+
+import { isNetworkError } from "./orderOutbox";
+
+export const CACHE_KEYS = {
+  user: "offline_cache:user",
+  shift: "offline_cache:shift",
+  coffeeProducts: "offline_cache:coffee_products",
+  carwashServices: "offline_cache:carwash_services",
+} as const;
+
+type CacheKey = (typeof CACHE_KEYS)[keyof typeof CACHE_KEYS];
+
+// Wrapped so a cached null (e.g. no active shift) is told apart from a miss
+interface CacheEntry<T> {
+  data: T;
+  savedAt: string;
+}
+
+function readCache<T>(key: CacheKey): CacheEntry<T> | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as CacheEntry<T>) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function writeCache<T>(key: CacheKey, data: T) {
+  try {
+    const entry: CacheEntry<T> = { data, savedAt: new Date().toISOString() };
+    localStorage.setItem(key, JSON.stringify(entry));
+  } catch (error) {
+    // Storage full or unavailable: only the offline fallback is lost
+    console.error("[Offline cache] Failed to save", key, error);
+  }
+}
+
+export function clearCache(...keys: CacheKey[]) {
+  keys.forEach((key) => localStorage.removeItem(key));
+}
+
+/**
+ * Load fresh data and cache it. When the backend is unreachable the last
+ * cached copy is returned instead; without one the network error is thrown.
+ */
+export async function withOfflineCache<T>(
+  key: CacheKey,
+  load: () => Promise<T>
+): Promise<T> {
+  try {
+    const data = await load();
+    writeCache(key, data);
+    return data;
+  } catch (error) {
+    const cached = isNetworkError(error) ? readCache<T>(key) : null;
+    if (!cached) throw error;
+    console.warn(`[Offline cache] Using ${key} from ${cached.savedAt}`);
+    return cached.data;
+  }
+}
@@ -0,0 +1,358 @@
+// Offline outbox for POS orders
+// When the backend is unreachable, orders are persisted to IndexedDB with their
+// client-generated orderId and replayed with exponential backoff once
+// connectivity returns. The orderId doubles as an idempotency key so a retry
+// of a request that actually reached the server is not saved twice.
+
+import { api, ApiError } from "./api";
+import { getAuthToken } from "./auth";
+import type {
+  BusinessUnit,
+  CarwashTicketPayload,
+  CreateOrderRequest,
+  CreateOrderResponse,
+  RecipeLine,
+  SettleTicketRequest,
+} from "./apiTypes";
+import { recordIngredientUsage } from "./recipes";
+
+const DB_NAME = "onefaith-pos";
+const DB_VERSION = 1;
+const STORE = "order-outbox";
+
+// Retry timing: 5s, 10s, 20s ... capped at 5 minutes
+const BASE_DELAY_MS = 5000;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+const SYNC_INTERVAL_MS = 15000;
+
+export interface OutboxEntry {
+  orderId: string;
+  businessUnit: BusinessUnit;
+  // Body for POST /api/orders
+  payload: CreateOrderRequest;
+  // Carwash queue tickets (bodies for POST /api/carwash/services), one per
+  // vehicle, created and linked to the saved order once the order syncs
+  tickets?: CarwashTicketPayload[] | null;
+  // Single ticket of entries queued before multi-vehicle orders
+  ticket?: CarwashTicketPayload | null;
+  // Pay-later ticket (same order id) this order pays for; marked paid and
+  // linked once the order syncs
+  settlement?: SettleTicketRequest | null;
+  // Set once the pay-later ticket is settled, so a retry only links it
+  settled?: boolean;
+  // Recipe ingredients to deduct once the order is saved; cleared once done
+  ingredientUsage?: RecipeLine[] | null;
+  // Id of the saved order, kept so a retry after a later step fails neither
+  // posts the order again nor repeats the deduction
+  dbOrderId?: string | null;
+  createdAt: string;
+  attempts: number;
+  nextAttemptAt: number;
+  // "failed" entries were rejected by the backend and need manual review
+  status: "pending" | "failed";
+  lastError: string | null;
+}
+
+export interface OutboxStatus {
+  pending: number;
+  failed: number;
+  syncing: boolean;
+}
+
+type Listener = (status: OutboxStatus) => void;
+
+const listeners = new Set<Listener>();
+let syncing = false;
+
+/**
+ * Check whether IndexedDB is usable (not during SSR / private mode quirks)
+ */
+export function isOutboxSupported(): boolean {
+  return typeof window !== "undefined" && "indexedDB" in window;
+}
+
+function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        db.createObjectStore(STORE, { keyPath: "orderId" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDB();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const request = run(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * List all outbox entries, oldest first
+ */
+export async function listOutbox(): Promise<OutboxEntry[]> {
+  if (!isOutboxSupported()) return [];
+  const entries = await withStore<OutboxEntry[]>("readonly", (store) =>
+    store.getAll()
+  );
+  return entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+async function putEntry(entry: OutboxEntry): Promise<void> {
+  await withStore("readwrite", (store) => store.put(entry));
+}
+
+async function removeEntry(orderId: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(orderId));
+}
+
+async function notify(): Promise<void> {
+  if (listeners.size === 0) return;
+  const entries = await listOutbox().catch(() => []);
+  const status: OutboxStatus = {
+    pending: entries.filter((e) => e.status === "pending").length,
+    failed: entries.filter((e) => e.status === "failed").length,
+    syncing,
+  };
+  listeners.forEach((listener) => listener(status));
+}
+
+/**
+ * Subscribe to outbox count changes. Returns an unsubscribe function.
+ */
+export function subscribeOutbox(listener: Listener): () => void {
+  listeners.add(listener);
+  notify();
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Persist an order that could not be sent. Re-queuing the same orderId
+ * replaces the existing entry instead of creating a duplicate. An order the
+ * backend already saved passes its dbOrderId so only the follow-up steps run.
+ */
+export async function enqueueOrder(
+  order: Pick<
+    OutboxEntry,
+    | "orderId"
+    | "businessUnit"
+    | "payload"
+    | "tickets"
+    | "settlement"
+    | "ingredientUsage"
+    | "dbOrderId"
+  >
+): Promise<void> {
+  await putEntry({
+    ...order,
+    tickets: order.tickets ?? null,
+    settlement: order.settlement ?? null,
+    ingredientUsage: order.ingredientUsage ?? null,
+    dbOrderId: order.dbOrderId ?? null,
+    settled: false,
+    createdAt: new Date().toISOString(),
+    attempts: 0,
+    nextAttemptAt: Date.now() + BASE_DELAY_MS,
+    status: "pending",
+    lastError: null,
+  });
+  await notify();
+}
+
+/**
+ * Network failures (fetch rejects) are worth queuing; HTTP errors are not
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (error instanceof ApiError) return error.isNetworkError;
+  return error instanceof TypeError;
+}
+
+function backoffDelay(attempts: number): number {
+  return Math.min(BASE_DELAY_MS * 2 ** attempts, MAX_DELAY_MS);
+}
+
+// Retry on server errors, timeouts and rate limits; anything else is a rejection
+function isRetryableStatus(status: number): boolean {
+  return (
+    status >= 500 || status === 408 || status === 429 || isAuthStatus(status)
+  );
+}
+
+// The session expired or was revoked (typically while offline). The order is
+// fine; it waits for the next login instead of being marked failed.
+function isAuthStatus(status: number): boolean {
+  return status === 401 || status === 403;
+}
+
+/**
+ * Saved order id from a 409: the backend already has this orderId from an
+ * earlier attempt (possibly the POS's own, whose response was lost) and sends
+ * that order's id back
+ */
+function existingOrderId(error: ApiError): string {
+  const data = error.data as Partial<CreateOrderResponse> | null;
+  if (typeof data?.orderId === "string" && data.orderId) return data.orderId;
+  // Without the id the tickets can't be linked; leave it for manual review
+  throw new ApiError("Order already exists but its id was not returned", 422);
+}
+
+/**
+ * Send an entry's order and follow-up steps. Progress is written back to the
+ * entry (and the store) as it goes, so a retry resumes where this one failed.
+ */
+async function sendEntry(entry: OutboxEntry): Promise<void> {
+  if (!entry.dbOrderId) {
+    try {
+      const result = await api.orders.create(entry.payload, entry.orderId);
+      entry.dbOrderId = result.orderId;
+    } catch (error) {
+      if (!(error instanceof ApiError && error.status === 409)) throw error;
+      entry.dbOrderId = existingOrderId(error);
+    }
+    await putEntry(entry);
+  }
+  const dbOrderId = entry.dbOrderId;
+
+  // The batch is keyed by orderId, so retrying it after a lost response
+  // cannot deduct twice; the saved order above is not posted again
+  if (entry.ingredientUsage?.length) {
+    await recordIngredientUsage(entry.orderId, entry.ingredientUsage, "sale");
+    entry.ingredientUsage = null;
+    await putEntry(entry);
+  }
+
+  const tickets = entry.tickets ?? (entry.ticket ? [entry.ticket] : []);
+  for (const ticket of tickets) {
+    await api.carwash.upsert(ticket);
+    await api.carwash.linkOrder(ticket.order_id ?? entry.orderId, dbOrderId);
+  }
+
+  if (entry.settlement) {
+    // A second settle is rejected by the backend and would fail a paid order
+    if (!entry.settled) {
+      await api.carwash.settle(entry.orderId, entry.settlement);
+      entry.settled = true;
+      await putEntry(entry);
+    }
+    await api.carwash.linkOrder(entry.orderId, dbOrderId);
+  }
+}
+
+/**
+ * Replay due entries in order. Safe to call repeatedly; concurrent calls
+ * are ignored while a flush is running.
+ * @returns number of entries synced
+ */
+export async function flushOutbox(force = false): Promise<number> {
+  if (!isOutboxSupported() || syncing) return 0;
+  if (typeof navigator !== "undefined" && navigator.onLine === false) return 0;
+  // Logged out: nothing can be sent until someone logs in again
+  if (!getAuthToken()) return 0;
+
+  syncing = true;
+  await notify();
+  let synced = 0;
+  try {
+    const entries = await listOutbox();
+    for (const entry of entries) {
+      if (entry.status !== "pending") continue;
+      if (!force && entry.nextAttemptAt > Date.now()) continue;
+      try {
+        await sendEntry(entry);
+        await removeEntry(entry.orderId);
+        synced++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Sync failed";
+        const rejected =
+          error instanceof ApiError &&
+          !error.isNetworkError &&
+          !isRetryableStatus(error.status);
+        await putEntry({
+          ...entry,
+          attempts: entry.attempts + 1,
+          nextAttemptAt: Date.now() + backoffDelay(entry.attempts + 1),
+          status: rejected ? "failed" : "pending",
+          lastError: message,
+        });
+        // Still offline or logged out: no point trying the rest right now
+        if (
+          isNetworkError(error) ||
+          (error instanceof ApiError && isAuthStatus(error.status))
+        ) {
+          break;
+        }
+      }
+    }
+  } catch (error) {
+    console.error("[Outbox] flush failed:", error);
+  } finally {
+    syncing = false;
+    await notify();
+  }
+  return synced;
+}
+
+/**
+ * Send a failed entry again after a manager has reviewed it (e.g. once the
+ * product it referenced is restored). It goes back to failed if the backend
+ * still rejects it.
+ * @returns whether the order synced
+ */
+export async function retryOutboxEntry(orderId: string): Promise<boolean> {
+  const entry = await withStore<OutboxEntry | undefined>("readonly", (store) =>
+    store.get(orderId)
+  );
+  if (!entry) return true;
+  await putEntry({ ...entry, status: "pending", nextAttemptAt: Date.now() });
+  await flushOutbox(true);
+  const after = await withStore<OutboxEntry | undefined>("readonly", (store) =>
+    store.get(orderId)
+  );
+  return !after;
+}
+
+/**
+ * Discard a failed entry after it has been reviewed
+ */
+export async function discardOutboxEntry(orderId: string): Promise<void> {
+  await removeEntry(orderId);
+  await notify();
+}
+
+/**
+ * Start background syncing: on an interval and whenever the browser
+ * reports it is back online. Returns a stop function.
+ */
+export function startOutboxSync(): () => void {
+  if (!isOutboxSupported()) return () => {};
+
+  const onOnline = () => {
+    flushOutbox(true);
+  };
+  window.addEventListener("online", onOnline);
+  const interval = setInterval(() => flushOutbox(), SYNC_INTERVAL_MS);
+  flushOutbox();
+
+  return () => {
+    window.removeEventListener("online", onOnline);
+    clearInterval(interval);
+  };
+}
@@ -0,0 +1,84 @@
+// Payment tender helpers shared by the POS pages
+// An order is settled by one or more tender lines (e.g. part cash, part GCash).
+// Only cash may exceed the balance due; the overage is returned as change.
+// "Account" tenders are charged to a corporate account and billed monthly.
+
+import { sumAmounts, toCents } from "./money";
+
+export type PaymentMethod = "Cash" | "Gcash" | "Maya" | "Card" | "Account";
+
+export interface TenderLine {
+  method: PaymentMethod;
+  amount: number;
+  // E-wallet / card approval or transaction reference
+  reference: string | null;
+}
+
+export const PAYMENT_METHODS: {
+  value: PaymentMethod;
+  label: string;
+  requiresReference: boolean;
+}[] = [
+  { value: "Cash", label: "Cash", requiresReference: false },
+  { value: "Gcash", label: "GCash", requiresReference: true },
+  { value: "Maya", label: "Maya", requiresReference: true },
+  { value: "Card", label: "Card", requiresReference: true },
+  { value: "Account", label: "Account", requiresReference: false },
+];
+
+export function paymentMethodLabel(method: string): string {
+  return PAYMENT_METHODS.find((m) => m.value === method)?.label ?? method;
+}
+
+export function sumTenders(tenders: TenderLine[]): number {
+  return sumAmounts(tenders.map((t) => t.amount));
+}
+
+/**
+ * Amount still owed after the given tenders (never negative)
+ */
+export function balanceDue(total: number, tenders: TenderLine[]): number {
+  return Math.max(0, toCents(total) - toCents(sumTenders(tenders))) / 100;
+}
+
+/**
+ * Change to hand back; only cash overpayment produces change
+ */
+export function changeDue(total: number, tenders: TenderLine[]): number {
+  return Math.max(0, toCents(sumTenders(tenders)) - toCents(total)) / 100;
+}
+
+export function cashTendered(tenders: TenderLine[]): number {
+  return sumTenders(tenders.filter((t) => t.method === "Cash"));
+}
+
+/**
+ * Single method name for reports, or "Split" when several methods were used
+ */
+export function summarizePaymentMethod(tenders: TenderLine[]): string {
+  const methods = [...new Set(tenders.map((t) => t.method))];
+  return methods.length === 1 ? methods[0] : "Split";
+}
+
+/**
+ * Validate a tender before adding it. Returns an error message or null.
+ */
+export function validateTender(
+  tender: TenderLine,
+  remaining: number
+): string | null {
+  if (!Number.isFinite(tender.amount) || tender.amount <= 0) {
+    return "Please enter an amount.";
+  }
+  if (remaining <= 0) {
+    return "The order is already fully paid.";
+  }
+  const method = PAYMENT_METHODS.find((m) => m.value === tender.method);
+  if (method?.requiresReference && !tender.reference?.trim()) {
+    return `Please enter the ${method.label} reference number.`;
+  }
+  if (tender.method !== "Cash" && toCents(tender.amount) > toCents(remaining)) {
+    return `${paymentMethodLabel(tender.method)} amount cannot exceed the balance due.`;
+  }
+  return null;
+}
@@ -0,0 +1,124 @@
+// Queue wait estimates for the customer display
+// Service length is the median started → completed time of recent tickets,
+// per vehicle type when there is enough history and overall otherwise.
+// Waiting vehicles are handed to whichever bay frees up first, in the order
+// they joined the queue.
+
+import type {
+  PublicQueueTicket,
+  RecentServiceDuration,
+} from "./apiTypes";
+
+// Used until there is any completed history at all
+const DEFAULT_SERVICE_MINUTES = 30;
+// Vehicle types with fewer samples fall back to the overall median
+const MIN_SAMPLES = 3;
+
+export interface ServiceDurations {
+  overall: number;
+  byVehicle: Record<string, number>;
+}
+
+export interface WaitEstimate {
+  // Queue position starting at 1; null for vehicles already being washed
+  position: number | null;
+  // Minutes until the service starts (queued) or finishes (in progress)
+  minutes: number;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+export function serviceDurations(
+  recent: RecentServiceDuration[]
+): ServiceDurations {
+  const samples = recent
+    .map((r) => ({
+      vehicle: r.vehicle_type ?? "",
+      minutes:
+        (new Date(r.completed_at).getTime() -
+          new Date(r.started_at).getTime()) /
+        60000,
+    }))
+    // Drop clock errors and tickets left open overnight
+    .filter((s) => s.minutes > 0 && s.minutes < 8 * 60);
+
+  if (samples.length === 0) {
+    return { overall: DEFAULT_SERVICE_MINUTES, byVehicle: {} };
+  }
+
+  const grouped: Record<string, number[]> = {};
+  samples.forEach((s) => {
+    if (!s.vehicle) return;
+    (grouped[s.vehicle] ??= []).push(s.minutes);
+  });
+
+  const byVehicle: Record<string, number> = {};
+  Object.entries(grouped).forEach(([vehicle, minutes]) => {
+    if (minutes.length >= MIN_SAMPLES) byVehicle[vehicle] = median(minutes);
+  });
+
+  return { overall: median(samples.map((s) => s.minutes)), byVehicle };
+}
+
+function durationFor(
+  durations: ServiceDurations,
+  vehicleType: string | null
+): number {
+  return (vehicleType && durations.byVehicle[vehicleType]) || durations.overall;
+}
+
+/**
+ * Estimated wait per ticket, keyed by ref
+ */
+export function estimateWaits(
+  tickets: PublicQueueTicket[],
+  durations: ServiceDurations,
+  activeBays: number,
+  now: Date = new Date()
+): Map<string, WaitEstimate> {
+  const estimates = new Map<string, WaitEstimate>();
+  const inProgress = tickets.filter((t) => t.status === "in_progress");
+  const queued = tickets
+    .filter((t) => t.status === "queue")
+    .sort(
+      (a, b) =>
+        new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+    );
+
+  // Minutes from now until each bay is free
+  const bays: number[] = inProgress.map((t) => {
+    const elapsed = t.started_at
+      ? (now.getTime() - new Date(t.started_at).getTime()) / 60000
+      : 0;
+    const remaining = Math.max(
+      0,
+      durationFor(durations, t.vehicle_type) - elapsed
+    );
+    estimates.set(t.ref, {
+      position: null,
+      minutes: Math.ceil(remaining),
+    });
+    return remaining;
+  });
+  while (bays.length < Math.max(1, activeBays)) bays.push(0);
+  bays.sort((a, b) => a - b);
+
+  queued.forEach((t, index) => {
+    const [soonest, ...rest] = bays;
+    estimates.set(t.ref, {
+      position: index + 1,
+      minutes: Math.ceil(soonest),
+    });
+    const freeAt = soonest + durationFor(durations, t.vehicle_type);
+    // Keep bays ordered by when they free up
+    const insertAt = rest.findIndex((b) => b > freeAt);
+    bays.splice(0, bays.length, ...rest);
+    bays.splice(insertAt === -1 ? bays.length : insertAt, 0, freeAt);
+  });
+
+  return estimates;
+}
@@ -0,0 +1,279 @@
+// Official receipt (OR) numbering
+// Every business unit on every terminal issues its own gap-free series, so a
+// number can be assigned at the moment of sale even while offline. The counter
+// lives on the device and is only advanced once the order is saved or queued;
+// a sale that fails leaves its number free for the next one. The backend keeps
+// the register of issued and voided numbers from the orders it receives.
+// A series is only unique if one device issues it, so a device issues no
+// numbers until the backend has confirmed its terminal ID is not held by any
+// other device. If the counters are lost (storage cleared), numbering would
+// restart at 1, so nothing is issued until a sync has restored them from the
+// backend. Tills set up before terminals were confirmed claim their old
+// ID on the first sync; new devices are walked through claiming one at the
+// first sale.
+
+import { v4 as uuidv4 } from "uuid";
+import { api, ApiError } from "./api";
+import type {
+  BusinessUnit,
+  ReceiptResetRule,
+  ReceiptSeries,
+} from "./apiTypes";
+
+// Terminal ID confirmed by the backend for this device
+const TERMINAL_KEY = "pos_terminal_confirmed";
+// Random ID the backend ties a claimed terminal ID to
+const DEVICE_KEY = "pos_device_id";
+// Unconfirmed terminal ID saved by earlier versions
+const LEGACY_TERMINAL_KEY = "pos_terminal_id";
+const SERIES_KEY = "receipt_series";
+const COUNTERS_KEY = "receipt_counters";
+
+const DEFAULT_PADDING = 6;
+
+export const RESET_RULES: { value: ReceiptResetRule; label: string }[] = [
+  { value: "never", label: "Never" },
+  { value: "daily", label: "Daily" },
+  { value: "monthly", label: "Monthly" },
+  { value: "yearly", label: "Yearly" },
+];
+
+// Settings needed to format numbers; the backend series or a local default
+type SeriesConfig = Pick<ReceiptSeries, "prefix" | "padding" | "reset_rule">;
+
+// Next sequence to issue within the current period
+interface Counter {
+  period: string;
+  next: number;
+}
+
+export interface ReceiptReservation {
+  orNumber: string;
+  // Marks the number as used; call once the order is saved or queued
+  commit: () => void;
+}
+
+function readJSON<T>(key: string, fallback: T): T {
+  if (typeof window === "undefined") return fallback;
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function writeJSON(key: string, value: unknown) {
+  localStorage.setItem(key, JSON.stringify(value));
+}
+
+function seriesKey(unit: BusinessUnit, terminalId: string): string {
+  return `${unit}:${terminalId}`;
+}
+
+/**
+ * Terminal this device issues receipts as, set per device in Settings; null
+ * until the backend has confirmed it
+ */
+export function getTerminalId(): string | null {
+  if (typeof window === "undefined") return null;
+  return localStorage.getItem(TERMINAL_KEY) || null;
+}
+
+function getDeviceId(): string {
+  let deviceId = localStorage.getItem(DEVICE_KEY);
+  if (!deviceId) {
+    deviceId = uuidv4();
+    localStorage.setItem(DEVICE_KEY, deviceId);
+  }
+  return deviceId;
+}
+
+/**
+ * Claim a terminal ID for this device. The backend rejects (409) an ID
+ * already held by another device; nothing changes locally unless it accepts.
+ */
+export async function registerTerminal(terminalId: string): Promise<string> {
+  const id = terminalId.trim().toUpperCase();
+  if (!id) throw new Error("Enter a terminal ID");
+  const claim = await api.receipts.claimTerminal({
+    terminal_id: id,
+    device_id: getDeviceId(),
+  });
+  localStorage.setItem(TERMINAL_KEY, claim.terminal_id);
+  return claim.terminal_id;
+}
+
+/**
+ * Terminal ID to offer when setting up this device: the one it used before
+ * terminals were confirmed, if any
+ */
+export function suggestedTerminalId(): string {
+  if (typeof window === "undefined") return "";
+  return localStorage.getItem(LEGACY_TERMINAL_KEY) ?? "";
+}
+
+/**
+ * Claim the terminal ID an existing till already issued receipts under. When
+ * another device holds it, the till is set up by hand instead.
+ */
+async function claimLegacyTerminal(): Promise<void> {
+  const legacy = suggestedTerminalId();
+  if (!legacy) return;
+  try {
+    await registerTerminal(legacy);
+    localStorage.removeItem(LEGACY_TERMINAL_KEY);
+  } catch (error) {
+    if (!(error instanceof ApiError && error.status === 409)) throw error;
+    console.warn(`[Receipts] Terminal ${legacy} is held by another device`);
+  }
+}
+
+/**
+ * Why this device can't issue OR numbers, or null when it can
+ */
+export function receiptBlocker(): string | null {
+  if (!getTerminalId()) {
+    return (
+      "This device has no confirmed terminal ID. " +
+      "Set one up to ring up sales."
+    );
+  }
+  if (!hasCounters()) {
+    return (
+      "Receipt numbers on this device must be synced with the server " +
+      "before the next sale. Check the connection and reopen the POS."
+    );
+  }
+  return null;
+}
+
+// Written by every sync and sale, so missing means the storage was cleared
+function hasCounters(): boolean {
+  return localStorage.getItem(COUNTERS_KEY) !== null;
+}
+
+/**
+ * Period a date falls in for a reset rule, e.g. "20261019" for daily
+ */
+export function periodKey(rule: ReceiptResetRule, date: Date): string {
+  const yyyy = String(date.getFullYear());
+  const mm = String(date.getMonth() + 1).padStart(2, "0");
+  const dd = String(date.getDate()).padStart(2, "0");
+  switch (rule) {
+    case "daily":
+      return `${yyyy}${mm}${dd}`;
+    case "monthly":
+      return `${yyyy}${mm}`;
+    case "yearly":
+      return yyyy;
+    default:
+      return "";
+  }
+}
+
+export function formatReceiptNumber(
+  series: Pick<ReceiptSeries, "prefix" | "padding">,
+  period: string,
+  sequence: number
+): string {
+  return `${series.prefix}${period ? `${period}-` : ""}${String(
+    sequence
+  ).padStart(series.padding || DEFAULT_PADDING, "0")}`;
+}
+
+/**
+ * Next OR number the backend expects from a series, starting over when its
+ * period has rolled
+ */
+export function nextReceiptNumber(
+  series: ReceiptSeries,
+  date: Date = new Date()
+): string {
+  const period = periodKey(series.reset_rule, date);
+  const sequence =
+    (series.current_period ?? "") === period
+      ? Number(series.next_number) || 1
+      : 1;
+  return formatReceiptNumber(series, period, sequence);
+}
+
+function defaultSeries(unit: BusinessUnit, terminalId: string): SeriesConfig {
+  return {
+    prefix: `${unit === "Coffee" ? "CF" : "CW"}-${terminalId}-`,
+    padding: DEFAULT_PADDING,
+    reset_rule: "never",
+  };
+}
+
+function seriesFor(unit: BusinessUnit, terminalId: string): SeriesConfig {
+  const cached = readJSON<Record<string, SeriesConfig>>(SERIES_KEY, {});
+  return cached[seriesKey(unit, terminalId)] ?? defaultSeries(unit, terminalId);
+}
+
+/**
+ * Cache this terminal's series from the backend and make sure the local
+ * counters never fall behind numbers the backend has already registered.
+ */
+export async function syncReceiptSeries(): Promise<void> {
+  if (!getTerminalId()) await claimLegacyTerminal();
+  const terminalId = getTerminalId();
+  if (!terminalId) return;
+  const series = await api.receipts.series();
+  const cached: Record<string, SeriesConfig> = {};
+  const counters = readJSON<Record<string, Counter>>(COUNTERS_KEY, {});
+
+  series
+    .filter((s) => s.is_active && s.terminal_id === terminalId)
+    .forEach((s) => {
+      const key = seriesKey(s.business_unit, terminalId);
+      cached[key] = {
+        prefix: s.prefix,
+        padding: Number(s.padding) || DEFAULT_PADDING,
+        reset_rule: s.reset_rule,
+      };
+
+      const period = periodKey(s.reset_rule, new Date());
+      if ((s.current_period ?? "") !== period) return;
+      const local = counters[key];
+      const serverNext = Number(s.next_number) || 1;
+      counters[key] = {
+        period,
+        next:
+          local && local.period === period
+            ? Math.max(local.next, serverNext)
+            : serverNext,
+      };
+    });
+
+  writeJSON(SERIES_KEY, cached);
+  writeJSON(COUNTERS_KEY, counters);
+}
+
+/**
+ * Next OR number for a business unit on this terminal. The number is not
+ * used up until commit() is called. Check receiptBlocker() first.
+ */
+export function reserveReceiptNumber(unit: BusinessUnit): ReceiptReservation {
+  const terminalId = getTerminalId();
+  if (!terminalId) throw new Error("This device has no confirmed terminal ID");
+  if (!hasCounters()) throw new Error("Receipt counters have not been synced");
+  const key = seriesKey(unit, terminalId);
+  const series = seriesFor(unit, terminalId);
+  const period = periodKey(series.reset_rule, new Date());
+  const counter = readJSON<Record<string, Counter>>(COUNTERS_KEY, {})[key];
+  const sequence = counter && counter.period === period ? counter.next : 1;
+
+  return {
+    orNumber: formatReceiptNumber(series, period, sequence),
+    commit: () => {
+      const counters = readJSON<Record<string, Counter>>(COUNTERS_KEY, {});
+      const current = counters[key];
+      if (current && current.period === period && current.next > sequence) {
+        return;
+      }
+      counters[key] = { period, next: sequence + 1 };
+      writeJSON(COUNTERS_KEY, counters);
+    },
+  };
+}
@@ -0,0 +1,92 @@
+// Recipe-based ingredient deduction for coffee sales
+// Each product (and each modifier option) lists the ingredients one unit uses.
+// When an order is saved the combined usage is posted as one batch of OUT
+// movements tagged with the order id; voiding the order posts the same
+// quantities back as IN.
+
+import { api } from "./api";
+import type { Product, RecipeLine } from "./apiTypes";
+
+// Sold line as needed for recipe lookup
+export interface RecipeItem {
+  productId: number;
+  quantity: number;
+  modifiers: { group: string; name: string }[];
+}
+
+// Ingredient quantities are fractional (e.g. 0.018 kg of beans)
+function roundQuantity(quantity: number): number {
+  return Math.round(quantity * 10000) / 10000;
+}
+
+// Numeric columns may arrive as strings
+export function normalizeRecipe(
+  recipe: RecipeLine[] | null | undefined
+): RecipeLine[] {
+  return (recipe ?? [])
+    .map((line) => ({
+      ingredient_id: Number(line.ingredient_id),
+      quantity: Number(line.quantity) || 0,
+    }))
+    .filter((line) => line.quantity > 0);
+}
+
+/**
+ * Total ingredients used by the sold items, one entry per ingredient
+ */
+export function ingredientUsage(
+  items: RecipeItem[],
+  products: Product[]
+): RecipeLine[] {
+  const totals = new Map<number, number>();
+  const add = (recipe: RecipeLine[] | undefined, quantity: number) => {
+    normalizeRecipe(recipe).forEach((line) => {
+      totals.set(
+        line.ingredient_id,
+        (totals.get(line.ingredient_id) ?? 0) + line.quantity * quantity
+      );
+    });
+  };
+
+  items.forEach((item) => {
+    const product = products.find((p) => p.id === item.productId);
+    if (!product) return;
+    add(product.recipe, item.quantity);
+    item.modifiers.forEach((modifier) => {
+      const option = product.modifier_groups
+        ?.find((g) => g.name === modifier.group)
+        ?.options.find((o) => o.name === modifier.name);
+      add(option?.recipe, item.quantity);
+    });
+  });
+
+  return Array.from(totals, ([ingredient_id, quantity]) => ({
+    ingredient_id,
+    quantity: roundQuantity(quantity),
+  }));
+}
+
+/**
+ * Post an order's ingredient usage as one batch: OUT for a sale, IN to
+ * reverse it when the order is voided. The server applies the whole batch or
+ * none of it and ignores a repeat of the same key, so a failed call can
+ * simply be sent again.
+ * @param key idempotency key; defaults to one per order and reason
+ */
+export async function recordIngredientUsage(
+  orderId: string,
+  usage: RecipeLine[],
+  reason: "sale" | "void",
+  key = `${reason}-${orderId}`
+): Promise<void> {
+  if (usage.length === 0) return;
+  await api.ingredients.recordUsage(
+    {
+      order_id: orderId,
+      movement_type: reason === "sale" ? "OUT" : "IN",
+      lines: usage,
+      notes: `${reason === "sale" ? "Sale" : "Void"} ${orderId}`,
+    },
+    key
+  );
+}
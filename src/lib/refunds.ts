@@ -0,0 +1,137 @@
+// Void and refund helpers shared by My History and Sales
+// A void cancels everything still refundable on an order; a refund returns
+// selected lines. Line amounts are the line's share of the amount actually
+// paid, so discounted orders never refund more than was collected.
+
+import type {
+  BusinessUnit,
+  Product,
+  RecipeLine,
+  RefundLine,
+  Transaction,
+} from "./apiTypes";
+import { sum, sumAmounts, toCents } from "./money";
+import { ingredientUsage, normalizeRecipe, RecipeItem } from "./recipes";
+
+// Common reasons offered in the void dialog
+export const REFUND_REASONS = [
+  "Wrong item rung up",
+  "Customer changed mind",
+  "Item unavailable",
+  "Quality complaint",
+  "Duplicate transaction",
+];
+
+export function refundedTotal(tx: Transaction): number {
+  return sumAmounts((tx.refunds ?? []).map((r) => r.amount));
+}
+
+// Total after voids and refunds
+export function netTotal(tx: Transaction): number {
+  return Number(tx.total) - refundedTotal(tx);
+}
+
+export function isVoided(tx: Transaction): boolean {
+  return (tx.refunds ?? []).some((r) => r.type === "void");
+}
+
+/**
+ * Quantity already returned for each line, by item index
+ */
+export function refundedQuantities(tx: Transaction): number[] {
+  const quantities = tx.items.map(() => 0);
+  (tx.refunds ?? []).forEach((refund) => {
+    refund.lines.forEach((line) => {
+      if (line.item_index in quantities) {
+        quantities[line.item_index] += Number(line.quantity);
+      }
+    });
+  });
+  return quantities;
+}
+
+/**
+ * Amount to give back for `quantity` units of a line
+ */
+export function lineRefundAmount(
+  tx: Transaction,
+  itemIndex: number,
+  quantity: number
+): number {
+  const lineTotals = tx.items.map((i) => Number(i.line_total));
+  const gross = sum(lineTotals);
+  const item = tx.items[itemIndex];
+  if (!item || gross <= 0 || item.quantity <= 0) return 0;
+  const paidForLine = (Number(tx.total) * lineTotals[itemIndex]) / gross;
+  return toCents((paidForLine * quantity) / item.quantity) / 100;
+}
+
+/**
+ * Lines returned by a full void: whatever has not been refunded yet. The
+ * amount absorbs rounding so the order nets to exactly zero.
+ */
+export function voidLines(tx: Transaction): {
+  lines: RefundLine[];
+  amount: number;
+} {
+  const refunded = refundedQuantities(tx);
+  const lines = tx.items
+    .map((item, index) => ({
+      item_index: index,
+      quantity: item.quantity - refunded[index],
+      amount: lineRefundAmount(tx, index, item.quantity - refunded[index]),
+    }))
+    .filter((line) => line.quantity > 0);
+  return { lines, amount: toCents(netTotal(tx)) / 100 };
+}
+
+/**
+ * Refunded amount per business unit, for netting item revenue
+ */
+export function refundedByUnit(
+  tx: Transaction,
+  unit: BusinessUnit
+): number {
+  return sumAmounts(
+    (tx.refunds ?? [])
+      .flatMap((refund) => refund.lines)
+      .filter((line) => tx.items[line.item_index]?.business_unit === unit)
+      .map((line) => line.amount)
+  );
+}
+
+// Coffee line details carry the product id and the modifiers picked
+function recipeItem(
+  details: Record<string, unknown>,
+  quantity: number
+): RecipeItem | null {
+  const productId = Number(details.id);
+  if (!productId) return null;
+  const modifiers = Array.isArray(details.modifiers)
+    ? (details.modifiers as { group: string; name: string }[])
+    : [];
+  return { productId, quantity, modifiers };
+}
+
+/**
+ * Ingredients to put back for the returned lines. A full void restores exactly
+ * what the sale deducted when the order recorded it.
+ */
+export function refundIngredientUsage(
+  tx: Transaction,
+  lines: RefundLine[],
+  products: Product[],
+  fullVoid: boolean
+): RecipeLine[] {
+  const recorded = normalizeRecipe(tx.ingredient_usage);
+  if (fullVoid && !tx.refunds?.length && recorded.length > 0) {
+    return recorded;
+  }
+  const items = lines
+    .filter((line) => tx.items[line.item_index]?.business_unit === "Coffee")
+    .map((line) =>
+      recipeItem(tx.items[line.item_index].details ?? {}, line.quantity)
+    )
+    .filter((item): item is RecipeItem => item !== null);
+  return ingredientUsage(items, products);
+}
@@ -0,0 +1,264 @@
+// Sales summaries for the X-report (mid-shift) and Z-report (end of day)
+// Built from the same transaction lists as My History and Sales so the printed
+// totals always match what managers see on screen.
+
+import { api } from "./api";
+import type { BusinessUnit, ShiftRefund, Transaction } from "./apiTypes";
+import { refundCashShare } from "./cashDrawer";
+import { allocate } from "./discounts";
+import { sum, toCents } from "./money";
+import { paymentMethodLabel } from "./payments";
+
+// Named total with the number of orders that contributed to it
+export interface SalesReportLine {
+  name: string;
+  count: number;
+  amount: number;
+}
+
+export interface SalesReport {
+  transactionCount: number;
+  grossSales: number;
+  discounts: SalesReportLine[];
+  lessVat: number;
+  voids: SalesReportLine;
+  netSales: number;
+  payments: SalesReportLine[];
+  businessUnits: SalesReportLine[];
+  vatableSales: number;
+  vatAmount: number;
+  vatExemptSales: number;
+  firstReceipt: string | null;
+  lastReceipt: string | null;
+}
+
+const BUSINESS_UNITS: BusinessUnit[] = ["Coffee", "Carwash"];
+
+// Receipt number printed for an order; orders before OR numbering use the id
+export function receiptNumber(tx: Transaction): string {
+  return tx.or_number || tx.order_id;
+}
+
+/**
+ * Amount collected per payment method. Split payments count each tender;
+ * change is taken off the cash tender.
+ */
+function paymentsOf(tx: Transaction): { method: string; cents: number }[] {
+  if (!tx.tenders?.length) {
+    return [{ method: tx.payment_method, cents: toCents(tx.total) }];
+  }
+  let change = toCents(tx.change_due);
+  return tx.tenders.map((tender) => {
+    let cents = toCents(tender.amount);
+    if (tender.method === "Cash" && change > 0) {
+      const applied = Math.min(change, cents);
+      cents -= applied;
+      change -= applied;
+    }
+    return { method: tender.method, cents };
+  });
+}
+
+// Accumulates named totals in centavos, keeping first-seen order
+function addTo(
+  totals: Map<string, { count: number; cents: number }>,
+  name: string,
+  cents: number
+) {
+  const current = totals.get(name) ?? { count: 0, cents: 0 };
+  totals.set(name, { count: current.count + 1, cents: current.cents + cents });
+}
+
+// Takes a refund off a named total without counting it as another order
+function deductFrom(
+  totals: Map<string, { count: number; cents: number }>,
+  name: string,
+  cents: number
+) {
+  const current = totals.get(name) ?? { count: 0, cents: 0 };
+  totals.set(name, { count: current.count, cents: current.cents - cents });
+}
+
+function toLines(
+  totals: Map<string, { count: number; cents: number }>
+): SalesReportLine[] {
+  return Array.from(totals, ([name, t]) => ({
+    name,
+    count: t.count,
+    amount: t.cents / 100,
+  }));
+}
+
+// Undiscounted line totals per business unit, in centavos
+function unitWeights(tx: Transaction): number[] {
+  return BUSINESS_UNITS.map((unit) =>
+    sum(
+      tx.items
+        .filter((i) => i.business_unit === unit)
+        .map((i) => toCents(i.line_total))
+    )
+  );
+}
+
+/**
+ * A refund split by business unit, by the lines it returned (or the order's
+ * lines when it lists none); the shares add up to the refund amount
+ */
+function refundByUnit(refund: ShiftRefund): number[] {
+  const weights = BUSINESS_UNITS.map((unit) =>
+    sum(
+      refund.lines
+        .filter(
+          (line) => refund.order.items[line.item_index]?.business_unit === unit
+        )
+        .map((line) => toCents(line.amount))
+    )
+  );
+  return allocate(
+    toCents(refund.amount),
+    sum(weights) > 0 ? weights : unitWeights(refund.order)
+  );
+}
+
+/**
+ * A refund split by payment method: cash first, up to the cash the order
+ * kept (as the drawer count does), the rest over its other tenders
+ */
+function refundByPayment(
+  refund: ShiftRefund
+): { method: string; cents: number }[] {
+  const cash = toCents(refundCashShare(refund));
+  const rest = toCents(refund.amount) - cash;
+  const others = paymentsOf(refund.order).filter((p) => p.method !== "Cash");
+  const shares =
+    others.length > 0
+      ? allocate(rest, others.map((p) => p.cents)).map((cents, i) => ({
+          method: others[i].method,
+          cents,
+        }))
+      : [{ method: refund.order.payment_method, cents: rest }];
+  return [{ method: "Cash", cents: cash }, ...shares].filter(
+    (p) => p.cents > 0
+  );
+}
+
+/**
+ * Totals for a report. Payment and business-unit figures are what was
+ * collected less refunds, so each adds up to net sales. `refunds` are those
+ * made during the report's period, whichever period sold the order, so a
+ * printed report doesn't change when an older order is refunded later; for a
+ * shift they are the same refunds its expected drawer cash is built from.
+ */
+export function summarizeSales(
+  transactions: Transaction[],
+  refunds: ShiftRefund[]
+): SalesReport {
+  const sorted = [...transactions].sort(
+    (a, b) =>
+      new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  );
+  let gross = 0;
+  let lessVat = 0;
+  let collected = 0;
+  let vatable = 0;
+  let vat = 0;
+  let vatExempt = 0;
+  const discounts = new Map<string, { count: number; cents: number }>();
+  const payments = new Map<string, { count: number; cents: number }>();
+  const units = new Map<string, { count: number; cents: number }>();
+
+  sorted.forEach((tx) => {
+    const lineCents = sum(tx.items.map((item) => toCents(item.line_total)));
+    gross +=
+      tx.subtotal !== undefined && tx.subtotal !== null
+        ? toCents(tx.subtotal)
+        : lineCents;
+    collected += toCents(tx.total);
+
+    if (toCents(tx.discount) > 0) {
+      addTo(discounts, tx.discount_type || "Discount", toCents(tx.discount));
+    }
+    if (tx.loyalty && toCents(tx.loyalty.reward_amount) > 0) {
+      addTo(
+        discounts,
+        `Reward: ${tx.loyalty.reward_name ?? "Loyalty"}`,
+        toCents(tx.loyalty.reward_amount)
+      );
+    }
+    if (tx.vat) {
+      lessVat += toCents(tx.vat.less_vat);
+      vatable += toCents(tx.vat.vatable_sales);
+      vat += toCents(tx.vat.vat_amount);
+      vatExempt += toCents(tx.vat.vat_exempt_sales);
+    }
+
+    paymentsOf(tx).forEach((p) =>
+      addTo(payments, paymentMethodLabel(p.method), p.cents)
+    );
+
+    // The amount paid, after discounts, shared by the units' line totals
+    const weights = unitWeights(tx);
+    allocate(toCents(tx.total), weights).forEach((cents, i) => {
+      if (weights[i] > 0) addTo(units, BUSINESS_UNITS[i], cents);
+    });
+  });
+
+  let voidCents = 0;
+  refunds.forEach((refund) => {
+    voidCents += toCents(refund.amount);
+    refundByPayment(refund).forEach((p) =>
+      deductFrom(payments, paymentMethodLabel(p.method), p.cents)
+    );
+    refundByUnit(refund).forEach((cents, i) => {
+      if (cents > 0) deductFrom(units, BUSINESS_UNITS[i], cents);
+    });
+  });
+
+  return {
+    transactionCount: sorted.length,
+    grossSales: gross / 100,
+    discounts: toLines(discounts),
+    lessVat: lessVat / 100,
+    voids: {
+      name: "Voids/Refunds",
+      count: refunds.length,
+      amount: voidCents / 100,
+    },
+    netSales: (collected - voidCents) / 100,
+    payments: toLines(payments),
+    businessUnits: toLines(units),
+    vatableSales: vatable / 100,
+    vatAmount: vat / 100,
+    vatExemptSales: vatExempt / 100,
+    firstReceipt: sorted.length ? receiptNumber(sorted[0]) : null,
+    lastReceipt: sorted.length ? receiptNumber(sorted[sorted.length - 1]) : null,
+  };
+}
+
+/**
+ * Every transaction rung up on a business day (YYYY-MM-DD), all staff
+ */
+export async function fetchDayTransactions(
+  date: string
+): Promise<Transaction[]> {
+  const size = 100;
+  const all: Transaction[] = [];
+  for (let page = 1; ; page++) {
+    const data = await api.reports.allTransactions({
+      page,
+      size,
+      startDate: date,
+      endDate: date,
+    });
+    const batch = data.transactions || [];
+    all.push(...batch);
+    if (batch.length < size || page >= (data.totalPages ?? page)) return all;
+  }
+}
+
+/**
+ * Every void and refund made on a business day (YYYY-MM-DD), all staff
+ */
+export function fetchDayRefunds(date: string): Promise<ShiftRefund[]> {
+  return api.reports.refunds({ startDate: date, endDate: date });
+}
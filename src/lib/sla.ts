@@ -0,0 +1,177 @@
+// Service length targets (SLA) for carwash tickets
+// Managers set an expected duration per service and vehicle type in the
+// catalog. The POS adds up the expected minutes of a vehicle's services and
+// stores them on its ticket, so later catalog changes don't move the target
+// of tickets already sold. The clock runs from started → completed.
+
+import type { CarwashTicket } from "./apiTypes";
+
+// Share of the expected time after which a running ticket shows amber
+export const SLA_WARNING_RATIO = 0.8;
+
+// "on_track": green, "due_soon": amber, "overdue": red
+export type SlaStatus = "on_track" | "due_soon" | "overdue";
+
+export const SLA_STATUS_STYLES: Record<SlaStatus, string> = {
+  on_track: "text-green-700",
+  due_soon: "text-amber-600",
+  overdue: "text-red-600",
+};
+
+export interface SlaRow {
+  label: string;
+  tickets: number;
+  onTime: number;
+  // Average minutes over target of the late tickets
+  avgOverrun: number;
+}
+
+export interface SlaSummary {
+  // Completed tickets with a target and both timestamps
+  tracked: number;
+  onTime: number;
+  late: number;
+  // Percentage of tracked tickets finished within target
+  compliance: number;
+  avgOverrun: number;
+  byVehicle: SlaRow[];
+  byWasher: SlaRow[];
+}
+
+/**
+ * Expected minutes of a vehicle's service lines, or null when none of them
+ * has a target
+ */
+export function expectedMinutes(
+  lines: { expectedMinutes?: number | null; quantity: number }[]
+): number | null {
+  const timed = lines.filter((l) => l.expectedMinutes);
+  if (timed.length === 0) return null;
+  return timed.reduce(
+    (sum, l) => sum + Number(l.expectedMinutes) * l.quantity,
+    0
+  );
+}
+
+/**
+ * Minutes the ticket has been (or was) in service; null before it starts
+ */
+export function elapsedMinutes(
+  ticket: CarwashTicket,
+  now: Date = new Date()
+): number | null {
+  if (!ticket.started_at) return null;
+  const end = ticket.completed_at ? new Date(ticket.completed_at) : now;
+  return Math.max(
+    0,
+    (end.getTime() - new Date(ticket.started_at).getTime()) / 60000
+  );
+}
+
+/**
+ * Where a started ticket stands against its target; null without a target
+ */
+export function slaStatus(
+  ticket: CarwashTicket,
+  now: Date = new Date()
+): SlaStatus | null {
+  const elapsed = elapsedMinutes(ticket, now);
+  if (elapsed === null || !ticket.expected_minutes) return null;
+  if (elapsed > ticket.expected_minutes) return "overdue";
+  if (elapsed >= ticket.expected_minutes * SLA_WARNING_RATIO) {
+    return "due_soon";
+  }
+  return "on_track";
+}
+
+/**
+ * Tickets still being washed past their expected duration
+ */
+export function overdueTickets(
+  tickets: CarwashTicket[],
+  now: Date = new Date()
+): CarwashTicket[] {
+  return tickets.filter(
+    (t) => t.status === "in_progress" && slaStatus(t, now) === "overdue"
+  );
+}
+
+/**
+ * "12 / 30 min", or "12 min" for tickets without a target
+ */
+export function formatSlaTimer(
+  ticket: CarwashTicket,
+  now: Date = new Date()
+): string {
+  const elapsed = Math.floor(elapsedMinutes(ticket, now) ?? 0);
+  return ticket.expected_minutes
+    ? `${elapsed} / ${ticket.expected_minutes} min`
+    : `${elapsed} min`;
+}
+
+function summarizeRows(
+  entries: { key: string; overrun: number }[]
+): SlaRow[] {
+  const grouped: Record<string, number[]> = {};
+  entries.forEach((e) => (grouped[e.key] ??= []).push(e.overrun));
+  return Object.entries(grouped)
+    .map(([label, overruns]) => {
+      const late = overruns.filter((o) => o > 0);
+      return {
+        label,
+        tickets: overruns.length,
+        onTime: overruns.length - late.length,
+        avgOverrun: late.length
+          ? late.reduce((sum, o) => sum + o, 0) / late.length
+          : 0,
+      };
+    })
+    .sort((a, b) => a.onTime / a.tickets - b.onTime / b.tickets);
+}
+
+/**
+ * SLA compliance of completed tickets, overall and by vehicle type and washer.
+ * Tickets without a target are left out.
+ */
+export function slaCompliance(tickets: CarwashTicket[]): SlaSummary {
+  const tracked = tickets
+    .filter(
+      (t) =>
+        t.status === "completed" &&
+        t.expected_minutes &&
+        t.started_at &&
+        t.completed_at
+    )
+    .map((t) => ({
+      ticket: t,
+      overrun: (elapsedMinutes(t) ?? 0) - Number(t.expected_minutes),
+    }));
+  const late = tracked.filter((t) => t.overrun > 0);
+
+  return {
+    tracked: tracked.length,
+    onTime: tracked.length - late.length,
+    late: late.length,
+    compliance: tracked.length
+      ? ((tracked.length - late.length) / tracked.length) * 100
+      : 0,
+    avgOverrun: late.length
+      ? late.reduce((sum, t) => sum + t.overrun, 0) / late.length
+      : 0,
+    byVehicle: summarizeRows(
+      tracked.map((t) => ({
+        key: t.ticket.vehicle_type || "Unknown",
+        overrun: t.overrun,
+      }))
+    ),
+    // A ticket worked by several washers counts for each of them
+    byWasher: summarizeRows(
+      tracked.flatMap((t) =>
+        (t.ticket.washers?.length
+          ? t.ticket.washers.map((w) => w.name)
+          : ["Unassigned"]
+        ).map((name) => ({ key: name, overrun: t.overrun }))
+      )
+    ),
+  };
+}
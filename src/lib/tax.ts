@@ -0,0 +1,162 @@
+// VAT computation shared by the POS pages
+// Menu and service prices are VAT-inclusive (12%). Senior/PWD sales are
+// VAT-exempt: the VAT is removed from the covered lines first and the discount
+// is taken from the VAT-exclusive price. All other sales stay VATable, with VAT
+// extracted from the (discounted) line amount for the receipt breakdown.
+// A redeemed loyalty reward comes off last, spread over what is left of each
+// line.
+
+import type { DiscountRule } from "./apiTypes";
+import {
+  DiscountableLine,
+  allocate,
+  computeDiscount,
+  ruleAppliesToCategory,
+} from "./discounts";
+import { sum, toCents } from "./money";
+
+export const VAT_RATE = 0.12;
+
+// Per-line result, all amounts in pesos
+export interface TaxLine {
+  gross: number;
+  vatExempt: boolean;
+  // VAT removed from a VAT-exempt line
+  lessVat: number;
+  discount: number;
+  // Share of the loyalty reward
+  reward: number;
+  net: number;
+  vatableSales: number;
+  vatAmount: number;
+  vatExemptSales: number;
+}
+
+export interface TaxBreakdown {
+  subtotal: number;
+  lessVat: number;
+  discount: number;
+  reward: number;
+  total: number;
+  vatableSales: number;
+  vatAmount: number;
+  vatExemptSales: number;
+  // Keyed by lineId
+  lines: Record<string, TaxLine>;
+}
+
+// VAT summary stored with the order and printed on receipts
+export interface VatSummary {
+  vatable_sales: number;
+  vat_amount: number;
+  vat_exempt_sales: number;
+  less_vat: number;
+}
+
+// Price without VAT, in centavos
+function exclusiveOf(cents: number): number {
+  return Math.round(cents / (1 + VAT_RATE));
+}
+
+/**
+ * Compute discount and VAT for the cart. Lines covered by a VAT-exempt rule
+ * (Senior/PWD) lose their VAT before the rule's discount is applied. `reward`
+ * is a peso amount taken off after the discount, capped at what is left.
+ */
+export function computeTax(
+  rule: DiscountRule | null,
+  lines: DiscountableLine[],
+  reward: number = 0
+): TaxBreakdown {
+  const isExempt = (line: DiscountableLine) =>
+    !!rule?.vat_exempt && ruleAppliesToCategory(rule, line.category);
+
+  // Discount is based on the VAT-exclusive price for exempt lines
+  const discountBase = lines.map((line) =>
+    isExempt(line)
+      ? {
+          ...line,
+          unitPrice:
+            exclusiveOf(toCents(line.unitPrice * line.quantity)) /
+            100 /
+            line.quantity,
+        }
+      : line
+  );
+  const discounts = computeDiscount(rule, discountBase);
+
+  // What each line still costs after VAT removal and discount, in centavos
+  const remaining = lines.map((line) => {
+    const gross = toCents(line.unitPrice * line.quantity);
+    const lessVat = isExempt(line) ? gross - exclusiveOf(gross) : 0;
+    return gross - lessVat - toCents(discounts.byLine[line.lineId] ?? 0);
+  });
+  const rewards = allocate(
+    Math.min(toCents(reward), sum(remaining)),
+    remaining
+  );
+
+  const result: TaxBreakdown = {
+    subtotal: 0,
+    lessVat: 0,
+    discount: 0,
+    reward: 0,
+    total: 0,
+    vatableSales: 0,
+    vatAmount: 0,
+    vatExemptSales: 0,
+    lines: {},
+  };
+
+  lines.forEach((line, index) => {
+    const gross = toCents(line.unitPrice * line.quantity);
+    const discount = toCents(discounts.byLine[line.lineId] ?? 0);
+    const reward = rewards[index] ?? 0;
+    const exempt = isExempt(line);
+    const exclusive = exempt ? exclusiveOf(gross) : 0;
+    const lessVat = exempt ? gross - exclusive : 0;
+    const net = gross - lessVat - discount - reward;
+    const vatable = exempt ? 0 : exclusiveOf(net);
+    const vat = exempt ? 0 : net - vatable;
+
+    result.lines[line.lineId] = {
+      gross: gross / 100,
+      vatExempt: exempt,
+      lessVat: lessVat / 100,
+      discount: discount / 100,
+      reward: reward / 100,
+      net: net / 100,
+      vatableSales: vatable / 100,
+      vatAmount: vat / 100,
+      vatExemptSales: exclusive / 100,
+    };
+    result.subtotal += gross;
+    result.lessVat += lessVat;
+    result.discount += discount;
+    result.reward += reward;
+    result.total += net;
+    result.vatableSales += vatable;
+    result.vatAmount += vat;
+    result.vatExemptSales += exclusive;
+  });
+
+  // Totals were summed in centavos
+  result.subtotal /= 100;
+  result.lessVat /= 100;
+  result.discount /= 100;
+  result.reward /= 100;
+  result.total /= 100;
+  result.vatableSales /= 100;
+  result.vatAmount /= 100;
+  result.vatExemptSales /= 100;
+  return result;
+}
+
+export function vatSummary(tax: TaxBreakdown): VatSummary {
+  return {
+    vatable_sales: tax.vatableSales,
+    vat_amount: tax.vatAmount,
+    vat_exempt_sales: tax.vatExemptSales,
+    less_vat: tax.lessVat,
+  };
+}
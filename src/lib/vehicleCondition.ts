@@ -0,0 +1,186 @@
+// Vehicle condition recorded at carwash check-in
+// Before washing, staff mark existing damage on a diagram of the vehicle,
+// note the fuel level and any valuables left inside, and take photos. The
+// photos go through /api/upload and the form is stored on the service ticket,
+// so there is a record to point to when a customer reports a scratch later.
+
+import type {
+  DamageMark,
+  DamageType,
+  FuelLevel,
+  VehicleCondition,
+} from "./apiTypes";
+
+export const MAX_CONDITION_PHOTOS = 8;
+
+// Damage kinds with the chip color used on the diagram
+export const DAMAGE_TYPES: {
+  type: DamageType;
+  label: string;
+  style: string;
+}[] = [
+  { type: "scratch", label: "Scratch", style: "bg-amber-500" },
+  { type: "dent", label: "Dent", style: "bg-orange-600" },
+  { type: "crack", label: "Crack", style: "bg-red-600" },
+  { type: "chip", label: "Chip", style: "bg-purple-600" },
+  { type: "missing", label: "Missing part", style: "bg-gray-700" },
+];
+
+export const FUEL_LEVELS: FuelLevel[] = ["E", "1/4", "1/2", "3/4", "F"];
+
+export const VALUABLES_CHECKLIST = [
+  "Cash / coins",
+  "Phone / gadgets",
+  "Bag / wallet",
+  "Documents",
+  "Sunglasses",
+  "Dashcam",
+  "Child seat",
+];
+
+// A zone of the damage diagram, placed on a CSS grid (1-based lines)
+export interface DiagramZone {
+  id: string;
+  label: string;
+  row: number;
+  col: number;
+  rowSpan?: number;
+  colSpan?: number;
+}
+
+export interface DiagramLayout {
+  name: string;
+  columns: number;
+  zones: DiagramZone[];
+}
+
+// Top-down view, front at the top
+const CAR_LAYOUT: DiagramLayout = {
+  name: "Car",
+  columns: 3,
+  zones: [
+    { id: "front_bumper", label: "Front bumper", row: 1, col: 1, colSpan: 3 },
+    { id: "left_fender", label: "L fender", row: 2, col: 1 },
+    { id: "hood", label: "Hood", row: 2, col: 2 },
+    { id: "right_fender", label: "R fender", row: 2, col: 3 },
+    { id: "left_front_door", label: "L front door", row: 3, col: 1 },
+    { id: "windshield", label: "Windshield", row: 3, col: 2 },
+    { id: "right_front_door", label: "R front door", row: 3, col: 3 },
+    { id: "left_rear_door", label: "L rear door", row: 4, col: 1 },
+    { id: "roof", label: "Roof", row: 4, col: 2 },
+    { id: "right_rear_door", label: "R rear door", row: 4, col: 3 },
+    { id: "left_quarter", label: "L quarter", row: 5, col: 1 },
+    { id: "trunk", label: "Trunk / hatch", row: 5, col: 2 },
+    { id: "right_quarter", label: "R quarter", row: 5, col: 3 },
+    { id: "rear_bumper", label: "Rear bumper", row: 6, col: 1, colSpan: 3 },
+    { id: "wheels", label: "Wheels / rims", row: 7, col: 1 },
+    { id: "mirrors", label: "Mirrors", row: 7, col: 2 },
+    { id: "lights", label: "Lights", row: 7, col: 3 },
+  ],
+};
+
+const PICKUP_LAYOUT: DiagramLayout = {
+  name: "Pickup",
+  columns: 3,
+  zones: [
+    { id: "front_bumper", label: "Front bumper", row: 1, col: 1, colSpan: 3 },
+    { id: "left_fender", label: "L fender", row: 2, col: 1 },
+    { id: "hood", label: "Hood", row: 2, col: 2 },
+    { id: "right_fender", label: "R fender", row: 2, col: 3 },
+    { id: "left_front_door", label: "L front door", row: 3, col: 1 },
+    { id: "windshield", label: "Windshield", row: 3, col: 2 },
+    { id: "right_front_door", label: "R front door", row: 3, col: 3 },
+    { id: "left_rear_door", label: "L rear door", row: 4, col: 1 },
+    { id: "roof", label: "Roof", row: 4, col: 2 },
+    { id: "right_rear_door", label: "R rear door", row: 4, col: 3 },
+    { id: "left_bed_side", label: "L bed side", row: 5, col: 1 },
+    { id: "bed", label: "Bed", row: 5, col: 2 },
+    { id: "right_bed_side", label: "R bed side", row: 5, col: 3 },
+    { id: "tailgate", label: "Tailgate / bumper", row: 6, col: 1, colSpan: 3 },
+    { id: "wheels", label: "Wheels / rims", row: 7, col: 1 },
+    { id: "mirrors", label: "Mirrors", row: 7, col: 2 },
+    { id: "lights", label: "Lights", row: 7, col: 3 },
+  ],
+};
+
+const MOTORCYCLE_LAYOUT: DiagramLayout = {
+  name: "Motorcycle",
+  columns: 2,
+  zones: [
+    { id: "front_fender", label: "Front fender", row: 1, col: 1, colSpan: 2 },
+    { id: "headlight", label: "Headlight", row: 2, col: 1 },
+    { id: "handlebars", label: "Handlebars / mirrors", row: 2, col: 2 },
+    { id: "left_fairing", label: "L fairing", row: 3, col: 1 },
+    { id: "right_fairing", label: "R fairing", row: 3, col: 2 },
+    { id: "tank", label: "Tank", row: 4, col: 1 },
+    { id: "seat", label: "Seat", row: 4, col: 2 },
+    { id: "exhaust", label: "Exhaust", row: 5, col: 1 },
+    { id: "rear_fender", label: "Rear fender / tail", row: 5, col: 2 },
+    { id: "wheels", label: "Wheels / rims", row: 6, col: 1, colSpan: 2 },
+  ],
+};
+
+/**
+ * Diagram for a catalog vehicle type. Types are free text, so the body style
+ * is guessed from the name; anything unrecognized uses the car layout.
+ */
+export function diagramFor(vehicleType: string | null | undefined) {
+  const type = (vehicleType ?? "").toLowerCase();
+  if (/motor|scooter|bike/.test(type)) return MOTORCYCLE_LAYOUT;
+  if (/pick-?up|truck/.test(type)) return PICKUP_LAYOUT;
+  return CAR_LAYOUT;
+}
+
+/**
+ * Adds the mark, or removes it when the zone already has that damage type
+ */
+export function toggleMark(
+  marks: DamageMark[],
+  zone: string,
+  type: DamageType
+): DamageMark[] {
+  return marks.some((m) => m.zone === zone && m.type === type)
+    ? marks.filter((m) => !(m.zone === zone && m.type === type))
+    : [...marks, { zone, type }];
+}
+
+export function damageStyle(type: DamageType): string {
+  return DAMAGE_TYPES.find((d) => d.type === type)?.style ?? "bg-gray-500";
+}
+
+export function damageLabel(type: DamageType): string {
+  return DAMAGE_TYPES.find((d) => d.type === type)?.label ?? type;
+}
+
+/**
+ * Marks as readable text, e.g. "Hood: Scratch, Dent"
+ */
+export function describeMarks(
+  marks: DamageMark[],
+  layout: DiagramLayout
+): string[] {
+  return layout.zones
+    .map((zone) => ({
+      zone,
+      types: marks.filter((m) => m.zone === zone.id).map((m) => m.type),
+    }))
+    .filter((z) => z.types.length > 0)
+    .map((z) => `${z.zone.label}: ${z.types.map(damageLabel).join(", ")}`);
+}
+
+/**
+ * Short line for ticket cards, e.g. "2 damage marks · 3 photos"
+ */
+export function conditionSummary(condition: VehicleCondition): string {
+  const plural = (n: number, word: string) =>
+    `${n} ${word}${n === 1 ? "" : "s"}`;
+  return [
+    condition.marks.length
+      ? plural(condition.marks.length, "damage mark")
+      : "No damage",
+    condition.photos.length > 0 && plural(condition.photos.length, "photo"),
+    condition.valuables.length > 0 && "valuables inside",
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
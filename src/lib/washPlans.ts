@@ -0,0 +1,158 @@
+// Carwash packages, prepaid wash cards and unlimited memberships
+// A package is a catalog service that bundles other services at its own
+// price. Wash plans are sold at the carwash POS to one vehicle (by plate):
+// the order carries the plan line and the backend opens the membership for
+// the order's plate. Redeeming a plan covers one eligible service per visit;
+// the order carries the redemption and the backend deducts it, so both work
+// for orders that were queued offline.
+
+import type {
+  CatalogService,
+  Membership,
+  OrderMembership,
+  WashPlan,
+} from "./apiTypes";
+
+// Catalog category offered for packages in Settings
+export const PACKAGE_CATEGORY = "Package";
+
+// Category of plan lines in the POS cart (no catalog service behind them)
+export const PLAN_CATEGORY = "Wash Plan";
+
+export const PLAN_TYPE_LABELS: Record<WashPlan["type"], string> = {
+  prepaid: "Prepaid card",
+  unlimited: "Unlimited",
+};
+
+// A POS cart line as far as plan coverage is concerned
+export interface CoverableLine {
+  cartId: string;
+  serviceId: string;
+  vehicle: string;
+  price: number;
+  // Set on lines that sell a plan; these are never covered
+  planId?: number;
+}
+
+export function isPackage(service: CatalogService): boolean {
+  return (service.package_items?.length ?? 0) > 0;
+}
+
+// Numeric columns may arrive as strings
+export function normalizePlan(plan: WashPlan): WashPlan {
+  return {
+    ...plan,
+    price: Number(plan.price),
+    washes: plan.washes === null ? null : Number(plan.washes),
+    validity_days: Number(plan.validity_days),
+    service_ids: plan.service_ids ?? [],
+  };
+}
+
+/**
+ * Expiry of a plan sold now, printed on the receipt
+ */
+export function planExpiry(plan: WashPlan, from: Date = new Date()): Date {
+  const expiry = new Date(from);
+  expiry.setDate(expiry.getDate() + plan.validity_days);
+  return expiry;
+}
+
+/**
+ * Why a membership can't be used today, or null when it can
+ */
+export function redeemBlocker(
+  membership: Membership,
+  now: Date = new Date()
+): string | null {
+  if (membership.status === "cancelled") return "Cancelled";
+  if (new Date(membership.expires_at).getTime() < now.getTime()) {
+    return "Expired";
+  }
+  if (membership.type === "prepaid" && !membership.washes_remaining) {
+    return "No washes left";
+  }
+  return null;
+}
+
+function covers(membership: Membership, line: CoverableLine): boolean {
+  if (line.planId !== undefined) return false;
+  if (membership.vehicle_type && membership.vehicle_type !== line.vehicle) {
+    return false;
+  }
+  return (
+    membership.service_ids.length === 0 ||
+    membership.service_ids.some((id) => id.toString() === line.serviceId)
+  );
+}
+
+/**
+ * Line the membership pays for: the priciest eligible service in the cart
+ */
+export function coveredLine<T extends CoverableLine>(
+  membership: Membership,
+  lines: T[]
+): T | null {
+  return lines
+    .filter((line) => covers(membership, line))
+    .reduce<T | null>(
+      (best, line) => (!best || line.price > best.price ? line : best),
+      null
+    );
+}
+
+/**
+ * Redemption to store with an order, or null when nothing is covered
+ */
+export function orderMembership(
+  membership: Membership | null,
+  line: CoverableLine | null
+): OrderMembership | null {
+  if (!membership || !line) return null;
+  return {
+    membership_id: membership.id,
+    plan_name: membership.plan_name,
+    type: membership.type,
+    plate_number: membership.plate_number,
+    covered_line_id: line.cartId,
+    amount_covered: line.price,
+    washes_remaining:
+      membership.type === "prepaid"
+        ? Math.max(Number(membership.washes_remaining) - 1, 0)
+        : null,
+    expires_at: membership.expires_at,
+  };
+}
+
+/**
+ * "3 of 10 washes left" or "Unlimited", for lists and the POS panel
+ */
+export function membershipBalance(membership: Membership): string {
+  if (membership.type === "unlimited") return "Unlimited";
+  return `${membership.washes_remaining ?? 0} of ${
+    membership.washes_total ?? 0
+  } washes left`;
+}
+
+export function formatExpiry(date: string | Date): string {
+  return new Date(date).toLocaleDateString("en-US", {
+    month: "short",
+    day: "2-digit",
+    year: "numeric",
+  });
+}
+
+/**
+ * Plan balance lines for the ESC/POS receipt
+ */
+export function receiptMembership(
+  membership: OrderMembership | null | undefined
+) {
+  if (!membership) return null;
+  return {
+    planName: membership.plan_name,
+    plateNumber: membership.plate_number,
+    washesRemaining: membership.washes_remaining,
+    validUntil: formatExpiry(membership.expires_at),
+  };
+}
@@ -1,5 +1,6 @@
 // ESC/POS byte command builder for 58mm thermal printers
-// Generates ESC/POS commands for Coffee and Carwash receipts
+// Generates ESC/POS commands for Coffee and Carwash receipts, refund slips
+// and shift reports
 
 // ESC/POS command constants
 const ESC = 0x1b;
@@ -75,26 +76,228 @@ function wrapText(text: string, width = 32): string[] {
   return lines;
 }
 
+// Size, add-on or sugar level chosen for an item
+interface ReceiptModifier {
+  name: string;
+  priceDelta: number;
+}
+
 interface CoffeeOrderItem {
   name: string;
   option: string | null;
+  modifiers?: ReceiptModifier[];
   quantity: number;
   price: number;
+  // VAT removed from a VAT-exempt (Senior/PWD) line
+  lessVat?: number;
+  // Discount granted on this line
+  discount?: number;
+}
+
+// VAT breakdown of the sale
+interface ReceiptVat {
+  vatableSales: number;
+  vatAmount: number;
+  vatExemptSales: number;
+  lessVat: number;
+}
+
+// Loyalty reward and points activity of the sale
+interface ReceiptLoyalty {
+  rewardName?: string | null;
+  rewardAmount?: number;
+  pointsEarned: number;
+  pointsRedeemed: number;
+  balance: number;
+}
+
+// Wash plan redeemed on the sale and what is left of it
+interface ReceiptMembership {
+  planName: string;
+  plateNumber: string;
+  // Null for unlimited plans
+  washesRemaining: number | null;
+  validUntil: string;
+}
+
+// Amount charged to a corporate account, signed for at the counter
+interface ReceiptAccount {
+  accountName: string;
+  amount: number;
+}
+
+// One payment line of a (possibly split) tender
+interface ReceiptTender {
+  method: string;
+  amount: number;
+  reference?: string | null;
 }
 
 interface CoffeeOrder {
   orderId: string;
+  orNumber?: string | null;
   items: CoffeeOrderItem[];
   subtotal: number;
   discountType: string | null;
   discountAmount: number;
+  discountIdNumber?: string | null;
+  discountHolderName?: string | null;
+  vat?: ReceiptVat;
+  loyalty?: ReceiptLoyalty | null;
+  account?: ReceiptAccount | null;
   total: number;
   paymentMethod: string;
+  tenders?: ReceiptTender[];
   cashReceived?: number;
   change?: number;
   timestamp: string;
 }
 
+/**
+ * Print each tender line with its reference, followed by change
+ */
+function tenderLines(tenders: ReceiptTender[], change?: number): number[] {
+  const bytes: number[] = [];
+  for (const tender of tenders) {
+    bytes.push(...textToBytes(padLine(`${tender.method}:`, `P${tender.amount.toFixed(2)}`)));
+    bytes.push(...LF);
+    if (tender.reference) {
+      bytes.push(...textToBytes(`  Ref: ${tender.reference}`));
+      bytes.push(...LF);
+    }
+  }
+  if (change !== undefined && change > 0) {
+    bytes.push(...textToBytes(padLine("Change:", `P${change.toFixed(2)}`)));
+    bytes.push(...LF);
+  }
+  return bytes;
+}
+
+/**
+ * Print the per-line discount under an item
+ */
+function itemDiscountLine(discount: number | undefined, label: string | null | undefined): number[] {
+  if (!discount || discount <= 0) return [];
+  return [...textToBytes(padLine(`  Less: ${label || "Discount"}`, `-P${discount.toFixed(2)}`)), ...LF];
+}
+
+/**
+ * Print the VAT removed from a VAT-exempt item
+ */
+function itemLessVatLine(lessVat: number | undefined): number[] {
+  if (!lessVat || lessVat <= 0) return [];
+  return [...textToBytes(padLine("  Less: VAT", `-P${lessVat.toFixed(2)}`)), ...LF];
+}
+
+/**
+ * Print the "Less VAT" line for VAT-exempt sales, below the subtotal
+ */
+function lessVatLine(vat: ReceiptVat | undefined): number[] {
+  if (!vat || vat.lessVat <= 0) return [];
+  return [...textToBytes(padLine("Less VAT (12%):", `-P${vat.lessVat.toFixed(2)}`)), ...LF];
+}
+
+/**
+ * Print the VATable / VAT-exempt / VAT summary below the total
+ */
+function vatBreakdownLines(vat: ReceiptVat | undefined): number[] {
+  if (!vat) return [];
+  const bytes: number[] = [];
+  bytes.push(...textToBytes(padLine("VATable Sales:", `P${vat.vatableSales.toFixed(2)}`)));
+  bytes.push(...LF);
+  bytes.push(...textToBytes(padLine("VAT-Exempt Sales:", `P${vat.vatExemptSales.toFixed(2)}`)));
+  bytes.push(...LF);
+  bytes.push(...textToBytes(padLine("VAT (12%):", `P${vat.vatAmount.toFixed(2)}`)));
+  bytes.push(...LF);
+  bytes.push(...textToBytes(SEPARATOR));
+  bytes.push(...LF);
+  return bytes;
+}
+
+/**
+ * Print the redeemed loyalty reward, below the discount
+ */
+function rewardLine(loyalty: ReceiptLoyalty | null | undefined): number[] {
+  if (!loyalty?.rewardAmount || loyalty.rewardAmount <= 0) return [];
+  return [...textToBytes(padLine(`Reward (${loyalty.rewardName || "Points"}):`, `-P${loyalty.rewardAmount.toFixed(2)}`)), ...LF];
+}
+
+/**
+ * Print points earned, redeemed and the new balance above the footer
+ */
+function loyaltyLines(loyalty: ReceiptLoyalty | null | undefined): number[] {
+  if (!loyalty) return [];
+  const bytes: number[] = [];
+  bytes.push(...textToBytes(SEPARATOR));
+  bytes.push(...LF);
+  if (loyalty.pointsRedeemed > 0) {
+    bytes.push(...textToBytes(padLine("Points redeemed:", `-${loyalty.pointsRedeemed}`)));
+    bytes.push(...LF);
+  }
+  bytes.push(...textToBytes(padLine("Points earned:", `+${loyalty.pointsEarned}`)));
+  bytes.push(...LF);
+  bytes.push(...BOLD_ON);
+  bytes.push(...textToBytes(padLine("Points balance:", String(loyalty.balance))));
+  bytes.push(...BOLD_OFF);
+  bytes.push(...LF);
+  return bytes;
+}
+
+/**
+ * Print the plan's remaining washes and expiry above the footer
+ */
+function membershipLines(membership: ReceiptMembership | null | undefined): number[] {
+  if (!membership) return [];
+  const bytes: number[] = [];
+  bytes.push(...textToBytes(SEPARATOR));
+  bytes.push(...LF);
+  bytes.push(...textToBytes(padLine("Plan:", membership.planName)));
+  bytes.push(...LF);
+  bytes.push(...textToBytes(padLine("Plate:", membership.plateNumber)));
+  bytes.push(...LF);
+  bytes.push(...BOLD_ON);
+  bytes.push(...textToBytes(padLine("Washes left:", membership.washesRemaining === null ? "Unlimited" : String(membership.washesRemaining))));
+  bytes.push(...BOLD_OFF);
+  bytes.push(...LF);
+  bytes.push(...textToBytes(padLine("Valid until:", membership.validUntil)));
+  bytes.push(...LF);
+  return bytes;
+}
+
+/**
+ * Print the charged account with a signature line above the footer
+ */
+function accountLines(account: ReceiptAccount | null | undefined): number[] {
+  if (!account) return [];
+  const bytes: number[] = [];
+  bytes.push(...textToBytes(SEPARATOR));
+  bytes.push(...LF);
+  bytes.push(...textToBytes(padLine("Charged to:", account.accountName)));
+  bytes.push(...LF);
+  bytes.push(...textToBytes(padLine("Amount:", `P${account.amount.toFixed(2)}`)));
+  bytes.push(...LF);
+  bytes.push(...LF);
+  bytes.push(...textToBytes("Signature: ____________________"));
+  bytes.push(...LF);
+  return bytes;
+}
+
+/**
+ * Print the discount card holder's ID (required for Senior/PWD)
+ */
+function discountHolderLines(idNumber?: string | null, holderName?: string | null): number[] {
+  const bytes: number[] = [];
+  if (holderName) {
+    bytes.push(...textToBytes(`Name: ${holderName}`));
+    bytes.push(...LF);
+  }
+  if (idNumber) {
+    bytes.push(...textToBytes(`ID No: ${idNumber}`));
+    bytes.push(...LF);
+  }
+  return bytes;
+}
+
 /**
  * Generate ESC/POS bytes for Coffee receipt
  */
@@ -120,6 +323,10 @@ export function generateCoffeeReceipt(order: CoffeeOrder): Uint8Array {
   bytes.push(...textToBytes(order.timestamp));
   bytes.push(...LF);
   bytes.push(...BOLD_ON);
+  if (order.orNumber) {
+    bytes.push(...textToBytes(`OR No: ${order.orNumber}`));
+    bytes.push(...LF);
+  }
   bytes.push(...textToBytes(`Order: ${order.orderId}`));
   bytes.push(...BOLD_OFF);
   bytes.push(...LF);
@@ -138,11 +345,24 @@ export function generateCoffeeReceipt(order: CoffeeOrder): Uint8Array {
       bytes.push(...LF);
     }
     
+    // Modifiers, with price delta when they change the price
+    for (const modifier of item.modifiers ?? []) {
+      const label = `  + ${modifier.name}`;
+      if (modifier.priceDelta !== 0) {
+        bytes.push(...textToBytes(padLine(label, `P${modifier.priceDelta.toFixed(2)}`)));
+      } else {
+        bytes.push(...textToBytes(label));
+      }
+      bytes.push(...LF);
+    }
+    
     // Quantity x Price = Line Total
     const qtyPrice = `  ${item.quantity} x P${item.price.toFixed(2)}`;
     const lineTotal = `P${(item.quantity * item.price).toFixed(2)}`;
     bytes.push(...textToBytes(padLine(qtyPrice, lineTotal)));
     bytes.push(...LF);
+    bytes.push(...itemLessVatLine(item.lessVat));
+    bytes.push(...itemDiscountLine(item.discount, order.discountType));
   }
   
   bytes.push(...textToBytes(SEPARATOR));
@@ -151,12 +371,15 @@ export function generateCoffeeReceipt(order: CoffeeOrder): Uint8Array {
   // Subtotal
   bytes.push(...textToBytes(padLine("Subtotal:", `P${order.subtotal.toFixed(2)}`)));
   bytes.push(...LF);
+  bytes.push(...lessVatLine(order.vat));
   
   // Discount if any
   if (order.discountType && order.discountAmount > 0) {
     bytes.push(...textToBytes(padLine(`Discount (${order.discountType}):`, `-P${order.discountAmount.toFixed(2)}`)));
     bytes.push(...LF);
+    bytes.push(...discountHolderLines(order.discountIdNumber, order.discountHolderName));
   }
+  bytes.push(...rewardLine(order.loyalty));
   
   // Total - bold
   bytes.push(...BOLD_ON);
@@ -166,11 +389,16 @@ export function generateCoffeeReceipt(order: CoffeeOrder): Uint8Array {
   bytes.push(...textToBytes(SEPARATOR_DOUBLE));
   bytes.push(...LF);
   
+  // VAT breakdown
+  bytes.push(...vatBreakdownLines(order.vat));
+  
   // Payment details
   bytes.push(...textToBytes(padLine("Payment:", order.paymentMethod)));
   bytes.push(...LF);
   
-  if (order.paymentMethod === "Cash" && order.cashReceived !== undefined) {
+  if (order.tenders && order.tenders.length > 0) {
+    bytes.push(...tenderLines(order.tenders, order.change));
+  } else if (order.paymentMethod === "Cash" && order.cashReceived !== undefined) {
     bytes.push(...textToBytes(padLine("Cash:", `P${order.cashReceived.toFixed(2)}`)));
     bytes.push(...LF);
     if (order.change !== undefined && order.change > 0) {
@@ -179,6 +407,8 @@ export function generateCoffeeReceipt(order: CoffeeOrder): Uint8Array {
     }
   }
   
+  bytes.push(...loyaltyLines(order.loyalty));
+  bytes.push(...accountLines(order.account));
   bytes.push(...LF);
   
   // Footer - centered
@@ -201,12 +431,27 @@ interface CarwashOrderItem {
   vehicle: string;
   quantity: number;
   price: number;
+  // VAT removed from a VAT-exempt (Senior/PWD) line
+  lessVat?: number;
+  // Discount granted on this line
+  discount?: number;
+  // Extra lines under the item: package contents, plan validity, coverage
+  notes?: string[];
 }
 
 interface CarwashOrder {
   orderId: string;
+  orNumber?: string | null;
   items: CarwashOrderItem[];
   subtotal: number;
+  discountType?: string | null;
+  discountAmount?: number;
+  discountIdNumber?: string | null;
+  discountHolderName?: string | null;
+  vat?: ReceiptVat;
+  loyalty?: ReceiptLoyalty | null;
+  membership?: ReceiptMembership | null;
+  account?: ReceiptAccount | null;
   total: number;
   paymentMethod: string;
   customerName?: string;
@@ -241,6 +486,10 @@ export function generateCarwashReceipt(order: CarwashOrder): Uint8Array {
   bytes.push(...textToBytes(order.timestamp));
   bytes.push(...LF);
   bytes.push(...BOLD_ON);
+  if (order.orNumber) {
+    bytes.push(...textToBytes(`OR No: ${order.orNumber}`));
+    bytes.push(...LF);
+  }
   bytes.push(...textToBytes(`Order: ${order.orderId}`));
   bytes.push(...BOLD_OFF);
   bytes.push(...LF);
@@ -275,11 +524,34 @@ export function generateCarwashReceipt(order: CarwashOrder): Uint8Array {
     const lineTotal = `P${(item.quantity * item.price).toFixed(2)}`;
     bytes.push(...textToBytes(padLine(qtyPrice, lineTotal)));
     bytes.push(...LF);
+    for (const note of item.notes ?? []) {
+      for (const line of wrapText(`  ${note}`, 32)) {
+        bytes.push(...textToBytes(line));
+        bytes.push(...LF);
+      }
+    }
+    bytes.push(...itemLessVatLine(item.lessVat));
+    bytes.push(...itemDiscountLine(item.discount, order.discountType));
   }
   
   bytes.push(...textToBytes(SEPARATOR));
   bytes.push(...LF);
   
+  // Subtotal, VAT removed, discount and reward if any
+  const hasDiscount = !!(order.discountType && order.discountAmount && order.discountAmount > 0);
+  const hasReward = !!(order.loyalty?.rewardAmount && order.loyalty.rewardAmount > 0);
+  if (hasDiscount || hasReward) {
+    bytes.push(...textToBytes(padLine("Subtotal:", `P${order.subtotal.toFixed(2)}`)));
+    bytes.push(...LF);
+    bytes.push(...lessVatLine(order.vat));
+  }
+  if (hasDiscount) {
+    bytes.push(...textToBytes(padLine(`Discount (${order.discountType}):`, `-P${order.discountAmount!.toFixed(2)}`)));
+    bytes.push(...LF);
+    bytes.push(...discountHolderLines(order.discountIdNumber, order.discountHolderName));
+  }
+  bytes.push(...rewardLine(order.loyalty));
+  
   // Total - bold
   bytes.push(...BOLD_ON);
   bytes.push(...textToBytes(padLine("TOTAL:", `P${order.total.toFixed(2)}`)));
@@ -288,6 +560,9 @@ export function generateCarwashReceipt(order: CarwashOrder): Uint8Array {
   bytes.push(...textToBytes(SEPARATOR_DOUBLE));
   bytes.push(...LF);
   
+  // VAT breakdown
+  bytes.push(...vatBreakdownLines(order.vat));
+  
   // Payment details
   bytes.push(...textToBytes(padLine("Payment:", order.paymentMethod)));
   bytes.push(...LF);
@@ -301,6 +576,9 @@ export function generateCarwashReceipt(order: CarwashOrder): Uint8Array {
     }
   }
   
+  bytes.push(...loyaltyLines(order.loyalty));
+  bytes.push(...membershipLines(order.membership));
+  bytes.push(...accountLines(order.account));
   bytes.push(...LF);
   
   // Footer - centered
@@ -318,6 +596,360 @@ export function generateCarwashReceipt(order: CarwashOrder): Uint8Array {
   return new Uint8Array(bytes);
 }
 
+interface RefundSlipItem {
+  name: string;
+  quantity: number;
+  amount: number;
+}
+
+interface RefundSlip {
+  orderId: string;
+  orNumber?: string | null;
+  businessUnit: string;
+  type: "void" | "refund";
+  items: RefundSlipItem[];
+  amount: number;
+  reason: string;
+  approvedBy: string;
+  processedBy: string;
+  paymentMethod: string;
+  timestamp: string;
+}
+
+/**
+ * Generate ESC/POS bytes for a void/refund slip
+ */
+export function generateRefundSlip(slip: RefundSlip): Uint8Array {
+  const bytes: number[] = [];
+  
+  // Initialize
+  bytes.push(...INIT);
+  
+  // Header - centered, double size
+  bytes.push(...ALIGN_CENTER);
+  bytes.push(...DOUBLE_WIDTH_ON);
+  bytes.push(...BOLD_ON);
+  bytes.push(...textToBytes("ONEFAITH"));
+  bytes.push(...LF);
+  bytes.push(...textToBytes(slip.type === "void" ? "VOID" : "REFUND"));
+  bytes.push(...LF);
+  bytes.push(...DOUBLE_WIDTH_OFF);
+  bytes.push(...BOLD_OFF);
+  bytes.push(...LF);
+  
+  // Timestamp and original order
+  bytes.push(...textToBytes(slip.timestamp));
+  bytes.push(...LF);
+  bytes.push(...BOLD_ON);
+  if (slip.orNumber) {
+    bytes.push(...textToBytes(`OR No: ${slip.orNumber}`));
+    bytes.push(...LF);
+  }
+  bytes.push(...textToBytes(`Order: ${slip.orderId}`));
+  bytes.push(...BOLD_OFF);
+  bytes.push(...LF);
+  bytes.push(...textToBytes(slip.businessUnit));
+  bytes.push(...LF);
+  bytes.push(...textToBytes(SEPARATOR_DOUBLE));
+  bytes.push(...LF);
+  
+  // Returned items - left aligned, amounts negative
+  bytes.push(...ALIGN_LEFT);
+  
+  for (const item of slip.items) {
+    const wrappedName = wrapText(item.name, 32);
+    for (const line of wrappedName) {
+      bytes.push(...textToBytes(line));
+      bytes.push(...LF);
+    }
+    bytes.push(...textToBytes(padLine(`  ${item.quantity} x`, `-P${item.amount.toFixed(2)}`)));
+    bytes.push(...LF);
+  }
+  
+  bytes.push(...textToBytes(SEPARATOR));
+  bytes.push(...LF);
+  
+  // Total returned - bold
+  bytes.push(...BOLD_ON);
+  bytes.push(...textToBytes(padLine("TOTAL REFUND:", `-P${slip.amount.toFixed(2)}`)));
+  bytes.push(...BOLD_OFF);
+  bytes.push(...LF);
+  bytes.push(...textToBytes(padLine("Paid via:", slip.paymentMethod)));
+  bytes.push(...LF);
+  bytes.push(...textToBytes(SEPARATOR_DOUBLE));
+  bytes.push(...LF);
+  
+  // Reason and approval
+  for (const line of wrapText(`Reason: ${slip.reason}`, 32)) {
+    bytes.push(...textToBytes(line));
+    bytes.push(...LF);
+  }
+  bytes.push(...textToBytes(`Approved by: ${slip.approvedBy}`));
+  bytes.push(...LF);
+  bytes.push(...textToBytes(`Processed by: ${slip.processedBy}`));
+  bytes.push(...LF);
+  bytes.push(...LF);
+  
+  // Signature line for the customer
+  bytes.push(...ALIGN_CENTER);
+  bytes.push(...textToBytes("________________________"));
+  bytes.push(...LF);
+  bytes.push(...textToBytes("Customer Signature"));
+  bytes.push(...LF);
+  bytes.push(...LF);
+  bytes.push(...LF);
+  
+  // Cut paper
+  bytes.push(...CUT);
+  
+  return new Uint8Array(bytes);
+}
+
+interface ReportLine {
+  name: string;
+  count: number;
+  amount: number;
+}
+
+// Sales totals shared by the X- and Z-reports
+interface ReportSales {
+  transactionCount: number;
+  grossSales: number;
+  discounts: ReportLine[];
+  lessVat: number;
+  voids: ReportLine;
+  netSales: number;
+  payments: ReportLine[];
+  businessUnits: ReportLine[];
+  vatableSales: number;
+  vatAmount: number;
+  vatExemptSales: number;
+  firstReceipt: string | null;
+  lastReceipt: string | null;
+}
+
+interface ZReportCount {
+  denomination: number;
+  quantity: number;
+}
+
+// Drawer reconciliation printed when a shift is closed
+interface ZReportDrawer {
+  startingFloat: number;
+  cashSales: number;
+  changeGiven: number;
+  cashRefunds: number;
+  expectedCash: number;
+  counts: ZReportCount[];
+  countedCash: number;
+  overShort: number;
+}
+
+interface XReport {
+  shiftId?: number;
+  cashierName: string;
+  periodStart: string;
+  sales: ReportSales;
+  timestamp: string;
+}
+
+interface ZReport {
+  // e.g. "Shift #12" or "Business Day"
+  scope: string;
+  cashierName?: string;
+  periodStart: string;
+  periodEnd: string;
+  sales?: ReportSales;
+  drawer?: ZReportDrawer;
+  notes?: string | null;
+  timestamp: string;
+}
+
+function money(amount: number): string {
+  return `${amount < 0 ? "-" : ""}P${Math.abs(amount).toFixed(2)}`;
+}
+
+function textLine(text: string): number[] {
+  return [...textToBytes(text), ...LF];
+}
+
+function boldLine(text: string): number[] {
+  return [...BOLD_ON, ...textToBytes(text), ...BOLD_OFF, ...LF];
+}
+
+/**
+ * Report header: store name and report title in double size
+ */
+function reportHeaderLines(title: string, timestamp: string): number[] {
+  const bytes: number[] = [];
+  bytes.push(...INIT);
+  bytes.push(...ALIGN_CENTER);
+  bytes.push(...DOUBLE_WIDTH_ON);
+  bytes.push(...BOLD_ON);
+  bytes.push(...textLine("ONEFAITH"));
+  bytes.push(...textLine(title));
+  bytes.push(...DOUBLE_WIDTH_OFF);
+  bytes.push(...BOLD_OFF);
+  bytes.push(...LF);
+  bytes.push(...textLine(timestamp));
+  bytes.push(...textLine(SEPARATOR_DOUBLE));
+  bytes.push(...ALIGN_LEFT);
+  return bytes;
+}
+
+/**
+ * Print gross-to-net sales, payment totals, business units and VAT
+ */
+function salesSectionLines(sales: ReportSales): number[] {
+  const bytes: number[] = [];
+  
+  // Gross to net
+  bytes.push(...boldLine("SALES"));
+  bytes.push(...textLine(padLine("Transactions:", String(sales.transactionCount))));
+  bytes.push(...textLine(padLine("First OR:", sales.firstReceipt ?? "-")));
+  bytes.push(...textLine(padLine("Last OR:", sales.lastReceipt ?? "-")));
+  bytes.push(...textLine(padLine("Gross Sales:", money(sales.grossSales))));
+  if (sales.lessVat > 0) {
+    bytes.push(...textLine(padLine("Less VAT (exempt):", money(-sales.lessVat))));
+  }
+  for (const discount of sales.discounts) {
+    bytes.push(...textLine(padLine(`${discount.name} (${discount.count}):`, money(-discount.amount))));
+  }
+  bytes.push(...textLine(padLine(`Voids/Refunds (${sales.voids.count}):`, money(-sales.voids.amount))));
+  bytes.push(...BOLD_ON);
+  bytes.push(...textLine(padLine("NET SALES:", money(sales.netSales))));
+  bytes.push(...BOLD_OFF);
+  bytes.push(...textLine(SEPARATOR));
+  
+  // Payment methods
+  bytes.push(...boldLine("PAYMENTS"));
+  for (const payment of sales.payments) {
+    bytes.push(...textLine(padLine(`${payment.name} (${payment.count}):`, money(payment.amount))));
+  }
+  bytes.push(...textLine(SEPARATOR));
+  
+  // Business units, net of refunds
+  bytes.push(...boldLine("BY BUSINESS UNIT"));
+  for (const unit of sales.businessUnits) {
+    bytes.push(...textLine(padLine(`${unit.name} (${unit.count}):`, money(unit.amount))));
+  }
+  bytes.push(...textLine(SEPARATOR));
+  
+  // VAT breakdown
+  bytes.push(...textLine(padLine("VATable Sales:", money(sales.vatableSales))));
+  bytes.push(...textLine(padLine("VAT-Exempt Sales:", money(sales.vatExemptSales))));
+  bytes.push(...textLine(padLine("VAT (12%):", money(sales.vatAmount))));
+  bytes.push(...textLine(SEPARATOR_DOUBLE));
+  return bytes;
+}
+
+/**
+ * Print expected cash, the denomination count and over/short
+ */
+function drawerSectionLines(drawer: ZReportDrawer): number[] {
+  const bytes: number[] = [];
+  
+  // Expected cash
+  bytes.push(...boldLine("EXPECTED CASH"));
+  bytes.push(...textLine(padLine("Starting Float:", money(drawer.startingFloat))));
+  bytes.push(...textLine(padLine("Cash Received:", money(drawer.cashSales))));
+  bytes.push(...textLine(padLine("Change Given:", money(-drawer.changeGiven))));
+  bytes.push(...textLine(padLine("Cash Refunds:", money(-drawer.cashRefunds))));
+  bytes.push(...boldLine(padLine("Expected:", money(drawer.expectedCash))));
+  bytes.push(...textLine(SEPARATOR));
+  
+  // Denomination count
+  bytes.push(...boldLine("CASH COUNT"));
+  for (const count of drawer.counts) {
+    if (count.quantity <= 0) continue;
+    bytes.push(...textLine(padLine(`  P${count.denomination} x ${count.quantity}`, money(count.denomination * count.quantity))));
+  }
+  bytes.push(...boldLine(padLine("Counted:", money(drawer.countedCash))));
+  bytes.push(...textLine(SEPARATOR_DOUBLE));
+  
+  // Over/short - bold
+  const label = drawer.overShort > 0 ? "OVER:" : drawer.overShort < 0 ? "SHORT:" : "BALANCED:";
+  bytes.push(...boldLine(padLine(label, money(drawer.overShort))));
+  bytes.push(...textLine(SEPARATOR_DOUBLE));
+  return bytes;
+}
+
+/**
+ * Generate ESC/POS bytes for the mid-shift X-report (does not close anything)
+ */
+export function generateXReport(report: XReport): Uint8Array {
+  const bytes: number[] = [];
+  
+  bytes.push(...reportHeaderLines("X-REPORT", report.timestamp));
+  
+  // Shift details
+  if (report.shiftId !== undefined) {
+    bytes.push(...textLine(padLine("Shift:", `#${report.shiftId}`)));
+  }
+  bytes.push(...textLine(padLine("Cashier:", report.cashierName)));
+  bytes.push(...textLine(padLine("Since:", report.periodStart)));
+  bytes.push(...textLine(SEPARATOR));
+  
+  bytes.push(...salesSectionLines(report.sales));
+  
+  // Footer
+  bytes.push(...ALIGN_CENTER);
+  bytes.push(...textLine("Mid-shift reading only"));
+  bytes.push(...LF);
+  bytes.push(...LF);
+  
+  // Cut paper
+  bytes.push(...CUT);
+  
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Generate ESC/POS bytes for the Z-report: end of shift (with the drawer
+ * count) or end of day (all staff)
+ */
+export function generateZReport(report: ZReport): Uint8Array {
+  const bytes: number[] = [];
+  
+  bytes.push(...reportHeaderLines("Z-REPORT", report.timestamp));
+  
+  // Period details
+  bytes.push(...textLine(padLine("Scope:", report.scope)));
+  if (report.cashierName) {
+    bytes.push(...textLine(padLine("Cashier:", report.cashierName)));
+  }
+  bytes.push(...textLine(padLine("Start:", report.periodStart)));
+  bytes.push(...textLine(padLine("End:", report.periodEnd)));
+  bytes.push(...textLine(SEPARATOR));
+  
+  if (report.sales) bytes.push(...salesSectionLines(report.sales));
+  if (report.drawer) bytes.push(...drawerSectionLines(report.drawer));
+  
+  if (report.notes) {
+    for (const text of wrapText(`Notes: ${report.notes}`, 32)) {
+      bytes.push(...textLine(text));
+    }
+  }
+  bytes.push(...LF);
+  
+  // Signatures
+  bytes.push(...ALIGN_CENTER);
+  if (report.cashierName) {
+    bytes.push(...textLine("________________________"));
+    bytes.push(...textLine("Cashier"));
+    bytes.push(...LF);
+  }
+  bytes.push(...textLine("________________________"));
+  bytes.push(...textLine("Manager"));
+  bytes.push(...LF);
+  bytes.push(...LF);
+  
+  // Cut paper
+  bytes.push(...CUT);
+  
+  return new Uint8Array(bytes);
+}
+
 /**
  * Convert Uint8Array to Base64 for transmission
  */